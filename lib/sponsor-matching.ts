@@ -0,0 +1,552 @@
+/**
+ * Typo-Tolerant Sponsor Name Matching
+ *
+ * Shared by the DOL pipeline, which writes the match keys into the Firestore
+ * plan cache, and by plan search, which reads them. Both sides must normalize
+ * the same way, so keep the copy in
+ * services/plan-search-api/standalone-search/lib/ identical to this file;
+ * `npm run check:shared` in services/plan-search-api fails when they differ.
+ *
+ *   normalizeSponsorName  "J.P. Morgan Chase & Co."  -> "jp morgan chase"
+ *   trigrams              per-token character trigrams for similarity and candidate lookup
+ *   doubleMetaphone       phonetic codes, so "Filips" finds "Phillips"
+ *   editDistance          Damerau-Levenshtein, so "Mircosoft" finds "Microsoft"
+ *   scoreSponsorMatch     0..1 similarity of a query and a sponsor name
+ */
+
+export const FUZZY_MATCH_THRESHOLD = 0.6;
+
+// Legal forms dropped from the end of a name: "ACME CORP" and "Acme Inc" are the same sponsor
+const CORPORATE_SUFFIXES = new Set([
+  'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'cos', 'companies',
+  'llc', 'llp', 'lp', 'ltd', 'limited', 'plc', 'pc', 'pa', 'pllc', 'na', 'nv', 'sa', 'ag', 'gmbh'
+]);
+
+const STOPWORDS = new Set(['the', 'and', 'of']);
+
+const VOWELS = 'AEIOUY';
+
+export interface SponsorMatchKeys {
+  sponsorNameNormalized: string;
+  sponsorPhoneticKeys: string[];
+  sponsorTrigrams: string[];
+}
+
+export interface QueryMatchKeys {
+  normalized: string;
+  compact: string; // Normalized name without spaces: "jpmorgan"
+  tokens: string[];
+  phoneticKeys: string[];
+  trigrams: string[]; // Most selective first (no word-boundary padding)
+}
+
+/**
+ * Normalize a sponsor name for matching
+ * Lowercase ASCII words; periods and apostrophes join ("J.P." -> "jp"), other
+ * punctuation separates, runs of single letters merge ("J P Morgan" -> "jp morgan"),
+ * and trailing legal forms and stopwords are dropped.
+ */
+export function normalizeSponsorName(name: string): string {
+  const words = (name || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/([a-z0-9])&([a-z0-9])/g, '$1$2') // AT&T -> att
+    .replace(/[.'’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(word => word && !STOPWORDS.has(word));
+
+  const merged: string[] = [];
+  let inInitials = false;
+  for (const word of words) {
+    const isLetter = /^[a-z]$/.test(word);
+    if (isLetter && inInitials) {
+      merged[merged.length - 1] += word;
+    } else {
+      merged.push(word);
+      inInitials = isLetter;
+    }
+  }
+
+  while (merged.length > 1 && CORPORATE_SUFFIXES.has(merged[merged.length - 1])) {
+    merged.pop();
+  }
+
+  return merged.join(' ');
+}
+
+/**
+ * Character trigrams of each token, padded with a space at word boundaries
+ */
+export function trigrams(text: string): string[] {
+  const grams = new Set<string>();
+
+  for (const token of text.split(' ').filter(Boolean)) {
+    const padded = ` ${token} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      grams.add(padded.substring(i, i + 3));
+    }
+  }
+
+  return [...grams];
+}
+
+/**
+ * Jaccard similarity of two strings' trigram sets (0..1)
+ */
+export function trigramSimilarity(a: string, b: string): number {
+  const left = new Set(trigrams(a));
+  const right = new Set(trigrams(b));
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  left.forEach(gram => {
+    if (right.has(gram)) shared++;
+  });
+
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Damerau-Levenshtein distance (optimal string alignment)
+ * Insertions, deletions, substitutions and adjacent transpositions each cost 1.
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let twoBack: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], twoBack[j - 2] + 1);
+      }
+    }
+    twoBack = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Edits tolerated for a token of this length: none for short tokens, where
+ * one edit already turns most words into other words
+ */
+export function maxEditsFor(length: number): number {
+  if (length < 4) return 0;
+  if (length < 8) return 1;
+  return 2;
+}
+
+/**
+ * Double Metaphone (Lawrence Philips) primary and alternate codes of a word
+ * Covers the rules that matter for English and common European surnames and
+ * company names; codes are cut to maxLength as in the reference implementation.
+ */
+export function doubleMetaphone(word: string, maxLength = 4): [string, string] {
+  const w = (word || '').toUpperCase().replace(/[^A-Z]/g, '');
+  let primary = '';
+  let secondary = '';
+  let pos = 0;
+
+  const at = (index: number) => w.charAt(index);
+  const isOneOf = (index: number, letters: string) => index >= 0 && index < w.length && letters.includes(w.charAt(index));
+  const isVowel = (index: number) => isOneOf(index, VOWELS);
+  const matches = (index: number, ...options: string[]) =>
+    index >= 0 && options.some(option => w.substring(index, index + option.length) === option);
+  const add = (main: string, alternate = main) => {
+    primary += main;
+    secondary += alternate;
+  };
+
+  if (!w) return ['', ''];
+
+  // Silent first letters
+  if (matches(0, 'GN', 'KN', 'PN', 'WR', 'PS')) pos = 1;
+  if (at(0) === 'X') {
+    add('S');
+    pos = 1;
+  }
+
+  while (pos < w.length && (primary.length < maxLength || secondary.length < maxLength)) {
+    const ch = at(pos);
+
+    switch (ch) {
+      case 'A': case 'E': case 'I': case 'O': case 'U': case 'Y':
+        if (pos === 0) add('A');
+        pos++;
+        break;
+
+      case 'B':
+        add('P');
+        pos += at(pos + 1) === 'B' ? 2 : 1;
+        break;
+
+      case 'C':
+        if (matches(pos, 'CH')) {
+          if (pos === 0 && matches(pos, 'CHARAC', 'CHARIS', 'CHOR', 'CHYM', 'CHIA', 'CHEM')) {
+            add('K');
+          } else if (matches(0, 'VAN', 'VON', 'SCH') || matches(pos - 2, 'ORCHES', 'ARCHIT', 'ORCHID') || isOneOf(pos + 2, 'LRNMBHFVW')) {
+            add('K');
+          } else if (pos > 0) {
+            add(matches(0, 'MC') ? 'K' : 'X', 'K');
+          } else {
+            add('X');
+          }
+          pos += 2;
+        } else if (matches(pos, 'CZ')) {
+          add('S', 'X');
+          pos += 2;
+        } else if (matches(pos, 'CIA')) {
+          add('X');
+          pos += 3;
+        } else if (matches(pos, 'CC') && pos > 0 && isOneOf(pos + 2, 'IEH') && !matches(pos + 2, 'HU')) {
+          add((pos === 1 && at(0) === 'A') || matches(pos - 1, 'UCCEE', 'UCCES') ? 'KS' : 'X');
+          pos += 3;
+        } else if (matches(pos, 'CK', 'CG', 'CQ')) {
+          add('K');
+          pos += 2;
+        } else if (matches(pos, 'CI', 'CE', 'CY')) {
+          add('S', matches(pos, 'CIO', 'CIE', 'CIA') ? 'X' : 'S');
+          pos += 2;
+        } else {
+          add('K');
+          pos += matches(pos + 1, 'C', 'K', 'Q') && !matches(pos + 1, 'CE', 'CI') ? 2 : 1;
+        }
+        break;
+
+      case 'D':
+        if (matches(pos, 'DG')) {
+          if (isOneOf(pos + 2, 'IEY')) {
+            add('J');
+            pos += 3;
+          } else {
+            add('TK');
+            pos += 2;
+          }
+        } else {
+          add('T');
+          pos += matches(pos, 'DT', 'DD') ? 2 : 1;
+        }
+        break;
+
+      case 'F':
+        add('F');
+        pos += at(pos + 1) === 'F' ? 2 : 1;
+        break;
+
+      case 'G':
+        if (at(pos + 1) === 'H') {
+          if (pos > 0 && !isVowel(pos - 1)) {
+            add('K');
+          } else if (pos === 0) {
+            add(at(pos + 2) === 'I' ? 'J' : 'K');
+          } else if (pos > 2 && at(pos - 1) === 'U' && 'CGLRT'.includes(at(pos - 3))) {
+            add('F'); // LAUGH, TOUGH
+          }
+          pos += 2;
+        } else if (at(pos + 1) === 'N') {
+          if (pos === 1 && isVowel(0)) {
+            add('KN', 'N');
+          } else {
+            add('N', matches(pos + 2, 'EY') ? 'N' : 'KN');
+          }
+          pos += 2;
+        } else if (matches(pos + 1, 'LI')) {
+          add('KL', 'L');
+          pos += 2;
+        } else if (pos === 0 && (at(1) === 'Y' || matches(1, 'ES', 'EP', 'EB', 'EL', 'EY', 'IB', 'IL', 'IN', 'IE', 'EI', 'ER'))) {
+          add('K', 'J');
+          pos += 2;
+        } else if (isOneOf(pos + 1, 'EIY') || matches(pos - 1, 'AGGI', 'OGGI')) {
+          if (matches(0, 'VAN', 'VON', 'SCH') || matches(pos + 1, 'ET')) {
+            add('K');
+          } else if (matches(pos + 1, 'IER')) {
+            add('J');
+          } else {
+            add('J', 'K');
+          }
+          pos += 2;
+        } else {
+          add('K');
+          pos += at(pos + 1) === 'G' ? 2 : 1;
+        }
+        break;
+
+      case 'H':
+        if ((pos === 0 || isVowel(pos - 1)) && isVowel(pos + 1)) {
+          add('H');
+          pos += 2;
+        } else {
+          pos++;
+        }
+        break;
+
+      case 'J':
+        if (pos === 0) {
+          add('J', 'A');
+        } else if (isVowel(pos - 1) && isOneOf(pos + 1, 'AO')) {
+          add('J', 'H');
+        } else {
+          add('J');
+        }
+        pos += at(pos + 1) === 'J' ? 2 : 1;
+        break;
+
+      case 'K':
+        add('K');
+        pos += at(pos + 1) === 'K' ? 2 : 1;
+        break;
+
+      case 'L':
+        add('L');
+        pos += at(pos + 1) === 'L' ? 2 : 1;
+        break;
+
+      case 'M':
+        add('M');
+        pos += at(pos + 1) === 'M' || (matches(pos - 1, 'UMB') && (pos + 1 === w.length - 1 || matches(pos + 2, 'ER'))) ? 2 : 1;
+        break;
+
+      case 'N':
+        add('N');
+        pos += at(pos + 1) === 'N' ? 2 : 1;
+        break;
+
+      case 'P':
+        if (at(pos + 1) === 'H') {
+          add('F');
+          pos += 2;
+        } else {
+          add('P');
+          pos += isOneOf(pos + 1, 'PB') ? 2 : 1;
+        }
+        break;
+
+      case 'Q':
+        add('K');
+        pos += at(pos + 1) === 'Q' ? 2 : 1;
+        break;
+
+      case 'R':
+        add('R');
+        pos += at(pos + 1) === 'R' ? 2 : 1;
+        break;
+
+      case 'S':
+        if (matches(pos - 1, 'ISL', 'YSL')) {
+          pos++; // ISLAND, CARLYSLE
+        } else if (pos === 0 && matches(pos, 'SUGAR')) {
+          add('X', 'S');
+          pos++;
+        } else if (matches(pos, 'SH')) {
+          add(matches(pos + 1, 'HEIM', 'HOEK', 'HOLM', 'HOLZ') ? 'S' : 'X');
+          pos += 2;
+        } else if (matches(pos, 'SIO', 'SIA')) {
+          add('S', 'X');
+          pos += 3;
+        } else if ((pos === 0 && isOneOf(pos + 1, 'MNLW')) || at(pos + 1) === 'Z') {
+          add('S', 'X');
+          pos += at(pos + 1) === 'Z' ? 2 : 1;
+        } else if (matches(pos, 'SC')) {
+          if (at(pos + 2) === 'H') {
+            add(matches(pos + 3, 'ER', 'EN') ? 'X' : 'SK', 'SK'); // SCHENK vs SCHOOL
+          } else if (isOneOf(pos + 2, 'IEY')) {
+            add('S');
+          } else {
+            add('SK');
+          }
+          pos += 3;
+        } else {
+          add('S');
+          pos += at(pos + 1) === 'S' ? 2 : 1;
+        }
+        break;
+
+      case 'T':
+        if (matches(pos, 'TION', 'TIA', 'TCH')) {
+          add('X');
+          pos += 3;
+        } else if (matches(pos, 'TH', 'TTH')) {
+          add(matches(pos + 2, 'OM', 'AM') || matches(0, 'VAN', 'VON', 'SCH') ? 'T' : '0', 'T'); // THOMAS
+          pos += 2;
+        } else {
+          add('T');
+          pos += isOneOf(pos + 1, 'TD') ? 2 : 1;
+        }
+        break;
+
+      case 'V':
+        add('F');
+        pos += at(pos + 1) === 'V' ? 2 : 1;
+        break;
+
+      case 'W':
+        if (matches(pos, 'WR')) {
+          add('R');
+          pos += 2;
+        } else if (pos === 0 && (isVowel(pos + 1) || at(pos + 1) === 'H')) {
+          add('A', 'F');
+          pos++;
+        } else if (matches(pos, 'WICZ', 'WITZ')) {
+          add('TS', 'FX');
+          pos += 4;
+        } else {
+          pos++;
+        }
+        break;
+
+      case 'X':
+        if (!(pos === w.length - 1 && (matches(pos - 3, 'IAU', 'EAU') || matches(pos - 2, 'AU', 'OU')))) {
+          add('KS');
+        }
+        pos += isOneOf(pos + 1, 'CX') ? 2 : 1;
+        break;
+
+      case 'Z':
+        if (at(pos + 1) === 'H') {
+          add('J');
+          pos += 2;
+        } else {
+          add('S', matches(pos + 1, 'ZO', 'ZI', 'ZA') ? 'TS' : 'S');
+          pos += at(pos + 1) === 'Z' ? 2 : 1;
+        }
+        break;
+
+      default:
+        pos++;
+    }
+  }
+
+  return [primary.substring(0, maxLength), secondary.substring(0, maxLength)];
+}
+
+/**
+ * Phonetic codes of every token, primary and alternate, without duplicates
+ */
+function phoneticKeys(tokens: string[]): string[] {
+  const keys = new Set<string>();
+
+  for (const token of tokens) {
+    if (token.length < 3 || /^\d+$/.test(token)) continue;
+    doubleMetaphone(token).forEach(code => {
+      if (code) keys.add(code);
+    });
+  }
+
+  return [...keys];
+}
+
+/**
+ * Fuzzy match keys stored with each cached plan (see dol-processor updateFirestoreCache)
+ */
+export function buildSponsorMatchKeys(sponsorName: string): SponsorMatchKeys {
+  const normalized = normalizeSponsorName(sponsorName);
+  const tokens = normalized.split(' ').filter(Boolean);
+
+  return {
+    sponsorNameNormalized: normalized,
+    sponsorPhoneticKeys: phoneticKeys(tokens),
+    sponsorTrigrams: trigrams(normalized)
+  };
+}
+
+/**
+ * Keys of a search query, for candidate lookup and SQL matching
+ */
+export function buildQueryMatchKeys(query: string): QueryMatchKeys {
+  const normalized = normalizeSponsorName(query);
+  const tokens = normalized.split(' ').filter(Boolean);
+
+  // Grams inside a word are rarer than the padded ones at its edges
+  const queryTrigrams = trigrams(normalized)
+    .sort((a, b) => Number(a.includes(' ')) - Number(b.includes(' ')));
+
+  return {
+    normalized,
+    compact: tokens.join(''),
+    tokens,
+    phoneticKeys: phoneticKeys(tokens),
+    trigrams: queryTrigrams
+  };
+}
+
+/**
+ * Similarity of one query token to one name token (0..1)
+ */
+function scoreToken(queryToken: string, nameToken: string): number {
+  if (queryToken === nameToken) return 1;
+  if (queryToken.length >= 3 && nameToken.startsWith(queryToken)) return 0.9;
+
+  let best = 0;
+
+  const distance = editDistance(queryToken, nameToken);
+  if (distance <= maxEditsFor(queryToken.length)) {
+    best = 1 - distance / Math.max(queryToken.length, nameToken.length);
+  }
+
+  if (queryToken.length >= 3 && nameToken.length >= 3) {
+    const queryCodes = doubleMetaphone(queryToken);
+    const nameCodes = doubleMetaphone(nameToken);
+    if (queryCodes.some(code => code && nameCodes.includes(code))) {
+      best = Math.max(best, 0.8);
+    }
+  }
+
+  return Math.max(best, trigramSimilarity(queryToken, nameToken));
+}
+
+/**
+ * Similarity of a search query to a sponsor name (0..1)
+ * Anything at or above FUZZY_MATCH_THRESHOLD counts as a match.
+ */
+export function scoreSponsorMatch(query: string, sponsorName: string): number {
+  const queryKeys = buildQueryMatchKeys(query);
+  const name = normalizeSponsorName(sponsorName);
+  const nameTokens = name.split(' ').filter(Boolean);
+  const nameCompact = nameTokens.join('');
+
+  if (!queryKeys.compact || !nameCompact) return 0;
+  if (nameCompact === queryKeys.compact) return 1;
+
+  // Spacing and punctuation differences: "jp morgan" vs "jpmorgan chase",
+  // anchored at a word start so "apple" does not match "pineapple"
+  if (queryKeys.compact.length >= 3) {
+    if (nameCompact.startsWith(queryKeys.compact)) return 0.95;
+    if (nameTokens.some((_, i) => nameTokens.slice(i).join('').startsWith(queryKeys.compact))) return 0.9;
+  }
+
+  // Every query token should find a close name token
+  const tokenCoverage = queryKeys.tokens
+    .map(queryToken => Math.max(...nameTokens.map(nameToken => scoreToken(queryToken, nameToken))))
+    .reduce((sum, score) => sum + score, 0) / queryKeys.tokens.length;
+
+  // A misspelled start of the name: "jpmorgen" vs "jpmorganchase". Short
+  // queries are left to whole-token matching: "ford" is one edit from "fort(ive)"
+  const prefix = nameCompact.substring(0, queryKeys.compact.length);
+  const prefixDistance = editDistance(queryKeys.compact, prefix);
+  const prefixScore = queryKeys.compact.length >= 6 && prefixDistance <= maxEditsFor(queryKeys.compact.length)
+    ? 1 - prefixDistance / queryKeys.compact.length
+    : 0;
+
+  const score = Math.max(
+    tokenCoverage * 0.95,
+    prefixScore * 0.9,
+    trigramSimilarity(queryKeys.normalized, name)
+  );
+
+  return Math.round(score * 1000) / 1000;
+}
@@ -72,6 +72,18 @@ export const defaultConfig: ProxyConfig = {
       priority: 100,
       description: 'Plan search API endpoint',
     },
+    {
+      path: '/suggest',
+      target: 'plan-search-api',
+      priority: 100,
+      description: 'Plan search typeahead suggestions',
+    },
+    {
+      path: '/events',
+      target: 'plan-search-api',
+      priority: 100,
+      description: 'Anonymized widget search analytics events',
+    },
     {
       path: '/api/search',
       target: 'plan-search-api',
@@ -102,6 +114,17 @@ export const defaultConfig: ProxyConfig = {
   ],
 };
 
+/** Readiness status reported by a service's /readyz endpoint */
+export type ReadinessStatus = 'ok' | 'degraded' | 'unavailable';
+
+/** Per-dependency probe result reported by /readyz; only status is public */
+export type ProbeResult = {
+  status: 'ok' | 'fail';
+  critical?: boolean;
+  latency_ms?: number;
+  message?: string;
+};
+
 export type ServiceInfo = {
   name: string;
   url: string;
@@ -109,6 +132,10 @@ export type ServiceInfo = {
   healthy: boolean;
   lastCheck: Date;
   responseTime?: number;
+  /** Set for services implementing /livez and /readyz */
+  status?: ReadinessStatus;
+  version?: string;
+  checks?: Record<string, ProbeResult>;
 };
 
 export type ServiceRegistry = Map<string, ServiceInfo>;
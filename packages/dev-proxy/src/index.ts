@@ -58,6 +58,7 @@ class DevProxyServer {
         services: services.map(s => ({
           name: s.name,
           url: s.url,
+          status: s.status,
           responseTime: s.responseTime,
         })),
       });
@@ -71,6 +72,9 @@ class DevProxyServer {
         url: service.url,
         port: service.port,
         healthy: service.healthy,
+        status: service.status,
+        version: service.version,
+        checks: service.checks,
         lastCheck: service.lastCheck,
         responseTime: service.responseTime,
       }));
@@ -1,7 +1,21 @@
 import { createConnection } from 'net';
 import fetch, { Response } from 'node-fetch';
 import chalk from 'chalk';
-import type { ServiceInfo, ServiceRegistry, ProxyConfig } from './config.js';
+import type { ServiceInfo, ServiceRegistry, ProxyConfig, ProbeResult, ReadinessStatus } from './config.js';
+
+const READINESS_STATUSES: ReadinessStatus[] = ['ok', 'degraded', 'unavailable'];
+
+/**
+ * Result of probing a service's health endpoints
+ */
+type HealthProbe = {
+  healthy: boolean;
+  /** Service name reported by /readyz */
+  service?: string;
+  status?: ReadinessStatus;
+  version?: string;
+  checks?: Record<string, ProbeResult>;
+};
 
 /**
  * Service Discovery Manager
@@ -145,7 +159,23 @@ export class ServiceDiscovery {
     const startTime = Date.now();
 
     try {
-      // Try health check endpoint first
+      // Services implementing the /readyz contract identify themselves
+      const readiness = await this.probeReadiness(url);
+      if (readiness) {
+        return {
+          name: readiness.service || this.guessServiceNameByPort(port) || `service-${port}`,
+          url,
+          port,
+          healthy: readiness.healthy,
+          lastCheck: new Date(),
+          responseTime: Date.now() - startTime,
+          status: readiness.status,
+          version: readiness.version,
+          checks: readiness.checks,
+        };
+      }
+
+      // Try legacy health check endpoint
       let response = await this.fetchWithTimeout(`${url}/health`, {
         headers: { 'User-Agent': 'TrustRails-DevProxy/1.0' }
       });
@@ -270,7 +300,8 @@ export class ServiceDiscovery {
       console.log(chalk.green('[Healthy Services]'));
       healthyServices.forEach(service => {
         const responseTime = service.responseTime ? `${service.responseTime}ms` : 'N/A';
-        console.log(`  ✓ ${chalk.cyan(service.name)} - ${service.url} (${responseTime})`);
+        const degraded = service.status === 'degraded' ? chalk.yellow(' [degraded]') : '';
+        console.log(`  ✓ ${chalk.cyan(service.name)} - ${service.url} (${responseTime})${degraded}`);
       });
     }
 
@@ -289,29 +320,65 @@ export class ServiceDiscovery {
     const startTime = Date.now();
 
     try {
-      const response = await this.fetchWithTimeout(`${service.url}/health`, {
-        headers: { 'User-Agent': 'TrustRails-DevProxy/1.0' }
-      });
-
-      const responseTime = Date.now() - startTime;
-      const isHealthy = response.ok;
+      // Prefer /readyz; fall back to /health for services without it
+      const readiness = await this.probeReadiness(service.url);
+      const probe: HealthProbe = readiness ?? {
+        healthy: (await this.fetchWithTimeout(`${service.url}/health`, {
+          headers: { 'User-Agent': 'TrustRails-DevProxy/1.0' }
+        })).ok
+      };
 
       // Update service info
-      service.healthy = isHealthy;
+      service.healthy = probe.healthy;
       service.lastCheck = new Date();
-      service.responseTime = responseTime;
+      service.responseTime = Date.now() - startTime;
+      service.status = probe.status;
+      service.version = probe.version;
+      service.checks = probe.checks;
 
-      return isHealthy;
+      return probe.healthy;
     } catch (error) {
       // Update service as unhealthy
       service.healthy = false;
       service.lastCheck = new Date();
       service.responseTime = undefined;
+      service.status = undefined;
+      service.checks = undefined;
 
       return false;
     }
   }
 
+  /**
+   * Read a service's /readyz report
+   * Returns null when the service does not implement the contract. A degraded
+   * service still takes traffic; only 'unavailable' marks it unhealthy.
+   */
+  private async probeReadiness(url: string): Promise<HealthProbe | null> {
+    const response = await this.fetchWithTimeout(`${url}/readyz`, {
+      headers: { 'User-Agent': 'TrustRails-DevProxy/1.0', 'Accept': 'application/json' }
+    });
+
+    let body: any;
+    try {
+      body = await response.json();
+    } catch (error) {
+      return null;
+    }
+
+    if (!body || !READINESS_STATUSES.includes(body.status) || typeof body.checks !== 'object') {
+      return null;
+    }
+
+    return {
+      healthy: body.status !== 'unavailable',
+      service: typeof body.service === 'string' ? body.service : undefined,
+      status: body.status,
+      version: body.build?.version,
+      checks: body.checks,
+    };
+  }
+
   /**
    * Fetch with timeout wrapper for node-fetch
    */
@@ -1,5 +1,6 @@
 import { LitElement, html, css } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
 
 // Persona SDK types based on actual Persona documentation
 interface PersonaClient {
@@ -42,6 +43,24 @@ interface SelectedPlan {
   participants?: number;
 }
 
+interface SearchSuggestion {
+  name: string;
+  type: 'sponsor' | 'custodian';
+  location: string | null;
+}
+
+// The search a results list came from, for search analytics events
+interface SearchEventContext {
+  searchId: string;
+  query: string;
+  mode: SearchMode;
+  custodian: string | null;
+  ranker: { version: string; arm: string } | null;
+  shownAt: number;
+}
+
+const randomId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+
 type FlowState = 'initial' | 'employer' | 'custodian' | 'custodian-refinement' | 'kyc-intro' | 'kyc-verification' | 'docusign-pending';
 type SearchMode = 'initial' | 'employer' | 'custodian' | 'custodian-refinement';
 type KYCState = 'not-required' | 'checking' | 'required' | 'in-progress' | 'completed' | 'failed';
@@ -63,6 +82,8 @@ export class TrustRailsHierarchicalSearch extends LitElement {
   @property({ type: String, attribute: 'user-email' }) userEmail = '';
   @property({ type: String, attribute: 'partner-id' }) partnerId = '';
   @property({ type: String, attribute: 'api-key' }) apiKey = '';
+  // Search analytics are on by default and store the typed query (see POST /events)
+  @property({ type: Boolean, attribute: 'disable-search-analytics' }) disableSearchAnalytics = false;
 
   @state() private searchMode: SearchMode = 'initial';
   @state() private flowState: FlowState = 'initial';
@@ -84,8 +105,19 @@ export class TrustRailsHierarchicalSearch extends LitElement {
   @state() private bearerToken = '';
   @state() private userId = '';
   @state() private userSession: any = null;
+  @state() private suggestions: SearchSuggestion[] = [];
+  @state() private activeSuggestion = -1;
+  @state() private showSuggestions = false;
 
   private readonly resultsPerPage = 5; // Keep it compact for embedded widgets
+  private readonly maxSuggestions = 8;
+  private readonly minSuggestPrefixLength = 2;
+  private readonly suggestDebounceMs = 150;
+  private suggestTimer?: number;
+  private suggestRequestId = 0; // Drops responses for prefixes the user has typed past
+  // Anonymous per-widget id; the search API uses it to keep one ranker per session
+  private readonly searchSessionId = randomId();
+  private searchEventContext: SearchEventContext | null = null;
   private readonly largeCustomdianThreshold = 2; // Plans threshold for requiring refinement (lowered for testing - set to 100+ for production)
 
   /**
@@ -159,6 +191,11 @@ export class TrustRailsHierarchicalSearch extends LitElement {
     }
   }
 
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    window.clearTimeout(this.suggestTimer);
+  }
+
   private async initializeUserSession() {
     if (this.debug) {
       console.log('[Widget] Initializing user session for:', this.userEmail);
@@ -383,6 +420,43 @@ export class TrustRailsHierarchicalSearch extends LitElement {
       pointer-events: none;
     }
 
+    .suggestions {
+      position: absolute;
+      top: 100%;
+      left: 0;
+      right: 0;
+      z-index: 10;
+      margin: 0.25rem 0 0;
+      padding: 0.25rem 0;
+      list-style: none;
+      background: var(--tr-background);
+      border: 1px solid var(--tr-border);
+      border-radius: var(--tr-radius);
+      box-shadow: var(--tr-shadow);
+    }
+
+    .suggestion {
+      display: flex;
+      justify-content: space-between;
+      align-items: baseline;
+      gap: 0.75rem;
+      padding: 0.5rem 1rem;
+      font-size: 0.875rem;
+      color: var(--tr-text-primary);
+      cursor: pointer;
+    }
+
+    .suggestion:hover,
+    .suggestion.active {
+      background: var(--tr-surface);
+    }
+
+    .suggestion-meta {
+      font-size: 0.75rem;
+      color: var(--tr-text-secondary);
+      white-space: nowrap;
+    }
+
     .custodian-grid {
       display: grid;
       grid-template-columns: repeat(auto-fill, minmax(150px, 1fr));
@@ -1059,21 +1133,170 @@ export class TrustRailsHierarchicalSearch extends LitElement {
   }
 
   private renderEmployerSearch() {
+    return this.renderSearchInput(() => this.performSearch());
+  }
+
+  /**
+   * Employer name input with keyboard-navigable typeahead suggestions
+   */
+  private renderSearchInput(onSearch: () => void) {
+    const open = this.showSuggestions && this.suggestions.length > 0;
+
     return html`
       <div class="search-input-group">
         <div class="search-icon">🔍</div>
         <input
           type="text"
           class="search-input"
+          role="combobox"
+          autocomplete="off"
+          aria-autocomplete="list"
+          aria-controls="search-suggestions"
+          aria-expanded=${open ? 'true' : 'false'}
+          aria-activedescendant=${ifDefined(open && this.activeSuggestion >= 0 ? `search-suggestion-${this.activeSuggestion}` : undefined)}
           placeholder="Type your employer name (e.g., Microsoft, Walmart)"
           .value=${this.searchQuery}
-          @input=${(e: Event) => this.searchQuery = (e.target as HTMLInputElement).value}
-          @keyup=${(e: KeyboardEvent) => e.key === 'Enter' && this.performSearch()}
+          @input=${(e: Event) => this.handleSearchInput((e.target as HTMLInputElement).value)}
+          @keydown=${(e: KeyboardEvent) => this.handleSearchKeydown(e, onSearch)}
+          @blur=${() => this.closeSuggestions()}
         />
+        ${open ? html`
+          <ul id="search-suggestions" class="suggestions" role="listbox" aria-label="Suggestions">
+            ${this.suggestions.map((suggestion, i) => html`
+              <li
+                id="search-suggestion-${i}"
+                class="suggestion ${i === this.activeSuggestion ? 'active' : ''}"
+                role="option"
+                aria-selected=${i === this.activeSuggestion ? 'true' : 'false'}
+                @mousedown=${(e: MouseEvent) => {
+                  // Keep focus in the input so blur does not close the list first
+                  e.preventDefault();
+                  this.applySuggestion(suggestion, onSearch);
+                }}
+              >
+                <span class="suggestion-name">${suggestion.name}</span>
+                <span class="suggestion-meta">
+                  ${suggestion.type === 'custodian' ? 'Provider' : suggestion.location || ''}
+                </span>
+              </li>
+            `)}
+          </ul>
+        ` : ''}
       </div>
     `;
   }
 
+  private handleSearchInput(value: string) {
+    this.searchQuery = value;
+    this.activeSuggestion = -1;
+    window.clearTimeout(this.suggestTimer);
+
+    if (value.trim().length < this.minSuggestPrefixLength) {
+      this.suggestRequestId++;
+      this.suggestions = [];
+      this.showSuggestions = false;
+      return;
+    }
+
+    this.suggestTimer = window.setTimeout(() => this.fetchSuggestions(value), this.suggestDebounceMs);
+  }
+
+  private handleSearchKeydown(e: KeyboardEvent, onSearch: () => void) {
+    const open = this.showSuggestions && this.suggestions.length > 0;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        if (!open) {
+          this.showSuggestions = this.suggestions.length > 0;
+          return;
+        }
+        this.activeSuggestion = (this.activeSuggestion + 1) % this.suggestions.length;
+        break;
+      case 'ArrowUp':
+        if (!open) return;
+        e.preventDefault();
+        this.activeSuggestion = this.activeSuggestion <= 0
+          ? this.suggestions.length - 1
+          : this.activeSuggestion - 1;
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (open && this.activeSuggestion >= 0) {
+          this.applySuggestion(this.suggestions[this.activeSuggestion], onSearch);
+        } else {
+          this.closeSuggestions();
+          onSearch();
+        }
+        break;
+      case 'Escape':
+        if (open) {
+          e.preventDefault();
+          this.closeSuggestions();
+        }
+        break;
+      case 'Tab':
+        this.closeSuggestions();
+        break;
+    }
+  }
+
+  private async fetchSuggestions(prefix: string) {
+    const requestId = ++this.suggestRequestId;
+
+    try {
+      const response = await fetch(
+        `${this.apiEndpoint}/suggest?prefix=${encodeURIComponent(prefix)}&limit=${this.maxSuggestions}`
+      );
+
+      if (!response.ok) throw new Error('Suggest failed');
+
+      const data = await response.json();
+      if (requestId !== this.suggestRequestId) return;
+
+      // Within a provider's plans only employers make sense
+      const suggestions: SearchSuggestion[] = (data.suggestions || []).filter((suggestion: SearchSuggestion) =>
+        this.searchMode !== 'custodian-refinement' || suggestion.type === 'sponsor'
+      );
+
+      this.suggestions = suggestions;
+      this.activeSuggestion = -1;
+      this.showSuggestions = suggestions.length > 0;
+    } catch (error) {
+      // Suggestions are optional; typing and Enter still search
+      if (this.debug) {
+        console.warn('[Widget] Suggestions unavailable:', error);
+      }
+      if (requestId === this.suggestRequestId) {
+        this.suggestions = [];
+        this.showSuggestions = false;
+      }
+    }
+  }
+
+  private applySuggestion(suggestion: SearchSuggestion, onSearch: () => void) {
+    this.closeSuggestions();
+    this.suggestions = [];
+
+    if (suggestion.type === 'custodian' && this.searchMode === 'employer') {
+      this.selectCustodian({
+        name: suggestion.name,
+        id: suggestion.name.toLowerCase().replace(/[^a-z0-9]/g, '')
+      });
+      return;
+    }
+
+    this.searchQuery = suggestion.name;
+    onSearch();
+  }
+
+  private closeSuggestions() {
+    window.clearTimeout(this.suggestTimer);
+    this.suggestRequestId++;
+    this.showSuggestions = false;
+    this.activeSuggestion = -1;
+  }
+
   private renderCustodianSearch() {
     return html`
       <div class="custodian-grid">
@@ -1116,17 +1339,7 @@ export class TrustRailsHierarchicalSearch extends LitElement {
         </div>
 
         <div class="secondary-search-label">Search for your employer:</div>
-        <div class="search-input-group">
-          <div class="search-icon">🔍</div>
-          <input
-            type="text"
-            class="search-input"
-            placeholder="Type your employer name (e.g., Microsoft, Walmart)"
-            .value=${this.searchQuery}
-            @input=${(e: Event) => this.searchQuery = (e.target as HTMLInputElement).value}
-            @keyup=${(e: KeyboardEvent) => e.key === 'Enter' && this.performCustodianEmployerSearch()}
-          />
-        </div>
+        ${this.renderSearchInput(() => this.performCustodianEmployerSearch())}
       </div>
     `;
   }
@@ -1254,6 +1467,8 @@ export class TrustRailsHierarchicalSearch extends LitElement {
   private setSearchMode(mode: 'employer' | 'custodian') {
     this.searchMode = mode;
     this.resetPagination();
+    this.closeSuggestions();
+    this.suggestions = [];
 
     if (mode === 'employer') {
       // Auto-focus the input after render
@@ -1287,7 +1502,7 @@ export class TrustRailsHierarchicalSearch extends LitElement {
     try {
       const offset = loadMore ? this.currentOffset : 0;
       const response = await fetch(
-        `${this.apiEndpoint}/searchPlans?q=${encodeURIComponent(this.searchQuery)}&limit=${this.resultsPerPage}&offset=${offset}&force_bigquery=true`
+        `${this.apiEndpoint}/searchPlans?q=${encodeURIComponent(this.searchQuery)}&limit=${this.resultsPerPage}&offset=${offset}&force_bigquery=true&sid=${this.searchSessionId}`
       );
 
       if (!response.ok) throw new Error('Search failed');
@@ -1295,9 +1510,8 @@ export class TrustRailsHierarchicalSearch extends LitElement {
       const data = await response.json();
       let newResults = data.results || [];
 
-      // Apply ML enhancements to results
+      // Results arrive in the search API's ranking order; keep it
       newResults = this.enhanceSearchResults(newResults);
-      newResults = this.sortResultsByRelevance(newResults);
 
       if (loadMore) {
         this.searchResults = [...this.searchResults, ...newResults];
@@ -1319,6 +1533,8 @@ export class TrustRailsHierarchicalSearch extends LitElement {
       this.hasMoreResults = newResults.length === this.resultsPerPage &&
                             (data.totalCount === undefined || this.currentOffset < this.totalResults);
 
+      this.reportSearchPage(loadMore, offset, newResults, data);
+
       if (this.searchResults.length === 0 && !loadMore) {
         this.error = 'No results found. Try a different search term.';
       }
@@ -1431,7 +1647,7 @@ export class TrustRailsHierarchicalSearch extends LitElement {
       const offset = loadMore ? this.currentOffset : 0;
       // Search with custodian filtering using the new API parameter
       const response = await fetch(
-        `${this.apiEndpoint}/searchPlans?q=${encodeURIComponent(this.searchQuery)}&custodian=${encodeURIComponent(this.selectedCustodian.name)}&limit=${this.resultsPerPage}&offset=${offset}&force_bigquery=true`
+        `${this.apiEndpoint}/searchPlans?q=${encodeURIComponent(this.searchQuery)}&custodian=${encodeURIComponent(this.selectedCustodian.name)}&limit=${this.resultsPerPage}&offset=${offset}&force_bigquery=true&sid=${this.searchSessionId}`
       );
 
       if (!response.ok) throw new Error('Search failed');
@@ -1439,9 +1655,8 @@ export class TrustRailsHierarchicalSearch extends LitElement {
       const data = await response.json();
       let newResults = data.results || [];
 
-      // Apply ML enhancements to results
+      // Results arrive in the search API's ranking order; keep it
       newResults = this.enhanceSearchResults(newResults);
-      newResults = this.sortResultsByRelevance(newResults);
 
       if (loadMore) {
         this.searchResults = [...this.searchResults, ...newResults];
@@ -1462,6 +1677,8 @@ export class TrustRailsHierarchicalSearch extends LitElement {
       this.hasMoreResults = newResults.length === this.resultsPerPage &&
                             (data.totalCount === undefined || this.currentOffset < this.totalResults);
 
+      this.reportSearchPage(loadMore, offset, newResults, data);
+
       if (this.searchResults.length === 0 && !loadMore) {
         this.error = `No plans found for "${this.searchQuery}" with ${this.selectedCustodian.name}. Try a different employer name.`;
       }
@@ -1495,6 +1712,9 @@ export class TrustRailsHierarchicalSearch extends LitElement {
       composed: true
     }));
 
+    this.reportPlanSelection();
+    this.reportSearchSelection(result);
+
     // Transition to KYC intro
     this.flowState = 'kyc-intro';
     this.kycState = 'required';
@@ -1507,6 +1727,108 @@ export class TrustRailsHierarchicalSearch extends LitElement {
     }));
   }
 
+  private async reportPlanSelection() {
+    if (!this.bearerToken || !this.selectedPlan) {
+      return;
+    }
+
+    // Lets the partner know via webhook; the flow continues regardless
+    try {
+      const planSelectedEndpoint = this.authEndpoint.replace('/auth', '/plan-selected');
+
+      const response = await fetch(planSelectedEndpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.bearerToken}`,
+          'X-TrustRails-Partner-ID': this.partnerId
+        },
+        body: JSON.stringify({
+          ein: this.selectedPlan.ein,
+          planId: this.selectedPlan.planId,
+          planName: this.selectedPlan.planName,
+          sponsorName: this.selectedPlan.sponsorName
+        })
+      });
+
+      if (!response.ok) {
+        console.error('Failed to report plan selection:', await response.text());
+      }
+    } catch (error) {
+      console.error('Error reporting plan selection:', error);
+    }
+  }
+
+  /**
+   * Report a results page to the search API's anonymized search analytics
+   */
+  private reportSearchPage(loadMore: boolean, offset: number, newResults: any[], data: any) {
+    if (!loadMore || !this.searchEventContext) {
+      this.searchEventContext = {
+        searchId: randomId(),
+        query: this.searchQuery,
+        mode: this.searchMode,
+        custodian: this.searchMode === 'custodian-refinement' ? this.selectedCustodian?.name || null : null,
+        ranker: data.metadata?.ranker || null,
+        shownAt: Date.now()
+      };
+    }
+
+    this.sendSearchEvents([{
+      type: 'search',
+      resultCount: this.totalResults,
+      offset,
+      shown: newResults.map((result, i) => ({
+        ein: result.ein,
+        planNumber: result.planNumber,
+        rank: offset + i + 1
+      }))
+    }]);
+  }
+
+  private reportSearchSelection(result: any) {
+    const rank = this.searchResults.indexOf(result) + 1;
+    if (!this.searchEventContext || rank === 0) return;
+
+    this.sendSearchEvents([{
+      type: 'select',
+      rank,
+      ein: result.ein,
+      planNumber: result.planNumber,
+      timeToSelectMs: Date.now() - this.searchEventContext.shownAt
+    }]);
+  }
+
+  private sendSearchEvents(events: Record<string, unknown>[]) {
+    const context = this.searchEventContext;
+    if (this.disableSearchAnalytics || !context) return;
+
+    const body = JSON.stringify({
+      events: events.map(event => ({
+        ...event,
+        eventId: randomId(),
+        sid: this.searchSessionId,
+        searchId: context.searchId,
+        query: context.query,
+        mode: context.mode,
+        custodian: context.custodian,
+        ranker: context.ranker?.version,
+        arm: context.ranker?.arm
+      }))
+    });
+    const url = `${this.apiEndpoint}/events`;
+
+    // Analytics never affect the flow: a beacon survives the page moving on after a selection,
+    // and both send text/plain so no CORS preflight is needed
+    try {
+      if (navigator.sendBeacon?.(url, body)) return;
+      fetch(url, { method: 'POST', body, keepalive: true, headers: { 'Content-Type': 'text/plain' } })
+        .catch(() => undefined);
+    } catch {
+      // Ignore
+    }
+  }
+
   private reset() {
     this.searchMode = 'initial';
     this.flowState = 'initial';
@@ -1517,6 +1839,9 @@ export class TrustRailsHierarchicalSearch extends LitElement {
     this.kycState = 'not-required';
     this.kycError = '';
     this.resetPagination();
+    this.closeSuggestions();
+    this.suggestions = [];
+    this.searchEventContext = null;
 
     // Clean up Persona client if it exists
     if (this.personaClient) {
@@ -1619,27 +1944,6 @@ export class TrustRailsHierarchicalSearch extends LitElement {
     };
   }
 
-  private sortResultsByRelevance(results: any[]): any[] {
-    return results.sort((a, b) => {
-      const aTier = a.metadata?.tier || 'small';
-      const bTier = b.metadata?.tier || 'small';
-
-      // Tier priority: enterprise > large > medium > small
-      const tierOrder = { enterprise: 4, large: 3, medium: 2, small: 1 };
-      const aTierScore = tierOrder[aTier as keyof typeof tierOrder] || 1;
-      const bTierScore = tierOrder[bTier as keyof typeof tierOrder] || 1;
-
-      if (aTierScore !== bTierScore) {
-        return bTierScore - aTierScore; // Higher tier first
-      }
-
-      // Within same tier, sort by ML relevance score
-      const aScore = a.metadata?.mlRelevanceScore || 50;
-      const bScore = b.metadata?.mlRelevanceScore || 50;
-      return bScore - aScore;
-    });
-  }
-
   private getTierClass(result: any): string {
     return result.metadata?.tier || 'small';
   }
@@ -1929,12 +2233,13 @@ export class TrustRailsHierarchicalSearch extends LitElement {
 
         if (updateResponse.ok) {
           console.log('Successfully updated user KYC status in Firebase');
+          const result = await updateResponse.json();
 
-          // Update local user session
+          // Update local user session with the status the server stored
           if (this.userSession) {
             this.userSession.persona_id = inquiryId;
-            this.userSession.kyc_status = 'completed';
-            this.userSession.kyc_completed_at = new Date().toISOString();
+            this.userSession.kyc_status = result.kyc_status;
+            this.userSession.kyc_completed_at = result.kyc_completed_at;
           }
         } else {
           console.error('Failed to update KYC status:', await updateResponse.text());
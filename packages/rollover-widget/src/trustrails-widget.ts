@@ -38,6 +38,14 @@ import { customElement, property, state } from 'lit/decorators.js';
  *   environment="production">
  * </trustrails-widget>
  *
+ * With a server-created session (no API key in the browser):
+ * <trustrails-widget
+ *   partner-id="your-partner-id"
+ *   session-token="tr_bearer_..."
+ *   refresh-token="tr_refresh_..."
+ *   environment="production">
+ * </trustrails-widget>
+ *
  * EVENTS DISPATCHED:
  * - trustrails-user-ready: When user session is established
  * - trustrails-start: When user begins rollover process
@@ -75,6 +83,12 @@ const WIDGET_DISABLED_MESSAGES = {
 
 type DisabledReason = keyof typeof WIDGET_DISABLED_MESSAGES;
 
+// Refresh the bearer token when less than this much lifetime remains
+const TOKEN_REFRESH_THRESHOLD_MS = 5 * 60 * 1000;
+
+// URL fragment parameter carrying a magic link token back to the embedding page
+const MAGIC_LINK_FRAGMENT_PARAM = 'trustrails_link';
+
 // Major recordkeepers data (based on market share and competitor analysis)
 const MAJOR_RECORDKEEPERS = [
   { id: 'fidelity', name: 'Fidelity', logo: 'F', marketShare: 23.4 },
@@ -95,6 +109,8 @@ export class TrustRailsWidget extends LitElement {
   // Public properties that partners can configure
   @property({ type: String, attribute: 'partner-id' }) partnerId = '';
   @property({ type: String, attribute: 'api-key' }) apiKey = '';
+  @property({ type: String, attribute: 'session-token' }) sessionToken = ''; // Optional, bearer token from POST /api/partner/v1/sessions
+  @property({ type: String, attribute: 'refresh-token' }) sessionRefreshToken = ''; // Optional, refresh token issued with session-token
   @property({ type: String, attribute: 'user-email' }) userEmail = ''; // Optional
   @property({ type: String, attribute: 'user-id' }) userId = ''; // Optional, if partner has it
   @property({ type: String }) environment: 'sandbox' | 'production' = 'sandbox';
@@ -131,6 +147,10 @@ export class TrustRailsWidget extends LitElement {
   @state() private kycInquiryId: string | null = null;
   @state() private selectedPlan: any = null;
 
+  private refreshToken: string | null = null;
+  private challengeResponse: string | null = null; // CAPTCHA token from setChallengeResponse(), sent once
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
   // Development mode flag - only log sensitive data in development
   private get isDevelopment(): boolean {
     return this.environment === 'sandbox' ||
@@ -1210,19 +1230,30 @@ export class TrustRailsWidget extends LitElement {
       });
     }
 
-    // Check for existing session first
-    this.checkExistingSession();
+    // Check for existing session first (refreshing it if close to expiry),
+    // then initialize widget after first render when properties are set
+    this.checkExistingSession().then(() => this.initialize());
+  }
 
-    // Initialize widget after first render when properties are set
-    this.initialize();
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.cancelTokenRefresh();
   }
 
-  private checkExistingSession() {
+  private async checkExistingSession() {
     // Check if we have stored tokens
     const storedToken = sessionStorage.getItem('trustrails_bearer_token');
     const storedSessionId = sessionStorage.getItem('trustrails_session_id');
+    const storedRefreshToken = sessionStorage.getItem('trustrails_refresh_token');
     const storedUserSession = sessionStorage.getItem('trustrails_user_session');
 
+    // A server-issued session wins over a stored one from a different session.
+    // Same session: keep the stored tokens, they may have been rotated since.
+    if (this.sessionToken && storedSessionId !== this.getTokenSessionId(this.sessionToken)) {
+      this.clearStoredSession();
+      return;
+    }
+
     if (storedToken && storedSessionId) {
       if (this.isDevelopment) {
         console.log('Found existing session, validating...');
@@ -1230,10 +1261,23 @@ export class TrustRailsWidget extends LitElement {
 
       // Parse the JWT to check expiration (without verification - that's backend's job)
       try {
-        const tokenParts = storedToken.split('.');
-        if (tokenParts.length === 3) {
-          const payload = JSON.parse(atob(tokenParts[1]));
-          const expiresAt = payload.exp * 1000; // Convert to milliseconds
+        let expiresAt = this.getTokenExpiry(storedToken);
+        if (expiresAt !== null) {
+          this.bearerToken = storedToken;
+          this.sessionId = storedSessionId;
+          this.refreshToken = storedRefreshToken;
+
+          // Refresh transparently if the token is about to expire
+          if (expiresAt - Date.now() < TOKEN_REFRESH_THRESHOLD_MS && expiresAt > Date.now() && this.refreshToken) {
+            if (this.isDevelopment) {
+              console.log('⏳ Existing token close to expiry, refreshing...');
+            }
+            const refreshed = await this.refreshBearerToken();
+            if (refreshed && this.bearerToken) {
+              expiresAt = this.getTokenExpiry(this.bearerToken) ?? expiresAt;
+            }
+          }
+
           const now = Date.now();
 
           if (expiresAt > now) {
@@ -1242,9 +1286,8 @@ export class TrustRailsWidget extends LitElement {
             if (this.isDevelopment) {
               console.log(`✅ Existing token still valid for ${hoursLeft} hours`);
             }
-            this.bearerToken = storedToken;
-            this.sessionId = storedSessionId;
             this.isAuthenticated = true;
+            this.scheduleTokenRefresh(expiresAt);
 
             // Restore user session if available
             if (storedUserSession) {
@@ -1304,17 +1347,170 @@ export class TrustRailsWidget extends LitElement {
   private clearStoredSession() {
     sessionStorage.removeItem('trustrails_bearer_token');
     sessionStorage.removeItem('trustrails_session_id');
+    sessionStorage.removeItem('trustrails_refresh_token');
     sessionStorage.removeItem('trustrails_user_session');
+    this.cancelTokenRefresh();
+    this.bearerToken = null;
+    this.sessionId = null;
+    this.refreshToken = null;
     this.userSession = null;
     this.isUserSessionReady = false;
   }
 
+  // Decode (without verifying) the payload of a tr_bearer_ JWT
+  private decodeTokenPayload(token: string): any | null {
+    const tokenParts = token.split('.');
+    if (tokenParts.length !== 3) {
+      return null;
+    }
+    try {
+      return JSON.parse(atob(tokenParts[1].replace(/-/g, '+').replace(/_/g, '/')));
+    } catch {
+      return null;
+    }
+  }
+
+  // Read the exp claim (ms) from a tr_bearer_ JWT, or null if it can't be parsed
+  private getTokenExpiry(token: string): number | null {
+    const payload = this.decodeTokenPayload(token);
+    return typeof payload?.exp === 'number' ? payload.exp * 1000 : null;
+  }
+
+  private getTokenSessionId(token: string): string | null {
+    return this.decodeTokenPayload(token)?.sessionId || null;
+  }
+
+  private getSessionEndpoint(action: 'refresh' | 'revoke'): string {
+    // Session routes live next to /api/widget/auth on the auth service
+    const baseUrl = this.authEndpoint
+      ? this.authEndpoint.replace(/\/api\/widget\/auth\/?$/, '')
+      : this.apiEndpoint
+        ? this.apiEndpoint
+        : this.environment === 'production'
+          ? 'https://api.trustrails.com'
+          : 'http://localhost:3002';
+
+    return `${baseUrl}/api/widget/session/${action}`;
+  }
+
+  private storeSessionTokens() {
+    if (typeof sessionStorage === 'undefined' || !this.bearerToken || !this.sessionId) {
+      return;
+    }
+    sessionStorage.setItem('trustrails_bearer_token', this.bearerToken);
+    sessionStorage.setItem('trustrails_session_id', this.sessionId);
+    if (this.refreshToken) {
+      sessionStorage.setItem('trustrails_refresh_token', this.refreshToken);
+    }
+  }
+
+  private scheduleTokenRefresh(expiresAt: number) {
+    this.cancelTokenRefresh();
+    if (!this.refreshToken) {
+      return;
+    }
+
+    const delay = Math.max(0, expiresAt - Date.now() - TOKEN_REFRESH_THRESHOLD_MS);
+    this.refreshTimer = setTimeout(async () => {
+      this.refreshTimer = null;
+      const refreshed = await this.refreshBearerToken();
+      if (!refreshed) {
+        // Fall back to a full partner authentication
+        this.clearStoredSession();
+        this.isAuthenticated = false;
+        this.initialize();
+      }
+    }, delay);
+  }
+
+  private cancelTokenRefresh() {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Exchange the stored refresh token for a new bearer token.
+   * Refresh tokens are one-time-use, so the rotated token replaces the old one.
+   */
+  private async refreshBearerToken(): Promise<boolean> {
+    if (!this.sessionId || !this.refreshToken) {
+      return false;
+    }
+
+    try {
+      const response = await fetch(this.getSessionEndpoint('refresh'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          session_id: this.sessionId,
+          refresh_token: this.refreshToken
+        })
+      });
+
+      if (!response.ok) {
+        if (this.isDevelopment) {
+          console.log('Session refresh rejected:', response.status);
+        }
+        const errorData = await response.json().catch(() => ({}));
+
+        // The partner is suspended or in maintenance; the refresh token was not used
+        const disabledReason = this.getDisabledReasonFromError(response.status, errorData);
+        if (errorData.partner_status && disabledReason) {
+          this.isDisabled = true;
+          this.disabledReason = disabledReason;
+          return false;
+        }
+
+        // A rejected refresh token is never valid again
+        this.refreshToken = null;
+        sessionStorage.removeItem('trustrails_refresh_token');
+        return false;
+      }
+
+      const data = await response.json();
+      this.bearerToken = data.bearer_token;
+      this.sessionId = data.session_id;
+      this.refreshToken = data.refresh_token;
+      this.storeSessionTokens();
+
+      const expiresAt = this.getTokenExpiry(data.bearer_token);
+      if (expiresAt !== null) {
+        this.scheduleTokenRefresh(expiresAt);
+      }
+
+      if (this.isDevelopment) {
+        console.log('✅ Session refreshed, expires at:', data.expires_at);
+      }
+      return true;
+    } catch (error) {
+      console.error('Session refresh failed:', error);
+      return false;
+    }
+  }
+
   private getDisabledReasonFromError(statusCode: number, errorData: any): DisabledReason | null {
+    // Partner status rejections name the disabled state directly
+    if (errorData?.partner_status && this.isDisabledReason(errorData.code)) {
+      return errorData.code;
+    }
+
     // Map HTTP status codes and error messages to disabled reasons
     switch (statusCode) {
       case 402: // Payment Required
         return 'PAYMENT_REQUIRED';
       case 403: // Forbidden
+        // The API key lacks a scope for this call; fail the call, keep the widget usable
+        if (errorData.code === 'INSUFFICIENT_SCOPE') {
+          return null;
+        }
+        // Risk checks: the host page can solve the challenge or the user can retry later
+        if (errorData.code === 'CHALLENGE_REQUIRED' || errorData.code === 'TEMPORARILY_BLOCKED') {
+          return null;
+        }
         if (errorData.code === 'COMPLIANCE_VIOLATION') {
           return 'COMPLIANCE_VIOLATION';
         }
@@ -1353,6 +1549,10 @@ export class TrustRailsWidget extends LitElement {
     }
   }
 
+  private isDisabledReason(code: unknown): code is DisabledReason {
+    return typeof code === 'string' && Object.prototype.hasOwnProperty.call(WIDGET_DISABLED_MESSAGES, code);
+  }
+
   private applyTheme() {
     // Apply custom theme CSS variables
     if (this.theme.primaryColor) {
@@ -1376,8 +1576,8 @@ export class TrustRailsWidget extends LitElement {
       });
     }
 
-    if (!this.partnerId || !this.apiKey) {
-      this.error = 'Missing required configuration: partnerId and apiKey';
+    if (!this.partnerId || (!this.apiKey && !this.sessionToken)) {
+      this.error = 'Missing required configuration: partnerId and apiKey (or session-token)';
       console.error('Widget initialization failed:', this.error);
       return;
     }
@@ -1388,6 +1588,8 @@ export class TrustRailsWidget extends LitElement {
         console.log('✅ Using existing valid session');
       }
 
+      await this.completeMagicLink();
+
       // Check if we need to handle user email flow for existing session
       if (this.userEmail && !this.isUserSessionReady) {
         if (this.isDevelopment) {
@@ -1430,6 +1632,9 @@ export class TrustRailsWidget extends LitElement {
         console.log('Authentication successful!');
       }
 
+      // Returning from a magic link email signs the user in
+      await this.completeMagicLink();
+
       // If user email is provided and we don't have a user session, create/retrieve user
       if (this.userEmail && !this.isUserSessionReady) {
         if (this.isDevelopment) {
@@ -1445,7 +1650,32 @@ export class TrustRailsWidget extends LitElement {
     }
   }
 
+  // Use a bearer token created by the partner's backend instead of an API key
+  private adoptServerSession() {
+    const expiresAt = this.getTokenExpiry(this.sessionToken);
+    const sessionId = this.getTokenSessionId(this.sessionToken);
+
+    if (expiresAt === null || expiresAt <= Date.now() || !sessionId) {
+      throw new Error('The provided session token is invalid or expired');
+    }
+
+    this.bearerToken = this.sessionToken;
+    this.sessionId = sessionId;
+    this.refreshToken = this.sessionRefreshToken || null;
+    this.storeSessionTokens();
+    this.scheduleTokenRefresh(expiresAt);
+
+    if (this.isDevelopment) {
+      console.log('✅ Using server-issued session:', this.sessionId);
+    }
+  }
+
   private async authenticate() {
+    if (this.sessionToken) {
+      this.adoptServerSession();
+      return;
+    }
+
     // Use authEndpoint if provided, otherwise fall back to apiEndpoint or defaults
     const apiUrl = this.authEndpoint
       ? this.authEndpoint
@@ -1497,6 +1727,7 @@ export class TrustRailsWidget extends LitElement {
     // Store bearer token and session info
     this.bearerToken = data.bearer_token;
     this.sessionId = data.session_id;
+    this.refreshToken = data.refresh_token || null;
 
     if (this.isDevelopment) {
       console.log('Widget storing tokens:', {
@@ -1507,13 +1738,17 @@ export class TrustRailsWidget extends LitElement {
 
     // Store in session storage for persistence
     if (typeof sessionStorage !== 'undefined' && this.bearerToken && this.sessionId) {
-      sessionStorage.setItem('trustrails_bearer_token', this.bearerToken);
-      sessionStorage.setItem('trustrails_session_id', this.sessionId);
+      this.storeSessionTokens();
       if (this.isDevelopment) {
         console.log('✅ Tokens stored in sessionStorage');
       }
     }
 
+    // Keep the session alive while the widget stays open
+    if (data.expires_at) {
+      this.scheduleTokenRefresh(new Date(data.expires_at).getTime());
+    }
+
     return data;
   }
 
@@ -1580,6 +1815,79 @@ export class TrustRailsWidget extends LitElement {
     }
   }
 
+  // Read and remove a magic link token from the page URL so it cannot be replayed from history
+  private takeMagicLinkToken(): string | null {
+    if (typeof window === 'undefined' || !window.location.hash) {
+      return null;
+    }
+
+    const params = new URLSearchParams(window.location.hash.substring(1));
+    const token = params.get(MAGIC_LINK_FRAGMENT_PARAM);
+    if (!token) {
+      return null;
+    }
+
+    params.delete(MAGIC_LINK_FRAGMENT_PARAM);
+    const hash = params.toString();
+    window.history.replaceState(
+      window.history.state,
+      '',
+      `${window.location.pathname}${window.location.search}${hash ? `#${hash}` : ''}`
+    );
+    return token;
+  }
+
+  private async completeMagicLink() {
+    const token = this.takeMagicLinkToken();
+    if (!token) {
+      return;
+    }
+
+    try {
+      const result = await this.makeAPICall('/api/widget/magic-link/verify', {
+        method: 'POST',
+        body: JSON.stringify({ token })
+      });
+
+      // The reissued bearer token carries the signed-in user
+      this.bearerToken = result.bearer_token;
+      this.storeSessionTokens();
+
+      this.userSession = {
+        user_id: result.user.id,
+        email: result.user.email,
+        email_verified: true,
+        is_new_user: result.is_new_user,
+        created_at: result.user.created_at,
+        partner_id: this.partnerId
+      };
+      this.isUserSessionReady = true;
+
+      if (typeof sessionStorage !== 'undefined') {
+        sessionStorage.setItem('trustrails_user_session', JSON.stringify(this.userSession));
+      }
+
+      if (this.isDevelopment) {
+        console.log('✅ Signed in with magic link:', this.userSession.user_id);
+      }
+
+      this.dispatchEvent(new CustomEvent('trustrails-user-ready', {
+        detail: {
+          userId: this.userSession.user_id,
+          email: this.userSession.email,
+          isNewUser: this.userSession.is_new_user,
+          authMethod: 'magic_link',
+          userSession: this.userSession
+        },
+        bubbles: true,
+        composed: true
+      }));
+    } catch (error) {
+      console.error('Magic link sign-in failed:', error);
+      this.error = error instanceof Error ? error.message : 'Magic link sign-in failed';
+    }
+  }
+
   private async createUserAccount(email: string) {
     if (!this.bearerToken) {
       throw new Error('No bearer token available for user account creation');
@@ -1606,7 +1914,8 @@ export class TrustRailsWidget extends LitElement {
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${this.bearerToken}`,
-        'X-TrustRails-Partner-ID': this.partnerId
+        'X-TrustRails-Partner-ID': this.partnerId,
+        ...this.takeChallengeHeader()
       },
       body: JSON.stringify({
         auth_type: 'email',
@@ -1623,6 +1932,10 @@ export class TrustRailsWidget extends LitElement {
       try {
         const errorData = await response.json();
         errorMessage = errorData.error || errorMessage;
+        this.handleChallengeError(errorData);
+        if (this.handleReauthRequired(errorData)) {
+          errorMessage = 'Your session has ended. Please try again.';
+        }
 
         // Make error messages more user-friendly
         if (errorMessage.includes('Too many attempts for this email')) {
@@ -1796,6 +2109,19 @@ export class TrustRailsWidget extends LitElement {
       composed: true
     }));
 
+    // Let the partner know via webhook; never block the flow on it
+    if (this.bearerToken) {
+      this.makeAPICall('/api/widget/plan-selected', {
+        method: 'POST',
+        body: JSON.stringify({
+          ein: plan.ein || plan.SPONS_EIN,
+          planName: plan.planName || plan.PLAN_NAME,
+          sponsorName: plan.company?.name || plan.SPONSOR_NAME,
+          planNumber: plan.planNumber || plan.PLAN_NUM
+        })
+      }).catch(error => console.error('Error reporting plan selection:', error));
+    }
+
     // Check if KYC is required before proceeding
     this.checkKYCRequirement(plan);
   }
@@ -1909,6 +2235,54 @@ export class TrustRailsWidget extends LitElement {
     await this.handleUserEmailFlow();
   }
 
+  // Public method to pass a solved CAPTCHA token after a trustrails-challenge-required event;
+  // it is sent with the next account creation or magic link request, which should then be retried
+  public setChallengeResponse(token: string): void {
+    this.challengeResponse = token || null;
+  }
+
+  // Public method to email the user a sign-in (or email verification) link back to this page
+  public async requestMagicLink(email: string, purpose: 'sign_in' | 'verify_email' = 'sign_in'): Promise<{ expires_at: string }> {
+    if (!this.isAuthenticated || !this.bearerToken) {
+      throw new Error('Widget not authenticated');
+    }
+
+    const result = await this.makeAPICall('/api/widget/magic-link', {
+      method: 'POST',
+      body: JSON.stringify({
+        email,
+        purpose,
+        return_url: `${window.location.origin}${window.location.pathname}${window.location.search}`
+      })
+    });
+
+    return { expires_at: result.expires_at };
+  }
+
+  // Public method to end the widget session (e.g. when the partner signs the user out)
+  public async revokeSession(): Promise<void> {
+    if (this.bearerToken) {
+      try {
+        await fetch(this.getSessionEndpoint('revoke'), {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${this.bearerToken}`
+          }
+        });
+      } catch (error) {
+        console.error('Session revocation failed:', error);
+      }
+    }
+
+    this.clearStoredSession();
+    this.isAuthenticated = false;
+
+    if (this.isDevelopment) {
+      console.log('Widget session revoked');
+    }
+  }
+
   // Public method to manually set disabled state (useful for testing and debugging)
   public setDisabled(reason: DisabledReason | null = null): void {
     this.isDisabled = reason !== null;
@@ -2222,6 +2596,9 @@ export class TrustRailsWidget extends LitElement {
       try {
         const errorData = await response.json();
         errorMessage = errorData.error || errorMessage;
+        if (this.handleReauthRequired(errorData)) {
+          errorMessage = 'Your session has ended. Please try again.';
+        }
       } catch (parseError) {
         console.error('Error parsing error response:', parseError);
       }
@@ -2261,6 +2638,44 @@ export class TrustRailsWidget extends LitElement {
     return result;
   }
 
+  // Challenge tokens are single use
+  private takeChallengeHeader(): Record<string, string> {
+    if (!this.challengeResponse) return {};
+    const token = this.challengeResponse;
+    this.challengeResponse = null;
+    return { 'X-TrustRails-Challenge': token };
+  }
+
+  // Ask the host page to render the CAPTCHA the API asked for
+  private handleChallengeError(errorData: any) {
+    if (errorData?.code !== 'CHALLENGE_REQUIRED' || !errorData.challenge) return;
+
+    this.dispatchEvent(new CustomEvent('trustrails-challenge-required', {
+      detail: {
+        provider: errorData.challenge.provider,
+        siteKey: errorData.challenge.site_key
+      },
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  /**
+   * The server revoked the session because it was used from another device
+   * (partner session binding). Start a new session; the current call fails.
+   */
+  private handleReauthRequired(errorData: any): boolean {
+    if (errorData?.code !== 'REAUTH_REQUIRED') return false;
+
+    if (this.isDevelopment) {
+      console.log('Session ended by the server:', errorData.reason);
+    }
+    this.clearStoredSession();
+    this.isAuthenticated = false;
+    this.initialize();
+    return true;
+  }
+
   async makeAPICall(endpoint: string, options: RequestInit = {}) {
     if (!this.bearerToken) {
       throw new Error('Not authenticated');
@@ -2279,6 +2694,7 @@ export class TrustRailsWidget extends LitElement {
       'Content-Type': 'application/json',
       'Authorization': `Bearer ${this.bearerToken}`,
       'X-TrustRails-Partner-ID': this.partnerId,
+      ...this.takeChallengeHeader(),
       ...options.headers as Record<string, string>
     };
 
@@ -2294,6 +2710,10 @@ export class TrustRailsWidget extends LitElement {
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
+      this.handleChallengeError(errorData);
+      if (this.handleReauthRequired(errorData)) {
+        throw new Error('Your session has ended. Please try again.');
+      }
 
       // Check if this error should disable the widget
       const disabledReason = this.getDisabledReasonFromError(response.status, errorData);
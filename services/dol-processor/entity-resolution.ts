@@ -0,0 +1,428 @@
+/**
+ * Sponsor Entity Resolution
+ *
+ * One employer files under many names ("TESLA, INC", "TESLA INC.", "TESLA
+ * MOTORS, INC.") and sometimes under a new EIN after a reorganization, so
+ * `dol_data.plan_sponsors` lists it many times. This stage clusters the
+ * distinct sponsor name/EIN/address variants into employers and rewrites
+ * `dol_data.sponsor_entities`: one row per employer with its EINs and aliases.
+ *
+ * Variants join the same entity when they share:
+ *   ein           the same valid EIN
+ *   name_address  the same normalized name at the same ZIP code
+ *   name_prefix   a normalized name that extends the other's at the same ZIP
+ *                 ("tesla" / "tesla motors"), unless many sponsors share that
+ *                 ZIP and first word
+ *
+ * Plan search joins plan_sponsors to entities by EIN (UNNEST(eins)).
+ */
+
+import type { BigQuery } from '@google-cloud/bigquery';
+import type { Storage } from '@google-cloud/storage';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import { GCP_CONFIG } from '../../lib/gcp-config';
+import { normalizeSponsorName } from '../../lib/sponsor-matching';
+
+const DOL_DATASET = 'dol_data';
+const DOL_DATASET_LOCATION = 'US';
+const ENTITIES_TABLE = 'sponsor_entities';
+
+const MAX_ALIASES_PER_ENTITY = 50;
+const MAX_NAME_PREFIX_BUCKET = 25; // Larger ZIP + first word buckets are shared words, not one employer
+
+// First words too common to link two names by prefix alone
+const GENERIC_FIRST_WORDS = new Set([
+  'first', 'american', 'national', 'united', 'general', 'international', 'community',
+  'city', 'county', 'state', 'bank', 'new', 'north', 'south', 'east', 'west', 'central'
+]);
+
+export type EntityMatchRule = 'ein' | 'name_address' | 'name_prefix';
+
+export interface SponsorVariant {
+  ein: string;
+  sponsorName: string;
+  city: string | null;
+  state: string | null;
+  zip5: string | null;
+  firstYear: number;
+  lastYear: number;
+  filingCount: number;
+}
+
+export interface EinPlanTotals {
+  planCount: number;
+  participants: number; // Latest filing of each plan
+}
+
+export interface SponsorEntity {
+  entity_id: string;
+  canonical_name: string;
+  normalized_name: string;
+  eins: string[];
+  aliases: Array<{
+    name: string;
+    normalized_name: string;
+    ein: string;
+    first_year: number;
+    last_year: number;
+    filing_count: number;
+  }>;
+  city: string | null;
+  state: string | null;
+  zip5: string | null;
+  plan_count: number;
+  total_participants: number;
+  first_year: number;
+  last_year: number;
+  match_rules: EntityMatchRule[];
+  resolved_at: string;
+}
+
+export interface EntityResolutionResult {
+  variants: number;
+  entities: number;
+  mergedEntities: number; // Entities with more than one EIN or name
+  durationMs: number;
+}
+
+const ENTITIES_SCHEMA = [
+  { name: 'entity_id', type: 'STRING', mode: 'REQUIRED' },
+  { name: 'canonical_name', type: 'STRING', mode: 'REQUIRED' },
+  { name: 'normalized_name', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'eins', type: 'STRING', mode: 'REPEATED' },
+  {
+    name: 'aliases',
+    type: 'RECORD',
+    mode: 'REPEATED',
+    fields: [
+      { name: 'name', type: 'STRING', mode: 'NULLABLE' },
+      { name: 'normalized_name', type: 'STRING', mode: 'NULLABLE' },
+      { name: 'ein', type: 'STRING', mode: 'NULLABLE' },
+      { name: 'first_year', type: 'INTEGER', mode: 'NULLABLE' },
+      { name: 'last_year', type: 'INTEGER', mode: 'NULLABLE' },
+      { name: 'filing_count', type: 'INTEGER', mode: 'NULLABLE' }
+    ]
+  },
+  { name: 'city', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'state', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'zip5', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'plan_count', type: 'INTEGER', mode: 'NULLABLE' },
+  { name: 'total_participants', type: 'INTEGER', mode: 'NULLABLE' },
+  { name: 'first_year', type: 'INTEGER', mode: 'NULLABLE' },
+  { name: 'last_year', type: 'INTEGER', mode: 'NULLABLE' },
+  { name: 'match_rules', type: 'STRING', mode: 'REPEATED' },
+  { name: 'resolved_at', type: 'TIMESTAMP', mode: 'REQUIRED' }
+];
+
+/**
+ * EINs that identify nobody: blanks, placeholders like 000000000 and 999999999
+ */
+function isUsableEin(ein: string): boolean {
+  return /^\d{9}$/.test(ein) && !/^(\d)\1{8}$/.test(ein);
+}
+
+/**
+ * Cluster sponsor variants into employer entities
+ */
+export function clusterSponsorVariants(
+  variants: SponsorVariant[],
+  einTotals: Map<string, EinPlanTotals>,
+  resolvedAt = new Date()
+): SponsorEntity[] {
+  const parent = variants.map((_, index) => index);
+  const rules = new Map<number, Set<EntityMatchRule>>();
+
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const union = (a: number, b: number, rule: EntityMatchRule) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) return;
+
+    parent[rootB] = rootA;
+    const merged = new Set([...(rules.get(rootA) || []), ...(rules.get(rootB) || []), rule]);
+    rules.set(rootA, merged);
+    rules.delete(rootB);
+  };
+
+  const normalizedNames = variants.map(variant => normalizeSponsorName(variant.sponsorName));
+  const firstIndexByKey = new Map<string, number>();
+  const linkByKey = (key: string, index: number, rule: EntityMatchRule) => {
+    const first = firstIndexByKey.get(key);
+    if (first === undefined) {
+      firstIndexByKey.set(key, index);
+    } else {
+      union(first, index, rule);
+    }
+  };
+
+  const prefixBuckets = new Map<string, number[]>();
+
+  variants.forEach((variant, index) => {
+    const normalized = normalizedNames[index];
+
+    if (isUsableEin(variant.ein)) {
+      linkByKey(`ein:${variant.ein}`, index, 'ein');
+    }
+
+    if (variant.zip5 && normalized.length >= 3) {
+      linkByKey(`name:${normalized}|${variant.zip5}`, index, 'name_address');
+
+      const firstWord = normalized.split(' ')[0];
+      if (firstWord.length >= 3 && !GENERIC_FIRST_WORDS.has(firstWord)) {
+        const bucketKey = `${variant.zip5}|${firstWord}`;
+        const bucket = prefixBuckets.get(bucketKey) || [];
+        bucket.push(index);
+        prefixBuckets.set(bucketKey, bucket);
+      }
+    }
+  });
+
+  prefixBuckets.forEach(bucket => {
+    // Same name at the same ZIP is already linked, so one member per name will do
+    const byName = new Map<string, number>();
+    bucket.forEach(index => {
+      if (!byName.has(normalizedNames[index])) byName.set(normalizedNames[index], index);
+    });
+    if (byName.size < 2 || byName.size > MAX_NAME_PREFIX_BUCKET) return;
+
+    const names = [...byName.keys()].sort((a, b) => a.length - b.length);
+    for (let i = 0; i < names.length; i++) {
+      for (let j = i + 1; j < names.length; j++) {
+        if (names[j].startsWith(`${names[i]} `)) {
+          union(byName.get(names[i])!, byName.get(names[j])!, 'name_prefix');
+        }
+      }
+    }
+  });
+
+  const clusters = new Map<number, number[]>();
+  variants.forEach((_, index) => {
+    const root = find(index);
+    const members = clusters.get(root) || [];
+    members.push(index);
+    clusters.set(root, members);
+  });
+
+  return [...clusters.entries()].map(([root, members]) =>
+    buildEntity(members.map(index => ({ variant: variants[index], normalized: normalizedNames[index] })),
+      rules.get(root), einTotals, resolvedAt)
+  );
+}
+
+/**
+ * Canonical record for one cluster
+ * The name comes from the most recent filing; the ID from the earliest EIN, so
+ * it stays stable when an employer starts filing under a new EIN.
+ */
+function buildEntity(
+  members: Array<{ variant: SponsorVariant; normalized: string }>,
+  matchRules: Set<EntityMatchRule> | undefined,
+  einTotals: Map<string, EinPlanTotals>,
+  resolvedAt: Date
+): SponsorEntity {
+  const byRecency = [...members].sort((a, b) =>
+    b.variant.lastYear - a.variant.lastYear || b.variant.filingCount - a.variant.filingCount
+  );
+  const canonical = byRecency[0];
+
+  // A name filed from several addresses is still one alias
+  const aliasKeys = new Set<string>();
+  const aliases = byRecency.filter(({ variant }) => {
+    const key = `${variant.sponsorName}|${variant.ein}`;
+    if (aliasKeys.has(key)) return false;
+    aliasKeys.add(key);
+    return true;
+  });
+
+  const eins = [...new Set(members.map(member => member.variant.ein).filter(isUsableEin))];
+  const anchor = [...members]
+    .filter(member => isUsableEin(member.variant.ein))
+    .sort((a, b) =>
+      a.variant.firstYear - b.variant.firstYear ||
+      b.variant.filingCount - a.variant.filingCount ||
+      a.variant.ein.localeCompare(b.variant.ein)
+    )[0];
+
+  const entityId = anchor
+    ? `se_${anchor.variant.ein}`
+    : `se_n_${createHash('sha1').update(`${canonical.normalized}|${canonical.variant.zip5 || ''}`).digest('hex').substring(0, 16)}`;
+
+  const totals = eins.reduce(
+    (sum, ein) => {
+      const einTotal = einTotals.get(ein);
+      return {
+        planCount: sum.planCount + (einTotal?.planCount || 0),
+        participants: sum.participants + (einTotal?.participants || 0)
+      };
+    },
+    { planCount: 0, participants: 0 }
+  );
+
+  return {
+    entity_id: entityId,
+    canonical_name: canonical.variant.sponsorName,
+    normalized_name: canonical.normalized,
+    eins,
+    aliases: aliases.slice(0, MAX_ALIASES_PER_ENTITY).map(({ variant, normalized }) => ({
+      name: variant.sponsorName,
+      normalized_name: normalized,
+      ein: variant.ein,
+      first_year: variant.firstYear,
+      last_year: variant.lastYear,
+      filing_count: variant.filingCount
+    })),
+    city: canonical.variant.city,
+    state: canonical.variant.state,
+    zip5: canonical.variant.zip5,
+    plan_count: totals.planCount,
+    total_participants: totals.participants,
+    first_year: members.reduce((year, member) => Math.min(year, member.variant.firstYear), Infinity),
+    last_year: members.reduce((year, member) => Math.max(year, member.variant.lastYear), 0),
+    match_rules: [...(matchRules || [])].sort(),
+    resolved_at: resolvedAt.toISOString()
+  };
+}
+
+/**
+ * Read the distinct sponsor variants and per-EIN plan totals from plan_sponsors
+ */
+async function loadSponsorVariants(bigquery: BigQuery): Promise<{
+  variants: SponsorVariant[];
+  einTotals: Map<string, EinPlanTotals>;
+}> {
+  const planSponsors = `\`${GCP_CONFIG.projectId}.${DOL_DATASET}.plan_sponsors\``;
+
+  const variantQuery = `
+    SELECT
+      CAST(ein_plan_sponsor AS STRING) AS ein,
+      TRIM(sponsor_name) AS sponsor_name,
+      ANY_VALUE(UPPER(TRIM(sponsor_city))) AS city,
+      UPPER(TRIM(sponsor_state)) AS state,
+      NULLIF(SUBSTR(REGEXP_REPLACE(sponsor_zip, r'[^0-9]', ''), 1, 5), '') AS zip5,
+      MIN(form_tax_year) AS first_year,
+      MAX(form_tax_year) AS last_year,
+      COUNT(*) AS filing_count
+    FROM ${planSponsors}
+    WHERE sponsor_name IS NOT NULL AND ein_plan_sponsor IS NOT NULL
+    GROUP BY 1, 2, 4, 5
+  `;
+
+  // Each plan counted once, at its latest filing
+  const einTotalsQuery = `
+    WITH latest_plans AS (
+      SELECT CAST(ein_plan_sponsor AS STRING) AS ein, plan_number, participants
+      FROM ${planSponsors}
+      WHERE ein_plan_sponsor IS NOT NULL
+      QUALIFY ROW_NUMBER() OVER (
+        PARTITION BY ein_plan_sponsor, plan_number
+        ORDER BY form_tax_year DESC
+      ) = 1
+    )
+    SELECT ein, COUNT(*) AS plan_count, SUM(COALESCE(participants, 0)) AS participants
+    FROM latest_plans
+    GROUP BY ein
+  `;
+
+  const variants: SponsorVariant[] = [];
+  await new Promise<void>((resolve, reject) => {
+    bigquery.createQueryStream({ query: variantQuery, location: DOL_DATASET_LOCATION })
+      .on('data', (row: any) => {
+        variants.push({
+          ein: row.ein,
+          sponsorName: row.sponsor_name,
+          city: row.city || null,
+          state: row.state || null,
+          zip5: row.zip5 || null,
+          firstYear: Number(row.first_year),
+          lastYear: Number(row.last_year),
+          filingCount: Number(row.filing_count)
+        });
+      })
+      .on('end', () => resolve())
+      .on('error', reject);
+  });
+
+  const einTotals = new Map<string, EinPlanTotals>();
+  await new Promise<void>((resolve, reject) => {
+    bigquery.createQueryStream({ query: einTotalsQuery, location: DOL_DATASET_LOCATION })
+      .on('data', (row: any) => {
+        einTotals.set(row.ein, {
+          planCount: Number(row.plan_count),
+          participants: Number(row.participants)
+        });
+      })
+      .on('end', () => resolve())
+      .on('error', reject);
+  });
+
+  return { variants, einTotals };
+}
+
+/**
+ * Replace sponsor_entities with a fresh resolution of plan_sponsors
+ * Loads through Cloud Storage with WRITE_TRUNCATE, so search never sees a
+ * half-written table.
+ */
+export async function resolveSponsorEntities(bigquery: BigQuery, storage: Storage): Promise<EntityResolutionResult> {
+  const startTime = Date.now();
+
+  const { variants, einTotals } = await loadSponsorVariants(bigquery);
+  console.log(`🏢 Resolving ${variants.length} sponsor name variants into employers`);
+
+  const entities = clusterSponsorVariants(variants, einTotals);
+  const mergedEntities = entities.filter(entity => entity.aliases.length > 1 || entity.eins.length > 1).length;
+  console.log(`🏢 Resolved ${entities.length} employers (${mergedEntities} with several names or EINs)`);
+
+  const localPath = `/tmp/${ENTITIES_TABLE}_${startTime}.ndjson`;
+  const uploadPath = `temp/${ENTITIES_TABLE}_${startTime}.ndjson`;
+  const bucket = storage.bucket(GCP_CONFIG.buckets.tempProcessing);
+
+  try {
+    const out = fs.createWriteStream(localPath);
+    for (const entity of entities) {
+      if (!out.write(JSON.stringify(entity) + '\n')) {
+        await new Promise<void>(resolve => out.once('drain', () => resolve()));
+      }
+    }
+    await new Promise<void>((resolve, reject) => {
+      out.end(() => resolve());
+      out.on('error', reject);
+    });
+
+    await bucket.upload(localPath, { destination: uploadPath });
+
+    const [loadJob] = await bigquery.dataset(DOL_DATASET).table(ENTITIES_TABLE).createLoadJob(
+      bucket.file(uploadPath),
+      {
+        sourceFormat: 'NEWLINE_DELIMITED_JSON',
+        writeDisposition: 'WRITE_TRUNCATE',
+        createDisposition: 'CREATE_IF_NEEDED',
+        location: DOL_DATASET_LOCATION,
+        schema: { fields: ENTITIES_SCHEMA },
+        clustering: { fields: ['normalized_name'] }
+      }
+    );
+    await loadJob.promise();
+    console.log(`✅ Loaded ${entities.length} employers into ${DOL_DATASET}.${ENTITIES_TABLE}`);
+  } finally {
+    fs.rmSync(localPath, { force: true });
+    await bucket.file(uploadPath).delete({ ignoreNotFound: true }).catch(error =>
+      console.error('Failed to delete temporary entity file:', error.message)
+    );
+  }
+
+  return {
+    variants: variants.length,
+    entities: entities.length,
+    mergedEntities,
+    durationMs: Date.now() - startTime
+  };
+}
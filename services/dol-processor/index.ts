@@ -5,6 +5,8 @@
 
 import { HttpFunction } from '@google-cloud/functions-framework';
 import { requireAdminApp, GCP_CONFIG, getGCPClientConfig } from '../../lib/gcp-config';
+import { buildSponsorMatchKeys } from '../../lib/sponsor-matching';
+import { resolveSponsorEntities } from './entity-resolution';
 import { BigQuery } from '@google-cloud/bigquery';
 import { Storage } from '@google-cloud/storage';
 import fetch from 'node-fetch';
@@ -92,7 +94,18 @@ export const syncDOLData: HttpFunction = async (req, res) => {
     await updateFirestoreCache(plans);
     console.log('✅ Updated Firestore cache');
 
-    // 8. Record successful sync
+    // 8. Resolve sponsor name variants into employers (search groups plans by them)
+    let entityResolution: Record<string, any>;
+    try {
+      entityResolution = { status: 'success', ...await resolveSponsorEntities(bigquery, storage) };
+      console.log('✅ Resolved sponsor entities');
+    } catch (error: any) {
+      // Search falls back to one employer per EIN, so the sync itself still succeeds
+      console.error('❌ Sponsor entity resolution failed:', error);
+      entityResolution = { status: 'failed', error: error.message };
+    }
+
+    // 9. Record successful sync
     await syncMetadata.add({
       monthKey: thisMonth,
       syncDate: new Date(),
@@ -100,6 +113,7 @@ export const syncDOLData: HttpFunction = async (req, res) => {
       plansProcessed: plans.length,
       datasetUrl,
       fileName,
+      entityResolution,
       processingTimeMs: Date.now() - startTime,
       status: 'success'
     });
@@ -110,6 +124,7 @@ export const syncDOLData: HttpFunction = async (req, res) => {
     return res.json({
       success: true,
       plansProcessed: plans.length,
+      sponsorEntities: entityResolution.entities ?? null,
       processingTime: `${processingTime}s`,
       monthKey: thisMonth
     });
@@ -290,6 +305,7 @@ async function updateFirestoreCache(plans: any[]) {
 
       batch.set(docRef, {
         ...plan,
+        ...buildSponsorMatchKeys(plan.sponsorName), // Typo-tolerant search keys
         searchTokens: generateSearchTokens(plan),
         searchRank: calculateSearchRank(plan),
         lastUpdated: new Date(),
@@ -338,6 +354,8 @@ function generateSearchTokens(plan: any): string[] {
   }
   if (plan.sponsorName) {
     tokens.push(...plan.sponsorName.toLowerCase().split(/\s+/));
+    // Normalized words too, so "jpmorgan" finds "J.P. MORGAN" and "mcdonalds" finds "MCDONALD'S"
+    tokens.push(...buildSponsorMatchKeys(plan.sponsorName).sponsorNameNormalized.split(' '));
   }
 
   // Add location tokens
@@ -0,0 +1,35 @@
+/**
+ * Rebuild dol_data.sponsor_entities from plan_sponsors
+ *
+ * The monthly sync runs this stage itself; run it by hand after re-ingesting
+ * Form 5500 data into plan_sponsors.
+ *
+ * Usage:
+ *   npx tsx resolve-sponsor-entities.ts
+ */
+
+import { BigQuery } from '@google-cloud/bigquery';
+import { Storage } from '@google-cloud/storage';
+import { getGCPClientConfig } from '../../lib/gcp-config';
+import { resolveSponsorEntities } from './entity-resolution';
+
+async function main() {
+  console.log('🏢 Resolving sponsor entities');
+  console.log('='.repeat(60));
+
+  const result = await resolveSponsorEntities(
+    new BigQuery(getGCPClientConfig()),
+    new Storage(getGCPClientConfig())
+  );
+
+  console.log('\n📊 Summary:');
+  console.log(`  Name variants: ${result.variants.toLocaleString()}`);
+  console.log(`  Employers: ${result.entities.toLocaleString()}`);
+  console.log(`  Employers with several names or EINs: ${result.mergedEntities.toLocaleString()}`);
+  console.log(`  Time: ${(result.durationMs / 1000).toFixed(1)}s`);
+}
+
+main().catch(error => {
+  console.error('❌ Entity resolution failed:', error);
+  process.exit(1);
+});
@@ -16,12 +16,14 @@ rm -rf $STANDALONE_DIR
 mkdir -p $STANDALONE_DIR
 
 echo "📦 Copying source files..."
-# Copy the main function file
+# Copy the main function file and its pipeline stages
 cp index.ts $STANDALONE_DIR/
+cp entity-resolution.ts $STANDALONE_DIR/
 
-# Copy the GCP config
+# Copy the GCP config and sponsor matching keys
 mkdir -p $STANDALONE_DIR/lib
 cp ../../lib/gcp-config.ts $STANDALONE_DIR/lib/
+cp ../../lib/sponsor-matching.ts $STANDALONE_DIR/lib/
 
 # Copy package files
 cp package*.json $STANDALONE_DIR/
@@ -54,6 +56,9 @@ EOF
 
 # Update imports in index.ts for standalone structure
 sed -i "s|'../../lib/gcp-config'|'./lib/gcp-config'|g" $STANDALONE_DIR/index.ts
+sed -i "s|'../../lib/sponsor-matching'|'./lib/sponsor-matching'|g" $STANDALONE_DIR/index.ts
+sed -i "s|'../../lib/gcp-config'|'./lib/gcp-config'|g" $STANDALONE_DIR/entity-resolution.ts
+sed -i "s|'../../lib/sponsor-matching'|'./lib/sponsor-matching'|g" $STANDALONE_DIR/entity-resolution.ts
 
 # Copy Firebase credentials
 mkdir -p $STANDALONE_DIR/trustrails/credentials
@@ -6,6 +6,16 @@
 
 import { BigQuery } from '@google-cloud/bigquery';
 import * as admin from 'firebase-admin';
+import {
+  buildSuggestIndex,
+  lookupSuggestions,
+  suggestShardId,
+  toSuggestShards,
+  SUGGEST_INDEX_COLLECTION,
+  SUGGEST_INDEX_POINTER_DOC,
+  SUGGEST_INDEX_SHARDS_COLLECTION,
+  type SuggestEntry
+} from './standalone-search/lib/suggest-index';
 
 const serviceAccount = require('/home/stock1232/projects/trustrails/credentials/firebase-admin.json');
 
@@ -20,6 +30,10 @@ const bigquery = new BigQuery({
   keyFilename: '/home/stock1232/projects/trustrails/credentials/firebase-admin.json'
 });
 
+// Names in the typeahead index served by GET /suggest
+const SUGGEST_SPONSOR_LIMIT = 50000;
+const SUGGEST_CUSTODIAN_LIMIT = 2000;
+
 interface CustodianCache {
   name: string;
   ein: string | null;
@@ -115,10 +129,14 @@ async function warmCache() {
     // Step 3: Create sponsor-custodian relationship cache
     await warmSponsorCustodianRelationships();
 
+    // Step 4: Build the typeahead prefix index
+    await warmSuggestIndex();
+
     console.log('\n🎉 Enhanced cache warming complete!');
     console.log('✅ Sponsor searches: Ready');
     console.log('✅ Custodian searches: Ready');
     console.log('✅ Sponsor-custodian relationships: Ready');
+    console.log('✅ Suggestions: Ready');
 
   } catch (error) {
     console.error('❌ Cache warming failed:', error);
@@ -380,7 +398,124 @@ async function warmSponsorCustodianRelationships() {
   await relationshipBatch.commit();
   console.log('✅ Cached sponsor-custodian relationships');
 }
-    
+
+/**
+ * Build the typeahead prefix index served by GET /suggest and publish it
+ * Sponsors come from sponsor_entities (written by the DOL sync) so former
+ * names suggest the employer's current one. Custodians are weighted by the
+ * participants in the plans they serve, on the same scale as sponsors.
+ */
+async function warmSuggestIndex() {
+  console.log('\n🔤 Step 4: Building Suggest Index...');
+  console.log('-'.repeat(50));
+
+  const sponsorQuery = `
+    SELECT
+      canonical_name as name,
+      ARRAY(
+        SELECT DISTINCT alias.name
+        FROM UNNEST(aliases) alias
+        WHERE alias.name IS NOT NULL AND alias.name != canonical_name
+        LIMIT 10
+      ) as aliases,
+      city,
+      state,
+      COALESCE(total_participants, 0) as weight
+    FROM \`trustrails-faa3e.dol_data.sponsor_entities\`
+    WHERE canonical_name IS NOT NULL
+    ORDER BY weight DESC
+    LIMIT ${SUGGEST_SPONSOR_LIMIT}
+  `;
+
+  const custodianQuery = `
+    WITH custodian_filings AS (
+      SELECT
+        provider_other_name as name,
+        ack_id,
+        ANY_VALUE(provider_other_us_city) as city,
+        ANY_VALUE(provider_other_us_state) as state
+      FROM \`trustrails-faa3e.dol_data.schedule_c_custodians\`
+      WHERE provider_other_name IS NOT NULL
+      GROUP BY provider_other_name, ack_id
+    )
+    SELECT
+      cf.name,
+      ANY_VALUE(cf.city) as city,
+      ANY_VALUE(cf.state) as state,
+      SUM(COALESCE(ps.participants, 0)) as weight
+    FROM custodian_filings cf
+    LEFT JOIN \`trustrails-faa3e.dol_data.plan_sponsors\` ps
+      ON ps.ack_id = cf.ack_id
+    GROUP BY cf.name
+    ORDER BY weight DESC
+    LIMIT ${SUGGEST_CUSTODIAN_LIMIT}
+  `;
+
+  const [[sponsorResults], [custodianResults]] = await Promise.all([
+    bigquery.query({ query: sponsorQuery, location: 'US' }),
+    bigquery.query({ query: custodianQuery, location: 'US' })
+  ]);
+  console.log(`✅ Found ${sponsorResults.length} sponsors and ${custodianResults.length} custodians`);
+
+  const formatLocation = (row: any) =>
+    row.city && row.state ? `${row.city}, ${row.state}` : row.state || null;
+
+  const entries: SuggestEntry[] = [
+    ...sponsorResults.map((row: any) => ({
+      name: row.name,
+      type: 'sponsor' as const,
+      weight: Number(row.weight) || 0,
+      location: formatLocation(row),
+      aliases: row.aliases || []
+    })),
+    ...custodianResults.map((row: any) => ({
+      name: row.name,
+      type: 'custodian' as const,
+      weight: Number(row.weight) || 0,
+      location: formatLocation(row)
+    }))
+  ];
+
+  const version = `v${Date.now()}`;
+  const index = buildSuggestIndex(entries, version);
+  const shards = toSuggestShards(index);
+  console.log(`✅ Indexed ${index.names.length} names under ${index.keys.length} prefix keys (${shards.length} shards)`);
+
+  // Shards first, pointer last, so instances never load a half-written index
+  const collection = db.collection(SUGGEST_INDEX_COLLECTION);
+  const versionRef = collection.doc(version);
+  for (let shard = 0; shard < shards.length; shard++) {
+    await versionRef.collection(SUGGEST_INDEX_SHARDS_COLLECTION).doc(suggestShardId(shard)).set({
+      data: shards[shard]
+    });
+  }
+
+  const pointerRef = collection.doc(SUGGEST_INDEX_POINTER_DOC);
+  const previousVersion = (await pointerRef.get()).get('version');
+  const manifest = {
+    version,
+    builtAt: index.builtAt,
+    names: index.names.length,
+    keys: index.keys.length,
+    shardCount: shards.length
+  };
+  await versionRef.set(manifest);
+  await pointerRef.set(manifest);
+  console.log(`✅ Published suggest index ${version}`);
+
+  // Keep the previous version for instances still loading it
+  const versionDocs = await collection.listDocuments();
+  for (const doc of versionDocs) {
+    if (![SUGGEST_INDEX_POINTER_DOC, version, previousVersion].includes(doc.id)) {
+      await db.recursiveDelete(doc);
+      console.log(`🗑️  Deleted suggest index ${doc.id}`);
+    }
+  }
+
+  console.log('\n🔎 Sample suggestions for "micro":');
+  lookupSuggestions(index, 'micro', 5).forEach((s, i) => {
+    console.log(`${i + 1}. ${s.name} (${s.type}${s.location ? `, ${s.location}` : ''})`);
+  });
 }
 
 /**
@@ -0,0 +1,156 @@
+/**
+ * Offline evaluation of search rankers against a labelled query set
+ *
+ * Runs every query in ranking-eval/labelled-queries.json through the search
+ * API once per ranker (the ranker parameter, see standalone-search/lib/ranking.ts)
+ * and reports NDCG@k and MRR, so a config version can be compared with the
+ * current one before it is put into an A/B test.
+ *
+ * A result's gain is the grade of the labelled sponsor it matches; each label
+ * counts once, so more filings of the same employer do not add gain. MRR uses
+ * the first result graded RELEVANT_GRADE or higher.
+ *
+ * Usage:
+ *   npx tsx evaluate-ranking.ts                  # every config version
+ *   npx tsx evaluate-ranking.ts v1 v2 --k=5      # the first ranker is the baseline
+ *   API_URL=https://... npx tsx evaluate-ranking.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { normalizeSponsorName } from './standalone-search/lib/sponsor-matching';
+import { RANKING_CONFIGS } from './standalone-search/lib/ranking-configs';
+
+const API_URL = process.env.API_URL || 'http://localhost:8081';
+const LABELS_PATH = path.join(__dirname, 'ranking-eval', 'labelled-queries.json');
+const RELEVANT_GRADE = 2;
+
+interface LabelledQuery {
+  q: string;
+  relevant: Array<{ sponsor?: string; ein?: string; grade: number }>;
+}
+
+interface QueryScore {
+  ndcg: number;
+  reciprocalRank: number;
+  top: string | null;
+}
+
+/**
+ * Grades of the returned results, each label used at most once
+ */
+function gradeResults(results: any[], labels: LabelledQuery['relevant']): number[] {
+  const used = new Set<number>();
+
+  return results.map(result => {
+    const sponsor = normalizeSponsorName(result.company?.name || '');
+    const labelIndex = labels.findIndex((label, i) => !used.has(i) && (
+      (label.ein && String(result.ein) === label.ein) ||
+      (label.sponsor && normalizeSponsorName(label.sponsor) === sponsor)
+    ));
+    if (labelIndex === -1) return 0;
+
+    used.add(labelIndex);
+    return labels[labelIndex].grade;
+  });
+}
+
+function dcg(grades: number[]): number {
+  return grades.reduce((sum, grade, i) => sum + (Math.pow(2, grade) - 1) / Math.log2(i + 2), 0);
+}
+
+function ndcgAtK(grades: number[], labels: LabelledQuery['relevant'], k: number): number {
+  const ideal = dcg(labels.map(label => label.grade).sort((a, b) => b - a).slice(0, k));
+  return ideal > 0 ? dcg(grades.slice(0, k)) / ideal : 0;
+}
+
+function reciprocalRank(grades: number[]): number {
+  const rank = grades.findIndex(grade => grade >= RELEVANT_GRADE);
+  return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+async function scoreQuery(query: LabelledQuery, ranker: string, k: number): Promise<QueryScore> {
+  const params = new URLSearchParams({
+    q: query.q,
+    limit: String(k),
+    force_bigquery: 'true',
+    ranker
+  });
+  const response = await fetch(`${API_URL}/searchPlans?${params}`);
+  if (!response.ok) {
+    throw new Error(`"${query.q}" with ${ranker}: HTTP ${response.status} ${await response.text()}`);
+  }
+
+  const data: any = await response.json();
+  const results = data.results || [];
+  const grades = gradeResults(results, query.relevant);
+
+  return {
+    ndcg: ndcgAtK(grades, query.relevant, k),
+    reciprocalRank: reciprocalRank(grades),
+    top: results[0]?.company?.name || null
+  };
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+
+async function evaluateRanking() {
+  const args = process.argv.slice(2);
+  const kArg = args.find(arg => arg.startsWith('--k='));
+  const k = kArg ? parseInt(kArg.slice('--k='.length), 10) : 10;
+  const rankers = args.filter(arg => !arg.startsWith('--'));
+  if (rankers.length === 0) rankers.push(...Object.keys(RANKING_CONFIGS));
+
+  const unknown = rankers.filter(ranker => !RANKING_CONFIGS[ranker]);
+  if (unknown.length > 0 || !(k > 0)) {
+    console.error(`Usage: npx tsx evaluate-ranking.ts [${Object.keys(RANKING_CONFIGS).join('|')}...] [--k=10]`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const { queries } = JSON.parse(fs.readFileSync(LABELS_PATH, 'utf8')) as { queries: LabelledQuery[] };
+
+  console.log('📊 Ranking Evaluation');
+  console.log(`API: ${API_URL}`);
+  console.log(`Queries: ${queries.length}, rankers: ${rankers.join(', ')}, k: ${k}`);
+  console.log('='.repeat(60));
+
+  const scores = new Map<string, QueryScore[]>(rankers.map(ranker => [ranker, []]));
+
+  for (const query of queries) {
+    console.log(`\n🔍 "${query.q}"`);
+    for (const ranker of rankers) {
+      const score = await scoreQuery(query, ranker, k);
+      scores.get(ranker)!.push(score);
+      console.log(
+        `  ${ranker.padEnd(6)} NDCG@${k} ${score.ndcg.toFixed(3)}  RR ${score.reciprocalRank.toFixed(3)}  top: ${score.top || '(none)'}`
+      );
+    }
+  }
+
+  const [baseline, ...candidates] = rankers;
+  const baselineScores = scores.get(baseline)!;
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Summary:');
+  for (const ranker of rankers) {
+    const rankerScores = scores.get(ranker)!;
+    console.log(
+      `  ${ranker.padEnd(6)} NDCG@${k} ${mean(rankerScores.map(s => s.ndcg)).toFixed(3)}  ` +
+      `MRR ${mean(rankerScores.map(s => s.reciprocalRank)).toFixed(3)}  ` +
+      `(${RANKING_CONFIGS[ranker].description})`
+    );
+  }
+
+  for (const candidate of candidates) {
+    const candidateScores = scores.get(candidate)!;
+    const wins = candidateScores.filter((s, i) => s.ndcg > baselineScores[i].ndcg + 1e-9).length;
+    const losses = candidateScores.filter((s, i) => s.ndcg < baselineScores[i].ndcg - 1e-9).length;
+    console.log(`  ${candidate} vs ${baseline}: better on ${wins}, worse on ${losses} of ${queries.length} queries`);
+  }
+}
+
+evaluateRanking().catch(error => {
+  console.error('❌ Evaluation failed:', error);
+  process.exit(1);
+});
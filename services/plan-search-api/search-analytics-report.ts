@@ -0,0 +1,304 @@
+/**
+ * Search analytics report from widget search events
+ *
+ * Reads search_analytics.search_events (written by POST /events, see
+ * standalone-search/lib/search-events.ts) and lists:
+ *   - the most common queries that returned nothing (synonym and alias gaps)
+ *   - queries people search often but rarely pick a plan from (ranking gaps)
+ *   - click-through and mean reciprocal rank per ranker, for A/B tests
+ *
+ * With --update-click-stats it also rebuilds search_analytics.plan_click_stats,
+ * the impressions and selections per plan read by the clickThrough ranking feature.
+ * A selection only counts when a search event with the same search_id listed
+ * that plan, and once per search. Events are still unauthenticated, so
+ * anyone can post a matching search and select pair: keep clickThrough at
+ * weight 0 (see lib/ranking-configs.ts) until ingest is authenticated or signed.
+ *
+ * Sessions with more than --max-session-searches searches in the window are
+ * left out of every figure: a script replaying searches would otherwise pick
+ * the zero-result list and move click stats (and so the ranking).
+ *
+ * Usage:
+ *   npx tsx search-analytics-report.ts [--days=30] [--limit=25] [--min-searches=10]
+ *     [--max-session-searches=100] [--update-click-stats]
+ */
+
+import { BigQuery } from '@google-cloud/bigquery';
+import { CLICK_STATS_TABLE } from './standalone-search/lib/ranking';
+import { SEARCH_ANALYTICS_DATASET, SEARCH_EVENTS_TABLE } from './standalone-search/lib/search-events';
+
+const bigquery = new BigQuery({
+  projectId: 'trustrails-faa3e',
+  keyFilename: process.env.GOOGLE_APPLICATION_CREDENTIALS || '/home/stock1232/projects/trustrails/credentials/firebase-admin.json'
+});
+
+const EVENTS = `\`trustrails-faa3e.${SEARCH_ANALYTICS_DATASET}.${SEARCH_EVENTS_TABLE}\``;
+const IN_WINDOW = 'event_time >= TIMESTAMP_SUB(CURRENT_TIMESTAMP(), INTERVAL @days DAY)';
+
+// Events in the window, without sessions of abnormal volume
+const WINDOW_EVENTS = `
+  suspect_sessions AS (
+    SELECT session_id
+    FROM ${EVENTS}
+    WHERE event_type = 'search'
+      AND session_id IS NOT NULL
+      AND ${IN_WINDOW}
+    GROUP BY session_id
+    HAVING COUNT(*) > @maxSessionSearches
+  ),
+  events AS (
+    SELECT *
+    FROM ${EVENTS}
+    WHERE ${IN_WINDOW}
+      AND (session_id IS NULL OR session_id NOT IN (SELECT session_id FROM suspect_sessions))
+  )`;
+
+// First results page of each search, and whether (and where) a plan was picked from it
+const SEARCH_OUTCOMES = `${WINDOW_EVENTS},
+  searches AS (
+    SELECT
+      search_id,
+      ANY_VALUE(query) AS query,
+      ANY_VALUE(ranker_version) AS ranker_version,
+      ANY_VALUE(ranker_arm) AS ranker_arm
+    FROM events
+    WHERE event_type = 'search'
+      AND page_offset = 0
+      AND result_count > 0
+      AND search_id IS NOT NULL
+    GROUP BY search_id
+  ),
+  selections AS (
+    SELECT
+      search_id,
+      MIN(selected_rank) AS selected_rank,
+      MIN(time_to_select_ms) AS time_to_select_ms
+    FROM events
+    WHERE event_type = 'select'
+      AND search_id IS NOT NULL
+    GROUP BY search_id
+  ),
+  outcomes AS (
+    SELECT s.*, sel.search_id IS NOT NULL AS selected, sel.selected_rank, sel.time_to_select_ms
+    FROM searches s
+    LEFT JOIN selections sel USING (search_id)
+  )`;
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const numberArg = (name: string, fallback: number) => {
+    const arg = args.find(a => a.startsWith(`--${name}=`));
+    const value = arg ? parseInt(arg.slice(name.length + 3), 10) : fallback;
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  return {
+    days: numberArg('days', 30),
+    limit: numberArg('limit', 25),
+    minSearches: numberArg('min-searches', 10),
+    maxSessionSearches: numberArg('max-session-searches', 100),
+    updateClickStats: args.includes('--update-click-stats')
+  };
+}
+
+const percent = (value: number | null) => value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+
+async function countSuspectSessions(params: Record<string, number>): Promise<number> {
+  const [[{ sessions }]] = await bigquery.query({
+    query: `
+      WITH ${WINDOW_EVENTS}
+      SELECT COUNT(*) AS sessions FROM suspect_sessions
+    `,
+    params,
+    location: 'US'
+  });
+  return sessions;
+}
+
+async function reportZeroResultQueries(params: Record<string, number>) {
+  console.log('\n🚫 Top zero-result queries');
+  console.log('-'.repeat(50));
+
+  const [rows] = await bigquery.query({
+    query: `
+      WITH ${WINDOW_EVENTS}
+      SELECT
+        query,
+        COUNT(*) AS searches,
+        COUNT(DISTINCT session_id) AS sessions,
+        MAX(event_time) AS last_seen
+      FROM events
+      WHERE event_type = 'search'
+        AND page_offset = 0
+        AND result_count = 0
+      GROUP BY query
+      ORDER BY sessions DESC, searches DESC
+      LIMIT @limit
+    `,
+    params,
+    location: 'US'
+  });
+
+  if (rows.length === 0) {
+    console.log('No zero-result searches');
+    return;
+  }
+  rows.forEach((row: any, i: number) => {
+    console.log(`${i + 1}. "${row.query}" - ${row.searches} searches, ${row.sessions} sessions, last ${row.last_seen.value}`);
+  });
+}
+
+async function reportLowClickThroughQueries(params: Record<string, number>) {
+  console.log('\n📉 Lowest click-through queries');
+  console.log('-'.repeat(50));
+
+  const [rows] = await bigquery.query({
+    query: `
+      WITH ${SEARCH_OUTCOMES}
+      SELECT
+        query,
+        COUNT(*) AS searches,
+        COUNTIF(selected) AS selections,
+        SAFE_DIVIDE(COUNTIF(selected), COUNT(*)) AS ctr,
+        AVG(selected_rank) AS avg_selected_rank,
+        APPROX_QUANTILES(time_to_select_ms, 2 IGNORE NULLS)[SAFE_OFFSET(1)] AS median_time_to_select_ms
+      FROM outcomes
+      GROUP BY query
+      HAVING searches >= @minSearches
+      ORDER BY ctr ASC, searches DESC
+      LIMIT @limit
+    `,
+    params,
+    location: 'US'
+  });
+
+  if (rows.length === 0) {
+    console.log(`No query was searched at least ${params.minSearches} times`);
+    return;
+  }
+  rows.forEach((row: any, i: number) => {
+    const rank = row.avg_selected_rank === null ? '-' : row.avg_selected_rank.toFixed(1);
+    const time = row.median_time_to_select_ms === null ? '-' : `${(row.median_time_to_select_ms / 1000).toFixed(1)}s`;
+    console.log(
+      `${i + 1}. "${row.query}" - CTR ${percent(row.ctr)} (${row.selections}/${row.searches}), ` +
+      `avg selected rank ${rank}, median time to select ${time}`
+    );
+  });
+}
+
+async function reportRankers(params: Record<string, number>) {
+  console.log('\n⚖️  Click-through by ranker');
+  console.log('-'.repeat(50));
+
+  const [rows] = await bigquery.query({
+    query: `
+      WITH ${SEARCH_OUTCOMES}
+      SELECT
+        COALESCE(ranker_version, '(none)') AS ranker_version,
+        COALESCE(ranker_arm, '(none)') AS ranker_arm,
+        COUNT(*) AS searches,
+        COUNTIF(selected) AS selections,
+        SAFE_DIVIDE(COUNTIF(selected), COUNT(*)) AS ctr,
+        AVG(IF(selected AND selected_rank > 0, 1 / selected_rank, 0)) AS mrr
+      FROM outcomes
+      GROUP BY ranker_version, ranker_arm
+      ORDER BY searches DESC
+    `,
+    params,
+    location: 'US'
+  });
+
+  if (rows.length === 0) {
+    console.log('No searches with results');
+    return;
+  }
+  rows.forEach((row: any) => {
+    console.log(
+      `${row.ranker_version} (${row.ranker_arm}): ${row.searches} searches, ` +
+      `CTR ${percent(row.ctr)}, MRR ${row.mrr.toFixed(3)}`
+    );
+  });
+}
+
+async function updateClickStats(params: Record<string, number>) {
+  console.log('\n🔄 Rebuilding plan click stats');
+  console.log('-'.repeat(50));
+
+  await bigquery.query({
+    query: `
+      CREATE OR REPLACE TABLE \`${CLICK_STATS_TABLE}\` AS
+      WITH ${WINDOW_EVENTS},
+      impressions AS (
+        SELECT result.ein, result.plan_number, COUNT(*) AS impressions
+        FROM events, UNNEST(shown) AS result
+        WHERE event_type = 'search'
+          AND result.ein IS NOT NULL
+          AND result.plan_number IS NOT NULL
+        GROUP BY result.ein, result.plan_number
+      ),
+      -- Plans each search listed; a selection of anything else is not counted
+      listed AS (
+        SELECT DISTINCT search_id, result.ein, result.plan_number
+        FROM events, UNNEST(shown) AS result
+        WHERE event_type = 'search'
+          AND search_id IS NOT NULL
+          AND result.ein IS NOT NULL
+          AND result.plan_number IS NOT NULL
+      ),
+      selections AS (
+        SELECT listed.ein, listed.plan_number, COUNT(DISTINCT listed.search_id) AS selections
+        FROM events selected
+        JOIN listed
+          ON listed.search_id = selected.search_id
+          AND listed.ein = selected.selected_ein
+          AND listed.plan_number = selected.selected_plan_number
+        WHERE selected.event_type = 'select'
+        GROUP BY listed.ein, listed.plan_number
+      )
+      SELECT
+        ein,
+        plan_number,
+        impressions.impressions,
+        COALESCE(selections.selections, 0) AS selections,
+        CURRENT_TIMESTAMP() AS updated_at
+      FROM impressions
+      LEFT JOIN selections USING (ein, plan_number)
+    `,
+    params,
+    location: 'US'
+  });
+
+  const [[{ plans }]] = await bigquery.query({
+    query: `SELECT COUNT(*) AS plans FROM \`${CLICK_STATS_TABLE}\``,
+    location: 'US'
+  });
+  console.log(`✅ ${CLICK_STATS_TABLE}: ${plans} plans`);
+}
+
+async function runSearchAnalyticsReport() {
+  const { days, limit, minSearches, maxSessionSearches, updateClickStats: shouldUpdateClickStats } = parseArgs();
+
+  console.log('📊 Search Analytics Report');
+  console.log(`Window: last ${days} days`);
+  console.log('='.repeat(60));
+
+  // Each query gets only the parameters it uses
+  const excluded = await countSuspectSessions({ days, maxSessionSearches });
+  console.log(`Left out: ${excluded} sessions with more than ${maxSessionSearches} searches`);
+
+  await reportZeroResultQueries({ days, limit, maxSessionSearches });
+  await reportLowClickThroughQueries({ days, limit, minSearches, maxSessionSearches });
+  await reportRankers({ days, maxSessionSearches });
+
+  if (shouldUpdateClickStats) {
+    await updateClickStats({ days, maxSessionSearches });
+  }
+
+  console.log('\n' + '='.repeat(60));
+  console.log('✅ Report complete');
+}
+
+runSearchAnalyticsReport().catch(error => {
+  console.error('❌ Report failed:', error);
+  process.exit(1);
+});
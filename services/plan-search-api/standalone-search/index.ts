@@ -3,9 +3,35 @@
  * Fast search endpoint for widget to find 401(k) plans
  */
 
-import { HttpFunction } from '@google-cloud/functions-framework';
+import { HttpFunction, Request, Response } from '@google-cloud/functions-framework';
 import { requireAdminApp, GCP_CONFIG, getGCPClientConfig } from './lib/gcp-config';
 import { BigQuery } from '@google-cloud/bigquery';
+import { createReadinessCheck, getLiveness, readinessHttpStatus, toPublicReport } from './lib/health';
+import {
+  buildQueryMatchKeys,
+  maxEditsFor,
+  scoreSponsorMatch,
+  FUZZY_MATCH_THRESHOLD,
+  type QueryMatchKeys
+} from './lib/sponsor-matching';
+import {
+  fromSuggestShards,
+  lookupSuggestions,
+  DEFAULT_SUGGESTION_LIMIT,
+  MAX_SUGGESTION_LIMIT,
+  SUGGEST_INDEX_COLLECTION,
+  SUGGEST_INDEX_POINTER_DOC,
+  SUGGEST_INDEX_SHARDS_COLLECTION,
+  type SuggestIndex
+} from './lib/suggest-index';
+import { buildRankingSQL, escapeLikePattern, selectRanker, type RankingConfig } from './lib/ranking';
+import {
+  createSearchEventLimiter,
+  parseSearchEvents,
+  SEARCH_ANALYTICS_DATASET,
+  SEARCH_EVENTS_SCHEMA,
+  SEARCH_EVENTS_TABLE
+} from './lib/search-events';
 
 // Initialize services with explicit project ID and keyFilename
 const { adminDb } = requireAdminApp();
@@ -18,15 +44,66 @@ const bigquery = new BigQuery({
 const searchCache = new Map<string, { data: any; timestamp: number }>();
 const CACHE_TTL = 60 * 60 * 1000; // 1 hour
 
+// Typo-tolerant Firestore lookups (see lib/sponsor-matching.ts)
+const ARRAY_CONTAINS_ANY_LIMIT = 10;
+const FUZZY_CANDIDATE_LIMIT = 200;
+
+// group=employer: plans fetched per search, then folded into one card per employer
+const EMPLOYER_PLAN_POOL = 200;
+
+// Typeahead index (see lib/suggest-index.ts), published by cache-warmer.ts
+const SUGGEST_INDEX_CHECK_INTERVAL = 10 * 60 * 1000; // 10 minutes
+const MAX_SUGGEST_PREFIX_LENGTH = 100;
+let suggestIndex: SuggestIndex | null = null;
+let suggestIndexCheckedAt = 0;
+let suggestIndexLoading: Promise<SuggestIndex | null> | null = null;
+
+// Widget search analytics (see lib/search-events.ts), table created on first use
+let searchEventsTableReady: Promise<void> | null = null;
+const admitSearchEvents = createSearchEventLimiter();
+
+// BigQuery serves every query the Firestore cache cannot, so only it is critical
+const getReadiness = createReadinessCheck([
+  {
+    name: 'bigquery',
+    critical: true,
+    run: async () => {
+      const [exists] = await bigquery.dataset('dol_data').table('plan_sponsors').exists();
+      if (!exists) throw new Error('dol_data.plan_sponsors not found');
+    }
+  },
+  {
+    name: 'firestore',
+    critical: false,
+    run: async () => {
+      await adminDb.collection(GCP_CONFIG.collections.retirement_plans).limit(1).get();
+    }
+  },
+  {
+    name: 'suggest_index',
+    critical: false,
+    run: async () => {
+      if (!(await getSuggestIndex())) throw new Error('Suggest index not loaded');
+    }
+  }
+]);
+
+// Load the typeahead index with the instance rather than on the first keystroke
+getSuggestIndex();
+
 /**
  * Search retirement plans endpoint
  * GET /searchPlans?q=company&ein=12345&state=CA&limit=20
+ * GET /searchPlans?q=company&group=employer - one card per employer with its plans
+ * GET /searchPlans?q=company&ranker=v2 - rank with one config version (see lib/ranking.ts)
+ * GET /suggest?prefix=micr&limit=8 - sponsor and custodian names for typeahead
+ * POST /events - anonymized search and selection events from the widget
  */
 export const searchPlans: HttpFunction = async (req, res) => {
   // CORS headers for widget
   const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
     'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     'Access-Control-Max-Age': '86400'
   };
@@ -36,6 +113,23 @@ export const searchPlans: HttpFunction = async (req, res) => {
     return res.status(204).set(corsHeaders).send('');
   }
 
+  // Liveness and readiness probes
+  if (req.method === 'GET' && req.path === '/livez') {
+    return res.set({ ...corsHeaders, 'Cache-Control': 'no-store' }).json(getLiveness());
+  }
+  if (req.method === 'GET' && req.path === '/readyz') {
+    const report = await getReadiness();
+    return res.status(readinessHttpStatus(report))
+      .set({ ...corsHeaders, 'Cache-Control': 'no-store' })
+      .json(toPublicReport(report));
+  }
+  if (req.method === 'GET' && req.path === '/suggest') {
+    return handleSuggest(req, res, corsHeaders);
+  }
+  if (req.method === 'POST' && req.path === '/events') {
+    return handleSearchEvents(req, res, corsHeaders);
+  }
+
   try {
     // Extract search parameters
     const {
@@ -45,6 +139,9 @@ export const searchPlans: HttpFunction = async (req, res) => {
       city,     // City name
       type,     // Plan type (401k, 403b, etc)
       custodian, // Custodian/provider name to filter by
+      group,    // 'employer' returns one card per employer with its plans
+      sid,      // Widget search session; buckets the session into a ranker
+      ranker,   // Ranking config version, overriding the A/B assignment
       limit = '20',
       offset = '0',
       force_bigquery = 'false'  // Force BigQuery instead of Firestore cache
@@ -61,8 +158,18 @@ export const searchPlans: HttpFunction = async (req, res) => {
       });
     }
 
+    const rankerSelection = selectRanker({ bucketKey: sid, override: ranker });
+    if (!rankerSelection) {
+      return res.status(400).set(corsHeaders).json({
+        error: `Unknown ranker: ${ranker}`
+      });
+    }
+    const rankingConfig = rankerSelection.config;
+
     // Create cache key
-    const cacheKey = JSON.stringify({ q, ein, state, city, type, custodian, limit, offset });
+    const cacheKey = JSON.stringify({
+      q, ein, state, city, type, custodian, group, limit, offset, ranker: rankingConfig.version
+    });
 
     // Check memory cache first
     const cached = searchCache.get(cacheKey);
@@ -71,6 +178,16 @@ export const searchPlans: HttpFunction = async (req, res) => {
       return res.set(corsHeaders).json(cached.data);
     }
 
+    if (group === 'employer') {
+      const response = await searchEmployers(
+        { q, ein, state, city, type, custodian, ranker: rankingConfig, rankerArm: rankerSelection.arm },
+        searchLimit,
+        searchOffset
+      );
+      searchCache.set(cacheKey, { data: response, timestamp: Date.now() });
+      return res.set(corsHeaders).json(response);
+    }
+
     let results: any[] = [];
     let totalCount = 0;
     let searchMethod = '';
@@ -80,7 +197,7 @@ export const searchPlans: HttpFunction = async (req, res) => {
     if (forceBigQuery || custodian) {
       // Force BigQuery search (for testing) or custodian filtering (requires BigQuery join)
       searchMethod = 'bigquery';
-      const bigQueryResults = await searchBigQuery({ q, ein, state, city, type, custodian, limit: searchLimit, offset: searchOffset });
+      const bigQueryResults = await searchBigQuery({ q, ein, state, city, type, custodian, ranker: rankingConfig, limit: searchLimit, offset: searchOffset });
       results = bigQueryResults.results;
       totalCount = bigQueryResults.totalCount;
     } else if ((q || ein) && searchLimit <= 20) {
@@ -91,14 +208,14 @@ export const searchPlans: HttpFunction = async (req, res) => {
       // Fall back to BigQuery if no results from Firestore
       if (results.length === 0) {
         searchMethod = 'bigquery';
-        const bigQueryResults = await searchBigQuery({ q, ein, state, city, type, custodian, limit: searchLimit, offset: searchOffset });
+        const bigQueryResults = await searchBigQuery({ q, ein, state, city, type, custodian, ranker: rankingConfig, limit: searchLimit, offset: searchOffset });
         results = bigQueryResults.results;
         totalCount = bigQueryResults.totalCount;
       }
     } else {
       // Use BigQuery for complex or large queries
       searchMethod = 'bigquery';
-      const bigQueryResults = await searchBigQuery({ q, ein, state, city, type, custodian, limit: searchLimit, offset: searchOffset });
+      const bigQueryResults = await searchBigQuery({ q, ein, state, city, type, custodian, ranker: rankingConfig, limit: searchLimit, offset: searchOffset });
       results = bigQueryResults.results;
       totalCount = bigQueryResults.totalCount;
     }
@@ -117,7 +234,10 @@ export const searchPlans: HttpFunction = async (req, res) => {
         searchMethod,
         cached: false,
         processingTime: `${Date.now() - Date.now()}ms`,
-        custodianFilter: custodian || null
+        custodianFilter: custodian || null,
+        ranker: searchMethod === 'bigquery'
+          ? { version: rankingConfig.version, arm: rankerSelection.arm }
+          : null
       }
     };
 
@@ -148,6 +268,170 @@ export const searchPlans: HttpFunction = async (req, res) => {
 /**
  * Search Firestore cache (fast, limited dataset)
  */
+/**
+ * Typeahead suggestions, answered from the in-memory prefix index
+ */
+async function handleSuggest(req: Request, res: Response, corsHeaders: Record<string, string>) {
+  const startTime = Date.now();
+  const { prefix = '', limit } = req.query as Record<string, string>;
+
+  if (!prefix.trim() || prefix.length > MAX_SUGGEST_PREFIX_LENGTH) {
+    return res.status(400).set(corsHeaders).json({
+      error: `prefix is required and must be at most ${MAX_SUGGEST_PREFIX_LENGTH} characters`
+    });
+  }
+
+  const index = await getSuggestIndex();
+  if (!index) {
+    return res.status(503).set({ ...corsHeaders, 'Cache-Control': 'no-store' }).json({
+      error: 'Suggestions are not available yet'
+    });
+  }
+
+  const suggestionLimit = Math.min(parseInt(limit) || DEFAULT_SUGGESTION_LIMIT, MAX_SUGGESTION_LIMIT);
+  const suggestions = lookupSuggestions(index, prefix, suggestionLimit);
+
+  return res.set({ ...corsHeaders, 'Cache-Control': 'public, max-age=300' }).json({
+    success: true,
+    prefix,
+    suggestions,
+    metadata: {
+      indexVersion: index.version,
+      indexBuiltAt: index.builtAt,
+      processingTime: `${Date.now() - startTime}ms`
+    }
+  });
+}
+
+/**
+ * Store anonymized widget search events in BigQuery
+ */
+async function handleSearchEvents(req: Request, res: Response, corsHeaders: Record<string, string>) {
+  let body = req.body;
+
+  // navigator.sendBeacon posts text/plain, which needs no CORS preflight
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      return res.status(400).set(corsHeaders).json({ error: 'Body must be JSON' });
+    }
+  }
+
+  const parsed = parseSearchEvents(body);
+  if (!parsed.success) {
+    return res.status(400).set(corsHeaders).json({ error: parsed.error });
+  }
+
+  const limit = admitSearchEvents(getClientIp(req), parsed.rows);
+  if (!limit.allowed) {
+    return res.status(429).set({ ...corsHeaders, 'Retry-After': String(limit.retryAfterSeconds) }).json({
+      error: 'Too many search events',
+      retryAfter: limit.retryAfterSeconds
+    });
+  }
+
+  try {
+    await ensureSearchEventsTable();
+    // insertId lets BigQuery drop events the widget sent twice
+    await bigquery.dataset(SEARCH_ANALYTICS_DATASET).table(SEARCH_EVENTS_TABLE).insert(
+      parsed.rows.map(row => ({ insertId: row.event_id, json: row })),
+      { raw: true }
+    );
+  } catch (error: any) {
+    // BigQuery errors name datasets and columns; they stay in the logs
+    console.error('Failed to store search events:', error);
+    return res.status(500).set(corsHeaders).json({ error: 'Failed to store search events' });
+  }
+
+  return res.status(202).set(corsHeaders).json({ success: true, accepted: parsed.rows.length });
+}
+
+/**
+ * Client address as seen by Google's front end
+ * The load balancer appends it to X-Forwarded-For, so earlier entries may be forged.
+ */
+function getClientIp(req: Request): string {
+  const forwardedFor = req.get('x-forwarded-for');
+  const last = forwardedFor?.split(',').pop()?.trim();
+  return last || req.ip || 'unknown';
+}
+
+function ensureSearchEventsTable(): Promise<void> {
+  if (!searchEventsTableReady) {
+    searchEventsTableReady = createSearchEventsTable().catch(error => {
+      searchEventsTableReady = null;
+      throw error;
+    });
+  }
+  return searchEventsTableReady;
+}
+
+async function createSearchEventsTable() {
+  // Another instance may create them first
+  const ignoreAlreadyExists = (error: any) => {
+    if (error.code !== 409) throw error;
+  };
+
+  const dataset = bigquery.dataset(SEARCH_ANALYTICS_DATASET);
+  const [datasetExists] = await dataset.exists();
+  if (!datasetExists) {
+    await dataset.create({ location: GCP_CONFIG.region }).catch(ignoreAlreadyExists);
+  }
+
+  const table = dataset.table(SEARCH_EVENTS_TABLE);
+  const [tableExists] = await table.exists();
+  if (!tableExists) {
+    await table.create({
+      schema: { fields: SEARCH_EVENTS_SCHEMA },
+      timePartitioning: { type: 'DAY', field: 'event_time' }
+    }).catch(ignoreAlreadyExists);
+  }
+}
+
+/**
+ * Current typeahead index; a loaded index keeps serving while a newer one is fetched
+ */
+function getSuggestIndex(): Promise<SuggestIndex | null> {
+  if (suggestIndex && Date.now() - suggestIndexCheckedAt < SUGGEST_INDEX_CHECK_INTERVAL) {
+    return Promise.resolve(suggestIndex);
+  }
+
+  if (!suggestIndexLoading) {
+    suggestIndexLoading = refreshSuggestIndex().finally(() => {
+      suggestIndexLoading = null;
+    });
+  }
+
+  return suggestIndex ? Promise.resolve(suggestIndex) : suggestIndexLoading;
+}
+
+async function refreshSuggestIndex(): Promise<SuggestIndex | null> {
+  try {
+    const collection = adminDb.collection(SUGGEST_INDEX_COLLECTION);
+    const pointer = await collection.doc(SUGGEST_INDEX_POINTER_DOC).get();
+    const version = pointer.get('version');
+
+    if (version && version !== suggestIndex?.version) {
+      const shards = await collection.doc(version).collection(SUGGEST_INDEX_SHARDS_COLLECTION).get();
+      if (shards.size !== pointer.get('shardCount')) {
+        throw new Error(`Suggest index ${version} has ${shards.size} of ${pointer.get('shardCount')} shards`);
+      }
+
+      const loadStart = Date.now();
+      suggestIndex = fromSuggestShards(
+        [...shards.docs].sort((a, b) => a.id.localeCompare(b.id)).map(doc => doc.get('data'))
+      );
+      console.log(`✅ Loaded suggest index ${version}: ${suggestIndex.names.length} names in ${Date.now() - loadStart}ms`);
+    }
+  } catch (error) {
+    console.error('Failed to load suggest index:', error);
+  }
+
+  suggestIndexCheckedAt = Date.now();
+  return suggestIndex;
+}
+
 async function searchFirestore(params: any): Promise<any[]> {
   const { q, ein, state, city, type, limit, offset } = params;
 
@@ -249,40 +533,110 @@ async function searchFirestore(params: any): Promise<any[]> {
     results = results.slice(0, limit);
   }
 
+  // Nothing starts with the query as typed: try the misspelling-tolerant keys
+  if (isFuzzySearch && results.length === 0) {
+    return searchFirestoreFuzzy(q, limit, offset);
+  }
+
   return results;
 }
 
 /**
- * Search BigQuery with ML-Enhanced Relevance Scoring
+ * Typo-tolerant Firestore search over the match keys written by the DOL pipeline
+ * Candidates share a Double Metaphone code or a trigram with the query, then are
+ * re-ranked by scoreSponsorMatch; anything below the threshold is dropped.
+ */
+async function searchFirestoreFuzzy(q: string, limit: number, offset: number): Promise<any[]> {
+  const keys = buildQueryMatchKeys(q);
+  if (!keys.compact) {
+    return [];
+  }
+
+  const collection = adminDb.collection(GCP_CONFIG.collections.retirement_plans);
+  const lookups = [
+    { field: 'sponsorPhoneticKeys', values: keys.phoneticKeys },
+    { field: 'sponsorTrigrams', values: keys.trigrams }
+  ].filter(lookup => lookup.values.length > 0);
+
+  const snapshots = await Promise.all(lookups.map(lookup =>
+    collection
+      .where(lookup.field, 'array-contains-any', lookup.values.slice(0, ARRAY_CONTAINS_ANY_LIMIT))
+      .orderBy('searchRank', 'desc')
+      .limit(FUZZY_CANDIDATE_LIMIT)
+      .get()
+  ));
+
+  const candidates = new Map<string, any>();
+  snapshots.forEach(snapshot => snapshot.docs.forEach(doc => candidates.set(doc.id, doc.data())));
+
+  return [...candidates.values()]
+    .filter(plan => plan.participants > 0)
+    .map(plan => ({ plan, score: scoreSponsorMatch(q, plan.sponsorName || '') }))
+    .filter(({ score }) => score >= FUZZY_MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score || (b.plan.searchRank || 0) - (a.plan.searchRank || 0))
+    .slice(offset, offset + limit)
+    .map(({ plan }) => plan);
+}
+
+/**
+ * SQL condition for sponsor names that match the query despite typos
+ * Same normalization as lib/sponsor-matching.ts: the name without punctuation
+ * contains the query ("J.P. Morgan" -> JPMORGAN), or every query word is within
+ * edit distance of a name word ("Mircosoft" -> MICROSOFT). Only [A-Z0-9] reaches
+ * the SQL text.
+ */
+function fuzzySponsorMatchSQL(keys: QueryMatchKeys): string {
+  const sqlSafe = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const conditions: string[] = [];
+
+  if (keys.compact.length >= 3) {
+    conditions.push(`REGEXP_REPLACE(UPPER(ps.sponsor_name), r'[^A-Z0-9]', '') LIKE '%${sqlSafe(keys.compact)}%'`);
+  }
+
+  const typoTokens = keys.tokens.filter(token => maxEditsFor(token.length) > 0).slice(0, 3);
+  if (typoTokens.length > 0) {
+    conditions.push(`(${typoTokens.map(token => `EXISTS (
+        SELECT 1
+        FROM UNNEST(SPLIT(REGEXP_REPLACE(REGEXP_REPLACE(UPPER(ps.sponsor_name), r"[.']", ''), r'[^A-Z0-9]+', ' '), ' ')) AS name_token
+        WHERE EDIT_DISTANCE(name_token, '${sqlSafe(token)}') <= ${maxEditsFor(token.length)}
+      )`).join(' AND ')})`);
+  }
+
+  return conditions.length > 0 ? conditions.join(' OR ') : 'FALSE';
+}
+
+/**
+ * Search BigQuery, ranked by params.ranker (see lib/ranking.ts)
  */
 async function searchBigQuery(params: any): Promise<{ results: any[]; totalCount: number }> {
   const { q, ein, state, city, type, custodian, limit, offset } = params;
+  const ranker: RankingConfig = params.ranker;
 
-  // Build SQL query
+  // Build SQL query; named parameters only (the ranking SQL uses them too)
   let whereConditions: string[] = [];
-  const queryParams: any[] = [];
+  const queryParams: Record<string, string> = {};
 
   // Include plans with participants data (assets data is sparse/missing)
   whereConditions.push('ps.participants > 0');
 
   if (ein) {
-    whereConditions.push('CAST(ps.ein_plan_sponsor AS STRING) = ?');
-    queryParams.push(ein);
+    whereConditions.push('CAST(ps.ein_plan_sponsor AS STRING) = @ein');
+    queryParams.ein = ein;
   }
 
   if (state) {
-    whereConditions.push('UPPER(ps.sponsor_state) = UPPER(?)');
-    queryParams.push(state);
+    whereConditions.push('UPPER(ps.sponsor_state) = UPPER(@state)');
+    queryParams.state = state;
   }
 
   if (city) {
-    whereConditions.push('UPPER(ps.sponsor_city) LIKE UPPER(?)');
-    queryParams.push(`%${city}%`);
+    whereConditions.push('UPPER(ps.sponsor_city) LIKE UPPER(@cityPattern)');
+    queryParams.cityPattern = `%${city}%`;
   }
 
   if (type) {
-    whereConditions.push('ps.plan_type = ?');
-    queryParams.push(mapPlanTypeQuery(type));
+    whereConditions.push('ps.plan_type = @planType');
+    queryParams.planType = mapPlanTypeQuery(type);
   }
 
   if (custodian) {
@@ -290,11 +644,13 @@ async function searchBigQuery(params: any): Promise<{ results: any[]; totalCount
     whereConditions.push(`EXISTS (
       SELECT 1 FROM \`trustrails-faa3e.dol_data.schedule_c_custodians\` cc
       WHERE cc.ack_id = ps.ack_id
-        AND UPPER(cc.provider_other_name) LIKE UPPER(?)
+        AND UPPER(cc.provider_other_name) LIKE UPPER(@custodianPattern)
     )`);
-    queryParams.push(`%${custodian}%`);
+    queryParams.custodianPattern = `%${custodian}%`;
   }
 
+  const fuzzySponsorMatch = q && q.length > 2 ? fuzzySponsorMatchSQL(buildQueryMatchKeys(q)) : 'FALSE';
+
   if (q && q.length > 2) {
     // Enhanced sponsor-first search with fuzzy matching
     const searchTerm = q.trim();
@@ -302,23 +658,21 @@ async function searchBigQuery(params: any): Promise<{ results: any[]; totalCount
     // Multi-pattern search prioritizing sponsor matches
     whereConditions.push(`(
       -- Direct sponsor name matches (highest priority)
-      UPPER(ps.sponsor_name) LIKE UPPER(?) OR
+      UPPER(ps.sponsor_name) LIKE UPPER(@searchPattern) OR
       -- Plan name matches (secondary)
-      UPPER(ps.plan_name) LIKE UPPER(?) OR
+      UPPER(ps.plan_name) LIKE UPPER(@searchPattern) OR
       -- Custodian name matches (for custodian-first searches)
       EXISTS (
         SELECT 1 FROM \`trustrails-faa3e.dol_data.schedule_c_custodians\` cc
         WHERE cc.ack_id = ps.ack_id
-          AND UPPER(cc.provider_other_name) LIKE UPPER(?)
-      )
+          AND UPPER(cc.provider_other_name) LIKE UPPER(@searchPattern)
+      ) OR
+      -- Misspelled or differently punctuated sponsor names
+      ${fuzzySponsorMatch}
     )`);
 
-    // Add search patterns with different matching strategies
-    queryParams.push(
-      `%${searchTerm}%`,  // Sponsor name contains
-      `%${searchTerm}%`,  // Plan name contains
-      `%${searchTerm}%`   // Custodian name contains
-    );
+    // Sponsor, plan and custodian names containing the query as typed
+    queryParams.searchPattern = `%${escapeLikePattern(searchTerm)}%`;
   }
 
   const whereClause = `WHERE ${whereConditions.join(' AND ')}`;
@@ -330,45 +684,10 @@ async function searchBigQuery(params: any): Promise<{ results: any[]; totalCount
     ${whereClause}
   `;
 
-  // Enhanced data query with ML-powered relevance scoring using new DOL fields
+  // Data query, scored by the selected ranker (see lib/ranking.ts)
+  const ranking = buildRankingSQL(ranker, q, fuzzySponsorMatch);
   const dataQuery = custodian ? `
-    WITH percentile_data AS (
-      SELECT
-        ack_id,
-        PERCENT_RANK() OVER (PARTITION BY form_tax_year ORDER BY participants) as participant_percentile,
-        PERCENT_RANK() OVER (PARTITION BY form_tax_year ORDER BY total_assets) as asset_percentile,
-        -- Enhanced: Active participant ratio for engagement scoring
-        PERCENT_RANK() OVER (PARTITION BY form_tax_year ORDER BY
-          SAFE_DIVIDE(active_participants, NULLIF(participants, 0))) as engagement_percentile
-      FROM \`trustrails-faa3e.dol_data.plan_sponsors\`
-      WHERE participants > 0
-    ),
-    plan_health_data AS (
-      SELECT
-        ack_id,
-        is_final_filing,
-        active_participants,
-        participants,
-        plan_effective_date,
-        business_code,
-        filing_status,
-        -- Calculate plan health indicators
-        SAFE_DIVIDE(active_participants, NULLIF(participants, 0)) as active_ratio,
-        -- Plan maturity score (older plans get higher scores)
-        CASE
-          WHEN plan_effective_date IS NOT NULL THEN
-            CASE
-              WHEN LENGTH(plan_effective_date) = 10 THEN -- Date format YYYY-MM-DD
-                GREATEST(0, DATE_DIFF(CURRENT_DATE(), PARSE_DATE('%Y-%m-%d', plan_effective_date), YEAR) / 50.0)
-              WHEN REGEXP_CONTAINS(plan_effective_date, r'^\d{3,4}$') THEN -- Numeric codes
-                0.5  -- Default maturity for coded dates
-              ELSE 0.3
-            END
-          ELSE 0.3  -- Default if no date
-        END as maturity_score
-      FROM \`trustrails-faa3e.dol_data.plan_sponsors\`
-    ),
-    priority_providers AS (
+    WITH priority_providers AS (
       SELECT
         cc.ack_id,
         cc.provider_other_name as provider_name,
@@ -409,8 +728,8 @@ async function searchBigQuery(params: any): Promise<{ results: any[]; totalCount
       ps.total_assets as totalAssets,
       ps.form_tax_year as formYear,
       CASE
-        WHEN UPPER(ps.sponsor_name) LIKE UPPER(?) THEN 1
-        WHEN UPPER(ps.plan_name) LIKE UPPER(?) THEN 2
+        WHEN UPPER(ps.sponsor_name) LIKE UPPER(@rankPattern) THEN 1
+        WHEN UPPER(ps.plan_name) LIKE UPPER(@rankPattern) THEN 2
         WHEN pc.provider_name IS NOT NULL THEN 3
         ELSE 4
       END as searchRank,
@@ -426,85 +745,14 @@ async function searchBigQuery(params: any): Promise<{ results: any[]; totalCount
         WHEN ps.participants > 10 THEN 0.6
         ELSE 0.5
       END as result_confidence,
-      ROUND(
-        -- Enhanced scoring with new DOL fields (total: 100 points)
-        -- Size percentile score (0-25 points, reduced from 35)
-        25 * COALESCE(pd.participant_percentile, 0) +
-        -- Asset percentile score (0-20 points, reduced from 25)
-        20 * COALESCE(pd.asset_percentile, 0) +
-        -- NEW: Active plan health bonus (0-15 points)
-        CASE
-          WHEN phd.is_final_filing = true THEN 0  -- Terminated plans get 0
-          WHEN phd.is_final_filing = false THEN 15  -- Active plans get full points
-          ELSE 8  -- Unknown status gets partial points
-        END +
-        -- NEW: Participant engagement score (0-10 points)
-        10 * COALESCE(pd.engagement_percentile, 0.5) +
-        -- NEW: Plan maturity score (0-5 points)
-        5 * COALESCE(phd.maturity_score, 0.3) +
-        -- Recency score (0-10 points, reduced from 20)
-        10 * GREATEST(0, (ps.form_tax_year - 2014) / 10.0) +
-        -- Search match precision score (0-10 points, reduced from 15)
-        ${q ? `
-        CASE
-          WHEN UPPER(ps.sponsor_name) = UPPER('${q.replace(/'/g, "''")}') THEN 10
-          WHEN UPPER(ps.sponsor_name) LIKE UPPER('${q.replace(/'/g, "''")}%') THEN 8
-          WHEN UPPER(ps.sponsor_name) LIKE UPPER('%${q.replace(/'/g, "''")}%') THEN 5
-          WHEN UPPER(ps.plan_name) LIKE UPPER('%${q.replace(/'/g, "''")}%') THEN 3
-          ELSE 0
-        END` : '0'} +
-        -- Fortune company recognition bonus (0-5 points)
-        CASE
-          WHEN REGEXP_CONTAINS(UPPER(ps.sponsor_name), r'\\b(TESLA,? INC\\.?)\\b') THEN 5
-          WHEN REGEXP_CONTAINS(UPPER(ps.sponsor_name), r'\\b(MICROSOFT CORPORATION|APPLE INC|AMAZON\\.COM,? INC|GOOGLE LLC|META PLATFORMS)\\b') THEN 5
-          WHEN REGEXP_CONTAINS(UPPER(ps.sponsor_name), r'\\b(MICROSOFT|APPLE|AMAZON|GOOGLE|META|FACEBOOK|TESLA|NETFLIX|ORACLE)\\b') THEN 3
-          ELSE 0
-        END
-      , 2) as mlRelevanceScore
+      ${ranking.score} as mlRelevanceScore
     FROM \`trustrails-faa3e.dol_data.plan_sponsors\` ps
-    LEFT JOIN percentile_data pd ON ps.ack_id = pd.ack_id
-    LEFT JOIN plan_health_data phd ON ps.ack_id = phd.ack_id
+    ${ranking.joins}
     LEFT JOIN primary_contacts pc ON ps.ack_id = pc.ack_id
     ${whereClause}
     ORDER BY mlRelevanceScore DESC, participants DESC
-    LIMIT ? OFFSET ?
+    LIMIT @limit OFFSET @offset
   ` : `
-    WITH percentile_data AS (
-      SELECT
-        ack_id,
-        PERCENT_RANK() OVER (PARTITION BY form_tax_year ORDER BY participants) as participant_percentile,
-        PERCENT_RANK() OVER (PARTITION BY form_tax_year ORDER BY total_assets) as asset_percentile,
-        -- Enhanced: Active participant ratio for engagement scoring
-        PERCENT_RANK() OVER (PARTITION BY form_tax_year ORDER BY
-          SAFE_DIVIDE(active_participants, NULLIF(participants, 0))) as engagement_percentile
-      FROM \`trustrails-faa3e.dol_data.plan_sponsors\`
-      WHERE participants > 0
-    ),
-    plan_health_data AS (
-      SELECT
-        ack_id,
-        is_final_filing,
-        active_participants,
-        participants,
-        plan_effective_date,
-        business_code,
-        filing_status,
-        -- Calculate plan health indicators
-        SAFE_DIVIDE(active_participants, NULLIF(participants, 0)) as active_ratio,
-        -- Plan maturity score (older plans get higher scores)
-        CASE
-          WHEN plan_effective_date IS NOT NULL THEN
-            CASE
-              WHEN LENGTH(plan_effective_date) = 10 THEN -- Date format YYYY-MM-DD
-                GREATEST(0, DATE_DIFF(CURRENT_DATE(), PARSE_DATE('%Y-%m-%d', plan_effective_date), YEAR) / 50.0)
-              WHEN REGEXP_CONTAINS(plan_effective_date, r'^\d{3,4}$') THEN -- Numeric codes
-                0.5  -- Default maturity for coded dates
-              ELSE 0.3
-            END
-          ELSE 0.3  -- Default if no date
-        END as maturity_score
-      FROM \`trustrails-faa3e.dol_data.plan_sponsors\`
-    )
     SELECT
       ps.ein_plan_sponsor as ein,
       ps.plan_number as planNumber,
@@ -518,8 +766,8 @@ async function searchBigQuery(params: any): Promise<{ results: any[]; totalCount
       ps.total_assets as totalAssets,
       ps.form_tax_year as formYear,
       CASE
-        WHEN UPPER(ps.sponsor_name) LIKE UPPER(?) THEN 1
-        WHEN UPPER(ps.plan_name) LIKE UPPER(?) THEN 2
+        WHEN UPPER(ps.sponsor_name) LIKE UPPER(@rankPattern) THEN 1
+        WHEN UPPER(ps.plan_name) LIKE UPPER(@rankPattern) THEN 2
         ELSE 3
       END as searchRank,
       ps.ack_id as ACK_ID,
@@ -534,60 +782,25 @@ async function searchBigQuery(params: any): Promise<{ results: any[]; totalCount
         WHEN ps.participants > 10 THEN 0.6
         ELSE 0.5
       END as result_confidence,
-      ROUND(
-        -- Enhanced scoring with new DOL fields (total: 100 points)
-        -- Size percentile score (0-25 points, reduced from 35)
-        25 * COALESCE(pd.participant_percentile, 0) +
-        -- Asset percentile score (0-20 points, reduced from 25)
-        20 * COALESCE(pd.asset_percentile, 0) +
-        -- NEW: Active plan health bonus (0-15 points)
-        CASE
-          WHEN phd.is_final_filing = true THEN 0  -- Terminated plans get 0
-          WHEN phd.is_final_filing = false THEN 15  -- Active plans get full points
-          ELSE 8  -- Unknown status gets partial points
-        END +
-        -- NEW: Participant engagement score (0-10 points)
-        10 * COALESCE(pd.engagement_percentile, 0.5) +
-        -- NEW: Plan maturity score (0-5 points)
-        5 * COALESCE(phd.maturity_score, 0.3) +
-        -- Recency score (0-10 points, reduced from 20)
-        10 * GREATEST(0, (ps.form_tax_year - 2014) / 10.0) +
-        -- Search match precision score (0-10 points, reduced from 15)
-        ${q ? `
-        CASE
-          WHEN UPPER(ps.sponsor_name) = UPPER('${q.replace(/'/g, "''")}') THEN 10
-          WHEN UPPER(ps.sponsor_name) LIKE UPPER('${q.replace(/'/g, "''")}%') THEN 8
-          WHEN UPPER(ps.sponsor_name) LIKE UPPER('%${q.replace(/'/g, "''")}%') THEN 5
-          WHEN UPPER(ps.plan_name) LIKE UPPER('%${q.replace(/'/g, "''")}%') THEN 3
-          ELSE 0
-        END` : '0'} +
-        -- Fortune company recognition bonus (0-5 points)
-        CASE
-          WHEN REGEXP_CONTAINS(UPPER(ps.sponsor_name), r'\\b(TESLA,? INC\\.?)\\b') THEN 5
-          WHEN REGEXP_CONTAINS(UPPER(ps.sponsor_name), r'\\b(MICROSOFT CORPORATION|APPLE INC|AMAZON\\.COM,? INC|GOOGLE LLC|META PLATFORMS)\\b') THEN 5
-          WHEN REGEXP_CONTAINS(UPPER(ps.sponsor_name), r'\\b(MICROSOFT|APPLE|AMAZON|GOOGLE|META|FACEBOOK|TESLA|NETFLIX|ORACLE)\\b') THEN 3
-          ELSE 0
-        END
-      , 2) as mlRelevanceScore
+      ${ranking.score} as mlRelevanceScore
     FROM \`trustrails-faa3e.dol_data.plan_sponsors\` ps
-    LEFT JOIN percentile_data pd ON ps.ack_id = pd.ack_id
-    LEFT JOIN plan_health_data phd ON ps.ack_id = phd.ack_id
+    ${ranking.joins}
     ${whereClause}
     ORDER BY mlRelevanceScore DESC, participants DESC
-    LIMIT ? OFFSET ?
+    LIMIT @limit OFFSET @offset
   `;
 
-  // Prepare separate parameter arrays for count vs data queries
-  const countQueryParams = [...queryParams]; // Count query uses base parameters only
+  // Count query uses the filter parameters only
+  const countQueryParams = { ...queryParams };
 
-  // Add search term parameters for ranking (if query exists) to data query only
-  const searchPattern = q ? `%${q}%` : '';
-  const dataQueryParams = [
+  // Data query adds the search rank pattern, the ranking parameters and paging
+  const dataQueryParams = {
     ...queryParams,
-    searchPattern, // For sponsor name ranking
-    searchPattern, // For plan name ranking
-    limit, offset
-  ];
+    ...ranking.params,
+    rankPattern: q ? `%${escapeLikePattern(q)}%` : '',
+    limit,
+    offset
+  };
 
   // Execute queries with correct parameter arrays
   const [[countResult]] = await bigquery.query({
@@ -608,6 +821,116 @@ async function searchBigQuery(params: any): Promise<{ results: any[]; totalCount
   };
 }
 
+/**
+ * Search grouped by employer
+ * Variants of one employer's name, its EINs and the same plan filed in several
+ * years collapse into one card, using dol_data.sponsor_entities (built by the
+ * DOL pipeline's entity resolution). EINs not resolved yet get a card each.
+ */
+async function searchEmployers(params: any, limit: number, offset: number) {
+  const { results: plans } = await searchBigQuery({ ...params, limit: EMPLOYER_PLAN_POOL, offset: 0 });
+  const entitiesByEin = await lookupSponsorEntities(plans.map((plan: any) => String(plan.ein)));
+
+  // Plans arrive by relevance, so employers keep the rank of their best plan
+  const employers = new Map<string, { entity: any; plans: Map<string, any> }>();
+  for (const plan of plans) {
+    const entity = entitiesByEin.get(String(plan.ein));
+    const key = entity ? entity.entity_id : `ein_${plan.ein}`;
+    const employer = employers.get(key) || { entity, plans: new Map<string, any>() };
+    employers.set(key, employer);
+
+    // The same plan filed in several years: keep the latest filing
+    const planKey = `${plan.ein}_${plan.planNumber}`;
+    const existing = employer.plans.get(planKey);
+    if (!existing || Number(plan.formYear) > Number(existing.formYear)) {
+      employer.plans.set(planKey, plan);
+    }
+  }
+
+  const cards = [...employers.entries()].map(([key, { entity, plans: employerPlans }]) => {
+    const planList = [...employerPlans.values()];
+    const top = planList[0];
+
+    return {
+      employerId: key,
+      name: entity?.canonical_name || top.sponsorName,
+      aliases: entity
+        ? entity.alias_names.filter((name: string) => name !== entity.canonical_name)
+        : [...new Set(planList.map(plan => plan.sponsorName))].filter(name => name !== top.sponsorName),
+      eins: entity?.eins || [String(top.ein)],
+      location: {
+        city: entity?.city || top.sponsorCity,
+        state: entity?.state || top.sponsorState,
+        zip: entity?.zip5 || top.sponsorZip
+      },
+      planCount: entity?.plan_count || planList.length,
+      totalParticipants: entity?.total_participants ??
+        planList.reduce((sum, plan) => sum + (plan.participants || 0), 0),
+      resolved: Boolean(entity),
+      plans: planList.map(formatPlanResult)
+    };
+  });
+
+  return {
+    success: true,
+    employers: cards.slice(offset, offset + limit),
+    pagination: {
+      limit,
+      offset,
+      total: cards.length,
+      hasMore: cards.length > offset + limit
+    },
+    metadata: {
+      searchMethod: 'bigquery',
+      grouping: 'employer',
+      cached: false,
+      custodianFilter: params.custodian || null,
+      ranker: { version: params.ranker.version, arm: params.rankerArm }
+    }
+  };
+}
+
+/**
+ * Sponsor entities for a set of EINs, keyed by EIN
+ * An empty map when the table has not been built yet.
+ */
+async function lookupSponsorEntities(eins: string[]): Promise<Map<string, any>> {
+  const entitiesByEin = new Map<string, any>();
+  const uniqueEins = [...new Set(eins.filter(Boolean))];
+  if (uniqueEins.length === 0) {
+    return entitiesByEin;
+  }
+
+  try {
+    const [rows] = await bigquery.query({
+      query: `
+        SELECT
+          entity_id,
+          canonical_name,
+          eins,
+          ARRAY(SELECT DISTINCT alias.name FROM UNNEST(aliases) AS alias) AS alias_names,
+          city,
+          state,
+          zip5,
+          plan_count,
+          total_participants
+        FROM \`trustrails-faa3e.dol_data.sponsor_entities\`
+        WHERE EXISTS (SELECT 1 FROM UNNEST(eins) AS entity_ein WHERE entity_ein IN UNNEST(?))
+      `,
+      params: [uniqueEins],
+      location: GCP_CONFIG.region
+    });
+
+    for (const row of rows) {
+      row.eins.forEach((entityEin: string) => entitiesByEin.set(entityEin, row));
+    }
+  } catch (error) {
+    console.error('Sponsor entity lookup failed, grouping by EIN:', error);
+  }
+
+  return entitiesByEin;
+}
+
 /**
  * Format plan result for API response
  */
@@ -735,56 +1058,6 @@ function formatCurrency(amount: number): string {
   return `$${amount.toFixed(0)}`;
 }
 
-/**
- * Generate ML-Enhanced relevance scoring SQL
- */
-function getMLEnhancedRelevanceSQL(searchQuery?: string): string {
-  // Sanitize search query for SQL injection protection
-  const sanitizedQuery = searchQuery ? searchQuery.replace(/'/g, "''").substring(0, 100) : '';
-
-  return `
-    (
-      -- Size percentile score (0-35 points) - companies with more participants rank higher
-      35 * COALESCE(
-        PERCENT_RANK() OVER (
-          PARTITION BY form_tax_year
-          ORDER BY participants
-        ), 0
-      ) +
-
-      -- Asset percentile score (0-25 points) - use participants as proxy since assets data is sparse
-      25 * COALESCE(
-        PERCENT_RANK() OVER (
-          PARTITION BY form_tax_year
-          ORDER BY participants
-        ), 0
-      ) +
-
-      -- Recency score (0-20 points) - newer filings ranked higher
-      20 * GREATEST(0, (form_tax_year - 2014) / 10.0) +
-
-      -- Search match precision score (0-15 points)
-      ${searchQuery ? `
-      CASE
-        WHEN UPPER(sponsor_name) = UPPER('${sanitizedQuery}') THEN 15
-        WHEN UPPER(sponsor_name) LIKE UPPER('${sanitizedQuery}%') THEN 12
-        WHEN UPPER(sponsor_name) LIKE UPPER('%${sanitizedQuery}%') THEN 8
-        WHEN UPPER(plan_name) LIKE UPPER('%${sanitizedQuery}%') THEN 5
-        ELSE 0
-      END` : '0'} +
-
-      -- Fortune company recognition bonus (0-5 points)
-      CASE
-        -- Main corporations get highest bonus
-        WHEN REGEXP_CONTAINS(UPPER(sponsor_name), r'\\b(MICROSOFT CORPORATION|APPLE INC|AMAZON\\.COM,? INC|GOOGLE LLC|META PLATFORMS|TESLA,? INC)\\b') THEN 5
-        -- Fortune companies get moderate bonus
-        WHEN REGEXP_CONTAINS(UPPER(sponsor_name), r'\\b(MICROSOFT|APPLE|AMAZON|GOOGLE|META|FACEBOOK|TESLA|NETFLIX|ORACLE|SALESFORCE|ADOBE|NVIDIA|INTEL|IBM|CISCO|WALMART|TARGET|HOME DEPOT|JPMORGAN|BANK OF AMERICA|WELLS FARGO|GOLDMAN SACHS)\\b') THEN 3
-        ELSE 0
-      END
-    )
-  `;
-}
-
 /**
  * Map user-friendly plan type to database values
  */
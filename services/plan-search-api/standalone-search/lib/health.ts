@@ -0,0 +1,193 @@
+/**
+ * Liveness and Readiness Probes for Plan Search API
+ *
+ * Same contract as widget-auth-service (src/lib/health.ts), so dev-proxy and
+ * uptime checks read every service the same way:
+ *
+ *   GET /livez  - process is serving; no dependency is touched
+ *   GET /readyz - every probe runs with a timeout; status is ok (200),
+ *                 degraded (200, a non-critical probe failed) or
+ *                 unavailable (503, a critical probe failed)
+ *
+ * Readiness results are cached for HEALTH_CACHE_TTL_MS (default 10s) and
+ * concurrent requests share one run. /readyz is public, so it serves
+ * toPublicReport: probe statuses only, with messages kept in the logs.
+ */
+
+import packageJson from '../package.json';
+
+export const SERVICE_NAME = 'plan-search-api';
+
+const DEFAULT_CACHE_TTL_MS = 10 * 1000;
+const PROBE_TIMEOUT_MS = 2000;
+
+export type ProbeStatus = 'ok' | 'fail';
+export type ReadinessStatus = 'ok' | 'degraded' | 'unavailable';
+
+export interface ProbeResult {
+  status: ProbeStatus;
+  critical: boolean;
+  latency_ms: number;
+  message?: string;
+}
+
+export interface BuildInfo {
+  version: string;
+  commit: string | null;
+  built_at: string | null;
+}
+
+export interface LivenessReport {
+  status: 'ok';
+  service: string;
+  build: BuildInfo;
+  uptime_seconds: number;
+  timestamp: string;
+}
+
+export interface ReadinessReport {
+  status: ReadinessStatus;
+  service: string;
+  build: BuildInfo;
+  checks: Record<string, ProbeResult>;
+  checked_at: string;
+  cached: boolean;
+}
+
+// What /readyz publishes of a readiness report
+export interface PublicReadinessReport extends Omit<ReadinessReport, 'checks'> {
+  checks: Record<string, { status: ProbeStatus }>;
+}
+
+export interface Probe {
+  name: string;
+  critical: boolean;
+  run: () => Promise<string | void>; // Throws on failure; may return a note
+}
+
+/**
+ * Version from package.json; commit and build time from BUILD_COMMIT and
+ * BUILD_TIME, falling back to the Cloud Functions revision
+ */
+export function getBuildInfo(): BuildInfo {
+  return {
+    version: process.env.BUILD_VERSION || packageJson.version,
+    commit: process.env.BUILD_COMMIT || process.env.K_REVISION || null,
+    built_at: process.env.BUILD_TIME || null
+  };
+}
+
+export function getLiveness(): LivenessReport {
+  return {
+    status: 'ok',
+    service: SERVICE_NAME,
+    build: getBuildInfo(),
+    uptime_seconds: Math.floor(process.uptime()),
+    timestamp: new Date().toISOString()
+  };
+}
+
+async function runProbe(probe: Probe): Promise<ProbeResult> {
+  const startTime = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const note = await Promise.race([
+      probe.run(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${PROBE_TIMEOUT_MS}ms`)), PROBE_TIMEOUT_MS);
+      })
+    ]);
+    if (note) {
+      console.warn(`Readiness probe ${probe.name}: ${note}`);
+    }
+    return {
+      status: 'ok',
+      critical: probe.critical,
+      latency_ms: Date.now() - startTime,
+      ...(note && { message: note })
+    };
+  } catch (error: any) {
+    console.warn(`Readiness probe ${probe.name} failed:`, error?.message || error);
+    return {
+      status: 'fail',
+      critical: probe.critical,
+      latency_ms: Date.now() - startTime,
+      message: error?.message || 'Probe failed'
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Readiness check over a fixed set of probes, cached between calls
+ */
+export function createReadinessCheck(probes: Probe[]): () => Promise<ReadinessReport> {
+  let cachedReport: ReadinessReport | null = null;
+  let cachedAt = 0;
+  let inFlight: Promise<ReadinessReport> | null = null;
+
+  const configuredTtl = parseInt(process.env.HEALTH_CACHE_TTL_MS || '', 10);
+  const cacheTtlMs = Number.isFinite(configuredTtl) && configuredTtl >= 0 ? configuredTtl : DEFAULT_CACHE_TTL_MS;
+
+  async function runProbes(): Promise<ReadinessReport> {
+    const results = await Promise.all(probes.map(probe => runProbe(probe)));
+    const checks: Record<string, ProbeResult> = {};
+    probes.forEach((probe, index) => {
+      checks[probe.name] = results[index];
+    });
+
+    const failed = results.filter(result => result.status === 'fail');
+    const status: ReadinessStatus = failed.some(result => result.critical)
+      ? 'unavailable'
+      : failed.length > 0 ? 'degraded' : 'ok';
+
+    return {
+      status,
+      service: SERVICE_NAME,
+      build: getBuildInfo(),
+      checks,
+      checked_at: new Date().toISOString(),
+      cached: false
+    };
+  }
+
+  return async () => {
+    if (cachedReport && Date.now() - cachedAt < cacheTtlMs) {
+      return { ...cachedReport, cached: true };
+    }
+
+    if (!inFlight) {
+      inFlight = runProbes()
+        .then(report => {
+          cachedReport = report;
+          cachedAt = Date.now();
+          return report;
+        })
+        .finally(() => {
+          inFlight = null;
+        });
+    }
+
+    return inFlight;
+  };
+}
+
+/**
+ * Report without probe details, for unauthenticated callers
+ */
+export function toPublicReport(report: ReadinessReport): PublicReadinessReport {
+  const checks: Record<string, { status: ProbeStatus }> = {};
+  Object.entries(report.checks).forEach(([name, result]) => {
+    checks[name] = { status: result.status };
+  });
+  return { ...report, checks };
+}
+
+/**
+ * HTTP status for a readiness report: degraded still takes traffic
+ */
+export function readinessHttpStatus(report: ReadinessReport): number {
+  return report.status === 'unavailable' ? 503 : 200;
+}
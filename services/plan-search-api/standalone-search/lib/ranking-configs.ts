@@ -0,0 +1,50 @@
+/**
+ * Versioned ranking configurations (see lib/ranking.ts)
+ *
+ * A version is immutable once deployed: A/B results and evaluation runs
+ * (evaluate-ranking.ts) refer to rankers by version, so change weights by
+ * adding a new version rather than editing one.
+ *
+ * clickThrough must stay at weight 0 until POST /events is authenticated or
+ * signed: anyone can post search and select events, and so move a plan's
+ * click stats (see lib/search-events.ts).
+ */
+
+import type { RankingConfig } from './ranking';
+
+export const RANKING_CONFIGS: Record<string, RankingConfig> = {
+  v1: {
+    version: 'v1',
+    description: 'Previous hand-tuned weights without the named-company bonus',
+    weights: {
+      participants: 25,
+      assets: 20,
+      activePlan: 15,
+      engagement: 10,
+      recency: 10,
+      matchQuality: 10,
+      clickThrough: 0
+    },
+    matchQuality: { exact: 1, prefix: 0.8, contains: 0.5, fuzzy: 0.4, planName: 0.3 },
+    recencyWindowYears: 10,
+    clickThrough: { priorCtr: 0.05, priorImpressions: 20 }
+  },
+  v2: {
+    version: 'v2',
+    description: 'Match quality first, then plan size; assets are sparse so they weigh less',
+    weights: {
+      participants: 25,
+      assets: 5,
+      activePlan: 10,
+      engagement: 5,
+      recency: 15,
+      matchQuality: 40,
+      clickThrough: 0
+    },
+    matchQuality: { exact: 1, prefix: 0.85, contains: 0.5, fuzzy: 0.45, planName: 0.25 },
+    recencyWindowYears: 8,
+    clickThrough: { priorCtr: 0.05, priorImpressions: 20 }
+  }
+};
+
+export const DEFAULT_RANKER = 'v1';
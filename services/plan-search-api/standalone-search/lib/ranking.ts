@@ -0,0 +1,212 @@
+/**
+ * Ranking pipeline for BigQuery plan search
+ *
+ * Every candidate plan gets a set of features scaled to 0-1 and its score is
+ * their weighted average on a 0-100 scale, so configs with different weight
+ * totals stay comparable and the result tiers keep their meaning. Weights come
+ * from a versioned config (lib/ranking-configs.ts); features weighted 0 are
+ * left out of the SQL entirely.
+ *
+ * Two rankers can run side by side: RANKING_CONTROL and RANKING_TREATMENT name
+ * config versions and RANKING_TREATMENT_SHARE is the fraction of search
+ * sessions (the widget's sid parameter) given the treatment. Assignment hashes
+ * the session, so a user keeps one ranker for the whole session.
+ *
+ * The query text never reaches the SQL: match quality compares against named
+ * parameters (RankingSQL.params), so searches must use named parameters too.
+ */
+
+import { DEFAULT_RANKER, RANKING_CONFIGS } from './ranking-configs';
+
+export type RankingFeature =
+  | 'participants'  // Participant count percentile within the filing year
+  | 'assets'        // Total assets percentile within the filing year
+  | 'activePlan'    // 1 for active plans, 0 for final filings
+  | 'engagement'    // Active participant ratio percentile
+  | 'recency'       // Filing year within the recency window
+  | 'matchQuality'  // How closely the sponsor or plan name matches q
+  | 'clickThrough'; // Smoothed selection rate from widget search events
+
+export interface RankingConfig {
+  version: string;
+  description: string;
+  weights: Record<RankingFeature, number>;
+  // Feature value for each kind of name match, first match wins
+  matchQuality: { exact: number; prefix: number; contains: number; fuzzy: number; planName: number };
+  recencyWindowYears: number;
+  // Plans without click data start at priorCtr, as if shown priorImpressions times
+  clickThrough: { priorCtr: number; priorImpressions: number };
+}
+
+export type RankerArm = 'control' | 'treatment' | 'override';
+
+export interface RankerSelection {
+  config: RankingConfig;
+  arm: RankerArm;
+}
+
+export interface RankingSQL {
+  joins: string; // LEFT JOINs onto plan_sponsors ps
+  score: string; // 0-100
+  params: Record<string, string>; // Named parameters used by score
+}
+
+// Impressions and selections per plan (ein, plan_number), built from widget search events
+export const CLICK_STATS_TABLE = 'trustrails-faa3e.search_analytics.plan_click_stats';
+
+const PERCENTILE_FEATURES: RankingFeature[] = ['participants', 'assets', 'engagement'];
+
+export function getRankingConfig(version: string): RankingConfig | null {
+  return Object.prototype.hasOwnProperty.call(RANKING_CONFIGS, version) ? RANKING_CONFIGS[version] : null;
+}
+
+function readExperiment() {
+  let control = getRankingConfig(process.env.RANKING_CONTROL || DEFAULT_RANKER);
+  if (!control) {
+    console.warn(`Unknown RANKING_CONTROL "${process.env.RANKING_CONTROL}", using ${DEFAULT_RANKER}`);
+    control = RANKING_CONFIGS[DEFAULT_RANKER];
+  }
+
+  const treatment = process.env.RANKING_TREATMENT ? getRankingConfig(process.env.RANKING_TREATMENT) : null;
+  if (process.env.RANKING_TREATMENT && !treatment) {
+    console.warn(`Unknown RANKING_TREATMENT "${process.env.RANKING_TREATMENT}", A/B test disabled`);
+  }
+
+  const share = parseFloat(process.env.RANKING_TREATMENT_SHARE || '0.5');
+  return {
+    control,
+    treatment,
+    treatmentShare: Number.isFinite(share) ? Math.min(Math.max(share, 0), 1) : 0.5
+  };
+}
+
+const experiment = readExperiment();
+
+/**
+ * FNV-1a with the murmur3 finalizer, scaled to [0, 1)
+ * Without the finalizer the high bits barely move for keys that differ only
+ * at the end, which skews the split for similar session IDs.
+ */
+function hashToUnit(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Ranker for a search; null when override names an unknown version
+ */
+export function selectRanker(options: { bucketKey?: string; override?: string }): RankerSelection | null {
+  if (options.override) {
+    const config = getRankingConfig(options.override);
+    return config ? { config, arm: 'override' } : null;
+  }
+
+  const { control, treatment, treatmentShare } = experiment;
+  if (!treatment || !options.bucketKey) {
+    return { config: control, arm: 'control' };
+  }
+
+  // Salted with both versions so a new experiment reshuffles sessions
+  const bucket = hashToUnit(`${control.version}:${treatment.version}:${options.bucketKey}`);
+  return bucket < treatmentShare
+    ? { config: treatment, arm: 'treatment' }
+    : { config: control, arm: 'control' };
+}
+
+/**
+ * Literal text for a LIKE pattern; BigQuery escapes %, _ and \ with a backslash
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * Feature expressions, joins and score for one ranker
+ * fuzzyMatch is the SQL condition for a misspelled sponsor match (see fuzzySponsorMatchSQL).
+ */
+export function buildRankingSQL(config: RankingConfig, query: string | undefined, fuzzyMatch: string): RankingSQL {
+  const weighted = (feature: RankingFeature) => config.weights[feature] > 0 &&
+    (feature !== 'matchQuality' || Boolean(query));
+
+  const joins: string[] = [];
+
+  if (PERCENTILE_FEATURES.some(weighted)) {
+    joins.push(`
+    LEFT JOIN (
+      SELECT
+        ack_id,
+        PERCENT_RANK() OVER (PARTITION BY form_tax_year ORDER BY participants) as participant_percentile,
+        PERCENT_RANK() OVER (PARTITION BY form_tax_year ORDER BY total_assets) as asset_percentile,
+        PERCENT_RANK() OVER (PARTITION BY form_tax_year ORDER BY
+          SAFE_DIVIDE(active_participants, NULLIF(participants, 0))) as engagement_percentile
+      FROM \`trustrails-faa3e.dol_data.plan_sponsors\`
+      WHERE participants > 0
+    ) ranking_percentiles ON ranking_percentiles.ack_id = ps.ack_id`);
+  }
+
+  if (weighted('clickThrough')) {
+    joins.push(`
+    LEFT JOIN \`${CLICK_STATS_TABLE}\` ranking_clicks
+      ON ranking_clicks.ein = CAST(ps.ein_plan_sponsor AS STRING)
+      AND ranking_clicks.plan_number = CAST(ps.plan_number AS STRING)`);
+  }
+
+  const { matchQuality, recencyWindowYears, clickThrough } = config;
+  const q = query ? query.trim() : '';
+  const features: Record<RankingFeature, () => string> = {
+    participants: () => 'COALESCE(ranking_percentiles.participant_percentile, 0)',
+    assets: () => 'COALESCE(ranking_percentiles.asset_percentile, 0)',
+    engagement: () => 'COALESCE(ranking_percentiles.engagement_percentile, 0.5)',
+    activePlan: () => `CASE
+          WHEN ps.is_final_filing = true THEN 0
+          WHEN ps.is_final_filing = false THEN 1
+          ELSE 0.5
+        END`,
+    recency: () => `LEAST(1, GREATEST(0,
+          (ps.form_tax_year - (EXTRACT(YEAR FROM CURRENT_DATE()) - ${recencyWindowYears})) / ${recencyWindowYears}
+        ))`,
+    matchQuality: () => `CASE
+          WHEN UPPER(ps.sponsor_name) = UPPER(@ranking_q) THEN ${matchQuality.exact}
+          WHEN UPPER(ps.sponsor_name) LIKE UPPER(@ranking_q_prefix) THEN ${matchQuality.prefix}
+          WHEN UPPER(ps.sponsor_name) LIKE UPPER(@ranking_q_contains) THEN ${matchQuality.contains}
+          WHEN ${fuzzyMatch} THEN ${matchQuality.fuzzy}
+          WHEN UPPER(ps.plan_name) LIKE UPPER(@ranking_q_contains) THEN ${matchQuality.planName}
+          ELSE 0
+        END`,
+    clickThrough: () => `COALESCE(SAFE_DIVIDE(
+          COALESCE(ranking_clicks.selections, 0) + ${clickThrough.priorCtr * clickThrough.priorImpressions},
+          COALESCE(ranking_clicks.impressions, 0) + ${clickThrough.priorImpressions}
+        ), ${clickThrough.priorCtr})`
+  };
+
+  const terms = (Object.keys(features) as RankingFeature[])
+    .filter(weighted)
+    .map(feature => `-- ${feature}\n        ${config.weights[feature]} * ${features[feature]()}`);
+  const totalWeight = (Object.keys(features) as RankingFeature[])
+    .filter(weighted)
+    .reduce((sum, feature) => sum + config.weights[feature], 0);
+
+  const params: Record<string, string> = {};
+  if (weighted('matchQuality')) {
+    params.ranking_q = q;
+    params.ranking_q_prefix = `${escapeLikePattern(q)}%`;
+    params.ranking_q_contains = `%${escapeLikePattern(q)}%`;
+  }
+
+  return {
+    joins: joins.join('\n'),
+    score: terms.length > 0
+      ? `ROUND(100 * (\n        ${terms.join(' +\n        ')}\n      ) / ${totalWeight}, 2)`
+      : '0',
+    params
+  };
+}
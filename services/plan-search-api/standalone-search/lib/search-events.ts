@@ -0,0 +1,225 @@
+/**
+ * Anonymized widget search events for POST /events
+ *
+ * The widget reports each results page it shows ('search') and the plan the
+ * user picks ('select'); search-analytics-report.ts turns them into the
+ * zero-result and low click-through reports and the per-plan click stats read
+ * by the ranking pipeline (CLICK_STATS_TABLE in lib/ranking.ts).
+ *
+ * Nothing identifies the user: the session ID is random per widget instance,
+ * no IP address, user agent, email or partner is stored, and email addresses
+ * and long digit runs in the query are masked before it is written.
+ *
+ * Anyone can post events, so each instance caps the events it accepts per
+ * client IP and per session ID (createSearchEventLimiter), and the report
+ * leaves out sessions with an abnormal number of searches. A 'select' only
+ * counts toward click stats when a 'search' with its search_id listed the
+ * plan, but a client can post both, so click stats must not move the ranking
+ * (clickThrough weight 0) until ingest is authenticated or signed.
+ */
+
+import { randomUUID } from 'crypto';
+
+export const SEARCH_ANALYTICS_DATASET = 'search_analytics';
+export const SEARCH_EVENTS_TABLE = 'search_events';
+export const MAX_EVENTS_PER_REQUEST = 20;
+
+const MAX_QUERY_LENGTH = 100;
+const MAX_SHOWN_RESULTS = 20;
+const MAX_TIME_TO_SELECT_MS = 24 * 60 * 60 * 1000;
+
+// A person paging through results sends a few events a minute; an IP may be a
+// whole office behind one NAT
+export const EVENTS_PER_MINUTE_PER_SESSION = 60;
+export const EVENTS_PER_MINUTE_PER_IP = 600;
+const EVENT_LIMIT_WINDOW_MS = 60 * 1000;
+const MAX_TRACKED_LIMIT_KEYS = 50000;
+
+export const SEARCH_EVENTS_SCHEMA = [
+  { name: 'event_id', type: 'STRING', mode: 'REQUIRED' },
+  { name: 'event_type', type: 'STRING', mode: 'REQUIRED' }, // search | select
+  { name: 'event_time', type: 'TIMESTAMP', mode: 'REQUIRED' },
+  { name: 'session_id', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'search_id', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'query', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'search_mode', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'custodian', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'result_count', type: 'INTEGER', mode: 'NULLABLE' },
+  { name: 'page_offset', type: 'INTEGER', mode: 'NULLABLE' },
+  {
+    name: 'shown',
+    type: 'RECORD',
+    mode: 'REPEATED',
+    fields: [
+      { name: 'ein', type: 'STRING', mode: 'NULLABLE' },
+      { name: 'plan_number', type: 'STRING', mode: 'NULLABLE' },
+      { name: 'rank', type: 'INTEGER', mode: 'NULLABLE' }
+    ]
+  },
+  { name: 'selected_rank', type: 'INTEGER', mode: 'NULLABLE' },
+  { name: 'selected_ein', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'selected_plan_number', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'time_to_select_ms', type: 'INTEGER', mode: 'NULLABLE' },
+  { name: 'ranker_version', type: 'STRING', mode: 'NULLABLE' },
+  { name: 'ranker_arm', type: 'STRING', mode: 'NULLABLE' }
+];
+
+export interface SearchEventRow {
+  event_id: string;
+  event_type: 'search' | 'select';
+  event_time: string;
+  session_id: string | null;
+  search_id: string | null;
+  query: string | null;
+  search_mode: string | null;
+  custodian: string | null;
+  result_count: number | null;
+  page_offset: number | null;
+  shown: Array<{ ein: string | null; plan_number: string | null; rank: number | null }>;
+  selected_rank: number | null;
+  selected_ein: string | null;
+  selected_plan_number: string | null;
+  time_to_select_ms: number | null;
+  ranker_version: string | null;
+  ranker_arm: string | null;
+}
+
+export type SearchEventLimitResult =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number };
+
+export type ParseSearchEventsResult =
+  | { success: true; rows: SearchEventRow[] }
+  | { success: false; error: string };
+
+/**
+ * Query as stored: trimmed, lowercased, with emails and long numbers masked
+ */
+export function anonymizeQuery(query: string): string {
+  return query
+    .replace(/[^\s@]+@[^\s@]+/g, '[email]')
+    .replace(/\d[\d\s-]{4,}\d/g, '[number]')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase()
+    .slice(0, MAX_QUERY_LENGTH);
+}
+
+function toId(value: unknown): string | null {
+  return typeof value === 'string' && /^[A-Za-z0-9_-]{6,64}$/.test(value) ? value : null;
+}
+
+function toText(value: unknown, maxLength: number): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const text = String(value).trim().slice(0, maxLength);
+  return text || null;
+}
+
+function toInt(value: unknown, min: number, max: number): number | null {
+  const number = typeof value === 'number' ? value : parseInt(String(value), 10);
+  return Number.isFinite(number) && number >= min && number <= max ? Math.round(number) : null;
+}
+
+/**
+ * Validate a POST /events body ({ events: [...] }) into table rows
+ */
+export function parseSearchEvents(body: unknown, receivedAt: Date = new Date()): ParseSearchEventsResult {
+  const events = (body as any)?.events;
+  if (!Array.isArray(events) || events.length === 0) {
+    return { success: false, error: 'events must be a non-empty array' };
+  }
+  if (events.length > MAX_EVENTS_PER_REQUEST) {
+    return { success: false, error: `At most ${MAX_EVENTS_PER_REQUEST} events per request` };
+  }
+
+  const rows: SearchEventRow[] = [];
+  for (const event of events) {
+    if (event?.type !== 'search' && event?.type !== 'select') {
+      return { success: false, error: 'Event type must be search or select' };
+    }
+
+    const query = typeof event.query === 'string' ? anonymizeQuery(event.query) : '';
+    if (!query) {
+      return { success: false, error: 'Every event needs a query' };
+    }
+
+    const isSelect = event.type === 'select';
+    const shown = Array.isArray(event.shown) ? event.shown.slice(0, MAX_SHOWN_RESULTS) : [];
+
+    rows.push({
+      event_id: toId(event.eventId) || randomUUID(),
+      event_type: event.type,
+      event_time: receivedAt.toISOString(), // Client clocks are not trusted
+      session_id: toId(event.sid),
+      search_id: toId(event.searchId),
+      query,
+      search_mode: toText(event.mode, 32),
+      custodian: toText(event.custodian, 100),
+      result_count: toInt(event.resultCount, 0, 1_000_000_000),
+      page_offset: isSelect ? null : toInt(event.offset, 0, 100_000),
+      shown: isSelect ? [] : shown.map((result: any) => ({
+        ein: toText(result?.ein, 20),
+        plan_number: toText(result?.planNumber, 10),
+        rank: toInt(result?.rank, 1, 100_000)
+      })),
+      selected_rank: isSelect ? toInt(event.rank, 1, 100_000) : null,
+      selected_ein: isSelect ? toText(event.ein, 20) : null,
+      selected_plan_number: isSelect ? toText(event.planNumber, 10) : null,
+      time_to_select_ms: isSelect ? toInt(event.timeToSelectMs, 0, MAX_TIME_TO_SELECT_MS) : null,
+      ranker_version: toText(event.ranker, 32),
+      ranker_arm: toText(event.arm, 16)
+    });
+  }
+
+  return { success: true, rows };
+}
+
+/**
+ * Per-instance limiter for POST /events
+ * Counts events in fixed one-minute windows per client IP and per session ID;
+ * a request is accepted whole or not at all.
+ */
+export function createSearchEventLimiter(
+  perIp: number = EVENTS_PER_MINUTE_PER_IP,
+  perSession: number = EVENTS_PER_MINUTE_PER_SESSION
+) {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  return function admit(ip: string, rows: SearchEventRow[], now: number = Date.now()): SearchEventLimitResult {
+    const demands = new Map<string, { limit: number; count: number }>();
+    demands.set(`ip:${ip}`, { limit: perIp, count: rows.length });
+    for (const row of rows) {
+      if (!row.session_id) continue;
+      const key = `sid:${row.session_id}`;
+      const demand = demands.get(key) || { limit: perSession, count: 0 };
+      demand.count++;
+      demands.set(key, demand);
+    }
+
+    for (const [key, { limit, count }] of demands) {
+      const window = windows.get(key);
+      const current = window && now - window.startedAt < EVENT_LIMIT_WINDOW_MS ? window : null;
+      if ((current?.count ?? 0) + count > limit) {
+        const resetAt = (current?.startedAt ?? now) + EVENT_LIMIT_WINDOW_MS;
+        return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((resetAt - now) / 1000)) };
+      }
+    }
+
+    if (windows.size > MAX_TRACKED_LIMIT_KEYS) {
+      for (const [key, window] of windows) {
+        if (now - window.startedAt >= EVENT_LIMIT_WINDOW_MS) windows.delete(key);
+      }
+    }
+
+    for (const [key, { count }] of demands) {
+      const window = windows.get(key);
+      if (window && now - window.startedAt < EVENT_LIMIT_WINDOW_MS) {
+        window.count += count;
+      } else {
+        windows.set(key, { startedAt: now, count });
+      }
+    }
+
+    return { allowed: true };
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * Typeahead prefix index for GET /suggest
+ *
+ * cache-warmer.ts builds the index from BigQuery and publishes it to
+ * Firestore; the search function loads it once per instance and answers
+ * prefix lookups from memory without touching BigQuery.
+ *
+ * The index is a sorted array of match keys. A key is a normalized name with
+ * the spaces removed (see normalizeSponsorName), so "J.P. Morg" finds
+ * JPMORGAN CHASE & CO. Every name also gets keys starting at its second and
+ * third words so "chase" finds it too, ranked below names that start with the
+ * prefix. Lookup is a binary search for the first key >= prefix followed by a
+ * scan while keys still start with it; one- and two-character prefixes, which
+ * match too many keys to scan, are answered from precomputed lists.
+ */
+
+import { normalizeSponsorName } from './sponsor-matching';
+
+export type SuggestionType = 'sponsor' | 'custodian';
+
+export interface SuggestEntry {
+  name: string;
+  type: SuggestionType;
+  weight: number; // Participants for sponsors, plans served for custodians
+  location: string | null;
+  aliases?: string[];
+}
+
+export interface Suggestion {
+  name: string;
+  type: SuggestionType;
+  location: string | null;
+}
+
+export interface SuggestIndex {
+  version: string;
+  builtAt: string;
+  names: string[];
+  types: SuggestionType[];
+  weights: number[];
+  locations: Array<string | null>;
+  keys: string[]; // Sorted
+  refs: number[]; // refs[i] = entry * 2 + 1 when keys[i] starts mid-name, entry * 2 otherwise
+  heads: Record<string, number[]>; // Ranked entries for short prefixes
+}
+
+// Firestore layout: suggest_index/current points at suggest_index/{version},
+// whose shards subcollection holds the serialized index in order
+export const SUGGEST_INDEX_COLLECTION = 'suggest_index';
+export const SUGGEST_INDEX_POINTER_DOC = 'current';
+export const SUGGEST_INDEX_SHARDS_COLLECTION = 'shards';
+
+// Characters per shard; keeps multi-byte names under Firestore's 1 MiB document limit
+const SHARD_SIZE = 250_000;
+
+const MAX_WORD_STARTS = 3;
+const HEAD_PREFIX_LENGTH = 2;
+const HEAD_SIZE = 20;
+const MAX_SCANNED_KEYS = 5000;
+
+export const DEFAULT_SUGGESTION_LIMIT = 8;
+export const MAX_SUGGESTION_LIMIT = 20;
+
+/**
+ * Key a prefix or name is matched on
+ */
+export function toSuggestKey(text: string): string {
+  return normalizeSponsorName(text).replace(/ /g, '');
+}
+
+/**
+ * Build the index; entries with the same type and name are kept once, the heaviest first
+ */
+export function buildSuggestIndex(entries: SuggestEntry[], version: string): SuggestIndex {
+  const sorted = [...entries].sort((a, b) => b.weight - a.weight);
+  const index: SuggestIndex = {
+    version,
+    builtAt: new Date().toISOString(),
+    names: [],
+    types: [],
+    weights: [],
+    locations: [],
+    keys: [],
+    refs: [],
+    heads: {}
+  };
+
+  const seen = new Set<string>();
+  const keyed: Array<[string, number]> = [];
+
+  for (const entry of sorted) {
+    const dedupeKey = `${entry.type}:${entry.name.trim().toUpperCase()}`;
+    if (seen.has(dedupeKey)) continue;
+
+    const entryKeys = new Map<string, number>();
+    for (const name of [entry.name, ...(entry.aliases || [])]) {
+      const words = normalizeSponsorName(name).split(' ').filter(Boolean);
+      for (let start = 0; start < Math.min(words.length, MAX_WORD_STARTS); start++) {
+        const key = words.slice(start).join('');
+        const midName = start > 0 ? 1 : 0;
+        if (key.length > 1 && (entryKeys.get(key) ?? 1) >= midName) {
+          entryKeys.set(key, midName);
+        }
+      }
+    }
+    if (entryKeys.size === 0) continue;
+
+    seen.add(dedupeKey);
+    const entryIndex = index.names.length;
+    index.names.push(entry.name);
+    index.types.push(entry.type);
+    index.weights.push(entry.weight);
+    index.locations.push(entry.location);
+    for (const [key, midName] of entryKeys) {
+      keyed.push([key, entryIndex * 2 + midName]);
+    }
+  }
+
+  // Heaviest entries first within a key, so the scan cap drops the lightest
+  keyed.sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : a[1] - b[1]));
+  index.keys = keyed.map(([key]) => key);
+  index.refs = keyed.map(([, ref]) => ref);
+
+  const headPrefixes = new Set<string>();
+  for (const key of index.keys) {
+    for (let length = 1; length <= HEAD_PREFIX_LENGTH; length++) {
+      headPrefixes.add(key.slice(0, length));
+    }
+  }
+  for (const prefix of headPrefixes) {
+    index.heads[prefix] = rankMatches(index, prefix, HEAD_SIZE, Infinity);
+  }
+
+  return index;
+}
+
+/**
+ * Entries whose keys start with prefix: name starts first, then by weight
+ */
+function rankMatches(index: SuggestIndex, prefix: string, limit: number, maxScanned: number): number[] {
+  let low = 0;
+  let high = index.keys.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (index.keys[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+
+  const best = new Map<number, number>(); // Entry -> 0 for a name start, 1 for mid-name
+  for (let i = low; i < index.keys.length && i - low < maxScanned; i++) {
+    if (!index.keys[i].startsWith(prefix)) break;
+    const entry = index.refs[i] >> 1;
+    const midName = index.refs[i] & 1;
+    if ((best.get(entry) ?? 1) >= midName) best.set(entry, midName);
+  }
+
+  return [...best.entries()]
+    .sort((a, b) => a[1] - b[1] || index.weights[b[0]] - index.weights[a[0]])
+    .slice(0, limit)
+    .map(([entry]) => entry);
+}
+
+/**
+ * Top suggestions for what the user has typed so far
+ */
+export function lookupSuggestions(index: SuggestIndex, prefix: string, limit = DEFAULT_SUGGESTION_LIMIT): Suggestion[] {
+  const key = toSuggestKey(prefix);
+  if (!key) return [];
+
+  const entries = key.length <= HEAD_PREFIX_LENGTH
+    ? (index.heads[key] || []).slice(0, limit)
+    : rankMatches(index, key, limit, MAX_SCANNED_KEYS);
+
+  return entries.map(entry => ({
+    name: index.names[entry],
+    type: index.types[entry],
+    location: index.locations[entry]
+  }));
+}
+
+/**
+ * Split the serialized index into Firestore-sized shards
+ */
+export function toSuggestShards(index: SuggestIndex): string[] {
+  const serialized = JSON.stringify(index);
+  const shards: string[] = [];
+  let offset = 0;
+  while (offset < serialized.length) {
+    let end = Math.min(offset + SHARD_SIZE, serialized.length);
+    // Never split a surrogate pair; half of one is not valid UTF-8
+    const last = serialized.charCodeAt(end - 1);
+    if (last >= 0xd800 && last <= 0xdbff && end < serialized.length) end--;
+    shards.push(serialized.slice(offset, end));
+    offset = end;
+  }
+  return shards;
+}
+
+export function fromSuggestShards(shards: string[]): SuggestIndex {
+  return JSON.parse(shards.join('')) as SuggestIndex;
+}
+
+/**
+ * Zero-padded shard document ID, so IDs sort in shard order
+ */
+export function suggestShardId(shard: number): string {
+  return String(shard).padStart(4, '0');
+}
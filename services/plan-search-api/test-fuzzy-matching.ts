@@ -0,0 +1,130 @@
+/**
+ * Misspelling regression suite for typo-tolerant sponsor search
+ *
+ * Runs lib/sponsor-matching.ts against real sponsor names as they appear in
+ * Form 5500 filings, with the misspellings users actually type. Needs no
+ * credentials; exits non-zero when a case regresses.
+ *
+ * Usage:
+ *   npx tsx test-fuzzy-matching.ts
+ */
+
+import {
+  buildQueryMatchKeys,
+  buildSponsorMatchKeys,
+  normalizeSponsorName,
+  scoreSponsorMatch,
+  FUZZY_MATCH_THRESHOLD
+} from './standalone-search/lib/sponsor-matching';
+
+// Query as typed -> sponsor name it must find
+const shouldMatch: Array<[string, string]> = [
+  ['Mircosoft', 'MICROSOFT CORPORATION'],
+  ['Microsft', 'MICROSOFT CORPORATION'],
+  ['J.P. Morgan', 'JPMORGAN CHASE & CO.'],
+  ['JP Morgan', 'JPMORGAN CHASE BANK, N.A.'],
+  ['J P Morgan Chase', 'JPMORGAN CHASE & CO.'],
+  ['Goldman Sacks', 'GOLDMAN SACHS & CO. LLC'],
+  ['Bank of Amercia', 'BANK OF AMERICA CORPORATION'],
+  ['Wells Fargo & Co', 'WELLS FARGO & COMPANY'],
+  ['Exon Mobil', 'EXXON MOBIL CORPORATION'],
+  ['Jonson and Jonson', 'JOHNSON & JOHNSON'],
+  ['Proctor & Gamble', 'THE PROCTER & GAMBLE COMPANY'],
+  ['Mcdonalds', "MCDONALD'S CORPORATION"],
+  ['AT&T', 'AT&T INC.'],
+  ['ATT', 'AT&T SERVICES, INC.'],
+  ['Walmart', 'WAL-MART STORES, INC.'],
+  ['Wallmart', 'WALMART INC.'],
+  ['Lockhead Martin', 'LOCKHEED MARTIN CORPORATION'],
+  ['Berkshire Hathway', 'BERKSHIRE HATHAWAY INC.'],
+  ['Prudencial', 'PRUDENTIAL FINANCIAL, INC.'],
+  ['Starbuks', 'STARBUCKS CORPORATION'],
+  ['Gogle', 'GOOGLE LLC'],
+  ['Amazone', 'AMAZON.COM SERVICES LLC'],
+  ['Filips 66', 'PHILLIPS 66 COMPANY'],
+  ['Nestle', 'NESTLÉ USA, INC.'],
+  ['Coca Cola', 'THE COCA-COLA COMPANY'],
+  ['Home Depot', 'THE HOME DEPOT, INC.'],
+  ['Jhonson Controls', 'JOHNSON CONTROLS, INC.']
+];
+
+// Query -> sponsor name it must NOT match (shares letters or sounds, different company)
+const shouldNotMatch: Array<[string, string]> = [
+  ['Mircosoft', 'MICRON TECHNOLOGY, INC.'],
+  ['Tesla', 'TERADYNE, INC.'],
+  ['Apple', 'PINEAPPLE EXPRESS LLC'],
+  ['Ford', 'FORTIVE CORPORATION'],
+  ['Goldman Sacks', 'GOLDEN STATE FOODS CORP.'],
+  ['Exon Mobil', 'EXELON CORPORATION'],
+  ['Bank of Amercia', 'AMERICAN EXPRESS COMPANY'],
+  ['IBM', 'IBEX LLC']
+];
+
+// Name -> normalized form; both pipeline and search depend on these
+const normalizations: Array<[string, string]> = [
+  ['J.P. Morgan Chase & Co.', 'jp morgan chase'],
+  ['THE PROCTER & GAMBLE COMPANY', 'procter gamble'],
+  ['AT&T INC.', 'att'],
+  ["MCDONALD'S CORPORATION", 'mcdonalds'],
+  ['NESTLÉ USA, INC.', 'nestle usa'],
+  ['WAL-MART STORES, INC.', 'wal mart stores'],
+  ['COMPANY', 'company']
+];
+
+function runFuzzyMatchingTests() {
+  console.log('🔍 Testing typo-tolerant sponsor matching');
+  console.log(`Match threshold: ${FUZZY_MATCH_THRESHOLD}`);
+  console.log('='.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  const check = (ok: boolean, description: string) => {
+    if (ok) {
+      passed++;
+      console.log(`✅ ${description}`);
+    } else {
+      failed++;
+      console.error(`❌ ${description}`);
+    }
+  };
+
+  console.log('\n📊 Misspellings that must match');
+  for (const [query, sponsorName] of shouldMatch) {
+    const score = scoreSponsorMatch(query, sponsorName);
+    check(score >= FUZZY_MATCH_THRESHOLD, `"${query}" -> ${sponsorName} (${score})`);
+  }
+
+  console.log('\n📊 Look-alikes that must not match');
+  for (const [query, sponsorName] of shouldNotMatch) {
+    const score = scoreSponsorMatch(query, sponsorName);
+    check(score < FUZZY_MATCH_THRESHOLD, `"${query}" -/-> ${sponsorName} (${score})`);
+  }
+
+  console.log('\n📊 Name normalization');
+  for (const [name, expected] of normalizations) {
+    const normalized = normalizeSponsorName(name);
+    check(normalized === expected, `${name} -> "${normalized}"`);
+  }
+
+  // Firestore only returns candidates that share a key with the query
+  console.log('\n📊 Firestore candidate keys');
+  for (const [query, sponsorName] of shouldMatch) {
+    const queryKeys = buildQueryMatchKeys(query);
+    const sponsorKeys = buildSponsorMatchKeys(sponsorName);
+    const sharesKey = queryKeys.phoneticKeys.some(key => sponsorKeys.sponsorPhoneticKeys.includes(key)) ||
+      queryKeys.trigrams.slice(0, 10).some(gram => sponsorKeys.sponsorTrigrams.includes(gram));
+    check(sharesKey, `"${query}" shares a lookup key with ${sponsorName}`);
+  }
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Test Summary:');
+  console.log(`  ✅ Passed: ${passed}`);
+  console.log(`  ❌ Failed: ${failed}`);
+
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+runFuzzyMatchingTests();
@@ -0,0 +1,120 @@
+/**
+ * Ranker assignment and ranking SQL tests
+ *
+ * Checks that selectRanker keeps a session on one arm and splits sessions by
+ * RANKING_TREATMENT_SHARE, and that buildRankingSQL emits only the weighted
+ * features of each config and never puts the query text in the SQL.
+ * Needs no credentials; exits non-zero when a case regresses.
+ *
+ * Usage:
+ *   npx tsx test-ranking.ts
+ */
+
+import type { RankingFeature } from './standalone-search/lib/ranking';
+
+// The experiment is read when lib/ranking.ts loads
+process.env.RANKING_CONTROL = 'v1';
+process.env.RANKING_TREATMENT = 'v2';
+process.env.RANKING_TREATMENT_SHARE = '0.3';
+
+// Queries that would break or widen a spliced string literal or LIKE pattern
+const awkwardQueries = [
+  "O'Reilly Auto Parts",
+  'Acme\nCorp',
+  'C:\\Plans\\',
+  '100% Employee_Owned',
+  "x') OR TRUE --"
+];
+
+const FEATURE_MARKERS: Record<RankingFeature, string> = {
+  participants: 'participant_percentile',
+  assets: 'asset_percentile',
+  engagement: 'engagement_percentile',
+  activePlan: 'is_final_filing',
+  recency: 'form_tax_year',
+  matchQuality: '@ranking_q',
+  clickThrough: 'ranking_clicks.selections'
+};
+
+async function runRankingTests() {
+  const { buildRankingSQL, escapeLikePattern, selectRanker } = await import('./standalone-search/lib/ranking');
+  const { RANKING_CONFIGS } = await import('./standalone-search/lib/ranking-configs');
+
+  console.log('🔍 Testing ranker assignment and ranking SQL');
+  console.log('='.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  const check = (ok: boolean, description: string) => {
+    if (ok) {
+      passed++;
+      console.log(`✅ ${description}`);
+    } else {
+      failed++;
+      console.error(`❌ ${description}`);
+    }
+  };
+
+  console.log('\n📊 Ranker assignment');
+  const sessions = Array.from({ length: 10000 }, (_, i) => `session${i.toString(36)}`);
+  const arms = sessions.map(sid => selectRanker({ bucketKey: sid })!.arm);
+
+  check(
+    sessions.every((sid, i) => selectRanker({ bucketKey: sid })!.arm === arms[i]),
+    'A session keeps its ranker on every search'
+  );
+  const treatmentShare = arms.filter(arm => arm === 'treatment').length / sessions.length;
+  check(Math.abs(treatmentShare - 0.3) < 0.02, `Treatment share ${(treatmentShare * 100).toFixed(1)}% (expected 30%)`);
+  check(
+    sessions.every((sid, i) => selectRanker({ bucketKey: sid })!.config.version === (arms[i] === 'treatment' ? 'v2' : 'v1')),
+    'Arms map to RANKING_CONTROL and RANKING_TREATMENT'
+  );
+  check(selectRanker({})?.arm === 'control', 'Searches without a session get the control');
+  check(selectRanker({ bucketKey: sessions[0], override: 'v2' })?.arm === 'override', 'ranker= overrides the assignment');
+  check(selectRanker({ override: 'v0' }) === null, 'Unknown ranker versions are rejected');
+
+  console.log('\n📊 SQL per config');
+  for (const config of Object.values(RANKING_CONFIGS)) {
+    const sql = buildRankingSQL(config, 'microsoft', 'FALSE');
+    const text = sql.joins + sql.score;
+    const features = Object.keys(FEATURE_MARKERS) as RankingFeature[];
+
+    const missing = features.filter(feature => config.weights[feature] > 0 && !text.includes(FEATURE_MARKERS[feature]));
+    const unweighted = features.filter(feature => config.weights[feature] === 0 && text.includes(FEATURE_MARKERS[feature]));
+    check(missing.length === 0 && unweighted.length === 0,
+      `${config.version}: exactly the weighted features (${features.filter(f => config.weights[f] > 0).join(', ')})`);
+
+    const totalWeight = features.reduce((sum, feature) => sum + config.weights[feature], 0);
+    check(sql.score.includes(`) / ${totalWeight}, 2)`), `${config.version}: score is the weighted average over ${totalWeight}`);
+
+    const noQuery = buildRankingSQL(config, undefined, 'FALSE');
+    check(!noQuery.score.includes('@ranking_q') && Object.keys(noQuery.params).length === 0,
+      `${config.version}: no match quality or parameters without a query`);
+  }
+
+  console.log('\n📊 Query text');
+  const [config] = Object.values(RANKING_CONFIGS).filter(c => c.weights.matchQuality > 0);
+  for (const query of awkwardQueries) {
+    const sql = buildRankingSQL(config, query, 'FALSE');
+    const text = sql.joins + sql.score;
+    check(
+      !text.includes(query.trim()) &&
+        sql.params.ranking_q === query.trim() &&
+        sql.params.ranking_q_contains === `%${escapeLikePattern(query.trim())}%`,
+      `${JSON.stringify(query)} is passed as parameters only`
+    );
+  }
+  check(escapeLikePattern('100%_a\\b') === '100\\%\\_a\\\\b', 'LIKE wildcards and backslashes are escaped');
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Test Summary:');
+  console.log(`  ✅ Passed: ${passed}`);
+  console.log(`  ❌ Failed: ${failed}`);
+
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+runRankingTests();
@@ -0,0 +1,101 @@
+/**
+ * Prefix lookup tests for the GET /suggest typeahead index
+ *
+ * Builds lib/suggest-index.ts from a handful of sponsor and custodian names
+ * as they appear in Form 5500 filings and checks what each prefix suggests.
+ * Needs no credentials; exits non-zero when a case regresses.
+ *
+ * Usage:
+ *   npx tsx test-suggest-index.ts
+ */
+
+import {
+  buildSuggestIndex,
+  fromSuggestShards,
+  lookupSuggestions,
+  toSuggestShards,
+  type SuggestEntry
+} from './standalone-search/lib/suggest-index';
+
+const entries: SuggestEntry[] = [
+  { name: 'MICROSOFT CORPORATION', type: 'sponsor', weight: 180000, location: 'REDMOND, WA' },
+  { name: 'MICRON TECHNOLOGY, INC.', type: 'sponsor', weight: 45000, location: 'BOISE, ID' },
+  { name: 'MICROCHIP TECHNOLOGY INCORPORATED', type: 'sponsor', weight: 20000, location: 'CHANDLER, AZ' },
+  { name: 'JPMORGAN CHASE & CO.', type: 'sponsor', weight: 250000, location: 'NEW YORK, NY' },
+  { name: 'CHASE BREXTON HEALTH SERVICES', type: 'sponsor', weight: 900, location: 'BALTIMORE, MD' },
+  { name: 'WALMART INC.', type: 'sponsor', weight: 1500000, location: 'BENTONVILLE, AR', aliases: ['WAL-MART STORES, INC.'] },
+  { name: 'THE HOME DEPOT, INC.', type: 'sponsor', weight: 400000, location: 'ATLANTA, GA' },
+  { name: 'FIDELITY INVESTMENTS INSTITUTIONAL', type: 'custodian', weight: 9000000, location: 'BOSTON, MA' },
+  { name: 'FIDELITY NATIONAL FINANCIAL', type: 'sponsor', weight: 25000, location: 'JACKSONVILLE, FL' },
+  { name: 'FIDELITY NATIONAL FINANCIAL', type: 'sponsor', weight: 300, location: 'OMAHA, NE' },
+  { name: 'VANGUARD GROUP', type: 'custodian', weight: 7000000, location: 'MALVERN, PA' }
+];
+
+// Prefix as typed -> names expected at the top of the list, in order
+const expectedTop: Array<[string, string[]]> = [
+  ['Micr', ['MICROSOFT CORPORATION', 'MICRON TECHNOLOGY, INC.', 'MICROCHIP TECHNOLOGY INCORPORATED']],
+  ['microc', ['MICROCHIP TECHNOLOGY INCORPORATED']],
+  ['J.P. Morg', ['JPMORGAN CHASE & CO.']],
+  ['chase', ['CHASE BREXTON HEALTH SERVICES', 'JPMORGAN CHASE & CO.']],
+  ['wal-mart', ['WALMART INC.']],
+  ['home dep', ['THE HOME DEPOT, INC.']],
+  ['fi', ['FIDELITY INVESTMENTS INSTITUTIONAL', 'FIDELITY NATIONAL FINANCIAL']],
+  ['v', ['VANGUARD GROUP']]
+];
+
+// Prefixes that must suggest nothing
+const expectedEmpty = ['', 'the', 'xyzzy', '  '];
+
+function runSuggestIndexTests() {
+  console.log('🔍 Testing typeahead prefix index');
+  console.log('='.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  const check = (ok: boolean, description: string) => {
+    if (ok) {
+      passed++;
+      console.log(`✅ ${description}`);
+    } else {
+      failed++;
+      console.error(`❌ ${description}`);
+    }
+  };
+
+  const index = buildSuggestIndex(entries, 'test');
+
+  console.log('\n📊 Ranked suggestions');
+  for (const [prefix, expected] of expectedTop) {
+    const names = lookupSuggestions(index, prefix).map(s => s.name);
+    const ok = expected.every((name, i) => names[i] === name);
+    check(ok, `"${prefix}" -> ${names.join(' | ')}`);
+  }
+
+  console.log('\n📊 No suggestions');
+  for (const prefix of expectedEmpty) {
+    const names = lookupSuggestions(index, prefix).map(s => s.name);
+    check(names.length === 0, `"${prefix}" -> ${names.length} suggestions`);
+  }
+
+  console.log('\n📊 Index shape');
+  const fidelity = lookupSuggestions(index, 'fidelity nat');
+  check(fidelity.length === 1 && fidelity[0].location === 'JACKSONVILLE, FL',
+    'Duplicate names are suggested once, with the largest sponsor\'s location');
+  check(lookupSuggestions(index, 'mic', 2).length === 2, 'limit caps the suggestions');
+  check(lookupSuggestions(index, 'fidelity')[0].type === 'custodian', 'Suggestions carry their type');
+
+  const roundTripped = fromSuggestShards(toSuggestShards(index));
+  check(JSON.stringify(roundTripped) === JSON.stringify(index), 'Shards reassemble into the same index');
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 Test Summary:');
+  console.log(`  ✅ Passed: ${passed}`);
+  console.log(`  ❌ Failed: ${failed}`);
+
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+runSuggestIndexTests();
@@ -0,0 +1,119 @@
+/**
+ * Suspended partners and maintenance windows switch off session management
+ * and the partner backend API like every other route; signing out still works
+ */
+
+import { NextRequest } from 'next/server';
+import { FakeFirestore } from '../helpers/fake-firestore';
+import { PARTNER_ID, seedPartner, seedWidgetSession, widgetRequest } from '../helpers/widget-requests';
+
+const mockDb = new FakeFirestore();
+
+jest.mock('@/lib/firebase-admin', () => ({ requireAdminApp: () => ({ adminDb: mockDb }) }));
+jest.mock('@/lib/audit/unified-audit-logger', () => require('../helpers/widget-requests').mockAuditLoggerModule());
+jest.mock('@/lib/rate-limiter', () => ({
+  API_RATE_LIMIT_PER_MINUTE: 100,
+  apiRateLimiter: { check: jest.fn().mockResolvedValue({ success: true, remaining: 99, resetTime: 0 }) }
+}));
+
+import { GET as listSessions } from '@/app/api/widget/sessions/route';
+import { DELETE as revokeSession } from '@/app/api/widget/sessions/[sessionId]/route';
+import { POST as revokeCurrentSession } from '@/app/api/widget/session/revoke/route';
+import { authenticatePartnerRequest } from '@/lib/partner-api-auth';
+
+const USER = { userId: 'user_1', authMethod: 'magic_link' as const };
+
+function inMaintenanceWindow() {
+  const now = Date.now();
+  seedPartner(mockDb, {
+    maintenanceWindows: [{
+      id: 'mw_1',
+      startsAt: new Date(now - 60000).toISOString(),
+      endsAt: new Date(now + 30 * 60000).toISOString()
+    }]
+  });
+}
+
+function partnerRequest() {
+  return new NextRequest('https://auth.trustrails.test/api/partner/v1/usage', {
+    headers: {
+      'X-TrustRails-Partner-ID': PARTNER_ID,
+      'X-TrustRails-Key-ID': 'key_secret',
+      'X-TrustRails-Timestamp': String(Math.floor(Date.now() / 1000)),
+      'X-TrustRails-Signature': 'a'.repeat(64)
+    }
+  });
+}
+
+beforeEach(() => {
+  mockDb.paths('widget_sessions').forEach(path => mockDb.remove(path));
+  seedPartner(mockDb);
+});
+
+describe('widget session routes', () => {
+  it('reject listing sessions while the partner is suspended', async () => {
+    seedPartner(mockDb, { status: 'suspended', statusReason: 'PAYMENT_REQUIRED' });
+    const bearerToken = seedWidgetSession(mockDb, 'ws_1', USER);
+
+    const response = await listSessions(widgetRequest('/api/widget/sessions', { bearerToken }));
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'PAYMENT_REQUIRED', partner_status: 'suspended' });
+  });
+
+  it('reject revoking a session during a maintenance window', async () => {
+    inMaintenanceWindow();
+    const bearerToken = seedWidgetSession(mockDb, 'ws_1', USER);
+    seedWidgetSession(mockDb, 'ws_2', USER);
+
+    const response = await revokeSession(
+      widgetRequest('/api/widget/sessions/ws_2', { method: 'DELETE', bearerToken }),
+      { params: { sessionId: 'ws_2' } }
+    );
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get('Retry-After')).toBe('1800');
+    expect((await response.json()).code).toBe('MAINTENANCE');
+    expect(mockDb.read('widget_sessions/ws_2')).toBeDefined();
+  });
+
+  it('allow signing out while the partner is suspended', async () => {
+    seedPartner(mockDb, { status: 'suspended' });
+    const bearerToken = seedWidgetSession(mockDb, 'ws_1');
+
+    const response = await revokeCurrentSession(
+      widgetRequest('/api/widget/session/revoke', { method: 'POST', bearerToken })
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockDb.read('widget_sessions/ws_1')).toBeUndefined();
+  });
+});
+
+describe('partner backend API', () => {
+  it('rejects requests while the partner is suspended', async () => {
+    seedPartner(mockDb, { status: 'suspended', statusReason: 'COMPLIANCE_VIOLATION' });
+
+    const result = await authenticatePartnerRequest(partnerRequest());
+
+    expect(result).toMatchObject({
+      success: false,
+      status: 403,
+      reason: 'partner_inactive',
+      body: { code: 'COMPLIANCE_VIOLATION', partner_status: 'suspended' }
+    });
+  });
+
+  it('rejects requests during a maintenance window with Retry-After', async () => {
+    inMaintenanceWindow();
+
+    const result = await authenticatePartnerRequest(partnerRequest());
+
+    expect(result).toMatchObject({
+      success: false,
+      status: 503,
+      body: { code: 'MAINTENANCE', partner_status: 'maintenance' },
+      headers: { 'Retry-After': '1800' }
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Partner user provisioning only returns users the partner hosts and never
+ * adopts someone else's sign-in account
+ */
+
+import { NextRequest } from 'next/server';
+import { FakeFirestore } from '../helpers/fake-firestore';
+import { PARTNER_ID, seedPartner } from '../helpers/widget-requests';
+
+const mockDb = new FakeFirestore();
+const mockAuth = {
+  getUserByEmail: jest.fn(),
+  createUser: jest.fn(),
+  setCustomUserClaims: jest.fn(),
+  deleteUser: jest.fn()
+};
+
+jest.mock('@/lib/firebase-admin', () => ({ requireAdminApp: () => ({ adminDb: mockDb, adminAuth: mockAuth }) }));
+jest.mock('@/lib/audit/unified-audit-logger', () => require('../helpers/widget-requests').mockAuditLoggerModule());
+jest.mock('@/lib/webhooks/webhook-dispatcher', () => ({ dispatchWebhookEvent: jest.fn().mockResolvedValue(undefined) }));
+jest.mock('@/lib/partner-api-auth', () => ({
+  logPartnerAuthFailure: jest.fn(),
+  authenticatePartnerRequest: async (request: NextRequest) => ({
+    success: true,
+    context: {
+      custodianId: 'partner_1',
+      custodianData: mockDb.read('custodians/partner_1'),
+      apiKeyId: 'key_1',
+      environment: 'sandbox',
+      body: await request.json()
+    }
+  })
+}));
+
+import { POST as provisionUser } from '@/app/api/partner/v1/users/route';
+
+const EMAIL = 'jane@example.com';
+
+function provision() {
+  return provisionUser(new NextRequest('https://auth.trustrails.test/api/partner/v1/users', {
+    method: 'POST',
+    body: JSON.stringify({ email: EMAIL, name: 'Jane Doe' })
+  }));
+}
+
+function authError(code: string) {
+  return Object.assign(new Error(code), { code });
+}
+
+beforeEach(() => {
+  mockDb.paths('users').forEach(path => mockDb.remove(path));
+  mockDb.paths('rate_limit_shards').forEach(path => mockDb.remove(path));
+  seedPartner(mockDb);
+  Object.values(mockAuth).forEach(fn => fn.mockReset());
+  mockAuth.getUserByEmail.mockRejectedValue(authError('auth/user-not-found'));
+  mockAuth.createUser.mockResolvedValue({ uid: 'user_new', emailVerified: false });
+  mockAuth.setCustomUserClaims.mockResolvedValue(undefined);
+  mockAuth.deleteUser.mockResolvedValue(undefined);
+});
+
+describe('POST /api/partner/v1/users', () => {
+  it('creates the user and marks the sign-in account as created by the partner', async () => {
+    const response = await provision();
+
+    expect(response.status).toBe(201);
+    expect(mockAuth.setCustomUserClaims).toHaveBeenCalledWith('user_new', { provisionedByCustodianId: PARTNER_ID });
+    expect(mockDb.read('users/user_new')).toMatchObject({ hostCustodianId: PARTNER_ID, emailVerified: false });
+  });
+
+  it('returns users the partner already hosts', async () => {
+    mockAuth.getUserByEmail.mockResolvedValue({ uid: 'user_1', emailVerified: true });
+    mockDb.seed('users/user_1', { email: EMAIL, name: 'Jane Doe', hostCustodianId: PARTNER_ID });
+
+    const response = await provision();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ is_new_user: false, user: { id: 'user_1', email: EMAIL } });
+  });
+
+  it.each([
+    ['another partner', { hostCustodianId: 'partner_2' }],
+    ['no partner', {}]
+  ])('refuses users hosted by %s without revealing them', async (_, host) => {
+    mockAuth.getUserByEmail.mockResolvedValue({ uid: 'user_1', emailVerified: true });
+    mockDb.seed('users/user_1', { email: EMAIL, name: 'Jane Doe', ...host });
+
+    const response = await provision();
+    const body = JSON.stringify(await response.json());
+
+    expect(response.status).toBe(409);
+    expect(body).not.toContain(EMAIL);
+    expect(body).not.toContain('Jane');
+    expect(body).not.toContain('partner_2');
+  });
+
+  it.each([
+    ['was not created by the partner', { emailVerified: true, customClaims: {} }],
+    ['is unverified', { emailVerified: false, customClaims: { provisionedByCustodianId: PARTNER_ID } }]
+  ])('does not adopt a sign-in account without a profile that %s', async (_, account) => {
+    mockAuth.getUserByEmail.mockResolvedValue({ uid: 'user_1', ...account });
+
+    const response = await provision();
+
+    expect(response.status).toBe(409);
+    expect(mockDb.read('users/user_1')).toBeUndefined();
+  });
+
+  it('adopts a verified sign-in account the partner created', async () => {
+    mockAuth.getUserByEmail.mockResolvedValue({
+      uid: 'user_1',
+      emailVerified: true,
+      customClaims: { provisionedByCustodianId: PARTNER_ID }
+    });
+
+    const response = await provision();
+
+    expect(response.status).toBe(201);
+    expect(mockDb.read('users/user_1')).toMatchObject({ hostCustodianId: PARTNER_ID, emailVerified: true });
+  });
+
+  it('does not create an account when the lookup fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockAuth.getUserByEmail.mockRejectedValue(authError('auth/internal-error'));
+
+    const response = await provision();
+
+    expect(response.status).toBe(500);
+    expect(mockAuth.createUser).not.toHaveBeenCalled();
+  });
+
+  it('removes the new sign-in account when the profile cannot be stored', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockAuth.setCustomUserClaims.mockRejectedValue(authError('auth/internal-error'));
+
+    const response = await provision();
+
+    expect(response.status).toBe(500);
+    expect(mockAuth.deleteUser).toHaveBeenCalledWith('user_new');
+  });
+});
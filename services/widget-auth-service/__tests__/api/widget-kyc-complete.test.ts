@@ -0,0 +1,144 @@
+/**
+ * kyc/complete only trusts Persona
+ *
+ * The status in the request is whatever the browser claims. It is stored as
+ * kycStatus, and widget.kyc.completed is sent, only once Persona confirms it.
+ */
+
+import { FakeFirestore } from '../helpers/fake-firestore';
+import { PARTNER_ID, seedPartner, seedWidgetSession, widgetRequest } from '../helpers/widget-requests';
+
+const mockDb = new FakeFirestore();
+const mockDispatchWebhookEvent = jest.fn();
+
+jest.mock('@/lib/firebase-admin', () => ({ requireAdminApp: () => ({ adminDb: mockDb }) }));
+jest.mock('@/lib/audit/unified-audit-logger', () => require('../helpers/widget-requests').mockAuditLoggerModule());
+jest.mock('@/lib/webhooks/webhook-dispatcher', () => ({
+  dispatchWebhookEvent: (...args: unknown[]) => mockDispatchWebhookEvent(...args)
+}));
+jest.mock('@/lib/rate-limiter', () => ({ API_RATE_LIMIT_PER_MINUTE: 100, apiRateLimiter: { check: jest.fn() } }));
+
+import { POST as completeKyc } from '@/app/api/widget/kyc/complete/route';
+
+const USER = 'user_1';
+const fetchMock = jest.fn();
+
+function personaResponds(status: number, attributes?: Record<string, unknown>, id = 'inq_1') {
+  fetchMock.mockResolvedValue(new Response(
+    JSON.stringify(attributes ? { data: { type: 'inquiry', id, attributes } } : { errors: [] }),
+    { status, headers: { 'content-type': 'application/json' } }
+  ));
+}
+
+function complete(body: Record<string, unknown>, userId = USER) {
+  const bearerToken = seedWidgetSession(mockDb, 'ws_kyc', { userId, authMethod: 'magic_link' });
+  return completeKyc(widgetRequest('/api/widget/kyc/complete', { method: 'POST', bearerToken, body }));
+}
+
+beforeAll(() => {
+  global.fetch = fetchMock;
+});
+
+beforeEach(() => {
+  seedPartner(mockDb);
+  mockDb.seed(`users/${USER}`, { email: 'user@example.com', hostCustodianId: PARTNER_ID });
+  mockDb.paths('users').filter(path => path !== `users/${USER}`).forEach(path => mockDb.remove(path));
+  fetchMock.mockReset();
+  mockDispatchWebhookEvent.mockReset().mockResolvedValue(undefined);
+  process.env.PERSONA_API_KEY = 'persona_test_key';
+});
+
+afterAll(() => {
+  delete process.env.PERSONA_API_KEY;
+});
+
+describe('POST /api/widget/kyc/complete', () => {
+  it('stores the status confirmed by Persona and notifies the partner', async () => {
+    personaResponds(200, { status: 'approved' });
+
+    const response = await complete({ inquiryId: 'inq_1', status: 'completed' });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ kyc_status: 'completed', kyc_confirmed: true });
+    expect(fetchMock.mock.calls[0][0]).toBe('https://withpersona.com/api/v1/inquiries/inq_1');
+    expect(mockDb.read(`users/${USER}`)).toMatchObject({ personaId: 'inq_1', kycStatus: 'completed' });
+    expect(mockDispatchWebhookEvent).toHaveBeenCalledWith(
+      PARTNER_ID,
+      'widget.kyc.completed',
+      expect.objectContaining({ user_id: USER, inquiry_id: 'inq_1', status: 'completed' })
+    );
+  });
+
+  it('stores Persona\'s status when the browser claims a different one', async () => {
+    personaResponds(200, { status: 'declined' });
+
+    const body = await (await complete({ inquiryId: 'inq_1', status: 'completed' })).json();
+
+    expect(body).toMatchObject({ kyc_status: 'failed', kyc_confirmed: true });
+    expect(mockDb.read(`users/${USER}`)?.kycStatus).toBe('failed');
+    expect(mockDispatchWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('marks the status reported_by_client without a Persona key', async () => {
+    delete process.env.PERSONA_API_KEY;
+
+    const body = await (await complete({ inquiryId: 'inq_1', status: 'completed' })).json();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(body).toMatchObject({ kyc_status: 'reported_by_client', kyc_confirmed: false });
+    expect(mockDb.read(`users/${USER}`)).toMatchObject({ kycStatus: 'reported_by_client', kycReportedStatus: 'completed' });
+    expect(mockDispatchWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('marks the status reported_by_client when Persona cannot be reached', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+    jest.spyOn(console, 'error').mockImplementationOnce(() => {});
+
+    const body = await (await complete({ inquiryId: 'inq_1', status: 'completed' })).json();
+
+    expect(body.kyc_status).toBe('reported_by_client');
+    expect(mockDispatchWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('keeps a confirmed status when a later report cannot be confirmed', async () => {
+    mockDb.write(`users/${USER}`, { kycStatus: 'failed', personaId: 'inq_1' }, 'merge');
+    delete process.env.PERSONA_API_KEY;
+
+    await complete({ inquiryId: 'inq_1', status: 'completed' });
+
+    expect(mockDb.read(`users/${USER}`)).toMatchObject({ kycStatus: 'failed', kycReportedStatus: 'completed' });
+  });
+
+  it('rejects inquiries Persona does not know', async () => {
+    personaResponds(404);
+
+    const response = await complete({ inquiryId: 'inq_forged', status: 'completed' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe('INQUIRY_NOT_FOUND');
+    expect(mockDb.read(`users/${USER}`)?.kycStatus).toBeUndefined();
+  });
+
+  it('rejects users hosted by another partner', async () => {
+    mockDb.seed('users/user_other', { email: 'other@example.com', hostCustodianId: 'partner_2' });
+    personaResponds(200, { status: 'approved' });
+
+    const response = await complete({ inquiryId: 'inq_1', status: 'completed' }, 'user_other');
+
+    expect(response.status).toBe(404);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(mockDb.read('users/user_other')?.kycStatus).toBeUndefined();
+    expect(mockDispatchWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('rejects an inquiry that already verified another user', async () => {
+    mockDb.seed('users/user_2', { hostCustodianId: PARTNER_ID, personaId: 'inq_1', kycStatus: 'completed' });
+    personaResponds(200, { status: 'approved' });
+
+    const response = await complete({ inquiryId: 'inq_1', status: 'completed' });
+
+    expect(response.status).toBe(409);
+    expect(mockDb.read(`users/${USER}`)?.kycStatus).toBeUndefined();
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Revoking the API key that created a session, or switching the partner's
+ * widget off, ends the session on its next request or refresh
+ */
+
+import { FakeFirestore } from '../helpers/fake-firestore';
+import { PARTNER_ID, seedPartner, seedWidgetSession, widgetRequest } from '../helpers/widget-requests';
+
+const mockDb = new FakeFirestore();
+
+jest.mock('@/lib/firebase-admin', () => ({ requireAdminApp: () => ({ adminDb: mockDb }) }));
+jest.mock('@/lib/audit/unified-audit-logger', () => require('../helpers/widget-requests').mockAuditLoggerModule());
+jest.mock('@/lib/rate-limiter', () => ({
+  API_RATE_LIMIT_PER_MINUTE: 100,
+  apiRateLimiter: { check: jest.fn().mockResolvedValue({ success: true, remaining: 99, resetTime: 0 }) }
+}));
+
+import { GET as listSessions } from '@/app/api/widget/sessions/route';
+import { POST as refreshSession } from '@/app/api/widget/session/refresh/route';
+import { issueRefreshToken } from '@/lib/widget-auth-server';
+import { checkTierRateLimit } from '@/lib/tier-rate-limits';
+
+const USER = { userId: 'user_1', authMethod: 'magic_link' as const };
+
+function withKey(key: Record<string, unknown>) {
+  seedPartner(mockDb, {
+    integrationConfig: { apiKeys: [{ id: 'key_1', hashedKey: 'hash', type: 'public', rateLimit: 1000, ...key }] }
+  });
+}
+
+beforeEach(() => {
+  ['widget_sessions', 'rate_limit_shards'].forEach(collection =>
+    mockDb.paths(collection).forEach(path => mockDb.remove(path))
+  );
+  withKey({ status: 'active' });
+});
+
+describe('bearer tokens', () => {
+  it('keep working while the key is active', async () => {
+    const bearerToken = seedWidgetSession(mockDb, 'ws_1', USER);
+
+    const response = await listSessions(widgetRequest('/api/widget/sessions', { bearerToken }));
+
+    expect(response.status).toBe(200);
+  });
+
+  it.each([
+    ['revoked', { status: 'revoked' }],
+    ['expired', { status: 'active', expiresAt: new Date(Date.now() - 60000).toISOString() }]
+  ])('end the session when its key is %s', async (_, key) => {
+    const bearerToken = seedWidgetSession(mockDb, 'ws_1', USER);
+    withKey(key);
+
+    const response = await listSessions(widgetRequest('/api/widget/sessions', { bearerToken }));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'REAUTH_REQUIRED', reason: 'api_key_unusable' });
+    expect(mockDb.read('widget_sessions/ws_1')).toBeUndefined();
+  });
+
+  it('end the session when its key was deleted', async () => {
+    const bearerToken = seedWidgetSession(mockDb, 'ws_1', USER);
+    seedPartner(mockDb, { integrationConfig: { apiKeys: [] } });
+
+    const response = await listSessions(widgetRequest('/api/widget/sessions', { bearerToken }));
+
+    expect(response.status).toBe(401);
+    expect(mockDb.read('widget_sessions/ws_1')).toBeUndefined();
+  });
+
+  it('end the session when the widget is disabled', async () => {
+    const bearerToken = seedWidgetSession(mockDb, 'ws_1', USER);
+    seedPartner(mockDb, { widgetEnabled: false });
+
+    const response = await listSessions(widgetRequest('/api/widget/sessions', { bearerToken }));
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).reason).toBe('widget_disabled');
+    expect(mockDb.read('widget_sessions/ws_1')).toBeUndefined();
+  });
+});
+
+describe('POST /api/widget/session/refresh', () => {
+  it('ends the session instead of rotating when its key is revoked', async () => {
+    seedWidgetSession(mockDb, 'ws_1', USER);
+    const refreshToken = await issueRefreshToken('ws_1');
+    withKey({ status: 'revoked' });
+
+    const response = await refreshSession(widgetRequest('/api/widget/session/refresh', {
+      method: 'POST',
+      body: { session_id: 'ws_1', refresh_token: refreshToken }
+    }));
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).bearer_token).toBeUndefined();
+    expect(mockDb.read('widget_sessions/ws_1')).toBeUndefined();
+  });
+});
+
+describe('tier rate limits', () => {
+  it('refuse key ids the partner no longer has', async () => {
+    const result = await checkTierRateLimit(PARTNER_ID, mockDb.read(`custodians/${PARTNER_ID}`), 'key_deleted');
+
+    expect(result.success).toBe(false);
+    expect(mockDb.paths('rate_limit_shards')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Only a verified sign-in may manage a user's sessions
+ *
+ * The user_token sent to /auth and the email flow of create-account are
+ * claims made by the browser; a session holding such a claim must not list,
+ * revoke or evict the sessions of the user it names.
+ */
+
+import * as jwt from 'jsonwebtoken';
+import { FakeFirestore } from '../helpers/fake-firestore';
+import { PARTNER_ID, seedPartner, seedWidgetSession, widgetRequest } from '../helpers/widget-requests';
+
+const mockDb = new FakeFirestore();
+const mockVerifyIdToken = jest.fn();
+
+jest.mock('@/lib/firebase-admin', () => ({
+  requireAdminApp: () => ({ adminDb: mockDb, adminAuth: { verifyIdToken: mockVerifyIdToken } })
+}));
+jest.mock('@/lib/audit/unified-audit-logger', () => require('../helpers/widget-requests').mockAuditLoggerModule());
+jest.mock('@/lib/webhooks/webhook-dispatcher', () => ({ dispatchWebhookEvent: jest.fn().mockResolvedValue(undefined) }));
+jest.mock('@/lib/api-key-management', () => ({ recordAPIKeyUsage: jest.fn().mockResolvedValue(undefined) }));
+jest.mock('@/lib/rate-limiter', () => ({
+  API_RATE_LIMIT_PER_MINUTE: 100,
+  apiRateLimiter: { check: jest.fn().mockResolvedValue({ success: true, remaining: 99, resetTime: Date.now() + 60000 }) }
+}));
+jest.mock('@/lib/anomaly/anomaly-detector', () => ({
+  assessRisk: jest.fn().mockResolvedValue({ decision: 'allow' }),
+  buildRiskRejection: jest.fn(),
+  recordFailedPartnerId: jest.fn()
+}));
+
+import { POST as authenticate } from '@/app/api/widget/auth/route';
+import { DELETE as revokeOtherSessions, GET as listSessions } from '@/app/api/widget/sessions/route';
+import { DELETE as revokeSession } from '@/app/api/widget/sessions/[sessionId]/route';
+import type { WidgetAuthMethod } from '@/lib/widget-auth-server';
+
+const VICTIM = 'victim_uid';
+
+const seedSession = (sessionId: string, user?: { userId: string; authMethod?: WidgetAuthMethod }, createdMinutesAgo?: number) =>
+  seedWidgetSession(mockDb, sessionId, user, createdMinutesAgo);
+
+const sessionIds = () => mockDb.paths('widget_sessions').map(path => path.split('/')[1]);
+
+let apiKey: string;
+
+beforeEach(() => {
+  mockDb.paths('widget_sessions').forEach(path => mockDb.remove(path));
+  ({ apiKey } = seedPartner(mockDb, { integrationConfig: { sessionPolicy: { maxSessionsPerUser: 2 } } }));
+  mockVerifyIdToken.mockReset();
+
+  seedSession('ws_victim_laptop', { userId: VICTIM, authMethod: 'magic_link' }, 30);
+  seedSession('ws_victim_phone', { userId: VICTIM, authMethod: 'oauth' }, 20);
+});
+
+function authRequest(body: Record<string, unknown>) {
+  return widgetRequest('/api/widget/auth', {
+    method: 'POST',
+    headers: { 'X-TrustRails-API-Key': apiKey, 'X-TrustRails-Partner-ID': PARTNER_ID },
+    body
+  });
+}
+
+describe('POST /api/widget/auth user_token', () => {
+  it('starts an anonymous session for a forged user_token and evicts nothing', async () => {
+    mockVerifyIdToken.mockRejectedValue(Object.assign(new Error('Decoding Firebase ID token failed'), { code: 'auth/argument-error' }));
+
+    const response = await authenticate(authRequest({ widget_version: '1.0.0', user_token: VICTIM }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.user_authenticated).toBe(false);
+    expect(mockDb.read(`widget_sessions/${body.session_id}`)?.userId).toBeUndefined();
+    expect((jwt.decode(body.bearer_token.replace('tr_bearer_', '')) as any).userId).toBeUndefined();
+    expect(sessionIds()).toEqual(expect.arrayContaining(['ws_victim_laptop', 'ws_victim_phone']));
+  });
+
+  it('does not trust ID tokens for an unverified email', async () => {
+    mockVerifyIdToken.mockResolvedValue({ uid: VICTIM, email_verified: false });
+
+    const body = await (await authenticate(authRequest({ user_token: 'id-token' }))).json();
+
+    expect(body.user_authenticated).toBe(false);
+    expect(sessionIds()).toHaveLength(3);
+  });
+
+  it('attaches the user of a verified ID token and applies the session limit', async () => {
+    mockVerifyIdToken.mockResolvedValue({ uid: VICTIM, email_verified: true });
+
+    const body = await (await authenticate(authRequest({ user_token: 'id-token' }))).json();
+
+    expect(mockVerifyIdToken).toHaveBeenCalledWith('id-token', true);
+    expect(body.user_authenticated).toBe(true);
+    expect(mockDb.read(`widget_sessions/${body.session_id}`)).toMatchObject({ userId: VICTIM, authMethod: 'id_token' });
+    expect(sessionIds().sort()).toEqual([body.session_id, 'ws_victim_phone'].sort()); // maxSessionsPerUser: 2, counting the new one
+  });
+});
+
+describe.each<[string, WidgetAuthMethod | undefined]>([
+  ['a password sign-in', 'password'],
+  ['a legacy session without an auth method', undefined]
+])('session with %s', (_, authMethod) => {
+  let attackerToken: string;
+
+  beforeEach(() => {
+    attackerToken = seedSession('ws_attacker', { userId: VICTIM, authMethod }, 1);
+  });
+
+  it('cannot list the user\'s sessions', async () => {
+    const response = await listSessions(widgetRequest('/api/widget/sessions', { bearerToken: attackerToken }));
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).code).toBe('USER_REQUIRED');
+  });
+
+  it('cannot sign out the user\'s other sessions', async () => {
+    const response = await revokeOtherSessions(
+      widgetRequest('/api/widget/sessions', { method: 'DELETE', bearerToken: attackerToken })
+    );
+
+    expect(response.status).toBe(403);
+    expect(sessionIds()).toEqual(expect.arrayContaining(['ws_victim_laptop', 'ws_victim_phone']));
+  });
+
+  it('cannot revoke one of the user\'s sessions', async () => {
+    const response = await revokeSession(
+      widgetRequest('/api/widget/sessions/ws_victim_laptop', { method: 'DELETE', bearerToken: attackerToken }),
+      { params: { sessionId: 'ws_victim_laptop' } }
+    );
+
+    expect(response.status).toBe(403);
+    expect(sessionIds()).toContain('ws_victim_laptop');
+  });
+});
+
+describe('verified session', () => {
+  it('lists its user\'s sessions, including ones that only claimed the user', async () => {
+    seedSession('ws_claimed', { userId: VICTIM, authMethod: 'password' }, 1);
+    const token = seedSession('ws_victim_current', { userId: VICTIM, authMethod: 'magic_link' }, 0);
+
+    const response = await listSessions(widgetRequest('/api/widget/sessions', { bearerToken: token }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.sessions.map((s: any) => s.session_id).sort())
+      .toEqual(['ws_claimed', 'ws_victim_current', 'ws_victim_laptop', 'ws_victim_phone']);
+  });
+
+  it('cannot revoke another user\'s session', async () => {
+    const token = seedSession('ws_other_user', { userId: 'other_uid', authMethod: 'oauth' }, 0);
+
+    const response = await revokeSession(
+      widgetRequest('/api/widget/sessions/ws_victim_laptop', { method: 'DELETE', bearerToken: token }),
+      { params: { sessionId: 'ws_victim_laptop' } }
+    );
+
+    expect(response.status).toBe(404);
+    expect(sessionIds()).toContain('ws_victim_laptop');
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Session routes count against the partner's per-key rate limit
+ *
+ * The key that created the session allows two requests a minute, so the
+ * third request of a test is over the limit.
+ */
+
+import { FakeFirestore } from '../helpers/fake-firestore';
+import { seedPartner, seedWidgetSession, widgetRequest } from '../helpers/widget-requests';
+
+const mockDb = new FakeFirestore();
+const mockIpCheck = jest.fn();
+
+jest.mock('@/lib/firebase-admin', () => ({ requireAdminApp: () => ({ adminDb: mockDb }) }));
+jest.mock('@/lib/audit/unified-audit-logger', () => require('../helpers/widget-requests').mockAuditLoggerModule());
+jest.mock('@/lib/rate-limiter', () => ({
+  API_RATE_LIMIT_PER_MINUTE: 100,
+  apiRateLimiter: { check: (...args: unknown[]) => mockIpCheck(...args) }
+}));
+
+import { GET as listSessions } from '@/app/api/widget/sessions/route';
+import { DELETE as revokeSession } from '@/app/api/widget/sessions/[sessionId]/route';
+import { POST as revokeCurrentSession } from '@/app/api/widget/session/revoke/route';
+import { POST as refreshSession } from '@/app/api/widget/session/refresh/route';
+import { issueRefreshToken } from '@/lib/widget-auth-server';
+
+const USER = { userId: 'user_1', authMethod: 'magic_link' as const };
+
+beforeEach(() => {
+  ['widget_sessions', 'rate_limit_shards'].forEach(collection =>
+    mockDb.paths(collection).forEach(path => mockDb.remove(path))
+  );
+  seedPartner(mockDb, {
+    integrationConfig: {
+      apiKeys: [{ id: 'key_1', hashedKey: 'hash', type: 'public', status: 'active', rateLimit: 2 }]
+    }
+  });
+  mockIpCheck.mockReset().mockResolvedValue({ success: true, remaining: 99, resetTime: Date.now() + 60000 });
+});
+
+describe('widget session routes', () => {
+  it('count listing sessions against the key and report the limit', async () => {
+    const bearerToken = seedWidgetSession(mockDb, 'ws_1', USER);
+    const list = () => listSessions(widgetRequest('/api/widget/sessions', { bearerToken }));
+
+    const first = await list();
+    await list();
+    const limited = await list();
+
+    expect(first.status).toBe(200);
+    expect(first.headers.get('X-RateLimit-Limit')).toBe('2');
+    expect(first.headers.get('X-RateLimit-Remaining')).toBe('1');
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBeTruthy();
+    expect(await limited.json()).toMatchObject({ code: 'RATE_LIMIT_EXCEEDED', limit: 2 });
+  });
+
+  it('share the key\'s limit between listing and revoking sessions', async () => {
+    const bearerToken = seedWidgetSession(mockDb, 'ws_1', USER);
+    seedWidgetSession(mockDb, 'ws_2', USER);
+    seedWidgetSession(mockDb, 'ws_3', USER);
+
+    await listSessions(widgetRequest('/api/widget/sessions', { bearerToken }));
+    const revoked = await revokeSession(
+      widgetRequest('/api/widget/sessions/ws_2', { method: 'DELETE', bearerToken }),
+      { params: { sessionId: 'ws_2' } }
+    );
+    const limited = await revokeSession(
+      widgetRequest('/api/widget/sessions/ws_3', { method: 'DELETE', bearerToken }),
+      { params: { sessionId: 'ws_3' } }
+    );
+
+    expect(revoked.status).toBe(200);
+    expect(revoked.headers.get('X-RateLimit-Remaining')).toBe('0');
+    expect(limited.status).toBe(429);
+    expect(mockDb.read('widget_sessions/ws_3')).toBeDefined();
+  });
+
+  it('let the user sign out over the key\'s limit', async () => {
+    const bearerToken = seedWidgetSession(mockDb, 'ws_1', USER);
+    await listSessions(widgetRequest('/api/widget/sessions', { bearerToken }));
+    await listSessions(widgetRequest('/api/widget/sessions', { bearerToken }));
+
+    const response = await revokeCurrentSession(
+      widgetRequest('/api/widget/session/revoke', { method: 'POST', bearerToken })
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockIpCheck).toHaveBeenCalledWith('widget_session_revoke_203.0.113.7');
+    expect(mockDb.read('widget_sessions/ws_1')).toBeUndefined();
+  });
+});
+
+describe('POST /api/widget/session/refresh', () => {
+  function refresh(refreshToken: string) {
+    return refreshSession(widgetRequest('/api/widget/session/refresh', {
+      method: 'POST',
+      body: { session_id: 'ws_1', refresh_token: refreshToken }
+    }));
+  }
+
+  it('counts against the key that created the session', async () => {
+    seedWidgetSession(mockDb, 'ws_1', USER);
+    const refreshToken = await issueRefreshToken('ws_1');
+
+    const response = await refresh(refreshToken);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('2');
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('1');
+    expect(mockIpCheck).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects over the limit without rotating the refresh token', async () => {
+    const bearerToken = seedWidgetSession(mockDb, 'ws_1', USER);
+    const refreshToken = await issueRefreshToken('ws_1');
+    await listSessions(widgetRequest('/api/widget/sessions', { bearerToken }));
+    await listSessions(widgetRequest('/api/widget/sessions', { bearerToken }));
+    const storedHash = mockDb.read('widget_sessions/ws_1')?.refreshTokenHash;
+
+    const response = await refresh(refreshToken);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('2');
+    expect(mockDb.read('widget_sessions/ws_1')?.refreshTokenHash).toBe(storedHash);
+  });
+});
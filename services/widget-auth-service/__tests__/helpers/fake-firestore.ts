@@ -0,0 +1,340 @@
+/**
+ * In-memory stand-in for the parts of the Firestore Admin SDK the service uses
+ *
+ * Transactions follow Firestore's optimistic model: reads record the version
+ * of each document, and the commit is retried when another write changed one
+ * of them in the meantime. Every read yields to the event loop, so concurrent
+ * transactions interleave the way they do against the real database.
+ */
+
+type Data = Record<string, any>;
+type Operator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+
+interface StoredDoc {
+  data: Data;
+  version: number;
+}
+
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+const tick = () => new Promise<void>(resolve => setImmediate(resolve));
+const copy = <T>(value: T): T => structuredClone(value);
+
+// FieldValue.increment() sentinels are applied to the stored value
+const isIncrement = (value: any): value is { operand: number } =>
+  value?.methodName === 'FieldValue.increment';
+
+function applyTransforms(data: Data, existing: Data | undefined): Data {
+  const resolved: Data = {};
+  for (const [field, value] of Object.entries(data)) {
+    resolved[field] = isIncrement(value) ? (existing?.[field] ?? 0) + value.operand : value;
+  }
+  return resolved;
+}
+
+// update() treats dotted field names as paths into nested maps
+function setFieldPath(target: Data, fieldPath: string, value: any): void {
+  const segments = fieldPath.split('.');
+  const parent = segments.slice(0, -1).reduce((node, segment) => {
+    if (typeof node[segment] !== 'object' || node[segment] === null) {
+      node[segment] = {};
+    }
+    return node[segment];
+  }, target);
+  parent[segments[segments.length - 1]] = value;
+}
+
+function compare(value: any, op: Operator, expected: any): boolean {
+  switch (op) {
+    case '==': return value === expected;
+    case '!=': return value !== expected;
+    case '<': return value < expected;
+    case '<=': return value <= expected;
+    case '>': return value > expected;
+    case '>=': return value >= expected;
+    case 'in': return Array.isArray(expected) && expected.includes(value);
+  }
+}
+
+export class FakeDocumentSnapshot {
+  constructor(
+    readonly ref: FakeDocumentReference,
+    private readonly stored: Data | undefined
+  ) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  get exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  data(): Data | undefined {
+    return this.stored === undefined ? undefined : copy(this.stored);
+  }
+
+  get(field: string): any {
+    return this.stored?.[field];
+  }
+}
+
+export class FakeDocumentReference {
+  constructor(
+    private readonly db: FakeFirestore,
+    readonly path: string
+  ) {}
+
+  get id(): string {
+    return this.path.split('/').pop()!;
+  }
+
+  collection(name: string): FakeCollectionReference {
+    return new FakeCollectionReference(this.db, `${this.path}/${name}`);
+  }
+
+  async get(): Promise<FakeDocumentSnapshot> {
+    await tick();
+    return this.db.snapshot(this);
+  }
+
+  async set(data: Data, options?: { merge?: boolean }): Promise<void> {
+    this.db.write(this.path, data, options?.merge ? 'merge' : 'set');
+  }
+
+  async create(data: Data): Promise<void> {
+    if (this.db.read(this.path)) {
+      throw Object.assign(new Error(`Document already exists: ${this.path}`), { code: 6 }); // ALREADY_EXISTS
+    }
+    this.db.write(this.path, data, 'set');
+  }
+
+  async update(data: Data): Promise<void> {
+    this.db.write(this.path, data, 'update');
+  }
+
+  async delete(): Promise<void> {
+    this.db.remove(this.path);
+  }
+}
+
+interface QueryOptions {
+  filters: Array<[string, Operator, any]>;
+  orderBy?: string;
+  startAfter?: FakeDocumentSnapshot;
+  limit?: number;
+}
+
+export class FakeQuery {
+  constructor(
+    protected readonly db: FakeFirestore,
+    readonly path: string,
+    private readonly options: QueryOptions = { filters: [] }
+  ) {}
+
+  where(field: string, op: Operator, value: any): FakeQuery {
+    return this.with({ filters: [...this.options.filters, [field, op, value]] });
+  }
+
+  orderBy(field: string): FakeQuery {
+    return this.with({ orderBy: field });
+  }
+
+  startAfter(snapshot: FakeDocumentSnapshot): FakeQuery {
+    return this.with({ startAfter: snapshot });
+  }
+
+  limit(count: number): FakeQuery {
+    return this.with({ limit: count });
+  }
+
+  async get() {
+    await tick();
+    const { filters, orderBy, startAfter, limit } = this.options;
+    let docs = this.db.list(this.path)
+      .filter(snapshot => filters.every(([field, op, value]) => compare(snapshot.get(field), op, value)));
+    if (orderBy) {
+      docs.sort((a, b) => (a.get(orderBy) < b.get(orderBy) ? -1 : a.get(orderBy) > b.get(orderBy) ? 1 : 0));
+    }
+    if (startAfter) {
+      docs = docs.slice(docs.findIndex(snapshot => snapshot.ref.path === startAfter.ref.path) + 1);
+    }
+    docs = docs.slice(0, limit);
+    return { docs, empty: docs.length === 0, size: docs.length };
+  }
+
+  private with(options: Partial<QueryOptions>): FakeQuery {
+    return new FakeQuery(this.db, this.path, { ...this.options, ...options });
+  }
+}
+
+export class FakeCollectionReference extends FakeQuery {
+  get id(): string {
+    return this.path.split('/').pop()!;
+  }
+
+  doc(id: string = `doc_${Math.random().toString(36).slice(2, 12)}`): FakeDocumentReference {
+    return new FakeDocumentReference(this.db, `${this.path}/${id}`);
+  }
+
+  async add(data: Data): Promise<FakeDocumentReference> {
+    const ref = this.doc();
+    await ref.set(data);
+    return ref;
+  }
+}
+
+type PendingWrite = () => void;
+
+export class FakeTransaction {
+  readonly reads = new Map<string, number>();
+  readonly writes: PendingWrite[] = [];
+
+  constructor(private readonly db: FakeFirestore) {}
+
+  async get(ref: FakeDocumentReference): Promise<FakeDocumentSnapshot> {
+    if (this.writes.length > 0) {
+      throw new Error('Firestore transactions require all reads to be executed before all writes');
+    }
+    // Read, then yield as the network would, so another writer can get in between
+    this.reads.set(ref.path, this.db.version(ref.path));
+    const snapshot = this.db.snapshot(ref);
+    await tick();
+    return snapshot;
+  }
+
+  set(ref: FakeDocumentReference, data: Data, options?: { merge?: boolean }): this {
+    this.writes.push(() => this.db.write(ref.path, data, options?.merge ? 'merge' : 'set'));
+    return this;
+  }
+
+  update(ref: FakeDocumentReference, data: Data): this {
+    this.writes.push(() => this.db.write(ref.path, data, 'update'));
+    return this;
+  }
+
+  delete(ref: FakeDocumentReference): this {
+    this.writes.push(() => this.db.remove(ref.path));
+    return this;
+  }
+}
+
+export class FakeFirestore {
+  private readonly docs = new Map<string, StoredDoc>();
+  private versionCounter = 0;
+
+  transactionAttempts = 0;
+  transactionRetries = 0;
+
+  collection(name: string): FakeCollectionReference {
+    return new FakeCollectionReference(this, name);
+  }
+
+  doc(path: string): FakeDocumentReference {
+    return new FakeDocumentReference(this, path);
+  }
+
+  async getAll(...refs: FakeDocumentReference[]): Promise<FakeDocumentSnapshot[]> {
+    await tick();
+    return refs.map(ref => this.snapshot(ref));
+  }
+
+  batch() {
+    const writes: PendingWrite[] = [];
+    const batch = {
+      set: (ref: FakeDocumentReference, data: Data, options?: { merge?: boolean }) => {
+        writes.push(() => this.write(ref.path, data, options?.merge ? 'merge' : 'set'));
+        return batch;
+      },
+      update: (ref: FakeDocumentReference, data: Data) => {
+        writes.push(() => this.write(ref.path, data, 'update'));
+        return batch;
+      },
+      delete: (ref: FakeDocumentReference) => {
+        writes.push(() => this.remove(ref.path));
+        return batch;
+      },
+      commit: async () => {
+        writes.forEach(write => write());
+      }
+    };
+    return batch;
+  }
+
+  async runTransaction<T>(fn: (transaction: FakeTransaction) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      this.transactionAttempts++;
+      const transaction = new FakeTransaction(this);
+      const result = await fn(transaction);
+
+      // Commit atomically, unless a document read by this attempt has changed since
+      const conflict = Array.from(transaction.reads.entries())
+        .some(([path, version]) => this.version(path) !== version);
+      if (!conflict) {
+        transaction.writes.forEach(write => write());
+        return result;
+      }
+
+      if (attempt >= MAX_TRANSACTION_ATTEMPTS) {
+        throw Object.assign(new Error('10 ABORTED: Too much contention on these documents.'), { code: 10 });
+      }
+      this.transactionRetries++;
+    }
+  }
+
+  // Test helpers
+
+  seed(path: string, data: Data): void {
+    this.write(path, data, 'set');
+  }
+
+  read(path: string): Data | undefined {
+    const stored = this.docs.get(path);
+    return stored ? copy(stored.data) : undefined;
+  }
+
+  paths(collectionPath: string): string[] {
+    return this.list(collectionPath).map(snapshot => snapshot.ref.path);
+  }
+
+  // Storage, used by references and transactions
+
+  snapshot(ref: FakeDocumentReference): FakeDocumentSnapshot {
+    return new FakeDocumentSnapshot(ref, this.docs.get(ref.path)?.data);
+  }
+
+  version(path: string): number {
+    return this.docs.get(path)?.version ?? 0;
+  }
+
+  list(collectionPath: string): FakeDocumentSnapshot[] {
+    const depth = collectionPath.split('/').length + 1;
+    return Array.from(this.docs.keys())
+      .filter(path => path.startsWith(`${collectionPath}/`) && path.split('/').length === depth)
+      .sort()
+      .map(path => this.snapshot(new FakeDocumentReference(this, path)));
+  }
+
+  write(path: string, data: Data, mode: 'set' | 'merge' | 'update'): void {
+    const existing = this.docs.get(path);
+    if (mode === 'update' && !existing) {
+      throw Object.assign(new Error(`5 NOT_FOUND: No document to update: ${path}`), { code: 5 });
+    }
+
+    const resolved = copy(applyTransforms(data, existing?.data));
+    let next: Data;
+    if (mode === 'update') {
+      next = copy(existing!.data);
+      Object.entries(resolved).forEach(([field, value]) => setFieldPath(next, field, value));
+    } else {
+      next = mode === 'set' ? resolved : { ...existing?.data, ...resolved };
+    }
+    this.docs.set(path, { data: next, version: ++this.versionCounter });
+  }
+
+  remove(path: string): void {
+    if (this.docs.delete(path)) {
+      this.versionCounter++;
+    }
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Partner fixtures and requests for widget route tests
+ */
+
+import { NextRequest } from 'next/server';
+import { generateAPIKey } from '@/lib/api-keys-server';
+import { generateBearerToken, type WidgetAuthMethod } from '@/lib/widget-auth-server';
+import type { FakeFirestore } from './fake-firestore';
+
+export const PARTNER_ID = 'partner_1';
+export const PARTNER_ORIGIN = 'https://benefits.partner.com';
+export const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36';
+
+// AuditLogger with every method stubbed; the enums are the real ones
+export function mockAuditLoggerModule() {
+  const { AuditEventCategory, AuditSeverity } = jest.requireActual('@/types/audit-enums');
+  return {
+    AuditEventCategory,
+    AuditSeverity,
+    AuditLogger: {
+      logAuthentication: jest.fn().mockResolvedValue(undefined),
+      logAdminAction: jest.fn().mockResolvedValue(undefined),
+      logSecurityEvent: jest.fn().mockResolvedValue(undefined),
+      logDataAccess: jest.fn().mockResolvedValue(undefined)
+    }
+  };
+}
+
+/**
+ * A partner with one public sandbox key, returned in full
+ * integrationConfig overrides are merged into the default config.
+ */
+export function seedPartner(
+  db: FakeFirestore,
+  { integrationConfig, ...overrides }: Record<string, any> = {}
+): { apiKey: string } {
+  const key = generateAPIKey('public', 'sandbox');
+
+  db.seed(`custodians/${PARTNER_ID}`, {
+    name: 'Partner One',
+    status: 'active',
+    widgetEnabled: true,
+    level: 'basic',
+    integrationConfig: {
+      allowedDomains: ['benefits.partner.com'],
+      apiKeys: [{ id: 'key_1', hashedKey: key.hashedKey, type: 'public', status: 'active', rateLimit: 1000 }],
+      ...integrationConfig
+    },
+    ...overrides
+  });
+
+  return { apiKey: key.fullKey };
+}
+
+/**
+ * An active session of the partner, optionally signed in; returns its bearer token
+ */
+export function seedWidgetSession(
+  db: FakeFirestore,
+  sessionId: string,
+  user?: { userId: string; authMethod?: WidgetAuthMethod },
+  createdMinutesAgo = 10
+): string {
+  const createdAt = new Date(Date.now() - createdMinutesAgo * 60000);
+  db.seed(`widget_sessions/${sessionId}`, {
+    sessionId,
+    custodianId: PARTNER_ID,
+    apiKeyHash: 'hash',
+    createdAt: createdAt.toISOString(),
+    expiresAt: new Date(Date.now() + 3600000).toISOString(),
+    ipAddress: '198.51.100.20',
+    userAgent: USER_AGENT,
+    origin: PARTNER_ORIGIN,
+    deviceBoundAt: createdAt.toISOString(),
+    apiKeyId: 'key_1',
+    ...(user ? { userId: user.userId, authenticatedAt: createdAt.toISOString() } : {}),
+    ...(user?.authMethod ? { authMethod: user.authMethod } : {})
+  });
+  return generateBearerToken(sessionId, PARTNER_ID, user?.userId, '1h', 'sandbox', undefined, 'key_1');
+}
+
+export function widgetRequest(
+  path: string,
+  options: { method?: string; bearerToken?: string; headers?: Record<string, string>; body?: unknown } = {}
+): NextRequest {
+  const headers: Record<string, string> = {
+    'origin': PARTNER_ORIGIN,
+    'user-agent': USER_AGENT,
+    'x-forwarded-for': '203.0.113.7',
+    ...options.headers
+  };
+  if (options.bearerToken) {
+    headers['authorization'] = `Bearer ${options.bearerToken}`;
+  }
+  if (options.body !== undefined) {
+    headers['content-type'] = 'application/json';
+  }
+
+  return new NextRequest(`https://auth.trustrails.test${path}`, {
+    method: options.method || 'GET',
+    headers,
+    body: options.body === undefined ? undefined : JSON.stringify(options.body)
+  });
+}
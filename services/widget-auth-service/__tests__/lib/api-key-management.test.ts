@@ -0,0 +1,57 @@
+/**
+ * API key usage is recorded off the custodian document, at most once a minute
+ */
+
+import { FakeFirestore } from '../helpers/fake-firestore';
+import { PARTNER_ID, seedPartner } from '../helpers/widget-requests';
+
+const mockDb = new FakeFirestore();
+
+jest.mock('@/lib/firebase-admin', () => ({ requireAdminApp: () => ({ adminDb: mockDb }) }));
+
+import {
+  API_KEY_USAGE_INTERVAL_MS,
+  getAPIKeys,
+  recordAPIKeyUsage,
+  withLastUsedAt
+} from '@/lib/api-key-management';
+
+const USAGE_PATH = `api_key_usage/${PARTNER_ID}_key_1`;
+
+beforeEach(() => {
+  seedPartner(mockDb);
+});
+
+describe('recordAPIKeyUsage', () => {
+  it('writes a usage document and leaves the custodian alone', async () => {
+    const custodian = mockDb.read(`custodians/${PARTNER_ID}`);
+    const now = Date.parse('2026-01-05T12:00:00Z');
+
+    await recordAPIKeyUsage(PARTNER_ID, 'key_1', now);
+
+    expect(mockDb.read(USAGE_PATH)).toEqual({ custodianId: PARTNER_ID, keyId: 'key_1', lastUsedAt: '2026-01-05T12:00:00.000Z' });
+    expect(mockDb.read(`custodians/${PARTNER_ID}`)).toEqual(custodian);
+  });
+
+  it('skips keys recorded less than a minute ago', async () => {
+    const now = Date.parse('2026-01-06T12:00:00Z');
+
+    await recordAPIKeyUsage(PARTNER_ID, 'key_1', now);
+    await recordAPIKeyUsage(PARTNER_ID, 'key_1', now + API_KEY_USAGE_INTERVAL_MS - 1);
+    expect(mockDb.read(USAGE_PATH)?.lastUsedAt).toBe('2026-01-06T12:00:00.000Z');
+
+    await recordAPIKeyUsage(PARTNER_ID, 'key_1', now + API_KEY_USAGE_INTERVAL_MS);
+    expect(mockDb.read(USAGE_PATH)?.lastUsedAt).toBe('2026-01-06T12:01:00.000Z');
+  });
+});
+
+describe('withLastUsedAt', () => {
+  it('fills lastUsedAt from the usage documents', async () => {
+    mockDb.seed(USAGE_PATH, { custodianId: PARTNER_ID, keyId: 'key_1', lastUsedAt: '2026-01-07T08:00:00.000Z' });
+    mockDb.seed('api_key_usage/partner_2_key_1', { custodianId: 'partner_2', keyId: 'key_1', lastUsedAt: '2026-01-08T08:00:00.000Z' });
+
+    const [key] = await withLastUsedAt(PARTNER_ID, getAPIKeys(mockDb.read(`custodians/${PARTNER_ID}`)));
+
+    expect(key.lastUsedAt).toBe('2026-01-07T08:00:00.000Z');
+  });
+});
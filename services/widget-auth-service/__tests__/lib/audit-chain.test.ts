@@ -0,0 +1,166 @@
+/**
+ * Audit chain appends under concurrency, and events that miss the chain
+ *
+ * Each instance picks its shard with randomInt when the module loads. The
+ * first instance gets shard 3; startInstance() loads others on a given shard.
+ */
+
+import { FakeFirestore } from '../helpers/fake-firestore';
+
+const mockDb = new FakeFirestore();
+
+jest.mock('@/lib/firebase-admin', () => ({ requireAdminApp: () => ({ adminDb: mockDb }) }));
+jest.mock('firebase-admin', () => ({
+  firestore: { FieldValue: { serverTimestamp: () => 'SERVER_TIMESTAMP' } }
+}));
+jest.mock('crypto', () => ({ ...jest.requireActual('crypto'), randomInt: jest.fn(() => 3) }));
+
+import {
+  appendAuditEvent,
+  computeEventHash,
+  GENESIS_HASH,
+  verifyAuditChains,
+  type UnchainedAuditEvent
+} from '@/lib/audit/audit-chain';
+import { logAuditEvent } from '@/lib/audit/unified-audit-logger';
+import { AuditEventCategory, AuditSeverity } from '@/types/audit-enums';
+
+let eventCounter = 0;
+
+function startInstance(shard: number): typeof import('@/lib/audit/audit-chain') {
+  let instance!: typeof import('@/lib/audit/audit-chain');
+  jest.isolateModules(() => {
+    (require('crypto').randomInt as jest.Mock).mockReturnValue(shard);
+    instance = require('@/lib/audit/audit-chain');
+  });
+  return instance;
+}
+
+function auditEvent(custodianId = 'partner_1'): UnchainedAuditEvent {
+  eventCounter++;
+  return {
+    eventId: `wevt_${String(eventCounter).padStart(4, '0')}`,
+    eventType: 'widget.api.call',
+    category: AuditEventCategory.SYSTEM,
+    severity: AuditSeverity.INFO,
+    timestamp: new Date().toISOString(),
+    custodianId
+  };
+}
+
+beforeEach(() => {
+  ['widget_auth_audit_events', 'audit_chain_heads', 'audit_chain_gaps']
+    .forEach(collection => mockDb.paths(collection).forEach(path => mockDb.remove(path)));
+  mockDb.transactionAttempts = 0;
+  mockDb.transactionRetries = 0;
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('appendAuditEvent', () => {
+  it('stores a burst of events in a few transactions without forking the chain', async () => {
+    const chained = await Promise.all(Array.from({ length: 40 }, () => appendAuditEvent(auditEvent())));
+
+    expect(chained.map(event => event.sequence)).toEqual(Array.from({ length: 40 }, (_, i) => i + 1));
+    expect(mockDb.transactionAttempts).toBeLessThanOrEqual(3);
+    expect(chained[0].chainId).toBe('partner_1:3');
+    expect(await verifyAuditChains('partner_1')).toMatchObject({
+      valid: true,
+      eventsChecked: 40,
+      chains: [expect.objectContaining({ chainId: 'partner_1:3', headSequence: 40 })]
+    });
+  });
+
+  it('keeps separate chains per custodian', async () => {
+    await Promise.all([
+      appendAuditEvent(auditEvent('partner_1')),
+      appendAuditEvent(auditEvent('partner_2')),
+      appendAuditEvent(auditEvent('partner_1'))
+    ]);
+
+    expect(mockDb.read('audit_chain_heads/partner_1:3')?.sequence).toBe(2);
+    expect(mockDb.read('audit_chain_heads/partner_2:3')?.sequence).toBe(1);
+  });
+
+  it('stays consistent when two instances share a shard', async () => {
+    const otherInstance = startInstance(3);
+
+    await Promise.all(Array.from({ length: 10 }, (_, i) =>
+      (i % 2 === 0 ? appendAuditEvent : otherInstance.appendAuditEvent)(auditEvent())
+    ));
+
+    expect(mockDb.transactionRetries).toBeGreaterThan(0);
+    expect(await verifyAuditChains('partner_1')).toMatchObject({ valid: true, eventsChecked: 10 });
+  });
+
+  it('does not contend when instances append to different shards', async () => {
+    const instances = [startInstance(0), startInstance(1), startInstance(2)];
+
+    // Every instance appends while the others' transactions are in flight
+    for (let round = 0; round < 5; round++) {
+      await Promise.all(instances.flatMap(instance =>
+        [instance.appendAuditEvent(auditEvent()), instance.appendAuditEvent(auditEvent())]
+      ));
+    }
+
+    const report = await verifyAuditChains('partner_1');
+    expect(mockDb.transactionRetries).toBe(0);
+    expect(report).toMatchObject({ valid: true, eventsChecked: 30 });
+    expect(report.chains.map(chain => [chain.chainId, chain.headSequence])).toEqual([
+      ['partner_1:0', 10],
+      ['partner_1:1', 10],
+      ['partner_1:2', 10]
+    ]);
+  });
+
+  it('verifies events written before sharding with the shards', async () => {
+    const legacy = { ...auditEvent(), chainId: 'partner_1', sequence: 1, previousHash: GENESIS_HASH };
+    const eventHash = computeEventHash(legacy);
+    mockDb.seed(`widget_auth_audit_events/${legacy.eventId}`, { ...legacy, eventHash });
+    mockDb.seed('audit_chain_heads/partner_1', { chainId: 'partner_1', sequence: 1, lastHash: eventHash });
+
+    await appendAuditEvent(auditEvent());
+    mockDb.seed(`widget_auth_audit_events/${legacy.eventId}`, { ...legacy, eventHash, eventType: 'widget.edited' });
+    const report = await verifyAuditChains('partner_1');
+
+    expect(report.chains.map(chain => chain.chainId)).toEqual(['partner_1', 'partner_1:3']);
+    expect(report.eventsChecked).toBe(2);
+    expect(report.issues).toEqual([expect.objectContaining({ chainId: 'partner_1', type: 'hash_mismatch' })]);
+  });
+
+  it('rejects every event of a batch whose transaction fails', async () => {
+    jest.spyOn(mockDb, 'runTransaction').mockRejectedValueOnce(new Error('10 ABORTED'));
+
+    await expect(appendAuditEvent(auditEvent())).rejects.toThrow('10 ABORTED');
+    await expect(appendAuditEvent(auditEvent())).resolves.toMatchObject({ sequence: 1 });
+  });
+});
+
+describe('events that cannot be chained', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('are recorded and reported by verification', async () => {
+    await appendAuditEvent(auditEvent());
+    jest.spyOn(mockDb, 'runTransaction').mockRejectedValueOnce(new Error('10 ABORTED: Too much contention'));
+
+    const result = await logAuditEvent({ eventType: 'widget.auth.failure', custodianId: 'partner_1' });
+    const report = await verifyAuditChains('partner_1');
+
+    expect(result.success).toBe(false);
+    expect(mockDb.read(`audit_chain_gaps/${result.eventId}`)).toMatchObject({
+      chainId: 'partner_1',
+      eventType: 'widget.auth.failure',
+      reason: '10 ABORTED: Too much contention'
+    });
+    expect(report.valid).toBe(false);
+    expect(report.unchainedEvents).toBe(1);
+    expect(report.issues[0].sequence).toBeUndefined();
+    expect(report.issues).toEqual([
+      expect.objectContaining({ chainId: 'partner_1', type: 'unchained_event', eventId: result.eventId })
+    ]);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Data subject access exports the webhook payloads that erasure strips
+ */
+
+import { FakeFirestore } from '../helpers/fake-firestore';
+import { PARTNER_ID } from '../helpers/widget-requests';
+
+const mockDb = new FakeFirestore();
+const mockAuth = {
+  getUser: jest.fn(),
+  deleteUser: jest.fn()
+};
+
+jest.mock('@/lib/firebase-admin', () => ({ requireAdminApp: () => ({ adminDb: mockDb, adminAuth: mockAuth }) }));
+jest.mock('@/lib/audit/unified-audit-logger', () => require('../helpers/widget-requests').mockAuditLoggerModule());
+
+import { buildDataExport, eraseUserData } from '@/lib/privacy/data-subject';
+
+const USER = { email: 'jane@example.com', name: 'Jane Doe', hostCustodianId: PARTNER_ID };
+
+function seedDelivery(deliveryId: string, custodianId: string, userId: string, status = 'delivered') {
+  mockDb.seed(`webhook_deliveries/${deliveryId}`, {
+    deliveryId,
+    custodianId,
+    webhookId: 'wh_1',
+    url: 'https://hooks.partner.com/trustrails',
+    eventId: `evt_${deliveryId}`,
+    eventType: 'widget.user_created',
+    payload: JSON.stringify({
+      id: `evt_${deliveryId}`,
+      type: 'widget.user_created',
+      data: { user_id: userId, email: `${userId}@example.com`, name: 'Jane Doe' }
+    }),
+    status,
+    attemptCount: 1,
+    attempts: [],
+    nextAttemptAt: null,
+    createdAt: '2026-01-05T12:00:00.000Z'
+  });
+}
+
+beforeEach(() => {
+  ['users', 'webhook_deliveries', 'webhook_dead_letters', 'data_subject_requests']
+    .forEach(collection => mockDb.paths(collection).forEach(path => mockDb.remove(path)));
+  mockDb.seed('users/user_1', USER);
+  seedDelivery('del_1', PARTNER_ID, 'user_1');
+  seedDelivery('del_2', PARTNER_ID, 'user_2');
+  seedDelivery('del_3', 'partner_2', 'user_1');
+  seedDelivery('del_4', PARTNER_ID, 'user_1', 'dead_lettered');
+  mockDb.seed('webhook_dead_letters/del_4', { payload: mockDb.read('webhook_deliveries/del_4')!.payload });
+  mockAuth.getUser.mockRejectedValue(Object.assign(new Error('not found'), { code: 'auth/user-not-found' }));
+  mockAuth.deleteUser.mockResolvedValue(undefined);
+});
+
+describe('buildDataExport', () => {
+  it('includes the partner\'s webhook payloads about the user', async () => {
+    const { bundle } = await buildDataExport(PARTNER_ID, 'user_1', USER, 'key_1');
+
+    expect(bundle.webhook_deliveries.map(delivery => delivery.id)).toEqual(['del_1', 'del_4']);
+    expect(bundle.webhook_deliveries[0]).toMatchObject({
+      event_type: 'widget.user_created',
+      payload: { data: { user_id: 'user_1', email: 'user_1@example.com' } }
+    });
+  });
+
+  it('exports what is left of the payloads after erasure', async () => {
+    const erasure = await eraseUserData(PARTNER_ID, 'user_1', USER, 'key_1');
+    const { bundle } = await buildDataExport(PARTNER_ID, 'user_1', USER, 'key_1');
+
+    expect(erasure.webhookDeliveriesErased).toBe(bundle.webhook_deliveries.length);
+    expect(bundle.webhook_deliveries.map(delivery => delivery.payload.data))
+      .toEqual([{ user_id: 'user_1', erased: true }, { user_id: 'user_1', erased: true }]);
+    expect(mockDb.read('webhook_dead_letters/del_4')!.payload).not.toContain('user_1@example.com');
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * OAuth ID token verification against a stubbed JWKS endpoint
+ *
+ * Tokens are signed with locally generated key pairs; the JWKS endpoint is a
+ * fetch stub that publishes their public halves.
+ */
+
+import { generateKeyPairSync, type KeyObject } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { JWKSCache } from '@/lib/oauth/jwks-cache';
+import { OIDCVerifier, type OIDCVerifierConfig } from '@/lib/oauth/oidc-verifier';
+
+const JWKS_URI = 'https://idp.test/.well-known/jwks.json';
+const ISSUER = 'https://idp.test';
+const CLIENT_ID = 'trustrails-client';
+
+interface TestKey {
+  kid: string;
+  privateKey: KeyObject;
+  jwk: Record<string, unknown>;
+}
+
+function generateKey(kid: string): TestKey {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { kid, privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' } };
+}
+
+const KEY_1 = generateKey('key-1');
+const KEY_2 = generateKey('key-2');
+
+function jwksResponse(keys: TestKey[], maxAgeSeconds = 300): Response {
+  return new Response(JSON.stringify({ keys: keys.map(key => key.jwk) }), {
+    status: 200,
+    headers: { 'content-type': 'application/json', 'cache-control': `public, max-age=${maxAgeSeconds}` }
+  });
+}
+
+function idToken(
+  key: TestKey,
+  claims: Record<string, unknown> = {},
+  options: jwt.SignOptions = {}
+): string {
+  return jwt.sign(
+    { email: 'User@Example.com', email_verified: true, name: 'Test User', ...claims },
+    key.privateKey,
+    {
+      algorithm: 'RS256',
+      keyid: key.kid,
+      issuer: ISSUER,
+      audience: CLIENT_ID,
+      subject: 'sub-123',
+      ...(claims.exp === undefined && { expiresIn: '5m' }),
+      ...options
+    }
+  );
+}
+
+let now: number;
+let fetchMock: jest.Mock;
+let verifier: OIDCVerifier;
+
+function createVerifier(overrides: Partial<OIDCVerifierConfig> = {}): OIDCVerifier {
+  return new OIDCVerifier(
+    { provider: 'test-idp', jwksUri: JWKS_URI, audience: [CLIENT_ID], issuer: [ISSUER], ...overrides },
+    new JWKSCache(fetchMock)
+  );
+}
+
+beforeEach(() => {
+  now = Date.now();
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+  fetchMock = jest.fn().mockImplementation(async () => jwksResponse([KEY_1]));
+  verifier = createVerifier();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('JWKS fetch and caching', () => {
+  it('verifies a token against the published key', async () => {
+    const result = await verifier.verify(idToken(KEY_1));
+
+    expect(result).toEqual({
+      success: true,
+      identity: {
+        provider: 'test-idp',
+        subject: 'sub-123',
+        issuer: ISSUER,
+        email: 'user@example.com',
+        emailVerified: true,
+        name: 'Test User',
+        picture: undefined
+      }
+    });
+    expect(fetchMock).toHaveBeenCalledWith(JWKS_URI, expect.objectContaining({ headers: { Accept: 'application/json' } }));
+  });
+
+  it('reuses the key set until its max-age expires', async () => {
+    await verifier.verify(idToken(KEY_1));
+    now += 299 * 1000;
+    await verifier.verify(idToken(KEY_1));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    now += 2 * 1000;
+    await verifier.verify(idToken(KEY_1));
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one fetch between concurrent verifications', async () => {
+    const results = await Promise.all([1, 2, 3].map(() => verifier.verify(idToken(KEY_1))));
+
+    expect(results.every(result => result.success)).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports an unavailable endpoint', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('oops', { status: 503 }));
+
+    expect(await verifier.verify(idToken(KEY_1))).toMatchObject({ success: false, reason: 'jwks_unavailable' });
+  });
+
+  it('skips keys that are not for signing', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ keys: [{ ...KEY_1.jwk, use: 'enc' }] })));
+
+    expect(await verifier.verify(idToken(KEY_1))).toMatchObject({ success: false, reason: 'unknown_signing_key' });
+  });
+});
+
+describe('key rotation', () => {
+  it('refetches once for a new kid and accepts the rotated key', async () => {
+    await verifier.verify(idToken(KEY_1));
+    fetchMock.mockImplementation(async () => jwksResponse([KEY_1, KEY_2]));
+    now += 31 * 1000;
+
+    expect(await verifier.verify(idToken(KEY_2))).toMatchObject({ success: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('limits refetches for unknown kids', async () => {
+    await verifier.verify(idToken(KEY_1));
+    now += 5 * 1000;
+
+    expect(await verifier.verify(idToken(KEY_2))).toMatchObject({ success: false, reason: 'unknown_signing_key' });
+    expect(await verifier.verify(idToken(KEY_2))).toMatchObject({ success: false, reason: 'unknown_signing_key' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops accepting a key the provider no longer publishes', async () => {
+    fetchMock.mockImplementation(async () => jwksResponse([KEY_2], 60));
+    await verifier.verify(idToken(KEY_2));
+    now += 61 * 1000;
+
+    expect(await verifier.verify(idToken(KEY_1))).toMatchObject({ success: false, reason: 'unknown_signing_key' });
+  });
+});
+
+describe('token checks', () => {
+  it('rejects tokens signed with an algorithm the verifier does not allow', async () => {
+    const hmacToken = jwt.sign(
+      { email: 'user@example.com', email_verified: true },
+      'shared-secret',
+      { algorithm: 'HS256', keyid: KEY_1.kid, issuer: ISSUER, audience: CLIENT_ID, subject: 'sub-123' }
+    );
+
+    expect(await verifier.verify(hmacToken)).toMatchObject({ success: false, reason: 'invalid_signature' });
+  });
+
+  it('rejects unsigned tokens', async () => {
+    const header = Buffer.from(JSON.stringify({ alg: 'none', kid: KEY_1.kid })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify({ sub: 'sub-123', iss: ISSUER, aud: CLIENT_ID })).toString('base64url');
+
+    expect(await verifier.verify(`${header}.${payload}.`)).toMatchObject({ success: false, reason: 'invalid_signature' });
+  });
+
+  it('rejects tokens signed by another key under a published kid', async () => {
+    const impostor = { ...generateKey(KEY_1.kid), jwk: KEY_1.jwk };
+
+    expect(await verifier.verify(idToken(impostor))).toMatchObject({ success: false, reason: 'invalid_signature' });
+  });
+
+  it('rejects an untrusted issuer', async () => {
+    const token = idToken(KEY_1, {}, { issuer: 'https://evil.test' });
+
+    expect(await verifier.verify(token)).toMatchObject({ success: false, reason: 'invalid_issuer' });
+  });
+
+  it('rejects a token issued to another client', async () => {
+    const token = idToken(KEY_1, {}, { audience: 'someone-else' });
+
+    expect(await verifier.verify(token)).toMatchObject({ success: false, reason: 'invalid_audience' });
+  });
+
+  it('rejects an expired token beyond the clock tolerance', async () => {
+    const issuedAt = Math.floor(now / 1000) - 600;
+    const token = idToken(KEY_1, { iat: issuedAt, exp: issuedAt + 500 });
+
+    expect(await verifier.verify(token)).toMatchObject({ success: false, reason: 'token_expired' });
+  });
+
+  it('requires the nonce of the authorization request', async () => {
+    const token = idToken(KEY_1, { nonce: 'nonce-1' });
+
+    expect(await verifier.verify(token, { nonce: 'nonce-2' })).toMatchObject({ success: false, reason: 'nonce_mismatch' });
+    expect(await verifier.verify(token)).toMatchObject({ success: false, reason: 'nonce_mismatch' });
+    expect(await verifier.verify(token, { nonce: 'nonce-1' })).toMatchObject({ success: true });
+  });
+
+  it('requires a verified email', async () => {
+    expect(await verifier.verify(idToken(KEY_1, { email_verified: false })))
+      .toMatchObject({ success: false, reason: 'email_not_verified' });
+    expect(await verifier.verify(idToken(KEY_1, { email: undefined })))
+      .toMatchObject({ success: false, reason: 'email_missing' });
+  });
+
+  it('rejects every token when no client IDs are configured', async () => {
+    verifier = createVerifier({ audience: [] });
+
+    expect(await verifier.verify(idToken(KEY_1))).toMatchObject({ success: false, reason: 'provider_not_configured' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('algorithms', () => {
+  it('verifies ES256 tokens when the verifier allows the algorithm', async () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const ecKey = { kid: 'ec-1', privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid: 'ec-1', use: 'sig' } };
+    fetchMock.mockImplementation(async () => jwksResponse([ecKey]));
+    const token = idToken(ecKey, {}, { algorithm: 'ES256' });
+
+    expect(await createVerifier().verify(token)).toMatchObject({ success: false, reason: 'invalid_signature' });
+    expect(await createVerifier({ algorithms: ['ES256'] }).verify(token)).toMatchObject({ success: true });
+  });
+});
+
+describe('providers', () => {
+  const MICROSOFT_TENANT = '72f988bf-86f1-41af-91ab-2d7cd011db47';
+
+  function loadProviders(): typeof import('@/lib/oauth/providers') {
+    let providers!: typeof import('@/lib/oauth/providers');
+    // The shared JWKS cache takes the global fetch when the module loads
+    global.fetch = fetchMock;
+    jest.isolateModules(() => {
+      providers = require('@/lib/oauth/providers');
+    });
+    return providers;
+  }
+
+  it('finds the JWKS URI of a generic provider by discovery', async () => {
+    fetchMock.mockImplementation(async (url: string) => url === `${ISSUER}/.well-known/openid-configuration`
+      ? new Response(JSON.stringify({ issuer: ISSUER, jwks_uri: JWKS_URI }))
+      : jwksResponse([KEY_1]));
+    const { createOIDCVerifier } = loadProviders();
+
+    const result = await createOIDCVerifier({ id: 'okta', issuer: ISSUER, client_ids: [CLIENT_ID] }).verify(idToken(KEY_1));
+
+    expect(result).toMatchObject({ success: true, identity: { provider: 'okta' } });
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([`${ISSUER}/.well-known/openid-configuration`, JWKS_URI]);
+  });
+
+  it('rejects a discovery document for another issuer', async () => {
+    fetchMock.mockImplementation(async () => new Response(JSON.stringify({ issuer: 'https://evil.test', jwks_uri: JWKS_URI })));
+    const { createOIDCVerifier } = loadProviders();
+
+    const result = await createOIDCVerifier({ id: 'okta', issuer: ISSUER, client_ids: [CLIENT_ID] }).verify(idToken(KEY_1));
+
+    expect(result).toMatchObject({ success: false, reason: 'jwks_unavailable' });
+  });
+
+  it('checks the Microsoft issuer against the token tenant', async () => {
+    const { createMicrosoftVerifier } = loadProviders();
+    const microsoft = createMicrosoftVerifier([CLIENT_ID], [MICROSOFT_TENANT]);
+    const tenantIssuer = `https://login.microsoftonline.com/${MICROSOFT_TENANT}/v2.0`;
+
+    expect(await microsoft.verify(idToken(KEY_1, { tid: MICROSOFT_TENANT, xms_edov: true }, { issuer: tenantIssuer })))
+      .toMatchObject({ success: true });
+    expect(await microsoft.verify(idToken(KEY_1, { tid: 'other-tenant', xms_edov: true }, {
+      issuer: 'https://login.microsoftonline.com/other-tenant/v2.0'
+    }))).toMatchObject({ success: false, reason: 'invalid_issuer' });
+    expect(await microsoft.verify(idToken(KEY_1, { tid: MICROSOFT_TENANT, email_verified: false }, { issuer: tenantIssuer })))
+      .toMatchObject({ success: false, reason: 'email_not_verified' });
+  });
+});
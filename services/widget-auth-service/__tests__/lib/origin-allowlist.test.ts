@@ -0,0 +1,47 @@
+jest.mock('@/lib/audit/unified-audit-logger', () => ({
+  AuditLogger: { logSecurityEvent: jest.fn() },
+  AuditSeverity: { WARNING: 'WARNING' }
+}));
+
+import { checkOrigin, normalizeOrigin } from '@/lib/origin-allowlist';
+
+describe('checkOrigin', () => {
+  const allowed = (origin: string, domains: string[]) => checkOrigin(origin, domains, 'production').allowed;
+
+  it('matches wildcard entries on any port of a subdomain', () => {
+    expect(allowed('https://app.partner.com', ['*.partner.com'])).toBe(true);
+    expect(allowed('https://app.partner.com:8443', ['*.partner.com'])).toBe(true);
+    expect(allowed('https://partner.com', ['*.partner.com'])).toBe(false);
+    expect(allowed('https://evilpartner.com', ['*.partner.com'])).toBe(false);
+    expect(allowed('https://partner.com.evil.io:8443', ['*.partner.com'])).toBe(false);
+  });
+
+  it('matches bare hosts on any port unless the entry names one', () => {
+    expect(allowed('https://partner.com:8443', ['partner.com'])).toBe(true);
+    expect(allowed('https://partner.com:8443', ['partner.com:8443'])).toBe(true);
+    expect(allowed('https://partner.com', ['partner.com:8443'])).toBe(false);
+    expect(allowed('https://partner.com', ['partner.com:443'])).toBe(true);
+    expect(allowed('https://app.partner.com:9000', ['*.partner.com:8443'])).toBe(false);
+  });
+
+  it('only allows http through full origin entries', () => {
+    expect(allowed('http://partner.com', ['partner.com'])).toBe(false);
+    expect(allowed('http://staging.partner.com:8080', ['http://staging.partner.com:8080'])).toBe(true);
+    expect(allowed('http://staging.partner.com:8081', ['http://staging.partner.com:8080'])).toBe(false);
+  });
+
+  it('allows localhost for sandbox keys only', () => {
+    expect(checkOrigin('http://localhost:3000', [], 'sandbox').allowed).toBe(true);
+    expect(checkOrigin('http://localhost:3000', [], 'production')).toEqual({
+      allowed: false,
+      origin: 'http://localhost:3000',
+      reason: 'origin_not_allowed'
+    });
+  });
+
+  it('rejects missing and opaque origins', () => {
+    expect(checkOrigin(null, ['partner.com'], 'production').reason).toBe('missing_origin');
+    expect(checkOrigin('null', ['partner.com'], 'production').reason).toBe('invalid_origin');
+    expect(normalizeOrigin('HTTPS://App.Partner.com:443/path')).toBe('https://app.partner.com');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Partner backend requests are signed with the secret returned when the key
+ * is issued; the key hash stored on the custodian cannot sign them
+ */
+
+import { NextRequest } from 'next/server';
+import { FakeFirestore } from '../helpers/fake-firestore';
+import { PARTNER_ID, seedPartner } from '../helpers/widget-requests';
+
+const mockDb = new FakeFirestore();
+
+jest.mock('@/lib/firebase-admin', () => ({ requireAdminApp: () => ({ adminDb: mockDb }) }));
+jest.mock('@/lib/audit/unified-audit-logger', () => require('../helpers/widget-requests').mockAuditLoggerModule());
+
+import { generateHMACSignature } from '@/lib/api-keys-server';
+import { createAPIKey, getAPIKeys, type StoredAPIKey } from '@/lib/api-key-management';
+import { authenticatePartnerRequest } from '@/lib/partner-api-auth';
+
+const PATH = '/api/partner/v1/users';
+const BODY = JSON.stringify({ email: 'user@example.com' });
+
+function signedRequest(keyId: string, hmacKey: string) {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  return new NextRequest(`https://auth.trustrails.test${PATH}`, {
+    method: 'POST',
+    body: BODY,
+    headers: {
+      'X-TrustRails-Partner-ID': PARTNER_ID,
+      'X-TrustRails-Key-ID': keyId,
+      'X-TrustRails-Timestamp': timestamp,
+      'X-TrustRails-Signature': generateHMACSignature(hmacKey, 'POST', PATH, timestamp, BODY)
+    }
+  });
+}
+
+async function issueSecretKey() {
+  const result = await createAPIKey(
+    PARTNER_ID,
+    { name: 'Backend', type: 'secret', environment: 'sandbox' },
+    'admin_1'
+  );
+  if (!result.success) throw new Error(result.error);
+  return result;
+}
+
+beforeEach(() => {
+  process.env.PARTNER_SIGNING_PEPPER = 'test-pepper';
+  mockDb.paths('partner_api_nonces').forEach(path => mockDb.remove(path));
+  seedPartner(mockDb);
+});
+
+afterAll(() => {
+  delete process.env.PARTNER_SIGNING_PEPPER;
+});
+
+describe('authenticatePartnerRequest', () => {
+  it('accepts requests signed with the signing secret', async () => {
+    const { key, signingSecret } = await issueSecretKey();
+
+    const result = await authenticatePartnerRequest(signedRequest(key.id, signingSecret!));
+
+    expect(result).toMatchObject({ success: true, context: { apiKeyId: key.id, body: JSON.parse(BODY) } });
+  });
+
+  it('rejects requests signed with the stored key hash', async () => {
+    const { key } = await issueSecretKey();
+    const stored = getAPIKeys(mockDb.read(`custodians/${PARTNER_ID}`))
+      .find(candidate => candidate.id === key.id) as StoredAPIKey;
+
+    const result = await authenticatePartnerRequest(signedRequest(key.id, stored.hashedKey));
+
+    expect(result).toMatchObject({ success: false, status: 401, reason: 'invalid_signature' });
+  });
+
+  it('is unavailable without the signing pepper', async () => {
+    const { key, signingSecret } = await issueSecretKey();
+    delete process.env.PARTNER_SIGNING_PEPPER;
+
+    const result = await authenticatePartnerRequest(signedRequest(key.id, signingSecret!));
+
+    expect(result).toMatchObject({ success: false, status: 503, reason: 'signing_unavailable' });
+  });
+});
+
+describe('createAPIKey', () => {
+  it('never stores the signing secret', async () => {
+    const { signingSecret } = await issueSecretKey();
+
+    expect(signingSecret).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.stringify(mockDb.read(`custodians/${PARTNER_ID}`))).not.toContain(signingSecret);
+  });
+
+  it('refuses secret keys without the signing pepper', async () => {
+    delete process.env.PARTNER_SIGNING_PEPPER;
+
+    const result = await createAPIKey(
+      PARTNER_ID,
+      { name: 'Backend', type: 'secret', environment: 'sandbox' },
+      'admin_1'
+    );
+
+    expect(result).toEqual({ success: false, error: 'signing_unavailable' });
+    expect(getAPIKeys(mockDb.read(`custodians/${PARTNER_ID}`))).toHaveLength(1);
+  });
+});
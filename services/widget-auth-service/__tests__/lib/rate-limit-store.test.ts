@@ -0,0 +1,172 @@
+/**
+ * Rate limits shared by several instances through the Firestore store
+ *
+ * Each limiter gets its own FirestoreRateLimitStore, as separate instances
+ * would, and both point at the same database.
+ */
+
+import { FakeFirestore } from '../helpers/fake-firestore';
+
+const mockDb = new FakeFirestore();
+
+jest.mock('@/lib/firebase-admin', () => ({ requireAdminApp: () => ({ adminDb: mockDb }) }));
+
+import SecureRateLimiter from '@/lib/secure-rate-limiter';
+import { FirestoreRateLimitStore, ShardedFirestoreRateLimitStore } from '@/lib/rate-limit-store';
+
+const WINDOW_MS = 60 * 1000;
+const LIMIT = 10;
+// Start of a fixed window, so offsets below land where the test says
+const WINDOW_START = Math.floor(Date.UTC(2026, 0, 5, 12) / WINDOW_MS) * WINDOW_MS;
+
+let instanceA: SecureRateLimiter;
+let instanceB: SecureRateLimiter;
+
+function at(offsetMs: number) {
+  jest.spyOn(Date, 'now').mockReturnValue(WINDOW_START + offsetMs);
+}
+
+async function checks(limiter: SecureRateLimiter, count: number, limit = LIMIT): Promise<boolean[]> {
+  const results: boolean[] = [];
+  for (let i = 0; i < count; i++) {
+    results.push((await limiter.check('user:alice', limit)).success);
+  }
+  return results;
+}
+
+beforeEach(() => {
+  mockDb.paths('rate_limits').forEach(path => mockDb.remove(path));
+  mockDb.transactionAttempts = 0;
+  mockDb.transactionRetries = 0;
+  instanceA = new SecureRateLimiter(WINDOW_MS, LIMIT, 10000, new FirestoreRateLimitStore());
+  instanceB = new SecureRateLimiter(WINDOW_MS, LIMIT, 10000, new FirestoreRateLimitStore());
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('two limiters sharing a Firestore store', () => {
+  it('share one limit', async () => {
+    at(50 * 1000);
+
+    expect(await checks(instanceA, 6)).toEqual(Array(6).fill(true));
+    expect(await checks(instanceB, 4)).toEqual(Array(4).fill(true));
+    expect(await checks(instanceA, 1)).toEqual([false]);
+    expect(await checks(instanceB, 1)).toEqual([false]);
+  });
+
+  it('keep the sliding window across instances', async () => {
+    at(50 * 1000);
+    await checks(instanceA, 6);
+    await checks(instanceB, 4);
+
+    // 15s into the next window three quarters of the previous 10 still count
+    at(WINDOW_MS + 15 * 1000);
+    expect(await checks(instanceB, 3)).toEqual([true, true, false]);
+
+    // At 45s only a quarter does: 2.5 + 2 leaves room for 5
+    at(WINDOW_MS + 45 * 1000);
+    expect(await checks(instanceA, 6)).toEqual([true, true, true, true, true, false]);
+  });
+
+  it('report the shared window from either instance', async () => {
+    at(10 * 1000);
+    await checks(instanceA, 7);
+
+    expect(await instanceB.peek('user:alice')).toMatchObject({ success: true, remaining: 3 });
+    await instanceB.reset('user:alice');
+    expect(await instanceA.peek('user:alice')).toBeNull();
+  });
+});
+
+describe('transaction contention', () => {
+  it('lets exactly the limit through when both instances race for the last slots', async () => {
+    at(30 * 1000);
+
+    const results = await Promise.all([
+      instanceA.check('user:alice', 3),
+      instanceB.check('user:alice', 3),
+      instanceA.check('user:alice', 3),
+      instanceB.check('user:alice', 3),
+      instanceA.check('user:alice', 3)
+    ]);
+
+    expect(results.filter(result => result.success)).toHaveLength(3);
+    expect(mockDb.transactionRetries).toBeGreaterThan(0);
+    expect(mockDb.list('rate_limits').map(doc => doc.get('count'))).toEqual([3]);
+  });
+
+  it('limits in memory when the transaction is aborted on contention', async () => {
+    at(30 * 1000);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(mockDb, 'runTransaction')
+      .mockRejectedValue(Object.assign(new Error('10 ABORTED: Too much contention on these documents.'), { code: 10 }));
+
+    const results = await checks(instanceA, 3, 2);
+
+    expect(results).toEqual([true, true, false]);
+    expect(mockDb.list('rate_limits')).toHaveLength(0);
+  });
+
+  it('fails open when the store is unavailable', async () => {
+    at(30 * 1000);
+    const logged = jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(mockDb, 'runTransaction')
+      .mockRejectedValueOnce(Object.assign(new Error('14 UNAVAILABLE: No connection established'), { code: 14 }));
+
+    const result = await instanceA.check('user:alice');
+
+    expect(result).toMatchObject({ success: true, remaining: LIMIT });
+    expect(logged).toHaveBeenCalled();
+  });
+});
+
+describe('sharded Firestore store', () => {
+  let shardedA: SecureRateLimiter;
+  let shardedB: SecureRateLimiter;
+
+  beforeEach(() => {
+    mockDb.paths('rate_limit_shards').forEach(path => mockDb.remove(path));
+    shardedA = new SecureRateLimiter(WINDOW_MS, LIMIT, 10000, new ShardedFirestoreRateLimitStore());
+    shardedB = new SecureRateLimiter(WINDOW_MS, LIMIT, 10000, new ShardedFirestoreRateLimitStore());
+  });
+
+  const shardTotal = () => mockDb.list('rate_limit_shards').reduce((total, doc) => total + doc.get('count'), 0);
+
+  it('shares one limit across instances without transactions', async () => {
+    at(50 * 1000);
+
+    expect(await checks(shardedA, 6)).toEqual(Array(6).fill(true));
+    expect(await checks(shardedB, 5)).toEqual([true, true, true, true, false]);
+    expect(mockDb.transactionAttempts).toBe(0);
+    expect(shardTotal()).toBe(LIMIT);
+  });
+
+  it('never lets a concurrent burst past the limit', async () => {
+    at(30 * 1000);
+
+    const results = await Promise.all(Array.from({ length: 20 }, (_, i) =>
+      (i % 2 ? shardedA : shardedB).check('user:alice', 5)
+    ));
+
+    const admitted = results.filter(result => result.success).length;
+    expect(admitted).toBeGreaterThan(0);
+    expect(admitted).toBeLessThanOrEqual(5);
+    expect(shardTotal()).toBe(admitted);
+    expect(mockDb.list('rate_limit_shards').length).toBeGreaterThan(1);
+  });
+
+  it('keeps the sliding window and reports it from either instance', async () => {
+    at(50 * 1000);
+    await checks(shardedA, 10);
+
+    // 15s into the next window three quarters of the previous 10 still count
+    at(WINDOW_MS + 15 * 1000);
+    expect(await checks(shardedB, 3)).toEqual([true, true, false]);
+    expect(await shardedA.peek('user:alice')).toMatchObject({ success: false, remaining: 0 });
+
+    await shardedB.reset('user:alice');
+    expect(await shardedA.peek('user:alice')).toBeNull();
+  });
+});
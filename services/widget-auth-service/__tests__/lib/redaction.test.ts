@@ -0,0 +1,135 @@
+/**
+ * PII redaction policy for audit events and log lines
+ */
+
+import { REDACTED, hashEmail, isHashKeyConfigured, redact, redactText, truncateIp } from '@/lib/redaction';
+
+const env = process.env as Record<string, string | undefined>;
+const originalNodeEnv = env.NODE_ENV;
+
+afterEach(() => {
+  env.NODE_ENV = originalNodeEnv;
+  delete env.PII_HASH_KEY;
+});
+
+describe('emails', () => {
+  it('are replaced by a stable, case-insensitive hash', () => {
+    const hashed = hashEmail('Alice@Example.com');
+
+    expect(hashed).toMatch(/^email:[0-9a-f]{16}$/);
+    expect(hashEmail(' alice@example.com ')).toBe(hashed);
+    expect(redactText('Magic link sent to alice@example.com')).toBe(`Magic link sent to ${hashed}`);
+  });
+
+  it('are hashed with PII_HASH_KEY when it is set', () => {
+    const devHash = hashEmail('alice@example.com');
+    env.PII_HASH_KEY = 'production-key';
+
+    expect(hashEmail('alice@example.com')).not.toBe(devHash);
+  });
+
+  it('cannot be hashed in production without PII_HASH_KEY', () => {
+    env.NODE_ENV = 'production';
+
+    expect(isHashKeyConfigured()).toBe(false);
+    expect(() => hashEmail('alice@example.com')).toThrow('PII_HASH_KEY is not configured');
+
+    env.PII_HASH_KEY = 'production-key';
+    expect(isHashKeyConfigured()).toBe(true);
+    expect(hashEmail('alice@example.com')).toMatch(/^email:/);
+  });
+});
+
+describe('SSNs and phone numbers', () => {
+  it('are dropped from free text', () => {
+    expect(redactText('SSN 123-45-6789 on file')).toBe(`SSN ${REDACTED} on file`);
+    expect(redactText('Call (415) 555-0100 or +1 415-555-0101 or 415.555.0102'))
+      .toBe(`Call ${REDACTED} or ${REDACTED} or ${REDACTED}`);
+  });
+
+  it('are dropped from fields by name', () => {
+    expect(redact({ ssn: '123456789', phoneNumber: '4155550100', mobile: '+14155550100' }))
+      .toEqual({ ssn: REDACTED, phoneNumber: REDACTED, mobile: REDACTED });
+  });
+
+  it('leave dates and timestamps alone', () => {
+    const text = 'Created 2026-01-05T12:30:45.123Z, took 1500 ms';
+
+    expect(redactText(text)).toBe(text);
+  });
+});
+
+describe('IP addresses', () => {
+  it('keep the IPv4 /24 network', () => {
+    expect(truncateIp('203.0.113.7')).toBe('203.0.113.0/24');
+    expect(truncateIp('::ffff:203.0.113.7')).toBe('203.0.113.0/24');
+    expect(truncateIp('203.0.113.7, 198.51.100.23')).toBe('203.0.113.0/24, 198.51.100.0/24');
+    expect(redactText('Blocked 203.0.113.7')).toBe('Blocked 203.0.113.0/24');
+  });
+
+  it('keep the IPv6 /48 network', () => {
+    expect(truncateIp('2001:db8:85a3:8d3:1319:8a2e:370:7348')).toBe('2001:db8:85a3::/48');
+    expect(truncateIp('2001:db8::1')).toBe('2001:db8:0::/48');
+  });
+
+  it('find IPv6 addresses in free text', () => {
+    expect(redactText('Blocked 2001:db8:85a3:8d3:1319:8a2e:370:7348 after 5 attempts'))
+      .toBe('Blocked 2001:db8:85a3::/48 after 5 attempts');
+    expect(redactText('Request from 2001:db8::1.')).toBe('Request from 2001:db8:0::/48.');
+    expect(redactText('Request from ::1')).toBe('Request from 0:0:0::/48');
+    expect(redactText('Request from ::ffff:203.0.113.7')).toBe('Request from ::ffff:203.0.113.0/24');
+  });
+
+  it('leave times, MAC addresses and scoped names alone', () => {
+    const text = 'At 12:30:45 device aa:bb:cc:dd:ee:ff called Widget::init';
+
+    expect(redactText(text)).toBe(text);
+  });
+
+  it('are truncated in fields by name', () => {
+    expect(redact({ ipAddress: '2001:db8:85a3::7348', clientIp: '203.0.113.7' }))
+      .toEqual({ ipAddress: '2001:db8:85a3::/48', clientIp: '203.0.113.0/24' });
+  });
+});
+
+describe('nested objects', () => {
+  it('are redacted at every level without modifying the input', () => {
+    const event = {
+      eventType: 'widget.auth.success',
+      details: {
+        user: { email: 'alice@example.com', phone: '415-555-0100' },
+        request: { ipAddress: '203.0.113.7', headers: { authorization: 'Bearer tr_bearer_abc' } },
+        apiKeyPrefix: 'tr_live_pk_abcdefgh',
+        notes: ['SSN 123-45-6789', { message: 'from 2001:db8::1' }]
+      },
+      createdAt: new Date(0)
+    };
+    const original = JSON.parse(JSON.stringify(event));
+
+    expect(redact(event)).toEqual({
+      eventType: 'widget.auth.success',
+      details: {
+        user: { email: hashEmail('alice@example.com'), phone: REDACTED },
+        request: { ipAddress: '203.0.113.0/24', headers: { authorization: REDACTED } },
+        apiKeyPrefix: 'tr_live_pk_abcd****',
+        notes: [`SSN ${REDACTED}`, { message: 'from 2001:db8:0::/48' }]
+      },
+      createdAt: new Date(0)
+    });
+    expect(JSON.parse(JSON.stringify(event))).toEqual(original);
+  });
+
+  it('stop at the depth limit', () => {
+    let deep: Record<string, unknown> = { email: 'alice@example.com' };
+    for (let i = 0; i < 10; i++) deep = { child: deep };
+
+    expect(JSON.stringify(redact(deep))).not.toContain('alice@example.com');
+    expect(JSON.stringify(redact(deep))).toContain('[Truncated]');
+  });
+
+  it('redact error messages', () => {
+    const redacted = redact({ error: new Error('No account for alice@example.com') }) as { error: { message: string } };
+
+    expect(redacted.error.message).toBe(`No account for ${hashEmail('alice@example.com')}`);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * SMTP transport refuses to send in clear
+ *
+ * A scripted server on localhost records every command it receives, so the
+ * tests can check nothing past EHLO and STARTTLS is sent before TLS.
+ */
+
+import * as net from 'net';
+import { SmtpMailTransport, type SmtpConfig } from '@/lib/mail/smtp-transport';
+
+const MESSAGE = { to: 'user@example.com', subject: 'Sign in', text: 'Link', html: '<p>Link</p>' };
+
+interface FakeSmtpServer {
+  port: number;
+  commands: string[];
+  messages: string[]; // Raw DATA of each message
+  close(): Promise<void>;
+}
+
+// Answers like a relay; offers STARTTLS only when asked to, and drops the connection on it
+// (refusing it when not offered)
+function startServer({ offerStartTls }: { offerStartTls: boolean }): Promise<FakeSmtpServer> {
+  const commands: string[] = [];
+  const messages: string[] = [];
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    let buffer = '';
+    let inData = false;
+    let data: string[] = [];
+
+    socket.write('220 relay.test ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let index;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            messages.push(data.join('\r\n'));
+            data = [];
+            socket.write('250 queued\r\n');
+          } else {
+            data.push(line);
+          }
+          continue;
+        }
+
+        commands.push(line.split(' ')[0]);
+        if (line.startsWith('EHLO')) {
+          socket.write(offerStartTls ? '250-relay.test\r\n250 STARTTLS\r\n' : '250 relay.test\r\n');
+        } else if (line === 'STARTTLS') {
+          if (offerStartTls) {
+            socket.end('220 go ahead\r\n');
+          } else {
+            socket.write('502 not supported\r\n');
+          }
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 send it\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write(line.startsWith('AUTH') ? '235 ok\r\n' : '250 ok\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, 'localhost', () => resolve({
+      port: (server.address() as net.AddressInfo).port,
+      commands,
+      messages,
+      close: () => new Promise<void>(done => {
+        sockets.forEach(socket => socket.destroy());
+        server.close(() => done());
+      })
+    }));
+  });
+}
+
+function transport(port: number, overrides: Partial<SmtpConfig> = {}) {
+  return new SmtpMailTransport({
+    host: 'localhost',
+    port,
+    secure: false,
+    from: 'TrustRails <no-reply@trustrails.com>',
+    ...overrides
+  });
+}
+
+const env = process.env as Record<string, string | undefined>;
+const originalNodeEnv = env.NODE_ENV;
+let server: FakeSmtpServer | undefined;
+
+afterEach(async () => {
+  env.NODE_ENV = originalNodeEnv;
+  await server?.close();
+  server = undefined;
+});
+
+describe('SmtpMailTransport', () => {
+  it('refuses to send mail when the server does not offer STARTTLS', async () => {
+    const { port, commands } = server = await startServer({ offerStartTls: false });
+
+    await expect(transport(port).send(MESSAGE)).rejects.toMatchObject({ code: 'ETLS' });
+    expect(commands).toEqual(['EHLO', 'STARTTLS']);
+  });
+
+  it('refuses to send credentials without TLS, even when insecure mail is allowed', async () => {
+    const { port, commands } = server = await startServer({ offerStartTls: false });
+
+    await expect(
+      transport(port, { user: 'mailer', password: 'secret', allowInsecure: true }).send(MESSAGE)
+    ).rejects.toMatchObject({ code: 'ETLS' });
+    expect(commands).toEqual(['EHLO', 'STARTTLS']);
+  });
+
+  it('sends unauthenticated mail in clear when allowed outside production', async () => {
+    const { port, commands } = server = await startServer({ offerStartTls: false });
+
+    await transport(port, { allowInsecure: true }).send(MESSAGE);
+
+    // QUIT follows once the message is accepted
+    expect(commands.slice(0, 4)).toEqual(['EHLO', 'MAIL', 'RCPT', 'DATA']);
+  });
+
+  it('keeps header values from adding headers', async () => {
+    const { port, messages } = server = await startServer({ offerStartTls: false });
+
+    await transport(port, { allowInsecure: true }).send({ ...MESSAGE, subject: 'Sign in\r\nBcc: attacker@example.com' });
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).not.toMatch(/^Bcc:/m);
+  });
+
+  it('does not allow insecure mail in production', () => {
+    env.NODE_ENV = 'production';
+
+    expect(() => transport(25, { allowInsecure: true })).toThrow('not allowed in production');
+  });
+
+  it('upgrades to TLS before anything else when STARTTLS is offered', async () => {
+    const { port, commands } = server = await startServer({ offerStartTls: true });
+
+    // The fake server cannot complete a handshake, so the send fails after STARTTLS
+    await expect(
+      transport(port, { user: 'mailer', password: 'secret', allowInsecure: true }).send(MESSAGE)
+    ).rejects.toThrow();
+    expect(commands).toEqual(['EHLO', 'STARTTLS']);
+  });
+});
+
+describe('getMailTransport', () => {
+  const smtpEnv = { MAIL_TRANSPORT: 'smtp', SMTP_HOST: 'relay.test', SMTP_ALLOW_INSECURE: 'true' };
+
+  afterEach(() => {
+    Object.keys(smtpEnv).forEach(name => delete env[name]);
+  });
+
+  it('fails to configure SMTP_ALLOW_INSECURE in production', () => {
+    Object.assign(env, smtpEnv, { NODE_ENV: 'production' });
+
+    jest.isolateModules(() => {
+      const { getMailTransport } = require('@/lib/mail/mail-transport');
+      expect(() => getMailTransport()).toThrow('not allowed in production');
+    });
+  });
+
+  it('accepts SMTP_ALLOW_INSECURE outside production', () => {
+    Object.assign(env, smtpEnv);
+
+    jest.isolateModules(() => {
+      const { getMailTransport } = require('@/lib/mail/mail-transport');
+      expect(getMailTransport()).toBeInstanceOf(require('@/lib/mail/smtp-transport').SmtpMailTransport);
+    });
+  });
+});
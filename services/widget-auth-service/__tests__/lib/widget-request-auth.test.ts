@@ -0,0 +1,79 @@
+/**
+ * authorizeWidgetRequest runs bearer, scope, origin, partner status and
+ * rate limit checks in that order
+ */
+
+import { FakeFirestore } from '../helpers/fake-firestore';
+import { PARTNER_ID, PARTNER_ORIGIN, seedPartner, seedWidgetSession, widgetRequest } from '../helpers/widget-requests';
+
+const mockDb = new FakeFirestore();
+
+jest.mock('@/lib/firebase-admin', () => ({ requireAdminApp: () => ({ adminDb: mockDb }) }));
+jest.mock('@/lib/audit/unified-audit-logger', () => require('../helpers/widget-requests').mockAuditLoggerModule());
+
+import { authorizeWidgetRequest } from '@/lib/widget-request-auth';
+import { generateBearerToken, WIDGET_PERMISSIONS } from '@/lib/widget-auth-server';
+
+const CORS = { methods: 'POST, OPTIONS', allowHeaders: 'Content-Type, Authorization' };
+
+function authorize(bearerToken?: string, headers?: Record<string, string>) {
+  return authorizeWidgetRequest(
+    widgetRequest('/api/widget/plan-selected', { method: 'POST', bearerToken, headers }),
+    { scope: WIDGET_PERMISSIONS.WIDGET_WRITE, cors: CORS }
+  );
+}
+
+beforeEach(() => {
+  ['widget_sessions', 'rate_limit_shards'].forEach(collection =>
+    mockDb.paths(collection).forEach(path => mockDb.remove(path))
+  );
+  seedPartner(mockDb);
+});
+
+it('returns the session, partner and rate limit of an authorized request', async () => {
+  const bearerToken = seedWidgetSession(mockDb, 'ws_1');
+
+  const result = await authorize(bearerToken);
+
+  expect(result.success).toBe(true);
+  if (!result.success) return;
+  expect(result.context.session.sessionId).toBe('ws_1');
+  expect(result.context.custodianData?.name).toBe('Partner One');
+  expect(result.context.origin).toBe(PARTNER_ORIGIN);
+  expect(result.context.rateLimit).toMatchObject({ success: true, limit: 1000, remaining: 999 });
+  expect(result.context.corsHeaders['Access-Control-Allow-Origin']).toBe(PARTNER_ORIGIN);
+});
+
+it('rejects a missing bearer token with 401', async () => {
+  const result = await authorize();
+
+  expect(result.success).toBe(false);
+  if (result.success) return;
+  expect(result.response.status).toBe(401);
+});
+
+it('rejects a token without the scope before checking the partner', async () => {
+  seedPartner(mockDb, { status: 'suspended' });
+  seedWidgetSession(mockDb, 'ws_1');
+  const readOnly = generateBearerToken('ws_1', PARTNER_ID, undefined, '1h', 'sandbox', [WIDGET_PERMISSIONS.WIDGET_READ], 'key_1');
+
+  const result = await authorize(readOnly);
+
+  expect(result.success).toBe(false);
+  if (result.success) return;
+  expect(result.response.status).toBe(403);
+  expect((await result.response.json()).code).toBe('INSUFFICIENT_SCOPE');
+});
+
+it('rejects an unregistered origin without CORS access', async () => {
+  const bearerToken = seedWidgetSession(mockDb, 'ws_1');
+  mockDb.write('widget_sessions/ws_1', { origin: 'https://evil.example' }, 'merge');
+
+  const result = await authorize(bearerToken, { origin: 'https://evil.example' });
+
+  expect(result.success).toBe(false);
+  if (result.success) return;
+  expect(result.response.status).toBe(403);
+  expect(result.response.headers.get('Access-Control-Allow-Origin')).toBeNull();
+  expect(mockDb.paths('rate_limit_shards')).toHaveLength(0);
+});
@@ -0,0 +1,5 @@
+// Errors only, so expected rejections do not flood the output
+process.env.LOG_LEVEL = 'error';
+
+// Rate limiters count in the fake Firestore, which holds no timers open
+process.env.RATE_LIMIT_STORE = 'firestore';
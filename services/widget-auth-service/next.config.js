@@ -49,6 +49,8 @@ const nextConfig = {
   // Experimental features
   experimental: {
     serverComponentsExternalPackages: ['firebase-admin'],
+    // Runs src/instrumentation.ts at startup (configuration validation)
+    instrumentationHook: true,
   },
 };
 
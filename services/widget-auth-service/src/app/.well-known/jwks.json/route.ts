@@ -0,0 +1,38 @@
+/**
+ * Widget Token Signing Keys (JWKS)
+ * GET /.well-known/jwks.json
+ *
+ * Public keys for the RS256/ES256 keys that sign widget bearer tokens, so
+ * downstream services can verify tokens without calling this service (see
+ * lib/signing-keys.ts). HS256 keys are never published; while only HS256 is
+ * configured the key set is empty.
+ */
+
+import { NextResponse } from 'next/server';
+import { getPublicJwks } from '@/lib/signing-keys';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('JWKS');
+
+export const dynamic = 'force-dynamic';
+
+// Short enough that a newly added key is picked up well inside a rotation overlap
+const JWKS_MAX_AGE_SECONDS = 300;
+
+export async function GET() {
+  try {
+    return NextResponse.json(getPublicJwks(), {
+      headers: {
+        'Cache-Control': `public, max-age=${JWKS_MAX_AGE_SECONDS}`,
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error) {
+    log.error('Could not build JWKS', error);
+
+    return NextResponse.json(
+      { error: 'Signing keys are unavailable' },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Partner API Key Rotation
+ * POST /api/admin/partners/{partnerId}/api-keys/{keyId}/rotate
+ *
+ * Issues a replacement key with the same name, type, environment, permissions
+ * and rate limit. The old key keeps working for `overlap_hours` (default 24,
+ * 0 revokes it immediately) so the partner can deploy the new key first.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdminRequest, logAdminAuthFailure } from '@/lib/admin-auth';
+import {
+  DEFAULT_ROTATION_OVERLAP_MS,
+  MAX_ROTATION_OVERLAP_MS,
+  rotateAPIKey,
+  toPublicAPIKey
+} from '@/lib/api-key-management';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('ADMIN-API-KEYS');
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { partnerId: string; keyId: string } }
+) {
+  log.info('Rotate request received');
+
+  try {
+    const auth = await authenticateAdminRequest(request, params.partnerId);
+    if (!auth.success) {
+      await logAdminAuthFailure(request, params.partnerId, auth);
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const overlapHours = body?.overlap_hours;
+    const overlapMs = overlapHours === undefined
+      ? DEFAULT_ROTATION_OVERLAP_MS
+      : Number(overlapHours) * 60 * 60 * 1000;
+
+    if (!Number.isFinite(overlapMs) || overlapMs < 0 || overlapMs > MAX_ROTATION_OVERLAP_MS) {
+      return NextResponse.json(
+        { error: `overlap_hours must be between 0 and ${MAX_ROTATION_OVERLAP_MS / (60 * 60 * 1000)}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await rotateAPIKey(params.partnerId, params.keyId, overlapMs, auth.context.uid);
+    if (!result.success) {
+      if (result.error === 'not_found') {
+        return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+      }
+      if (result.error === 'signing_unavailable') {
+        return NextResponse.json({ error: 'Secret keys cannot be issued right now' }, { status: 503 });
+      }
+      return NextResponse.json(
+        {
+          error: result.error === 'already_rotated'
+            ? 'API key has already been rotated'
+            : 'API key is revoked or expired'
+        },
+        { status: 409 }
+      );
+    }
+
+    await AuditLogger.logAdminAction(
+      'api_key_rotated',
+      auth.context.uid,
+      { type: 'api_key', id: result.previousKey.id, name: result.previousKey.name },
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.INTEGRATION_API_KEY_ROTATED,
+        custodianId: params.partnerId,
+        userEmail: auth.context.email,
+        previousKeyId: result.previousKey.id,
+        previousKeyPrefix: result.previousKey.prefix,
+        newKeyId: result.key.id,
+        newKeyPrefix: result.key.prefix,
+        overlapMs,
+        previousKeyValidUntil: result.previousKey.expiresAt || result.previousKey.revokedAt
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      api_key: {
+        ...toPublicAPIKey(result.key),
+        key: result.fullKey, // Only time the full key is returned
+        ...(result.signingSecret && { signing_secret: result.signingSecret })
+      },
+      previous_api_key: toPublicAPIKey(result.previousKey)
+    }, {
+      status: 201,
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'api_key_rotate_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error rotating API key',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while rotating API key' },
+      { status: 500 }
+    );
+  }
+}
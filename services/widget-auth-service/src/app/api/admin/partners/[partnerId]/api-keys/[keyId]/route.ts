@@ -0,0 +1,96 @@
+/**
+ * Partner API Key Revocation
+ * DELETE /api/admin/partners/{partnerId}/api-keys/{keyId}?grace_period_hours=
+ *
+ * Revokes immediately by default. With grace_period_hours the key keeps
+ * working until the grace period ends.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdminRequest, logAdminAuthFailure } from '@/lib/admin-auth';
+import {
+  MAX_ROTATION_OVERLAP_MS,
+  revokeAPIKey,
+  toPublicAPIKey
+} from '@/lib/api-key-management';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('ADMIN-API-KEYS');
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { partnerId: string; keyId: string } }
+) {
+  log.info('DELETE request received');
+
+  try {
+    const auth = await authenticateAdminRequest(request, params.partnerId);
+    if (!auth.success) {
+      await logAdminAuthFailure(request, params.partnerId, auth);
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+
+    const graceHours = parseFloat(request.nextUrl.searchParams.get('grace_period_hours') || '0');
+    const gracePeriodMs = graceHours * 60 * 60 * 1000;
+    if (!Number.isFinite(graceHours) || graceHours < 0 || gracePeriodMs > MAX_ROTATION_OVERLAP_MS) {
+      return NextResponse.json(
+        { error: `grace_period_hours must be between 0 and ${MAX_ROTATION_OVERLAP_MS / (60 * 60 * 1000)}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await revokeAPIKey(params.partnerId, params.keyId, auth.context.uid, gracePeriodMs);
+    if (!result.success) {
+      return result.error === 'not_found'
+        ? NextResponse.json({ error: 'API key not found' }, { status: 404 })
+        : NextResponse.json({ error: 'API key is already revoked' }, { status: 409 });
+    }
+
+    await AuditLogger.logAdminAction(
+      'api_key_revoked',
+      auth.context.uid,
+      { type: 'api_key', id: result.key.id, name: result.key.name },
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.INTEGRATION_API_KEY_REVOKED,
+        custodianId: params.partnerId,
+        userEmail: auth.context.email,
+        keyId: result.key.id,
+        keyPrefix: result.key.prefix,
+        gracePeriodMs,
+        effectiveAt: result.key.expiresAt || result.key.revokedAt
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      api_key: toPublicAPIKey(result.key)
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'api_key_revoke_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error revoking API key',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while revoking API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Partner API Key Management
+ * GET  /api/admin/partners/{partnerId}/api-keys - list keys (prefix only)
+ * POST /api/admin/partners/{partnerId}/api-keys - issue a key
+ *
+ * Authenticated with a dashboard Firebase ID token (see lib/admin-auth.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminApp } from '@/lib/firebase-admin';
+import { ALL_WIDGET_PERMISSIONS, type WidgetPermission } from '@/lib/widget-auth-server';
+import { authenticateAdminRequest, logAdminAuthFailure } from '@/lib/admin-auth';
+import {
+  MAX_ACTIVE_KEYS_PER_CUSTODIAN,
+  createAPIKey,
+  getAPIKeys,
+  toPublicAPIKey,
+  withLastUsedAt
+} from '@/lib/api-key-management';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('ADMIN-API-KEYS');
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { partnerId: string } }
+) {
+  log.info('GET request received');
+
+  try {
+    const auth = await authenticateAdminRequest(request, params.partnerId);
+    if (!auth.success) {
+      await logAdminAuthFailure(request, params.partnerId, auth);
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+
+    const { adminDb } = requireAdminApp();
+    const custodianDoc = await adminDb.collection('custodians').doc(params.partnerId).get();
+    if (!custodianDoc.exists) {
+      return NextResponse.json(
+        { error: 'Partner not found' },
+        { status: 404 }
+      );
+    }
+
+    await AuditLogger.logDataAccess(
+      'view',
+      'api_keys',
+      params.partnerId,
+      auth.context.uid,
+      false,
+      request,
+      { custodianId: params.partnerId, role: auth.context.role }
+    );
+
+    const apiKeys = await withLastUsedAt(params.partnerId, getAPIKeys(custodianDoc.data()));
+
+    return NextResponse.json({
+      success: true,
+      api_keys: apiKeys.map(key => toPublicAPIKey(key))
+    }, {
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'api_key_list_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error listing API keys',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while listing API keys' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { partnerId: string } }
+) {
+  log.info('POST request received');
+
+  try {
+    const auth = await authenticateAdminRequest(request, params.partnerId);
+    if (!auth.success) {
+      await logAdminAuthFailure(request, params.partnerId, auth);
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { name, type, environment, permissions, rate_limit } = body || {};
+
+    if (!name || typeof name !== 'string' || name.length > 100) {
+      return NextResponse.json(
+        { error: 'name is required (max 100 characters)' },
+        { status: 400 }
+      );
+    }
+
+    if (type !== 'public' && type !== 'secret') {
+      return NextResponse.json(
+        { error: 'type must be "public" (widget) or "secret" (backend)' },
+        { status: 400 }
+      );
+    }
+
+    if (environment !== 'production' && environment !== 'sandbox') {
+      return NextResponse.json(
+        { error: 'environment must be "production" or "sandbox"' },
+        { status: 400 }
+      );
+    }
+
+    if (permissions !== undefined &&
+        (!Array.isArray(permissions) ||
+         !permissions.every(p => ALL_WIDGET_PERMISSIONS.includes(p as WidgetPermission)))) {
+      return NextResponse.json(
+        {
+          error: 'permissions must be an array of supported scopes',
+          available_permissions: ALL_WIDGET_PERMISSIONS
+        },
+        { status: 400 }
+      );
+    }
+
+    // Custom limits bypass the partner's tier, so only platform admins may set them
+    if (rate_limit !== undefined) {
+      if (auth.context.role !== 'admin') {
+        return NextResponse.json(
+          { error: 'Only TrustRails administrators can set a custom rate limit' },
+          { status: 403 }
+        );
+      }
+      if (!Number.isInteger(rate_limit) || rate_limit < 1 || rate_limit > 10000) {
+        return NextResponse.json(
+          { error: 'rate_limit must be an integer between 1 and 10000 (requests per minute)' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const result = await createAPIKey(
+      params.partnerId,
+      { name, type, environment, permissions, rateLimit: rate_limit },
+      auth.context.uid
+    );
+
+    if (!result.success) {
+      if (result.error === 'signing_unavailable') {
+        return NextResponse.json({ error: 'Secret keys cannot be issued right now' }, { status: 503 });
+      }
+      return result.error === 'limit_reached'
+        ? NextResponse.json(
+            { error: `A partner can have at most ${MAX_ACTIVE_KEYS_PER_CUSTODIAN} active API keys` },
+            { status: 409 }
+          )
+        : NextResponse.json({ error: 'Partner not found' }, { status: 404 });
+    }
+
+    await AuditLogger.logAdminAction(
+      'api_key_created',
+      auth.context.uid,
+      { type: 'api_key', id: result.key.id, name: result.key.name },
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.INTEGRATION_API_KEY_CREATED,
+        custodianId: params.partnerId,
+        userEmail: auth.context.email,
+        keyId: result.key.id,
+        keyPrefix: result.key.prefix,
+        keyType: result.key.type,
+        environment: result.key.environment,
+        permissions: result.key.permissions,
+        rateLimit: result.key.rateLimit
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      api_key: {
+        ...toPublicAPIKey(result.key),
+        key: result.fullKey, // Only time the full key is returned
+        ...(result.signingSecret && { signing_secret: result.signingSecret })
+      }
+    }, {
+      status: 201,
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'api_key_create_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error creating API key',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while creating API key' },
+      { status: 500 }
+    );
+  }
+}
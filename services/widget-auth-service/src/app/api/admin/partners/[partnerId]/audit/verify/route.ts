@@ -0,0 +1,137 @@
+/**
+ * Audit Chain Verification
+ * GET /api/admin/partners/{partnerId}/audit/verify
+ *
+ * Walks each of the partner's audit hash chains (the unsharded chain and
+ * every shard) and reports gaps, edited events and checkpoint mismatches.
+ * TrustRails administrators can verify the system chains with the partner
+ * ID `_system`.
+ *
+ * Query parameters:
+ *   from_sequence - first event to check in each chain (default 1)
+ *   limit         - maximum events to check per chain (default 10000)
+ *
+ * Authenticated with a dashboard Firebase ID token (see lib/admin-auth.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdminRequest, logAdminAuthFailure } from '@/lib/admin-auth';
+import { verifyAuditChains } from '@/lib/audit/audit-chain';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('ADMIN-AUDIT-VERIFY');
+
+const MAX_VERIFY_LIMIT = 100000;
+
+function parsePositiveInt(value: string | null): number | undefined {
+  if (value === null) return undefined;
+  const parsed = parseInt(value, 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { partnerId: string } }
+) {
+  log.info('GET request received');
+
+  try {
+    const auth = await authenticateAdminRequest(request, params.partnerId);
+    if (!auth.success) {
+      await logAdminAuthFailure(request, params.partnerId, auth);
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const limit = parsePositiveInt(searchParams.get('limit'));
+    const report = await verifyAuditChains(params.partnerId, {
+      fromSequence: parsePositiveInt(searchParams.get('from_sequence')),
+      limit: limit ? Math.min(limit, MAX_VERIFY_LIMIT) : undefined
+    });
+
+    if (report.valid) {
+      await AuditLogger.logAdminAction(
+        'audit_chain_verified',
+        auth.context.uid,
+        { type: 'audit_chain', id: report.chainId },
+        request,
+        {
+          eventType: SOC2_AUDIT_EVENTS.AUDIT_CHAIN_VERIFIED,
+          custodianId: params.partnerId,
+          userEmail: auth.context.email,
+          fromSequence: parsePositiveInt(searchParams.get('from_sequence')) ?? 1,
+          chains: report.chains.map(chain => ({ chainId: chain.chainId, lastSequence: chain.lastSequence })),
+          eventsChecked: report.eventsChecked
+        }
+      );
+    } else {
+      await AuditLogger.logSecurityEvent(
+        'audit_chain_integrity_failure',
+        AuditSeverity.CRITICAL,
+        `Audit chain ${report.chainId} failed verification with ${report.issues.length} issue(s)`,
+        auth.context.uid,
+        request,
+        {
+          eventType: SOC2_AUDIT_EVENTS.AUDIT_CHAIN_INTEGRITY_FAILURE,
+          custodianId: params.partnerId,
+          issues: report.issues.slice(0, 50)
+        }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      chain_id: report.chainId,
+      valid: report.valid,
+      events_checked: report.eventsChecked,
+      checkpoints_checked: report.checkpointsChecked,
+      unchained_events: report.unchainedEvents,
+      truncated: report.truncated,
+      chains: report.chains.map(chain => ({
+        chain_id: chain.chainId,
+        from_sequence: chain.fromSequence,
+        last_sequence: chain.lastSequence,
+        head_sequence: chain.headSequence,
+        events_checked: chain.eventsChecked,
+        truncated: chain.truncated
+      })),
+      issues: report.issues.map(issue => ({
+        chain_id: issue.chainId,
+        type: issue.type,
+        sequence: issue.sequence,
+        event_id: issue.eventId,
+        detail: issue.detail
+      }))
+    }, {
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'audit_chain_verify_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error verifying audit chain',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while verifying audit chain' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * Partner Status (Kill-Switch)
+ * GET /api/admin/partners/{partnerId}/status - configured and effective status
+ * PUT /api/admin/partners/{partnerId}/status - change status or maintenance windows
+ *
+ * Authenticated with a dashboard Firebase ID token (see lib/admin-auth.ts).
+ * Partner users may put their own widget into maintenance and schedule
+ * windows; suspending a partner or lifting a suspension is admin-only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminApp } from '@/lib/firebase-admin';
+import { authenticateAdminRequest, logAdminAuthFailure } from '@/lib/admin-auth';
+import {
+  CUSTODIAN_STATUSES,
+  MAX_STATUS_MESSAGE_LENGTH,
+  SUSPENSION_REASONS,
+  getStoredStatus,
+  getUpcomingMaintenanceWindows,
+  isCustodianStatus,
+  isSuspensionReason,
+  parseMaintenanceWindows,
+  resolveCustodianStatus,
+  updateCustodianStatus,
+  type CustodianStatusUpdate,
+  type StoredCustodianStatus
+} from '@/lib/custodian-status';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+import type { DocumentData } from 'firebase-admin/firestore';
+
+const log = createLogger('ADMIN-PARTNER-STATUS');
+
+function toStatusResponse(custodianData: DocumentData | undefined) {
+  const stored = getStoredStatus(custodianData);
+  const effective = resolveCustodianStatus(custodianData);
+
+  return {
+    status: stored.status,
+    reason: stored.statusReason,
+    message: stored.statusMessage,
+    effective_status: effective.status,
+    widget_code: effective.code ?? null,
+    maintenance_windows: getUpcomingMaintenanceWindows(custodianData).map(window => ({
+      id: window.id,
+      starts_at: window.startsAt,
+      ends_at: window.endsAt,
+      message: window.message ?? null
+    })),
+    updated_at: stored.statusUpdatedAt,
+    updated_by: stored.statusUpdatedBy
+  };
+}
+
+function windowsChanged(previous: StoredCustodianStatus, current: StoredCustodianStatus): boolean {
+  return JSON.stringify(previous.maintenanceWindows) !== JSON.stringify(current.maintenanceWindows);
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { partnerId: string } }
+) {
+  log.info('GET request received');
+
+  try {
+    const auth = await authenticateAdminRequest(request, params.partnerId);
+    if (!auth.success) {
+      await logAdminAuthFailure(request, params.partnerId, auth);
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+
+    const { adminDb } = requireAdminApp();
+    const custodianDoc = await adminDb.collection('custodians').doc(params.partnerId).get();
+    if (!custodianDoc.exists) {
+      return NextResponse.json(
+        { error: 'Partner not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...toStatusResponse(custodianDoc.data())
+    }, {
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'partner_status_read_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error reading partner status',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while reading partner status' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { partnerId: string } }
+) {
+  log.info('PUT request received');
+
+  try {
+    const auth = await authenticateAdminRequest(request, params.partnerId);
+    if (!auth.success) {
+      await logAdminAuthFailure(request, params.partnerId, auth);
+      return NextResponse.json(
+        { error: auth.error, code: auth.code },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { status, reason, message, maintenance_windows } = body || {};
+    const update: CustodianStatusUpdate = {};
+
+    if (status !== undefined) {
+      if (!isCustodianStatus(status)) {
+        return NextResponse.json(
+          { error: `status must be one of: ${CUSTODIAN_STATUSES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      update.status = status;
+    }
+
+    if (reason !== undefined) {
+      if (reason !== null && !isSuspensionReason(reason)) {
+        return NextResponse.json(
+          { error: `reason must be one of: ${SUSPENSION_REASONS.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      if (reason !== null && status !== 'suspended') {
+        return NextResponse.json(
+          { error: 'reason can only be set together with status "suspended"' },
+          { status: 400 }
+        );
+      }
+      update.reason = reason;
+    }
+
+    if (message !== undefined) {
+      if (message !== null && (typeof message !== 'string' || message.length > MAX_STATUS_MESSAGE_LENGTH)) {
+        return NextResponse.json(
+          { error: `message must be a string (max ${MAX_STATUS_MESSAGE_LENGTH} characters) or null` },
+          { status: 400 }
+        );
+      }
+      update.message = message;
+    }
+
+    if (maintenance_windows !== undefined) {
+      const parsed = parseMaintenanceWindows(maintenance_windows);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: parsed.error },
+          { status: 400 }
+        );
+      }
+      update.maintenanceWindows = parsed.windows;
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json(
+        { error: 'Provide at least one of: status, reason, message, maintenance_windows' },
+        { status: 400 }
+      );
+    }
+
+    const { adminDb } = requireAdminApp();
+    const custodianDoc = await adminDb.collection('custodians').doc(params.partnerId).get();
+    if (!custodianDoc.exists) {
+      return NextResponse.json(
+        { error: 'Partner not found' },
+        { status: 404 }
+      );
+    }
+
+    // The kill-switch belongs to TrustRails: partners cannot suspend or reinstate themselves
+    const currentStatus = getStoredStatus(custodianDoc.data()).status;
+    const touchesSuspension = update.status !== undefined &&
+      update.status !== currentStatus &&
+      (update.status === 'suspended' || currentStatus === 'suspended');
+    if (auth.context.role !== 'admin' && (touchesSuspension || update.reason !== undefined)) {
+      return NextResponse.json(
+        { error: 'Only TrustRails administrators can suspend or reinstate a partner' },
+        { status: 403 }
+      );
+    }
+
+    const result = await updateCustodianStatus(params.partnerId, update, auth.context.uid);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Partner not found' },
+        { status: 404 }
+      );
+    }
+
+    const { previous, current } = result;
+
+    if (previous.status !== current.status || previous.statusReason !== current.statusReason) {
+      await AuditLogger.logAdminAction(
+        'partner_status_changed',
+        auth.context.uid,
+        { type: 'custodian', id: params.partnerId, name: 'Partner Status' },
+        request,
+        {
+          eventType: SOC2_AUDIT_EVENTS.PARTNER_STATUS_CHANGED,
+          custodianId: params.partnerId,
+          userEmail: auth.context.email,
+          role: auth.context.role,
+          previousStatus: previous.status,
+          previousReason: previous.statusReason,
+          status: current.status,
+          reason: current.statusReason,
+          message: current.statusMessage
+        }
+      );
+    }
+
+    if (windowsChanged(previous, current)) {
+      await AuditLogger.logAdminAction(
+        'partner_maintenance_scheduled',
+        auth.context.uid,
+        { type: 'custodian', id: params.partnerId, name: 'Partner Maintenance Windows' },
+        request,
+        {
+          eventType: SOC2_AUDIT_EVENTS.PARTNER_MAINTENANCE_SCHEDULED,
+          custodianId: params.partnerId,
+          userEmail: auth.context.email,
+          role: auth.context.role,
+          previousWindows: previous.maintenanceWindows,
+          windows: current.maintenanceWindows
+        }
+      );
+    }
+
+    const updatedDoc = await adminDb.collection('custodians').doc(params.partnerId).get();
+
+    return NextResponse.json({
+      success: true,
+      ...toStatusResponse(updatedDoc.data())
+    }, {
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'partner_status_update_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error updating partner status',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while updating partner status' },
+      { status: 500 }
+    );
+  }
+}
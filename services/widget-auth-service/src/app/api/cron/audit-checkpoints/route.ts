@@ -0,0 +1,81 @@
+/**
+ * Audit Checkpoint Job
+ * POST /api/cron/audit-checkpoints
+ *
+ * Called by Cloud Scheduler (hourly) to sign the head of every audit chain
+ * that advanced since the last run (see lib/audit/audit-chain.ts).
+ * Protected by CRON_SECRET (see lib/cron-auth.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedCronRequest } from '@/lib/cron-auth';
+import { createAuditCheckpoints } from '@/lib/audit/audit-chain';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('AUDIT-CHECKPOINTS');
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await createAuditCheckpoints();
+
+    if (!result.success) {
+      log.error('Not run', result.error);
+      return NextResponse.json(
+        { error: result.error },
+        { status: 503 }
+      );
+    }
+
+    if (result.created > 0) {
+      log.info('Checkpoint run complete', { created: result.created, unchanged: result.unchanged });
+
+      // Also lands in Cloud Logging, outside the reach of a Firestore writer
+      await AuditLogger.logAdminAction(
+        'audit_checkpoints_created',
+        'system',
+        { type: 'audit_checkpoint', id: 'all_chains' },
+        request,
+        {
+          eventType: SOC2_AUDIT_EVENTS.AUDIT_CHECKPOINT_CREATED,
+          checkpoints: result.checkpoints
+        }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      created: result.created,
+      unchanged: result.unchanged
+    });
+
+  } catch (error) {
+    log.error('Checkpoint run failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'audit_checkpoint_job_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error in audit checkpoint job',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while creating audit checkpoints' },
+      { status: 500 }
+    );
+  }
+}
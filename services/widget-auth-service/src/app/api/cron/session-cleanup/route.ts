@@ -0,0 +1,97 @@
+/**
+ * Expired Session Cleanup Job
+ * POST /api/cron/session-cleanup
+ *
+ * Called by Cloud Scheduler (every 15 minutes) to archive and delete expired
+ * widget sessions (see lib/session-cleanup.ts). Writes one audit event per
+ * partner per run rather than one per session.
+ * Protected by CRON_SECRET (see lib/cron-auth.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedCronRequest } from '@/lib/cron-auth';
+import { cleanupExpiredSessions, DEFAULT_MAX_SESSIONS_PER_RUN } from '@/lib/session-cleanup';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('SESSION-CLEANUP');
+
+const MAX_SESSIONS_PER_RUN_LIMIT = 20000;
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '', 10);
+    const result = await cleanupExpiredSessions({
+      maxSessions: Number.isFinite(limit) && limit > 0
+        ? Math.min(limit, MAX_SESSIONS_PER_RUN_LIMIT)
+        : DEFAULT_MAX_SESSIONS_PER_RUN
+    });
+
+    const custodians = Object.entries(result.byCustodian);
+
+    if (result.deleted > 0) {
+      log.info('Cleanup run complete', {
+        deleted: result.deleted,
+        batches: result.batches,
+        custodians: custodians.length,
+        complete: result.complete,
+        durationMs: result.durationMs
+      });
+
+      await Promise.all(custodians.map(([custodianId, counts]) =>
+        AuditLogger.logAdminAction(
+          'widget_sessions_expired',
+          'system',
+          { type: 'widget_session', id: custodianId, name: 'Expired Widget Sessions' },
+          request,
+          {
+            eventType: SOC2_AUDIT_EVENTS.WIDGET_SESSION_EXPIRED,
+            custodianId,
+            expiredSessions: counts.expired,
+            authenticatedSessions: counts.authenticated
+          }
+        )
+      ));
+    }
+
+    return NextResponse.json({
+      success: true,
+      deleted: result.deleted,
+      archived: result.deleted,
+      batches: result.batches,
+      custodians: custodians.length,
+      complete: result.complete,
+      oldest_expired_at: result.oldestExpiredAt,
+      duration_ms: result.durationMs
+    });
+
+  } catch (error) {
+    log.error('Cleanup run failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'session_cleanup_job_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error in session cleanup job',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while cleaning up sessions' },
+      { status: 500 }
+    );
+  }
+}
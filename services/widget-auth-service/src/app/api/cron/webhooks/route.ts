@@ -0,0 +1,57 @@
+/**
+ * Webhook Retry Worker
+ * POST /api/cron/webhooks
+ *
+ * Called by Cloud Scheduler (every minute) to retry deliveries whose
+ * backoff has elapsed. Protected by CRON_SECRET (see lib/cron-auth.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedCronRequest } from '@/lib/cron-auth';
+import { processDueDeliveries } from '@/lib/webhooks/webhook-dispatcher';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('WEBHOOKS');
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50', 10);
+    const result = await processDueDeliveries(Number.isFinite(limit) && limit > 0 ? Math.min(limit, 200) : 50);
+
+    if (result.processed > 0) {
+      log.info('Retry run complete', { ...result });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+
+  } catch (error) {
+    log.error('Retry run failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'webhook_retry_worker_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error in webhook retry worker',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while processing webhook deliveries' },
+      { status: 500 }
+    );
+  }
+}
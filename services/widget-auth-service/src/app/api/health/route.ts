@@ -2,39 +2,24 @@
  * Health Check Endpoint
  * GET /api/health
  *
- * Returns service health status for monitoring and load balancing
+ * Kept for existing monitors; returns the /readyz report (see lib/health.ts).
+ * New probes should use /livez and /readyz.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { isFirebaseAdminInitialized } from '@/lib/firebase-admin';
+import { getReadiness, presentReadiness, readinessHttpStatus } from '@/lib/health';
+import { createLogger } from '@/lib/logger';
 
-export async function GET(request: NextRequest) {
-  const startTime = Date.now();
-
-  try {
-    // Check Firebase connectivity
-    const firebaseHealthy = isFirebaseAdminInitialized();
+const log = createLogger('HEALTH');
 
-    // Basic service checks
-    const checks = {
-      firebase: firebaseHealthy,
-      environment: !!process.env.NODE_ENV,
-      timestamp: new Date().toISOString(),
-      uptime: process.uptime(),
-      responseTime: Date.now() - startTime
-    };
+export const dynamic = 'force-dynamic';
 
-    const isHealthy = Object.values(checks).every(check =>
-      typeof check === 'boolean' ? check : true
-    );
+export async function GET(request: NextRequest) {
+  try {
+    const report = await getReadiness();
 
-    return NextResponse.json({
-      status: isHealthy ? 'healthy' : 'unhealthy',
-      service: 'widget-auth-service',
-      version: '1.0.0',
-      checks
-    }, {
-      status: isHealthy ? 200 : 503,
+    return NextResponse.json(presentReadiness(report, request), {
+      status: readinessHttpStatus(report),
       headers: {
         'Cache-Control': 'no-cache, no-store, must-revalidate',
         'Content-Type': 'application/json'
@@ -42,12 +27,13 @@ export async function GET(request: NextRequest) {
     });
 
   } catch (error) {
+    log.error('Health check failed', error);
+
     return NextResponse.json({
-      status: 'unhealthy',
+      status: 'unavailable',
       service: 'widget-auth-service',
-      error: error instanceof Error ? error.message : 'Unknown error',
-      timestamp: new Date().toISOString(),
-      responseTime: Date.now() - startTime
+      error: 'Health check failed',
+      checked_at: new Date().toISOString()
     }, {
       status: 503,
       headers: {
@@ -56,4 +42,4 @@ export async function GET(request: NextRequest) {
       }
     });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,169 @@
+/**
+ * Partner Audit Log Export
+ * GET /api/partner/v1/audit-events/export?format=csv|ndjson&from=&to=&event_type=&severity=&user_id=&ip_address=
+ *
+ * Streams every matching event, newest first, as CSV or newline-delimited
+ * JSON. Events include their hash chain fields so auditors can check them
+ * against /api/admin/partners/{partnerId}/audit/verify. Each export is
+ * itself audit-logged.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticatePartnerRequest, logPartnerAuthFailure } from '@/lib/partner-api-auth';
+import {
+  buildRateLimitHeaders,
+  checkTierRateLimit,
+  rateLimitExceededBody
+} from '@/lib/tier-rate-limits';
+import {
+  iterateAuditEvents,
+  parseAuditQuery,
+  toCsvHeader,
+  toCsvRow,
+  toPublicAuditEvent
+} from '@/lib/audit/audit-query';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('PARTNER-API-AUDIT-EXPORT');
+
+const EXPORT_FORMATS = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson'
+} as const;
+
+type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+export async function GET(request: NextRequest) {
+  log.info('GET request received');
+
+  try {
+    const auth = await authenticatePartnerRequest(request);
+    if (!auth.success) {
+      await logPartnerAuthFailure(request, auth);
+      return NextResponse.json(
+        auth.body,
+        { status: auth.status, headers: auth.headers }
+      );
+    }
+
+    const { custodianId, custodianData, apiKeyId } = auth.context;
+
+    const rateLimitResult = await checkTierRateLimit(custodianId, custodianData, apiKeyId);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        rateLimitExceededBody(rateLimitResult),
+        { status: 429, headers: buildRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const format = (searchParams.get('format') || 'ndjson') as ExportFormat;
+    if (!Object.keys(EXPORT_FORMATS).includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseAuditQuery(searchParams, custodianId);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    const { filters } = parsed;
+
+    // Record the export before any data leaves
+    await AuditLogger.logDataAccess(
+      'export',
+      'audit_events',
+      custodianId,
+      null,
+      true,
+      request,
+      {
+        custodianId,
+        apiKeyId,
+        format,
+        filters: {
+          from: filters.from ?? null,
+          to: filters.to ?? null,
+          eventTypes: filters.eventTypes ?? null,
+          severities: filters.severities ?? null,
+          userId: filters.userId ?? null,
+          ipAddress: filters.ipAddress ?? null
+        }
+      }
+    );
+
+    const events = iterateAuditEvents(filters);
+    const encoder = new TextEncoder();
+    let headerWritten = format !== 'csv';
+
+    // Pull-based so only one batch of events is held in memory
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          if (!headerWritten) {
+            headerWritten = true;
+            controller.enqueue(encoder.encode(toCsvHeader()));
+            return;
+          }
+
+          const next = await events.next();
+          if (next.done) {
+            controller.close();
+            return;
+          }
+
+          const event = toPublicAuditEvent(next.value);
+          controller.enqueue(encoder.encode(
+            format === 'csv' ? toCsvRow(event) : `${JSON.stringify(event)}\n`
+          ));
+        } catch (error) {
+          log.error('Export stream failed', error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await events.return(undefined);
+      }
+    });
+
+    const fileName = `trustrails-audit-${custodianId}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': EXPORT_FORMATS[format],
+        'Content-Disposition': `attachment; filename="${fileName.replace(/[^\w.-]/g, '_')}"`,
+        'Cache-Control': 'no-store',
+        ...buildRateLimitHeaders(rateLimitResult)
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'partner_audit_export_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error exporting audit events',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while exporting audit events' },
+      { status: 500 }
+    );
+  }
+}
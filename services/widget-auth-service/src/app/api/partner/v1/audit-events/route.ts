@@ -0,0 +1,101 @@
+/**
+ * Partner Audit Log
+ * GET /api/partner/v1/audit-events?from=&to=&event_type=&severity=&user_id=&ip_address=&limit=&cursor=
+ *
+ * The partner's audit events, newest first. Pass `next_cursor` back as
+ * `cursor` for the next page; it is null on the last page.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticatePartnerRequest, logPartnerAuthFailure } from '@/lib/partner-api-auth';
+import {
+  buildRateLimitHeaders,
+  checkTierRateLimit,
+  rateLimitExceededBody
+} from '@/lib/tier-rate-limits';
+import { parseAuditQuery, queryAuditEvents, toPublicAuditEvent } from '@/lib/audit/audit-query';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('PARTNER-API-AUDIT-EVENTS');
+
+export async function GET(request: NextRequest) {
+  log.info('GET request received');
+
+  try {
+    const auth = await authenticatePartnerRequest(request);
+    if (!auth.success) {
+      await logPartnerAuthFailure(request, auth);
+      return NextResponse.json(
+        auth.body,
+        { status: auth.status, headers: auth.headers }
+      );
+    }
+
+    const { custodianId, custodianData, apiKeyId } = auth.context;
+
+    const rateLimitResult = await checkTierRateLimit(custodianId, custodianData, apiKeyId);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        rateLimitExceededBody(rateLimitResult),
+        { status: 429, headers: buildRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    const parsed = parseAuditQuery(request.nextUrl.searchParams, custodianId);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const page = await queryAuditEvents(parsed.filters, {
+      limit: parsed.limit,
+      cursor: parsed.cursor
+    });
+
+    await AuditLogger.logDataAccess(
+      'view',
+      'audit_events',
+      custodianId,
+      null,
+      true,
+      request,
+      { custodianId, apiKeyId, resultCount: page.events.length }
+    );
+
+    return NextResponse.json({
+      success: true,
+      events: page.events.map(toPublicAuditEvent),
+      next_cursor: page.nextCursor
+    }, {
+      headers: {
+        'Cache-Control': 'no-store',
+        ...buildRateLimitHeaders(rateLimitResult)
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'partner_audit_query_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error querying audit events',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while querying audit events' },
+      { status: 500 }
+    );
+  }
+}
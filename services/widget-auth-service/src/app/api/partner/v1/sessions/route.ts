@@ -0,0 +1,191 @@
+/**
+ * Partner Widget Session Endpoint
+ * POST /api/partner/v1/sessions
+ *
+ * Lets a partner backend create a widget session (optionally bound to a
+ * pre-provisioned user) and hand the bearer token to its front end, so no
+ * API key ever has to be embedded in the browser.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createWidgetSession,
+  generateBearerToken,
+  issueRefreshToken,
+  resolveTokenPermissions
+} from '@/lib/widget-auth-server';
+import { requireAdminApp } from '@/lib/firebase-admin';
+import { authenticatePartnerRequest, logPartnerAuthFailure } from '@/lib/partner-api-auth';
+import {
+  buildRateLimitHeaders,
+  checkTierRateLimit,
+  rateLimitExceededBody
+} from '@/lib/tier-rate-limits';
+import { checkOrigin, getAllowedDomains } from '@/lib/origin-allowlist';
+import { getClientIP } from '@/lib/secure-ip-detection';
+import { enforceSessionLimit, getSessionPolicy } from '@/lib/session-binding';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { dispatchWebhookEvent } from '@/lib/webhooks/webhook-dispatcher';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { WEBHOOK_EVENTS } from '@/types/webhook-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('PARTNER-API-SESSIONS');
+
+export async function POST(request: NextRequest) {
+  log.info('POST request received');
+
+  try {
+    const auth = await authenticatePartnerRequest(request);
+    if (!auth.success) {
+      await logPartnerAuthFailure(request, auth);
+      return NextResponse.json(
+        auth.body,
+        { status: auth.status, headers: auth.headers }
+      );
+    }
+
+    const { custodianId, custodianData, apiKeyId, apiKeyPermissions, environment, body } = auth.context;
+
+    const rateLimitResult = await checkTierRateLimit(custodianId, custodianData, apiKeyId);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        rateLimitExceededBody(rateLimitResult),
+        { status: 429, headers: buildRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    if (!custodianData.widgetEnabled) {
+      return NextResponse.json(
+        { error: 'Widget integration is not enabled for this partner' },
+        { status: 403 }
+      );
+    }
+
+    const { user_id, origin, user_agent } = body || {};
+
+    // The session will be used from the partner's page, so the origin must be registered
+    if (!origin) {
+      return NextResponse.json(
+        { error: 'origin is required: the website the widget will run on' },
+        { status: 400 }
+      );
+    }
+
+    const originCheck = checkOrigin(origin, getAllowedDomains(custodianData), environment);
+    if (!originCheck.allowed || !originCheck.origin) {
+      return NextResponse.json(
+        { error: 'origin is not a registered embedding domain', code: 'ORIGIN_NOT_ALLOWED' },
+        { status: 400 }
+      );
+    }
+
+    if (user_id) {
+      const { adminDb } = requireAdminApp();
+      const userDoc = await adminDb.collection('users').doc(user_id).get();
+      if (!userDoc.exists || userDoc.data()?.hostCustodianId !== custodianId) {
+        return NextResponse.json(
+          { error: 'Unknown user_id for this partner' },
+          { status: 404 }
+        );
+      }
+    }
+
+    // The widget session gets the scopes of the secret key that created it
+    const permissions = resolveTokenPermissions(apiKeyPermissions);
+
+    const session = await createWidgetSession(
+      custodianId,
+      `partner_api:${apiKeyId}`, // Never copy the secret key hash onto sessions
+      getClientIP(request),
+      user_agent || request.headers.get('user-agent') || 'partner-api',
+      originCheck.origin,
+      user_id ? { userId: user_id, authMethod: 'partner_api' } : undefined,
+      environment,
+      permissions,
+      apiKeyId,
+      false // Created server-side: binds to the first browser that uses it
+    );
+
+    if (user_id) {
+      await enforceSessionLimit(
+        user_id,
+        session.sessionId,
+        getSessionPolicy(custodianData).maxSessionsPerUser,
+        request
+      );
+    }
+
+    const bearerToken = generateBearerToken(
+      session.sessionId,
+      custodianId,
+      user_id,
+      '24h',
+      environment,
+      permissions,
+      apiKeyId
+    );
+    const refreshToken = await issueRefreshToken(session.sessionId);
+
+    await AuditLogger.logAdminAction(
+      'partner_session_created',
+      custodianId,
+      { type: 'widget_session', id: session.sessionId, name: 'Widget Session' },
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.PARTNER_SESSION_CREATED,
+        custodianId,
+        apiKeyId,
+        sessionId: session.sessionId,
+        userId: user_id,
+        origin: originCheck.origin,
+        expiresAt: session.expiresAt.toISOString()
+      }
+    );
+
+    await dispatchWebhookEvent(custodianId, WEBHOOK_EVENTS.WIDGET_SESSION_CREATED, {
+      session_id: session.sessionId,
+      user_id: user_id || null,
+      origin: originCheck.origin,
+      environment,
+      expires_at: session.expiresAt.toISOString()
+    }).catch(error => log.error('Failed to dispatch webhook', error));
+
+    return NextResponse.json({
+      success: true,
+      session_id: session.sessionId,
+      bearer_token: bearerToken,
+      refresh_token: refreshToken,
+      expires_at: session.expiresAt.toISOString(),
+      environment,
+      user_id: user_id || null
+    }, {
+      status: 201,
+      headers: {
+        'Cache-Control': 'no-store',
+        ...buildRateLimitHeaders(rateLimitResult)
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'partner_session_creation_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error in partner session creation',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error during session creation' },
+      { status: 500 }
+    );
+  }
+}
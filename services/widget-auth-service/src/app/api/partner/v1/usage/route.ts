@@ -0,0 +1,84 @@
+/**
+ * Partner Rate Limit Usage
+ * GET /api/partner/v1/usage
+ *
+ * Current-minute consumption against each active API key's rate limit.
+ * This request counts against the signing key like any other.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRateLimitForTier } from '@/lib/api-keys-server';
+import { authenticatePartnerRequest, logPartnerAuthFailure } from '@/lib/partner-api-auth';
+import {
+  TIER_RATE_LIMIT_WINDOW_MS,
+  buildRateLimitHeaders,
+  checkTierRateLimit,
+  getRateLimitUsage,
+  rateLimitExceededBody
+} from '@/lib/tier-rate-limits';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('PARTNER-API-USAGE');
+
+export async function GET(request: NextRequest) {
+  log.info('GET request received');
+
+  try {
+    const auth = await authenticatePartnerRequest(request);
+    if (!auth.success) {
+      await logPartnerAuthFailure(request, auth);
+      return NextResponse.json(
+        auth.body,
+        { status: auth.status, headers: auth.headers }
+      );
+    }
+
+    const { custodianId, custodianData, apiKeyId } = auth.context;
+
+    const rateLimitResult = await checkTierRateLimit(custodianId, custodianData, apiKeyId);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        rateLimitExceededBody(rateLimitResult),
+        { status: 429, headers: buildRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      window_seconds: TIER_RATE_LIMIT_WINDOW_MS / 1000,
+      tier: {
+        level: custodianData.level ?? null,
+        rate_limit: getRateLimitForTier(custodianData.level)
+      },
+      api_keys: await getRateLimitUsage(custodianId, custodianData)
+    }, {
+      headers: {
+        'Cache-Control': 'no-store',
+        ...buildRateLimitHeaders(rateLimitResult)
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'partner_usage_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error reading partner usage',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while reading usage' },
+      { status: 500 }
+    );
+  }
+}
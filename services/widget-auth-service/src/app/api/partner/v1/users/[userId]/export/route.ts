@@ -0,0 +1,120 @@
+/**
+ * Partner Data Subject Access Endpoint
+ * GET /api/partner/v1/users/{userId}/export
+ *
+ * Everything held about one of the partner's widget users (profile, account,
+ * sessions, magic links and audit events) as a single JSON bundle, for a
+ * GDPR / CCPA access request made by the user through the partner.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticatePartnerRequest, logPartnerAuthFailure } from '@/lib/partner-api-auth';
+import {
+  buildRateLimitHeaders,
+  checkTierRateLimit,
+  rateLimitExceededBody
+} from '@/lib/tier-rate-limits';
+import { buildDataExport, findPartnerUser } from '@/lib/privacy/data-subject';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('PARTNER-API-DATA-EXPORT');
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  log.info('GET request received');
+
+  try {
+    const auth = await authenticatePartnerRequest(request);
+    if (!auth.success) {
+      await logPartnerAuthFailure(request, auth);
+      return NextResponse.json(
+        auth.body,
+        { status: auth.status, headers: auth.headers }
+      );
+    }
+
+    const { custodianId, custodianData, apiKeyId } = auth.context;
+
+    const rateLimitResult = await checkTierRateLimit(custodianId, custodianData, apiKeyId);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        rateLimitExceededBody(rateLimitResult),
+        { status: 429, headers: buildRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    const lookup = await findPartnerUser(custodianId, params.userId);
+    if (!lookup.success) {
+      if (lookup.reason === 'partner_mismatch') {
+        await AuditLogger.logSecurityEvent(
+          'data_subject_partner_mismatch',
+          AuditSeverity.WARNING,
+          'Data export requested for a user hosted by another partner',
+          params.userId,
+          request,
+          { custodianId, apiKeyId, requestType: 'access' }
+        );
+      }
+
+      return lookup.reason === 'already_erased'
+        ? NextResponse.json({ error: 'User has been erased', code: 'USER_ERASED' }, { status: 410 })
+        : NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { requestId, bundle } = await buildDataExport(custodianId, params.userId, lookup.user, apiKeyId);
+
+    await AuditLogger.logDataAccess(
+      'export',
+      'user_data',
+      params.userId,
+      params.userId,
+      true,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.DATA_SUBJECT_EXPORTED,
+        custodianId,
+        apiKeyId,
+        requestId,
+        sessionCount: bundle.sessions.length,
+        auditEventCount: bundle.audit_events.length
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      request_id: requestId,
+      data: bundle
+    }, {
+      headers: {
+        'Cache-Control': 'no-store',
+        'Content-Disposition': `attachment; filename="user-${params.userId}-export.json"`,
+        ...buildRateLimitHeaders(rateLimitResult)
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'partner_data_export_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error exporting user data',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while exporting user data' },
+      { status: 500 }
+    );
+  }
+}
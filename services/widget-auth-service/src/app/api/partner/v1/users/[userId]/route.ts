@@ -0,0 +1,122 @@
+/**
+ * Partner Data Subject Erasure Endpoint
+ * DELETE /api/partner/v1/users/{userId}
+ *
+ * Erases one of the partner's widget users for a GDPR / CCPA deletion
+ * request: the sign-in account, sessions and magic links are deleted, webhook
+ * payloads are stripped and the profile becomes a pseudonymous stub. Audit
+ * events are retained in redacted form (see lib/privacy/data-subject.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticatePartnerRequest, logPartnerAuthFailure } from '@/lib/partner-api-auth';
+import {
+  buildRateLimitHeaders,
+  checkTierRateLimit,
+  rateLimitExceededBody
+} from '@/lib/tier-rate-limits';
+import { eraseUserData, findPartnerUser } from '@/lib/privacy/data-subject';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('PARTNER-API-DATA-ERASURE');
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  log.info('DELETE request received');
+
+  try {
+    const auth = await authenticatePartnerRequest(request);
+    if (!auth.success) {
+      await logPartnerAuthFailure(request, auth);
+      return NextResponse.json(
+        auth.body,
+        { status: auth.status, headers: auth.headers }
+      );
+    }
+
+    const { custodianId, custodianData, apiKeyId } = auth.context;
+
+    const rateLimitResult = await checkTierRateLimit(custodianId, custodianData, apiKeyId);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        rateLimitExceededBody(rateLimitResult),
+        { status: 429, headers: buildRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    const lookup = await findPartnerUser(custodianId, params.userId);
+    if (!lookup.success) {
+      if (lookup.reason === 'partner_mismatch') {
+        await AuditLogger.logSecurityEvent(
+          'data_subject_partner_mismatch',
+          AuditSeverity.WARNING,
+          'Data erasure requested for a user hosted by another partner',
+          params.userId,
+          request,
+          { custodianId, apiKeyId, requestType: 'erasure' }
+        );
+      }
+
+      return lookup.reason === 'already_erased'
+        ? NextResponse.json({ error: 'User has been erased', code: 'USER_ERASED' }, { status: 410 })
+        : NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const result = await eraseUserData(custodianId, params.userId, lookup.user, apiKeyId);
+
+    await AuditLogger.logDataAccess(
+      'delete',
+      'user_data',
+      params.userId,
+      params.userId,
+      true,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.DATA_SUBJECT_ERASED,
+        custodianId,
+        apiKeyId,
+        ...result
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      request_id: result.requestId,
+      user_id: params.userId,
+      erased: {
+        auth_account: result.authAccountDeleted,
+        sessions: result.sessionsDeleted,
+        magic_links: result.magicLinksDeleted,
+        webhook_deliveries: result.webhookDeliveriesErased
+      },
+      retained: {
+        audit_events: 'redacted'
+      }
+    }, { status: 200, headers: buildRateLimitHeaders(rateLimitResult) });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'partner_data_erasure_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error erasing user data',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while erasing user data' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Partner User Provisioning Endpoint
+ * POST /api/partner/v1/users
+ *
+ * Lets a partner backend pre-provision a widget user before the user ever
+ * opens the widget. Authenticated with an HMAC-signed secret key request
+ * (see lib/partner-api-auth.ts); never callable from a browser.
+ *
+ * A partner only ever sees users it hosts. Any other existing user, including
+ * a sign-in account with no profile, gets the same 409 so the response does
+ * not tell the partner whether, or where, the email is registered.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminApp } from '@/lib/firebase-admin';
+import { authenticatePartnerRequest, logPartnerAuthFailure } from '@/lib/partner-api-auth';
+import {
+  buildRateLimitHeaders,
+  checkTierRateLimit,
+  rateLimitExceededBody
+} from '@/lib/tier-rate-limits';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { dispatchWebhookEvent } from '@/lib/webhooks/webhook-dispatcher';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { WEBHOOK_EVENTS } from '@/types/webhook-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('PARTNER-API-USERS');
+
+// Custom claim naming the partner that created a sign-in account here
+const PROVISIONED_BY_CLAIM = 'provisionedByCustodianId';
+
+function userConflict(headers: Record<string, string>) {
+  return NextResponse.json(
+    { error: 'This email cannot be provisioned', code: 'USER_CONFLICT' },
+    { status: 409, headers }
+  );
+}
+
+export async function POST(request: NextRequest) {
+  log.info('POST request received');
+
+  try {
+    const auth = await authenticatePartnerRequest(request);
+    if (!auth.success) {
+      await logPartnerAuthFailure(request, auth);
+      return NextResponse.json(
+        auth.body,
+        { status: auth.status, headers: auth.headers }
+      );
+    }
+
+    const { custodianId, custodianData, apiKeyId, body } = auth.context;
+
+    const rateLimitResult = await checkTierRateLimit(custodianId, custodianData, apiKeyId);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        rateLimitExceededBody(rateLimitResult),
+        { status: 429, headers: buildRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    const {
+      email,
+      name,
+      external_user_id,
+      source_custodian_id,
+      destination_custodian_id,
+      transfer_amount
+    } = body || {};
+
+    if (!email || typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return NextResponse.json(
+        { error: 'A valid email is required' },
+        { status: 400 }
+      );
+    }
+
+    const { adminAuth, adminDb } = requireAdminApp();
+
+    let userRecord;
+    let createdAuthAccount = false;
+    try {
+      userRecord = await adminAuth.getUserByEmail(email);
+    } catch (error: any) {
+      if (error?.code !== 'auth/user-not-found') throw error;
+
+      userRecord = await adminAuth.createUser({
+        email,
+        displayName: name,
+        emailVerified: false
+      });
+      createdAuthAccount = true;
+    }
+
+    const userId = userRecord.uid;
+    const userRef = adminDb.collection('users').doc(userId);
+    const existingUser = (await userRef.get()).data();
+
+    if (existingUser) {
+      // Don't let one partner take over another partner's user, or a user no partner hosts
+      if (existingUser.hostCustodianId !== custodianId) {
+        return userConflict(buildRateLimitHeaders(rateLimitResult));
+      }
+
+      return NextResponse.json({
+        success: true,
+        user: {
+          id: userId,
+          email: existingUser.email,
+          name: existingUser.name,
+          external_user_id: existingUser.externalUserId || null,
+          host_custodian_id: custodianId
+        },
+        is_new_user: false
+      }, { status: 200, headers: buildRateLimitHeaders(rateLimitResult) });
+    }
+
+    // A sign-in account without a profile belongs to someone else (another
+    // service, or a user mid sign-up) unless this partner created it and its
+    // owner has since verified the email
+    if (!createdAuthAccount &&
+        !(userRecord.emailVerified && userRecord.customClaims?.[PROVISIONED_BY_CLAIM] === custodianId)) {
+      return userConflict(buildRateLimitHeaders(rateLimitResult));
+    }
+
+    const now = new Date().toISOString();
+    try {
+      if (createdAuthAccount) {
+        await adminAuth.setCustomUserClaims(userId, { [PROVISIONED_BY_CLAIM]: custodianId });
+      }
+      await userRef.set({
+        uid: userId,
+        email,
+        name: name || email.split('@')[0],
+        role: 'rollover_user',
+        custodianId, // Standard field for admin dashboard
+        hostCustodianId: custodianId, // Which partner created this user
+        externalUserId: external_user_id || null,
+        sourceCustodianId: source_custodian_id || null,
+        destinationCustodianId: destination_custodian_id || custodianId,
+        transferAmount: transfer_amount || null,
+        createdAt: now,
+        emailVerified: userRecord.emailVerified,
+        status: 'active',
+        authType: 'partner_provisioned',
+        provisionedBy: apiKeyId
+      });
+    } catch (error) {
+      // Leave no account behind that a retry would refuse to adopt
+      if (createdAuthAccount) {
+        await adminAuth.deleteUser(userId).catch(err => log.error('Failed to remove sign-in account', err));
+      }
+      throw error;
+    }
+
+    await AuditLogger.logAdminAction(
+      'partner_user_provisioned',
+      custodianId,
+      { type: 'user', id: userId, name: email },
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.PARTNER_USER_PROVISIONED,
+        custodianId,
+        apiKeyId,
+        userEmail: email,
+        userId
+      }
+    );
+
+    await dispatchWebhookEvent(custodianId, WEBHOOK_EVENTS.WIDGET_USER_CREATED, {
+      user_id: userId,
+      email,
+      external_user_id: external_user_id || null,
+      auth_type: 'partner_provisioned',
+      source_custodian_id: source_custodian_id || null,
+      destination_custodian_id: destination_custodian_id || custodianId
+    }).catch(error => log.error('Failed to dispatch webhook', error));
+
+    return NextResponse.json({
+      success: true,
+      user: {
+        id: userId,
+        email,
+        name: name || email.split('@')[0],
+        external_user_id: external_user_id || null,
+        host_custodian_id: custodianId
+      },
+      is_new_user: true
+    }, { status: 201, headers: buildRateLimitHeaders(rateLimitResult) });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'partner_user_provisioning_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error in partner user provisioning',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error during user provisioning' },
+      { status: 500 }
+    );
+  }
+}
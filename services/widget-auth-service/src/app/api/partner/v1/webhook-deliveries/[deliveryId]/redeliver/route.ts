@@ -0,0 +1,100 @@
+/**
+ * Manual Webhook Redelivery
+ * POST /api/partner/v1/webhook-deliveries/{deliveryId}/redeliver
+ *
+ * Queues the original event again (same event id and payload) as a new
+ * delivery with a fresh retry budget. Works for dead-lettered deliveries.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticatePartnerRequest, logPartnerAuthFailure } from '@/lib/partner-api-auth';
+import {
+  buildRateLimitHeaders,
+  checkTierRateLimit,
+  rateLimitExceededBody
+} from '@/lib/tier-rate-limits';
+import { redeliverWebhook } from '@/lib/webhooks/webhook-dispatcher';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('PARTNER-API-WEBHOOK-DELIVERIES');
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { deliveryId: string } }
+) {
+  log.info('Redeliver request received');
+
+  try {
+    const auth = await authenticatePartnerRequest(request);
+    if (!auth.success) {
+      await logPartnerAuthFailure(request, auth);
+      return NextResponse.json(
+        auth.body,
+        { status: auth.status, headers: auth.headers }
+      );
+    }
+
+    const { custodianId, custodianData, apiKeyId } = auth.context;
+
+    const rateLimitResult = await checkTierRateLimit(custodianId, custodianData, apiKeyId);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        rateLimitExceededBody(rateLimitResult),
+        { status: 429, headers: buildRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    const result = await redeliverWebhook(custodianId, params.deliveryId);
+    if (!result.success) {
+      return result.error === 'not_found'
+        ? NextResponse.json({ error: 'Delivery not found' }, { status: 404 })
+        : NextResponse.json(
+            { error: 'The webhook endpoint for this delivery was removed or disabled' },
+            { status: 409 }
+          );
+    }
+
+    await AuditLogger.logAdminAction(
+      'partner_webhook_redelivered',
+      custodianId,
+      { type: 'webhook_delivery', id: result.deliveryId, name: 'Webhook Delivery' },
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.INTEGRATION_WEBHOOK_REDELIVERED,
+        custodianId,
+        apiKeyId,
+        originalDeliveryId: params.deliveryId,
+        deliveryId: result.deliveryId
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      delivery_id: result.deliveryId,
+      redelivery_of: params.deliveryId
+    }, { status: 202, headers: buildRateLimitHeaders(rateLimitResult) });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'partner_webhook_redeliver_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error redelivering webhook',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while redelivering webhook' },
+      { status: 500 }
+    );
+  }
+}
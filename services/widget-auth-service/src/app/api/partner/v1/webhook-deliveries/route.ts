@@ -0,0 +1,95 @@
+/**
+ * Partner Webhook Delivery Log
+ * GET /api/partner/v1/webhook-deliveries?webhook_id=&status=&limit=
+ *
+ * Newest deliveries first, with every attempt's status code and error.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticatePartnerRequest, logPartnerAuthFailure } from '@/lib/partner-api-auth';
+import {
+  buildRateLimitHeaders,
+  checkTierRateLimit,
+  rateLimitExceededBody
+} from '@/lib/tier-rate-limits';
+import { listDeliveries, toPublicDelivery } from '@/lib/webhooks/webhook-dispatcher';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import type { WebhookDeliveryStatus } from '@/types/webhook-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('PARTNER-API-WEBHOOK-DELIVERIES');
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'dead_lettered'];
+
+export async function GET(request: NextRequest) {
+  log.info('GET request received');
+
+  try {
+    const auth = await authenticatePartnerRequest(request);
+    if (!auth.success) {
+      await logPartnerAuthFailure(request, auth);
+      return NextResponse.json(
+        auth.body,
+        { status: auth.status, headers: auth.headers }
+      );
+    }
+
+    const { custodianId, custodianData, apiKeyId } = auth.context;
+
+    const rateLimitResult = await checkTierRateLimit(custodianId, custodianData, apiKeyId);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        rateLimitExceededBody(rateLimitResult),
+        { status: 429, headers: buildRateLimitHeaders(rateLimitResult) }
+      );
+    }
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status');
+    const limit = parseInt(searchParams.get('limit') || '25', 10);
+
+    if (status && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${DELIVERY_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const deliveries = await listDeliveries(custodianId, {
+      webhookId: searchParams.get('webhook_id') || undefined,
+      status: (status as WebhookDeliveryStatus) || undefined,
+      limit: Number.isFinite(limit) && limit > 0 ? limit : 25
+    });
+
+    return NextResponse.json({
+      success: true,
+      deliveries: deliveries.map(toPublicDelivery)
+    }, {
+      headers: {
+        'Cache-Control': 'no-store',
+        ...buildRateLimitHeaders(rateLimitResult)
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'partner_webhook_delivery_list_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error listing webhook deliveries',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while listing webhook deliveries' },
+      { status: 500 }
+    );
+  }
+}
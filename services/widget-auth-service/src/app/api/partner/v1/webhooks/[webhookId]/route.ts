@@ -0,0 +1,118 @@
+/**
+ * Partner Webhook Endpoint Removal
+ * DELETE /api/partner/v1/webhooks/{webhookId}
+ *
+ * Pending retries for the endpoint are dead-lettered on their next attempt.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminApp } from '@/lib/firebase-admin';
+import { authenticatePartnerRequest, logPartnerAuthFailure } from '@/lib/partner-api-auth';
+import {
+  buildRateLimitHeaders,
+  checkTierRateLimit,
+  rateLimitExceededBody
+} from '@/lib/tier-rate-limits';
+import { getWebhookEndpoints } from '@/lib/webhooks/webhook-dispatcher';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import type { WebhookEndpoint } from '@/types/webhook-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('PARTNER-API-WEBHOOKS');
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { webhookId: string } }
+) {
+  log.info('DELETE request received');
+
+  try {
+    const auth = await authenticatePartnerRequest(request);
+    if (!auth.success) {
+      await logPartnerAuthFailure(request, auth);
+      return NextResponse.json(
+        auth.body,
+        { status: auth.status, headers: auth.headers }
+      );
+    }
+
+    const { custodianId, custodianData, apiKeyId } = auth.context;
+
+    const rateLimitResult = await checkTierRateLimit(custodianId, custodianData, apiKeyId);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        rateLimitExceededBody(rateLimitResult),
+        { status: 429, headers: buildRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    const { adminDb } = requireAdminApp();
+    const custodianRef = adminDb.collection('custodians').doc(custodianId);
+
+    const removed = await adminDb.runTransaction(async (transaction) => {
+      const custodianDoc = await transaction.get(custodianRef);
+      const webhooks: WebhookEndpoint[] = getWebhookEndpoints(custodianDoc.data());
+      const target = webhooks.find(webhook => webhook.id === params.webhookId);
+
+      if (!target) {
+        return null;
+      }
+
+      transaction.update(custodianRef, {
+        'integrationConfig.webhooks': webhooks.filter(webhook => webhook.id !== params.webhookId)
+      });
+      return target;
+    });
+
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    await AuditLogger.logAdminAction(
+      'partner_webhook_deleted',
+      custodianId,
+      { type: 'webhook', id: removed.id, name: removed.url },
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.INTEGRATION_WEBHOOK_DELETED,
+        custodianId,
+        apiKeyId,
+        webhookId: removed.id,
+        url: removed.url
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      webhook_id: removed.id,
+      deleted_at: new Date().toISOString()
+    }, {
+      headers: buildRateLimitHeaders(rateLimitResult)
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'partner_webhook_delete_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error deleting partner webhook',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while deleting webhook' },
+      { status: 500 }
+    );
+  }
+}
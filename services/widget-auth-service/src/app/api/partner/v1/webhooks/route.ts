@@ -0,0 +1,210 @@
+/**
+ * Partner Webhook Endpoints
+ * GET  /api/partner/v1/webhooks - list registered endpoints
+ * POST /api/partner/v1/webhooks - register an endpoint
+ *
+ * The signing secret is returned once, on registration. Deliveries are signed
+ * as described in lib/webhooks/webhook-dispatcher.ts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminApp } from '@/lib/firebase-admin';
+import { authenticatePartnerRequest, logPartnerAuthFailure } from '@/lib/partner-api-auth';
+import {
+  buildRateLimitHeaders,
+  checkTierRateLimit,
+  rateLimitExceededBody
+} from '@/lib/tier-rate-limits';
+import {
+  MAX_WEBHOOKS_PER_CUSTODIAN,
+  createWebhookEndpoint,
+  getWebhookEndpoints,
+  toPublicWebhookEndpoint,
+  validateWebhookEvents,
+  validateWebhookUrl
+} from '@/lib/webhooks/webhook-dispatcher';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { ALL_WEBHOOK_EVENTS, type WebhookEndpoint } from '@/types/webhook-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('PARTNER-API-WEBHOOKS');
+
+export async function GET(request: NextRequest) {
+  log.info('GET request received');
+
+  try {
+    const auth = await authenticatePartnerRequest(request);
+    if (!auth.success) {
+      await logPartnerAuthFailure(request, auth);
+      return NextResponse.json(
+        auth.body,
+        { status: auth.status, headers: auth.headers }
+      );
+    }
+
+    const { custodianId, custodianData, apiKeyId } = auth.context;
+
+    const rateLimitResult = await checkTierRateLimit(custodianId, custodianData, apiKeyId);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        rateLimitExceededBody(rateLimitResult),
+        { status: 429, headers: buildRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      webhooks: getWebhookEndpoints(custodianData).map(toPublicWebhookEndpoint),
+      available_events: ALL_WEBHOOK_EVENTS
+    }, {
+      headers: {
+        'Cache-Control': 'no-store',
+        ...buildRateLimitHeaders(rateLimitResult)
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'partner_webhook_list_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error listing partner webhooks',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while listing webhooks' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  log.info('POST request received');
+
+  try {
+    const auth = await authenticatePartnerRequest(request);
+    if (!auth.success) {
+      await logPartnerAuthFailure(request, auth);
+      return NextResponse.json(
+        auth.body,
+        { status: auth.status, headers: auth.headers }
+      );
+    }
+
+    const { custodianId, custodianData, apiKeyId, body } = auth.context;
+
+    const rateLimitResult = await checkTierRateLimit(custodianId, custodianData, apiKeyId);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        rateLimitExceededBody(rateLimitResult),
+        { status: 429, headers: buildRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    const { url, events } = body || {};
+
+    const urlCheck = validateWebhookUrl(url);
+    if (!urlCheck.valid) {
+      return NextResponse.json(
+        { error: urlCheck.error },
+        { status: 400 }
+      );
+    }
+
+    if (!validateWebhookEvents(events)) {
+      return NextResponse.json(
+        {
+          error: 'events must be a non-empty array of supported event types or "*"',
+          available_events: ALL_WEBHOOK_EVENTS
+        },
+        { status: 400 }
+      );
+    }
+
+    const endpoint = createWebhookEndpoint(url, events, apiKeyId);
+
+    const { adminDb } = requireAdminApp();
+    const custodianRef = adminDb.collection('custodians').doc(custodianId);
+
+    // Read-modify-write so concurrent registrations don't overwrite each other
+    const limitReached = await adminDb.runTransaction(async (transaction) => {
+      const custodianDoc = await transaction.get(custodianRef);
+      const webhooks: WebhookEndpoint[] = getWebhookEndpoints(custodianDoc.data());
+
+      if (webhooks.length >= MAX_WEBHOOKS_PER_CUSTODIAN) {
+        return true;
+      }
+
+      transaction.update(custodianRef, {
+        'integrationConfig.webhooks': [...webhooks, endpoint]
+      });
+      return false;
+    });
+
+    if (limitReached) {
+      return NextResponse.json(
+        { error: `A partner can register at most ${MAX_WEBHOOKS_PER_CUSTODIAN} webhook endpoints` },
+        { status: 409 }
+      );
+    }
+
+    await AuditLogger.logAdminAction(
+      'partner_webhook_created',
+      custodianId,
+      { type: 'webhook', id: endpoint.id, name: endpoint.url },
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.INTEGRATION_WEBHOOK_CREATED,
+        custodianId,
+        apiKeyId,
+        webhookId: endpoint.id,
+        url: endpoint.url,
+        events: endpoint.events
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      webhook: {
+        ...toPublicWebhookEndpoint(endpoint),
+        secret: endpoint.secret // Only time the secret is returned
+      }
+    }, {
+      status: 201,
+      headers: {
+        'Cache-Control': 'no-store',
+        ...buildRateLimitHeaders(rateLimitResult)
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'partner_webhook_create_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error registering partner webhook',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while registering webhook' },
+      { status: 500 }
+    );
+  }
+}
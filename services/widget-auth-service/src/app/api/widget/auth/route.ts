@@ -5,42 +5,73 @@
  * This endpoint authenticates a widget using a public API key
  * and returns a bearer token for subsequent API calls
  *
+ * A returning user is attached to the session only with a Firebase ID token
+ * (user_token) for a verified email; anything else starts an anonymous session.
+ *
  * Extracted from main app for widget auth microservice
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import {
   hashAPIKey,
+  isAPIKeyUsable,
   isPublicKey,
   getKeyEnvironment,
   isValidAPIKeyFormat
 } from '@/lib/api-keys-server';
 import {
   createWidgetSession,
-  generateBearerToken
+  generateBearerToken,
+  issueRefreshToken,
+  resolveTokenPermissions,
+  verifyUserIdToken,
+  type WidgetSessionUser
 } from '@/lib/widget-auth-server';
+import { recordAPIKeyUsage } from '@/lib/api-key-management';
 import { requireAdminApp } from '@/lib/firebase-admin';
-import { apiRateLimiter } from '@/lib/rate-limiter';
+import { apiRateLimiter, API_RATE_LIMIT_PER_MINUTE } from '@/lib/rate-limiter';
+import {
+  buildRateLimitHeaders,
+  checkTierRateLimit,
+  rateLimitExceededBody
+} from '@/lib/tier-rate-limits';
+import {
+  buildCorsHeaders,
+  checkOrigin,
+  getAllowedDomains,
+  logOriginRejection,
+  normalizeOrigin
+} from '@/lib/origin-allowlist';
+import { buildStatusRejection, resolveCustodianStatus } from '@/lib/custodian-status';
+import { enforceSessionLimit, getSessionPolicy } from '@/lib/session-binding';
+import { getClientIP } from '@/lib/secure-ip-detection';
 import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { dispatchWebhookEvent } from '@/lib/webhooks/webhook-dispatcher';
 import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { WEBHOOK_EVENTS } from '@/types/webhook-events';
+import { assessRisk, buildRiskRejection, recordFailedPartnerId } from '@/lib/anomaly/anomaly-detector';
+import { createLogger } from '@/lib/logger';
+import { maskApiKey } from '@/lib/redaction';
+
+const log = createLogger('WIDGET-AUTH');
 
 export async function POST(request: NextRequest) {
-  console.log('[WIDGET-AUTH] POST request received');
+  log.info('POST request received');
 
-  // Set CORS headers for the response
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, X-TrustRails-API-Key, X-TrustRails-Partner-ID',
-  };
+  // Set CORS headers for the response - echo the exact origin, never '*'
+  const corsHeaders = buildCorsHeaders(
+    normalizeOrigin(request.headers.get('origin')),
+    'POST, OPTIONS',
+    'Content-Type, X-TrustRails-API-Key, X-TrustRails-Partner-ID'
+  );
 
   try {
     // Extract API key from header
     const apiKey = request.headers.get('X-TrustRails-API-Key');
     const partnerId = request.headers.get('X-TrustRails-Partner-ID');
 
-    console.log('[WIDGET-AUTH] Headers:', {
-      apiKey: apiKey ? `${apiKey.substring(0, 20)}...` : 'missing',
+    log.debug('Headers', {
+      apiKeyPrefix: apiKey ? maskApiKey(apiKey) : 'missing',
       partnerId: partnerId || 'missing'
     });
 
@@ -74,23 +105,15 @@ export async function POST(request: NextRequest) {
     const userAgent = request.headers.get('user-agent') || 'unknown';
     const origin = request.headers.get('origin') || 'unknown';
 
-    // Apply rate limiting
-    const rateLimitResult = await apiRateLimiter.check(`widget_auth_${ipAddress}`);
-    if (!rateLimitResult.success) {
+    // Per-IP guard before any credential lookups; the partner's own limit applies once the key is known
+    const ipRateLimitResult = {
+      ...(await apiRateLimiter.check(`widget_auth_${ipAddress}`)),
+      limit: API_RATE_LIMIT_PER_MINUTE
+    };
+    if (!ipRateLimitResult.success) {
       return NextResponse.json(
-        {
-          error: 'Rate limit exceeded',
-          retryAfter: Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)
-        },
-        {
-          status: 429,
-          headers: {
-            ...corsHeaders,
-            'X-RateLimit-Limit': '100',
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString()
-          }
-        }
+        rateLimitExceededBody(ipRateLimitResult),
+        { status: 429, headers: { ...corsHeaders, ...buildRateLimitHeaders(ipRateLimitResult) } }
       );
     }
 
@@ -107,7 +130,8 @@ export async function POST(request: NextRequest) {
       .get();
 
     if (!custodianDoc.exists) {
-      console.log('[WIDGET-AUTH] No custodian found with ID:', partnerId);
+      log.warn('No custodian found', { partnerId });
+      await recordFailedPartnerId(request);
       // Log failed authentication attempt
       await AuditLogger.logAuthentication(
         'failed',
@@ -128,15 +152,27 @@ export async function POST(request: NextRequest) {
     }
 
     const custodianData = custodianDoc.data();
-    console.log('[WIDGET-AUTH] Found custodian:', custodianDoc.id, 'Name:', custodianData?.name);
+    log.debug('Found custodian', { custodianId: custodianDoc.id, name: custodianData?.name });
+
+    // Blocked fingerprints stop here; widget auth has no one present to solve a challenge
+    const risk = await assessRisk(request, { action: 'widget_auth', custodianId: partnerId });
+    if (risk.decision === 'block') {
+      const rejection = buildRiskRejection(risk);
+      return NextResponse.json(rejection.body, {
+        status: rejection.status,
+        headers: { ...corsHeaders, ...rejection.headers }
+      });
+    }
 
-    // Check if custodian is active (payment/compliance status)
-    if (custodianData?.status !== 'active') {
-      // Return generic message to avoid exposing internal status
-      return NextResponse.json(
-        { error: 'Service temporarily unavailable. Please try again later.' },
-        { status: 503, headers: corsHeaders }
-      );
+    // Check if custodian is active (payment/compliance status, maintenance windows)
+    const partnerStatus = resolveCustodianStatus(custodianData);
+    if (partnerStatus.status !== 'active') {
+      // The widget maps the code to its own copy; internal notes are never returned
+      const rejection = buildStatusRejection(partnerStatus);
+      return NextResponse.json(rejection.body, {
+        status: rejection.status,
+        headers: { ...corsHeaders, ...rejection.headers }
+      });
     }
 
     // Check if widget integration is enabled
@@ -148,17 +184,16 @@ export async function POST(request: NextRequest) {
     }
 
     // Find matching API key in integrationConfig.apiKeys (the proper structured approach)
+    // Rotated keys keep working until their overlap window ends
     const apiKeys = custodianData?.integrationConfig?.apiKeys || [];
     const matchingKey = apiKeys.find(
       (key: any) => key.hashedKey === hashedKey &&
-                    key.status === 'active' &&
+                    isAPIKeyUsable(key) &&
                     key.type === 'public'
     );
 
     if (!matchingKey) {
-      console.log('[WIDGET-AUTH] No matching API key found');
-      console.log('[WIDGET-AUTH] Available keys in integrationConfig.apiKeys:', apiKeys.length);
-      console.log('[WIDGET-AUTH] Provided key hash:', hashedKey.substring(0, 20) + '...');
+      log.warn('No matching API key found', { partnerId, availableKeys: apiKeys.length });
 
       // Log failed authentication attempt
       await AuditLogger.logAuthentication(
@@ -179,45 +214,111 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log('[WIDGET-AUTH] Found matching API key:', matchingKey.id);
+    log.debug('Found matching API key', { keyId: matchingKey.id });
 
-    // Update last used timestamp for the API key
-    const keyIndex = apiKeys.findIndex((k: any) => k.id === matchingKey.id);
-    if (keyIndex !== -1) {
-      apiKeys[keyIndex].lastUsedAt = new Date().toISOString();
-      await custodianDoc.ref.update({
-        'integrationConfig.apiKeys': apiKeys
+    // Get environment from API key
+    const environment = getKeyEnvironment(apiKey);
+
+    // Enforce the partner's registered embedding domains
+    const originCheck = checkOrigin(
+      request.headers.get('origin'),
+      getAllowedDomains(custodianData),
+      environment
+    );
+    if (!originCheck.allowed) {
+      log.warn('Origin rejected', { reason: originCheck.reason });
+      const rejection = await logOriginRejection(request, partnerId, originCheck, environment);
+      return NextResponse.json(rejection, {
+        status: 403,
+        headers: buildCorsHeaders(null, 'POST, OPTIONS', 'Content-Type, X-TrustRails-API-Key, X-TrustRails-Partner-ID')
       });
     }
 
+    // Apply the key's rate limit (custodian tier unless the key has its own)
+    const rateLimitResult = await checkTierRateLimit(partnerId, custodianData, matchingKey.id);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        rateLimitExceededBody(rateLimitResult),
+        { status: 429, headers: { ...corsHeaders, ...buildRateLimitHeaders(rateLimitResult) } }
+      );
+    }
+
+    // Update last used timestamp for the API key in the background (never fail authentication over it)
+    recordAPIKeyUsage(partnerId, matchingKey.id).catch(error =>
+      log.error('Failed to record API key usage', error)
+    );
+
     // Parse request body for additional data
-    console.log('[WIDGET-AUTH] Parsing request body...');
+    log.info('Parsing request body...');
     const body = await request.json();
     const { widget_version, user_token } = body;
 
+    // Token scopes come from the key's permissions array
+    const permissions = resolveTokenPermissions(matchingKey.permissions);
+
+    // The browser can send anything here, so only a verified ID token names the user
+    let user: WidgetSessionUser | undefined;
+    if (user_token) {
+      const userId = typeof user_token === 'string' ? await verifyUserIdToken(user_token) : null;
+      if (userId) {
+        user = { userId, authMethod: 'id_token' };
+      } else {
+        await AuditLogger.logSecurityEvent(
+          'widget_user_token_rejected',
+          AuditSeverity.WARNING,
+          'Returning user token rejected; session created without a user',
+          undefined,
+          request,
+          {
+            eventType: SOC2_AUDIT_EVENTS.WIDGET_AUTH_FAILURE,
+            reason: 'invalid_user_token',
+            custodianId: partnerId,
+            ipAddress
+          }
+        );
+      }
+    }
+
     // Create widget session
-    console.log('[WIDGET-AUTH] Creating widget session...');
+    log.info('Creating widget session...');
     const session = await createWidgetSession(
       partnerId,
       hashedKey,
-      ipAddress,
+      getClientIP(request), // Compared on later requests when the partner binds sessions to the device
       userAgent,
-      origin,
-      user_token // Optional user ID if returning user
+      originCheck.origin || origin,
+      user,
+      environment || undefined,
+      permissions,
+      matchingKey.id
     );
-    console.log('[WIDGET-AUTH] Session created:', session.sessionId);
+    log.info('Session created', { sessionId: session.sessionId });
+
+    // Returning users keep at most the partner's session limit; the oldest are signed out
+    if (user) {
+      await enforceSessionLimit(
+        user.userId,
+        session.sessionId,
+        getSessionPolicy(custodianData).maxSessionsPerUser,
+        request
+      );
+    }
 
     // Generate bearer token
-    console.log('[WIDGET-AUTH] Generating bearer token...');
+    log.info('Generating bearer token...');
     const bearerToken = generateBearerToken(
       session.sessionId,
       partnerId,
-      user_token
+      user?.userId,
+      '24h',
+      environment || undefined,
+      permissions,
+      matchingKey.id
     );
-    console.log('[WIDGET-AUTH] Bearer token generated successfully');
+    log.info('Bearer token generated successfully');
 
-    // Get environment from API key
-    const environment = getKeyEnvironment(apiKey);
+    // Issue a one-time-use refresh token so the widget can extend the session
+    const refreshToken = await issueRefreshToken(session.sessionId);
 
     // Log successful authentication for audit
     await AuditLogger.logAuthentication(
@@ -251,12 +352,23 @@ export async function POST(request: NextRequest) {
       }
     );
 
+    // Notify the partner; a webhook failure must not fail authentication
+    await dispatchWebhookEvent(partnerId, WEBHOOK_EVENTS.WIDGET_SESSION_CREATED, {
+      session_id: session.sessionId,
+      user_id: user?.userId || null,
+      origin: originCheck.origin || origin,
+      environment,
+      expires_at: session.expiresAt.toISOString()
+    }).catch(error => log.error('Failed to dispatch webhook', error));
+
     return NextResponse.json({
       success: true,
       session_id: session.sessionId,
       bearer_token: bearerToken,
+      refresh_token: refreshToken,
       expires_at: session.expiresAt.toISOString(),
       environment,
+      user_authenticated: Boolean(user),
       custodian: {
         id: partnerId,
         name: custodianData.name,
@@ -277,22 +389,13 @@ export async function POST(request: NextRequest) {
       status: 200,
       headers: {
         ...corsHeaders,
-        'X-RateLimit-Limit': '100',
-        'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-        'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString()
+        ...buildRateLimitHeaders(rateLimitResult)
       }
     });
 
   } catch (error) {
     // Log the actual error for debugging
-    console.error('[WIDGET-AUTH] Authentication error:', error);
-    console.error('[WIDGET-AUTH] Error stack:', error instanceof Error ? error.stack : 'No stack trace');
-    console.error('[WIDGET-AUTH] Error details:', {
-      message: error instanceof Error ? error.message : 'Unknown error',
-      name: error instanceof Error ? error.name : 'Unknown',
-      code: (error as any)?.code,
-      details: (error as any)?.details
-    });
+    log.error('Authentication error', error, { details: (error as any)?.details });
 
     // Log system error (don't await in catch block to avoid blocking)
     AuditLogger.logSecurityEvent(
@@ -305,7 +408,7 @@ export async function POST(request: NextRequest) {
         eventType: SOC2_AUDIT_EVENTS.WIDGET_AUTH_FAILURE,
         error: error instanceof Error ? error.stack : String(error)
       }
-    ).catch(err => console.error('[WIDGET-AUTH] Failed to log error:', err));
+    ).catch(err => log.error('Failed to log error', err));
 
     return NextResponse.json(
       { error: 'Internal server error during authentication' },
@@ -315,13 +418,16 @@ export async function POST(request: NextRequest) {
 }
 
 // OPTIONS request for CORS preflight
+// Preflights carry no partner credentials, so the allowlist is enforced on POST
 export async function OPTIONS(request: NextRequest) {
   return new NextResponse(null, {
     status: 200,
     headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, X-TrustRails-API-Key, X-TrustRails-Partner-ID',
+      ...buildCorsHeaders(
+        normalizeOrigin(request.headers.get('origin')),
+        'POST, OPTIONS',
+        'Content-Type, X-TrustRails-API-Key, X-TrustRails-Partner-ID'
+      ),
       'Access-Control-Max-Age': '86400',
     },
   });
@@ -9,44 +9,53 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyBearerToken, createOrGetRolloverUser } from '@/lib/widget-auth-server';
+import {
+  createOrGetRolloverUser,
+  getVerifiedUserId,
+  WIDGET_PERMISSIONS,
+  type WidgetAuthMethod
+} from '@/lib/widget-auth-server';
+import { authorizeWidgetRequest } from '@/lib/widget-request-auth';
 import { requireAdminApp } from '@/lib/firebase-admin';
 import { multiRateLimiter } from '@/lib/multi-rate-limiter';
 import { getClientIP, getIPFingerprint } from '@/lib/secure-ip-detection';
+import { buildCorsHeaders, normalizeOrigin } from '@/lib/origin-allowlist';
+import { enforceSessionLimit, getSessionPolicy } from '@/lib/session-binding';
+import { getOAuthVerifier } from '@/lib/oauth/providers';
+import { sendMagicLink } from '@/lib/magic-link';
+import { buildRateLimitHeaders, rateLimitExceededBody } from '@/lib/tier-rate-limits';
 import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { dispatchWebhookEvent } from '@/lib/webhooks/webhook-dispatcher';
 import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { WEBHOOK_EVENTS } from '@/types/webhook-events';
+import { assessRisk, buildRiskRejection } from '@/lib/anomaly/anomaly-detector';
+import { createLogger } from '@/lib/logger';
 
-export async function POST(request: NextRequest) {
-  console.log('[WIDGET-CREATE-ACCOUNT] POST request received');
+const log = createLogger('WIDGET-CREATE-ACCOUNT');
 
-  // Set CORS headers for the response
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-TrustRails-Partner-ID',
-  };
+const CORS_METHODS = 'POST, OPTIONS';
+const CORS_ALLOW_HEADERS = 'Content-Type, Authorization, X-TrustRails-Partner-ID, X-TrustRails-Challenge';
 
-  try {
-    // Extract bearer token from Authorization header
-    const authHeader = request.headers.get('Authorization');
-    console.log('[WIDGET-CREATE-ACCOUNT] Auth header:', authHeader ? 'present' : 'missing');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Missing or invalid Authorization header' },
-        { status: 401, headers: corsHeaders }
-      );
-    }
+export async function POST(request: NextRequest) {
+  log.info('POST request received');
 
-    const bearerToken = authHeader.substring(7); // Remove 'Bearer ' prefix
+  // Set CORS headers for the response - echo the exact origin, never '*'
+  const corsHeaders = buildCorsHeaders(
+    normalizeOrigin(request.headers.get('origin')),
+    CORS_METHODS,
+    CORS_ALLOW_HEADERS
+  );
 
-    // Verify bearer token
-    const tokenPayload = await verifyBearerToken(bearerToken);
-    if (!tokenPayload) {
-      return NextResponse.json(
-        { error: 'Invalid or expired bearer token' },
-        { status: 401, headers: corsHeaders }
-      );
+  try {
+    const authorization = await authorizeWidgetRequest(request, {
+      scope: WIDGET_PERMISSIONS.WIDGET_WRITE,
+      cors: { methods: CORS_METHODS, allowHeaders: CORS_ALLOW_HEADERS }
+    });
+    if (!authorization.success) {
+      return authorization.response;
     }
+    const { payload: tokenPayload, custodianData, origin, rateLimit: tierRateLimitResult } = authorization.context;
+    const { adminAuth, adminDb } = requireAdminApp();
 
     // Get secure client IP with spoofing protection
     const ipAddress = getClientIP(request);
@@ -60,7 +69,7 @@ export async function POST(request: NextRequest) {
       password,
       oauth_token,
       provider,
-      profile,
+      nonce,
       source_custodian_id,
       destination_custodian_id,
       transfer_amount
@@ -111,23 +120,34 @@ export async function POST(request: NextRequest) {
 
       return NextResponse.json(
         {
-          error: errorMessage,
-          retryAfter: Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)
+          ...rateLimitExceededBody(rateLimitResult),
+          error: errorMessage
         },
         {
           status: 429,
           headers: {
             ...corsHeaders,
-            'X-RateLimit-Limit': rateLimitResult.failedCheck || 'multiple',
-            'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-            'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString(),
-            'Retry-After': Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000).toString()
+            ...buildRateLimitHeaders(rateLimitResult)
           }
         }
       );
     }
 
-    const { adminAuth, adminDb } = requireAdminApp();
+    // Score the request for sign-up abuse; risky requests need a CAPTCHA or are blocked
+    const risk = await assessRisk(request, {
+      action: 'create_account',
+      email,
+      custodianId: tokenPayload.custodianId,
+      sessionId: tokenPayload.sessionId
+    });
+    if (risk.decision !== 'allow') {
+      const rejection = buildRiskRejection(risk);
+      return NextResponse.json(rejection.body, {
+        status: rejection.status,
+        headers: { ...corsHeaders, ...rejection.headers }
+      });
+    }
+
     let userId: string;
     let isNewUser = false;
 
@@ -140,12 +160,65 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Verify OAuth token with provider (simplified - in production, verify with actual provider)
-      // For now, trust the provided profile data
+      const verifier = getOAuthVerifier(String(provider));
+      if (!verifier) {
+        return NextResponse.json(
+          { error: `Unsupported OAuth provider: ${provider}` },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+
+      // oauth_token is the provider's ID token; the profile comes from its verified claims
+      const verification = await verifier.verify(String(oauth_token), {
+        nonce: typeof nonce === 'string' ? nonce : undefined
+      });
+
+      // The token must belong to the email the account is created for
+      const emailMismatch = verification.success &&
+        verification.identity.email !== String(email).toLowerCase();
+
+      if (!verification.success || emailMismatch) {
+        const reason = verification.success ? 'email_mismatch' : verification.reason;
+        await AuditLogger.logSecurityEvent(
+          'widget_oauth_verification_failed',
+          AuditSeverity.WARNING,
+          `OAuth ID token rejected: ${reason}`,
+          undefined,
+          request,
+          {
+            eventType: SOC2_AUDIT_EVENTS.WIDGET_OAUTH_VERIFICATION_FAILURE,
+            custodianId: tokenPayload.custodianId,
+            sessionId: tokenPayload.sessionId,
+            provider: verifier.provider,
+            reason,
+            ipAddress
+          }
+        );
+
+        // Provider outages are retryable; everything else is a bad token
+        return verification.success || verification.reason !== 'jwks_unavailable'
+          ? NextResponse.json(
+              {
+                error: verification.success
+                  ? 'OAuth account email does not match'
+                  : verification.error,
+                code: 'OAUTH_VERIFICATION_FAILED'
+              },
+              { status: 401, headers: corsHeaders }
+            )
+          : NextResponse.json(
+              { error: 'Identity provider unavailable. Please try again.' },
+              { status: 503, headers: corsHeaders }
+            );
+      }
+
       userId = await createOrGetRolloverUser(
-        email,
-        provider,
-        profile || {},
+        verification.identity.email,
+        verifier.provider,
+        {
+          name: verification.identity.name,
+          picture: verification.identity.picture
+        },
         tokenPayload.custodianId
       );
 
@@ -214,8 +287,16 @@ export async function POST(request: NextRequest) {
           authType: 'email'
         });
 
-        // Send verification email (in production)
-        // await adminAuth.generateEmailVerificationLink(email);
+        // Email a verification link back to the embedding page; sign-up does not wait on delivery
+        sendMagicLink({
+          custodianId: tokenPayload.custodianId,
+          partnerName: custodianData?.name,
+          sessionId: tokenPayload.sessionId,
+          email,
+          purpose: 'verify_email',
+          returnUrl: origin,
+          ipAddress
+        }).catch(error => log.error('Failed to send verification email', error));
       }
     } else {
       return NextResponse.json(
@@ -225,14 +306,28 @@ export async function POST(request: NextRequest) {
     }
 
     // Update widget session with user ID
+    // The email flow never checks an existing account's password, so it does not count as verified
+    const authMethod: WidgetAuthMethod = auth_type === 'oauth' ? 'oauth' : 'password';
     await adminDb
       .collection('widget_sessions')
       .doc(tokenPayload.sessionId)
       .update({
         userId,
+        authMethod,
         authenticatedAt: new Date().toISOString()
       });
 
+    // Signing in here may take the user over the partner's session limit;
+    // only a verified sign-in may sign the user out elsewhere
+    if (getVerifiedUserId({ userId, authMethod })) {
+      await enforceSessionLimit(
+        userId,
+        tokenPayload.sessionId,
+        getSessionPolicy(custodianData).maxSessionsPerUser,
+        request
+      );
+    }
+
     // Get user data
     const userData = (await adminDb.collection('users').doc(userId).get()).data();
 
@@ -260,6 +355,16 @@ export async function POST(request: NextRequest) {
           userId
         }
       );
+
+      // Notify the partner; a webhook failure must not fail account creation
+      await dispatchWebhookEvent(tokenPayload.custodianId, WEBHOOK_EVENTS.WIDGET_USER_CREATED, {
+        user_id: userId,
+        email,
+        session_id: tokenPayload.sessionId,
+        auth_type: auth_type,
+        source_custodian_id: source_custodian_id || null,
+        destination_custodian_id: destination_custodian_id || tokenPayload.custodianId
+      }).catch(error => log.error('Failed to dispatch webhook', error));
     } else {
       // Log user login
       await AuditLogger.logAuthentication(
@@ -334,22 +439,19 @@ export async function POST(request: NextRequest) {
       status: isNewUser ? 201 : 200,
       headers: {
         ...corsHeaders,
-        'X-RateLimit-Limit': 'multiple',
-        'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-        'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString()
+        ...buildRateLimitHeaders(tierRateLimitResult)
       }
     });
 
   } catch (error) {
-    console.error('[WIDGET-CREATE-ACCOUNT] Error:', error);
-    console.error('[WIDGET-CREATE-ACCOUNT] Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+    log.error('Request failed', error);
 
     // Ensure CORS headers are always returned, even on error
-    const corsHeaders = {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-TrustRails-Partner-ID',
-    };
+    const corsHeaders = buildCorsHeaders(
+      normalizeOrigin(request.headers.get('origin')),
+      'POST, OPTIONS',
+      'Content-Type, Authorization, X-TrustRails-Partner-ID, X-TrustRails-Challenge'
+    );
 
     // Log system error (don't await in catch block to avoid blocking)
     AuditLogger.logSecurityEvent(
@@ -362,7 +464,7 @@ export async function POST(request: NextRequest) {
         eventType: SOC2_AUDIT_EVENTS.WIDGET_AUTH_FAILURE,
         error: error instanceof Error ? error.stack : String(error)
       }
-    ).catch(err => console.error('[WIDGET-CREATE-ACCOUNT] Failed to log error:', err));
+    ).catch(err => log.error('Failed to log error', err));
 
     return NextResponse.json(
       { error: 'Internal server error during account creation' },
@@ -373,13 +475,15 @@ export async function POST(request: NextRequest) {
 
 // OPTIONS request for CORS preflight
 export async function OPTIONS(request: NextRequest) {
-  console.log('[WIDGET-CREATE-ACCOUNT] OPTIONS request received');
+  log.info('OPTIONS request received');
   return new NextResponse(null, {
     status: 200,
     headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-TrustRails-Partner-ID',
+      ...buildCorsHeaders(
+        normalizeOrigin(request.headers.get('origin')),
+        CORS_METHODS,
+        CORS_ALLOW_HEADERS
+      ),
       'Access-Control-Max-Age': '86400',
     },
   });
@@ -9,10 +9,18 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyBearerToken } from '@/lib/widget-auth-server';
+import { WIDGET_PERMISSIONS } from '@/lib/widget-auth-server';
+import { authorizeWidgetRequest } from '@/lib/widget-request-auth';
 import { requireAdminApp } from '@/lib/firebase-admin';
-import { apiRateLimiter } from '@/lib/rate-limiter';
+import { buildRateLimitHeaders } from '@/lib/tier-rate-limits';
+import { buildCorsHeaders, normalizeOrigin } from '@/lib/origin-allowlist';
 import { AuditLogger } from '@/lib/audit/unified-audit-logger';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('WIDGET-CUSTODIANS');
+
+const CORS_METHODS = 'GET, OPTIONS';
+const CORS_ALLOW_HEADERS = 'Content-Type, Authorization';
 
 export interface PublicCustodianInfo {
   id: string;
@@ -29,59 +37,31 @@ export interface PublicCustodianInfo {
 }
 
 export async function GET(request: NextRequest) {
-  console.log('[WIDGET-CUSTODIANS] GET request received');
+  log.info('GET request received');
 
-  // Set CORS headers for the response
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-  };
+  // Set CORS headers for the response - echo the exact origin, never '*'
+  const corsHeaders = buildCorsHeaders(
+    normalizeOrigin(request.headers.get('origin')),
+    CORS_METHODS,
+    CORS_ALLOW_HEADERS
+  );
 
   try {
-    // Extract bearer token from Authorization header
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Missing or invalid Authorization header' },
-        { status: 401, headers: corsHeaders }
-      );
-    }
-
-    const bearerToken = authHeader.substring(7); // Remove 'Bearer ' prefix
-
-    // Verify bearer token (this validates the partner but allows anonymous browsing)
-    const tokenPayload = await verifyBearerToken(bearerToken);
-    if (!tokenPayload) {
-      return NextResponse.json(
-        { error: 'Invalid or expired bearer token' },
-        { status: 401, headers: corsHeaders }
-      );
-    }
-
-    // Apply rate limiting
-    const ipAddress = request.headers.get('x-forwarded-for') ||
-                     request.headers.get('x-real-ip') ||
-                     '127.0.0.1';
-
-    const rateLimitResult = await apiRateLimiter.check(`widget_custodians_${ipAddress}`);
-    if (!rateLimitResult.success) {
-      return NextResponse.json(
-        {
-          error: 'Rate limit exceeded',
-          retryAfter: Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)
-        },
-        { status: 429, headers: corsHeaders }
-      );
+    const authorization = await authorizeWidgetRequest(request, {
+      scope: WIDGET_PERMISSIONS.WIDGET_READ,
+      cors: { methods: CORS_METHODS, allowHeaders: CORS_ALLOW_HEADERS }
+    });
+    if (!authorization.success) {
+      return authorization.response;
     }
+    const { payload: tokenPayload, custodianData, rateLimit: rateLimitResult } = authorization.context;
+    const { adminDb } = requireAdminApp();
 
     // Parse query parameters
     const url = new URL(request.url);
     const custodianType = url.searchParams.get('type'); // 'source' or 'destination' or null for all
     const search = url.searchParams.get('search'); // Search by name
 
-    const { adminDb } = requireAdminApp();
-
     // Query custodians - only return verified/active ones for public browsing
     let custodiansQuery = adminDb
       .collection('custodians')
@@ -129,16 +109,11 @@ export async function GET(request: NextRequest) {
     custodians.sort((a, b) => a.name.localeCompare(b.name));
 
     // Get the host custodian info (where the widget is embedded)
-    const hostCustodianDoc = await adminDb
-      .collection('custodians')
-      .doc(tokenPayload.custodianId)
-      .get();
-
     let hostCustodian: PublicCustodianInfo | null = null;
-    if (hostCustodianDoc.exists) {
-      const hostData = hostCustodianDoc.data();
+    if (custodianData) {
+      const hostData = custodianData;
       hostCustodian = {
-        id: hostCustodianDoc.id,
+        id: tokenPayload.custodianId,
         name: hostData?.name || 'Unknown Host',
         type: hostData?.type || 'custodian',
         logo_url: hostData?.logoUrl,
@@ -181,22 +156,20 @@ export async function GET(request: NextRequest) {
       status: 200,
       headers: {
         ...corsHeaders,
-        'X-RateLimit-Limit': '100',
-        'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-        'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString(),
-        'Cache-Control': 'public, max-age=300' // 5 minute cache
+        ...buildRateLimitHeaders(rateLimitResult),
+        'Cache-Control': 'private, max-age=300' // 5 minute cache, per-origin response
       }
     });
 
   } catch (error) {
-    console.error('[WIDGET-CUSTODIANS] Error:', error);
+    log.error('Request failed', error);
 
     // Ensure CORS headers are always returned, even on error
-    const corsHeaders = {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    };
+    const corsHeaders = buildCorsHeaders(
+      normalizeOrigin(request.headers.get('origin')),
+      'GET, OPTIONS',
+      'Content-Type, Authorization'
+    );
 
     return NextResponse.json(
       { error: 'Internal server error while fetching custodians' },
@@ -207,13 +180,15 @@ export async function GET(request: NextRequest) {
 
 // OPTIONS request for CORS preflight
 export async function OPTIONS(request: NextRequest) {
-  console.log('[WIDGET-CUSTODIANS] OPTIONS request received');
+  log.info('OPTIONS request received');
   return new NextResponse(null, {
     status: 200,
     headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      ...buildCorsHeaders(
+        normalizeOrigin(request.headers.get('origin')),
+        CORS_METHODS,
+        CORS_ALLOW_HEADERS
+      ),
       'Access-Control-Max-Age': '86400',
     },
   });
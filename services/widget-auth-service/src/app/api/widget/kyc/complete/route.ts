@@ -0,0 +1,228 @@
+/**
+ * Widget KYC Completion Endpoint
+ * POST /api/widget/kyc/complete
+ *
+ * Called by the widget when the Persona inquiry finishes. The status the
+ * browser reports is confirmed with Persona (PERSONA_API_KEY) before it is
+ * stored as kycStatus and the partner is notified (widget.kyc.completed).
+ * Without a confirmation the user is marked 'reported_by_client' and no
+ * webhook is sent.
+ *
+ * Accepts both widget payloads:
+ *   { inquiryId, status }                     (trustrails-widget)
+ *   { personaId, kycStatus, userId, ... }     (hierarchical search widget)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WIDGET_PERMISSIONS } from '@/lib/widget-auth-server';
+import { authorizeWidgetRequest } from '@/lib/widget-request-auth';
+import { requireAdminApp } from '@/lib/firebase-admin';
+import { buildCorsHeaders, normalizeOrigin } from '@/lib/origin-allowlist';
+import { fetchPersonaInquiry, toKycStatus } from '@/lib/kyc/persona';
+import { findPartnerUser } from '@/lib/privacy/data-subject';
+import { buildRateLimitHeaders } from '@/lib/tier-rate-limits';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { dispatchWebhookEvent } from '@/lib/webhooks/webhook-dispatcher';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { WEBHOOK_EVENTS } from '@/types/webhook-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('WIDGET-KYC-COMPLETE');
+
+const CORS_METHODS = 'POST, OPTIONS';
+const CORS_ALLOW_HEADERS = 'Content-Type, Authorization, X-TrustRails-Partner-ID, X-TrustRails-User-ID';
+
+export async function POST(request: NextRequest) {
+  log.info('POST request received');
+
+  // Set CORS headers for the response - echo the exact origin, never '*'
+  const corsHeaders = buildCorsHeaders(
+    normalizeOrigin(request.headers.get('origin')),
+    CORS_METHODS,
+    CORS_ALLOW_HEADERS
+  );
+
+  try {
+    const authorization = await authorizeWidgetRequest(request, {
+      scope: WIDGET_PERMISSIONS.WIDGET_WRITE,
+      cors: { methods: CORS_METHODS, allowHeaders: CORS_ALLOW_HEADERS }
+    });
+    if (!authorization.success) {
+      return authorization.response;
+    }
+    const { payload: tokenPayload, session, rateLimit: rateLimitResult } = authorization.context;
+    const { adminDb } = requireAdminApp();
+
+    // The user is attached to the session by create-account after the token was issued
+    const userId = tokenPayload.userId || session.userId;
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Create an account before completing verification' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const body = await request.json();
+    const inquiryId: string | undefined = body.inquiryId || body.personaId;
+    const reportedStatus: string | undefined = body.kycStatus || body.status;
+
+    if (body.userId && body.userId !== userId) {
+      return NextResponse.json(
+        { error: 'userId does not match the authenticated session' },
+        { status: 403, headers: corsHeaders }
+      );
+    }
+
+    if (!inquiryId || typeof inquiryId !== 'string' || !reportedStatus) {
+      return NextResponse.json(
+        { error: 'Missing required fields: inquiryId and status' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    // Only users the partner hosts can be verified through its widget
+    const lookup = await findPartnerUser(tokenPayload.custodianId, userId);
+    if (!lookup.success) {
+      await AuditLogger.logSecurityEvent(
+        'widget_kyc_user_mismatch',
+        AuditSeverity.WARNING,
+        'KYC completion for a user the partner does not host',
+        userId,
+        request,
+        {
+          eventType: SOC2_AUDIT_EVENTS.WIDGET_KYC_REJECTED,
+          custodianId: tokenPayload.custodianId,
+          sessionId: tokenPayload.sessionId,
+          reason: lookup.reason
+        }
+      );
+      return NextResponse.json(
+        { error: 'User not found for this partner', code: 'USER_NOT_FOUND' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    // An inquiry verifies one user
+    const claimed = await adminDb.collection('users')
+      .where('personaId', '==', inquiryId)
+      .limit(2)
+      .get();
+    if (claimed.docs.some(doc => doc.id !== userId)) {
+      return NextResponse.json(
+        { error: 'Inquiry belongs to another user', code: 'INQUIRY_IN_USE' },
+        { status: 409, headers: corsHeaders }
+      );
+    }
+
+    // Persona is the source of truth; the browser's status is only recorded
+    const inquiry = await fetchPersonaInquiry(inquiryId);
+    if (!inquiry.success && inquiry.reason === 'not_found') {
+      return NextResponse.json(
+        { error: 'Unknown Persona inquiry', code: 'INQUIRY_NOT_FOUND' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const confirmed = inquiry.success;
+    const kycStatus = inquiry.success ? inquiry.kycStatus : 'reported_by_client';
+    const now = new Date().toISOString();
+
+    if (confirmed) {
+      await adminDb.collection('users').doc(userId).update({
+        personaId: inquiryId,
+        kycStatus,
+        kycConfirmedAt: now,
+        ...(kycStatus === 'completed' ? { kycCompletedAt: now } : {}),
+        kycVerificationLevel: body.kycVerificationLevel || 'standard',
+        kycSessionId: tokenPayload.sessionId
+      });
+    } else {
+      // Never replace a status Persona confirmed with one the browser claims
+      const confirmedBefore = lookup.user.kycStatus && lookup.user.kycStatus !== 'reported_by_client';
+      await adminDb.collection('users').doc(userId).update({
+        personaId: inquiryId,
+        ...(confirmedBefore ? {} : { kycStatus }),
+        kycReportedStatus: toKycStatus(reportedStatus),
+        kycReportedAt: now,
+        kycSessionId: tokenPayload.sessionId
+      });
+    }
+
+    await AuditLogger.logDataAccess(
+      'modify',
+      'user_kyc',
+      userId,
+      userId,
+      false,
+      request,
+      {
+        custodianId: tokenPayload.custodianId,
+        sessionId: tokenPayload.sessionId,
+        inquiryId,
+        kycStatus,
+        reportedStatus,
+        ...(inquiry.success ? { personaStatus: inquiry.personaStatus } : { confirmationFailure: inquiry.reason })
+      }
+    );
+
+    if (kycStatus === 'completed') {
+      await dispatchWebhookEvent(tokenPayload.custodianId, WEBHOOK_EVENTS.WIDGET_KYC_COMPLETED, {
+        user_id: userId,
+        session_id: tokenPayload.sessionId,
+        inquiry_id: inquiryId,
+        status: kycStatus,
+        completed_at: now
+      }).catch(error => log.error('Failed to dispatch webhook', error));
+    }
+
+    return NextResponse.json({
+      success: true,
+      user_id: userId,
+      kyc_status: kycStatus,
+      kyc_confirmed: confirmed,
+      ...(kycStatus === 'completed' ? { kyc_completed_at: now } : {})
+    }, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        ...buildRateLimitHeaders(rateLimitResult)
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'widget_kyc_complete_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error recording KYC completion',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while recording verification' },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      ...buildCorsHeaders(
+        normalizeOrigin(request.headers.get('origin')),
+        CORS_METHODS,
+        CORS_ALLOW_HEADERS
+      ),
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
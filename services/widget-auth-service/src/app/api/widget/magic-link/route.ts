@@ -0,0 +1,202 @@
+/**
+ * Widget Magic Link Request Endpoint
+ * POST /api/widget/magic-link
+ *
+ * Emails a single-use sign-in or email verification link to a widget user.
+ * The response is the same whether or not an account exists for the email.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WIDGET_PERMISSIONS } from '@/lib/widget-auth-server';
+import { authorizeWidgetRequest } from '@/lib/widget-request-auth';
+import { multiRateLimiter } from '@/lib/multi-rate-limiter';
+import { getClientIP, getIPFingerprint } from '@/lib/secure-ip-detection';
+import {
+  buildCorsHeaders,
+  checkOrigin,
+  getAllowedDomains,
+  normalizeOrigin
+} from '@/lib/origin-allowlist';
+import { sendMagicLink, type MagicLinkPurpose } from '@/lib/magic-link';
+import { buildRateLimitHeaders, rateLimitExceededBody } from '@/lib/tier-rate-limits';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { assessRisk, buildRiskRejection } from '@/lib/anomaly/anomaly-detector';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('WIDGET-MAGIC-LINK');
+
+const CORS_METHODS = 'POST, OPTIONS';
+const CORS_ALLOW_HEADERS = 'Content-Type, Authorization, X-TrustRails-Partner-ID, X-TrustRails-Challenge';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PURPOSES: MagicLinkPurpose[] = ['sign_in', 'verify_email'];
+
+export async function POST(request: NextRequest) {
+  log.info('POST request received');
+
+  // Set CORS headers for the response - echo the exact origin, never '*'
+  const corsHeaders = buildCorsHeaders(
+    normalizeOrigin(request.headers.get('origin')),
+    CORS_METHODS,
+    CORS_ALLOW_HEADERS
+  );
+
+  try {
+    const authorization = await authorizeWidgetRequest(request, {
+      scope: WIDGET_PERMISSIONS.WIDGET_WRITE,
+      cors: { methods: CORS_METHODS, allowHeaders: CORS_ALLOW_HEADERS }
+    });
+    if (!authorization.success) {
+      return authorization.response;
+    }
+    const { payload: tokenPayload, custodianData, origin, rateLimit: tierRateLimitResult } = authorization.context;
+
+    const body = await request.json().catch(() => ({}));
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+    const purpose: MagicLinkPurpose = body.purpose ?? 'sign_in';
+
+    if (!EMAIL_PATTERN.test(email)) {
+      return NextResponse.json(
+        { error: 'A valid email is required' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+    if (!PURPOSES.includes(purpose)) {
+      return NextResponse.json(
+        { error: `Invalid purpose. Must be one of: ${PURPOSES.join(', ')}` },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    // The link returns to the page embedding the widget, which must be an allowed origin
+    const returnUrl = typeof body.return_url === 'string' ? body.return_url : origin;
+    const returnOrigin = checkOrigin(returnUrl, getAllowedDomains(custodianData), tokenPayload.environment ?? null);
+    if (!returnOrigin.allowed) {
+      return NextResponse.json(
+        { error: 'return_url must be on a registered domain', code: 'INVALID_RETURN_URL' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const ipAddress = getClientIP(request);
+    const rateLimitResult = await multiRateLimiter.checkMagicLinkRequest(
+      getIPFingerprint(request),
+      email,
+      tokenPayload.sessionId
+    );
+    if (!rateLimitResult.success) {
+      await AuditLogger.logSecurityEvent(
+        'widget_rate_limit_exceeded',
+        AuditSeverity.WARNING,
+        `Rate limit exceeded for ${rateLimitResult.failedCheck}`,
+        tokenPayload.custodianId,
+        request,
+        {
+          eventType: SOC2_AUDIT_EVENTS.WIDGET_MAGIC_LINK_FAILURE,
+          failedCheck: rateLimitResult.failedCheck,
+          custodianId: tokenPayload.custodianId,
+          email,
+          ipAddress
+        }
+      );
+
+      return NextResponse.json(
+        {
+          ...rateLimitExceededBody(rateLimitResult),
+          error: rateLimitResult.failedCheck?.includes('email')
+            ? 'Too many links requested for this email address'
+            : 'Rate limit exceeded'
+        },
+        { status: 429, headers: { ...corsHeaders, ...buildRateLimitHeaders(rateLimitResult) } }
+      );
+    }
+
+    const risk = await assessRisk(request, {
+      action: 'magic_link',
+      email,
+      custodianId: tokenPayload.custodianId,
+      sessionId: tokenPayload.sessionId
+    });
+    if (risk.decision !== 'allow') {
+      const rejection = buildRiskRejection(risk);
+      return NextResponse.json(rejection.body, {
+        status: rejection.status,
+        headers: { ...corsHeaders, ...rejection.headers }
+      });
+    }
+
+    const { linkId, expiresAt } = await sendMagicLink({
+      custodianId: tokenPayload.custodianId,
+      partnerName: custodianData?.name,
+      sessionId: tokenPayload.sessionId,
+      email,
+      purpose,
+      returnUrl,
+      ipAddress
+    });
+
+    await AuditLogger.logAdminAction(
+      'widget_magic_link_sent',
+      tokenPayload.custodianId,
+      { type: 'magic_link', id: linkId, name: email },
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.WIDGET_MAGIC_LINK_SENT,
+        custodianId: tokenPayload.custodianId,
+        sessionId: tokenPayload.sessionId,
+        linkId,
+        purpose,
+        userEmail: email,
+        ipAddress
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      expires_at: expiresAt.toISOString()
+    }, {
+      status: 202,
+      headers: {
+        ...corsHeaders,
+        ...buildRateLimitHeaders(tierRateLimitResult)
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'widget_magic_link_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error sending magic link',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.WIDGET_MAGIC_LINK_FAILURE,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while sending link' },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      ...buildCorsHeaders(
+        normalizeOrigin(request.headers.get('origin')),
+        CORS_METHODS,
+        CORS_ALLOW_HEADERS
+      ),
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
@@ -0,0 +1,298 @@
+/**
+ * Widget Magic Link Verification Endpoint
+ * POST /api/widget/magic-link/verify
+ *
+ * Consumes a magic link token, marks the user's email verified (creating the
+ * account for a first sign-in) and attaches the user to the widget session.
+ * Returns a bearer token carrying the user ID and a Firebase custom token.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  generateBearerToken,
+  validateWidgetSession,
+  WIDGET_PERMISSIONS
+} from '@/lib/widget-auth-server';
+import { authorizeWidgetRequest } from '@/lib/widget-request-auth';
+import { requireAdminApp } from '@/lib/firebase-admin';
+import { getClientIP } from '@/lib/secure-ip-detection';
+import { buildCorsHeaders, normalizeOrigin } from '@/lib/origin-allowlist';
+import { enforceSessionLimit, getSessionPolicy } from '@/lib/session-binding';
+import { consumeMagicLink } from '@/lib/magic-link';
+import { buildRateLimitHeaders } from '@/lib/tier-rate-limits';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { dispatchWebhookEvent } from '@/lib/webhooks/webhook-dispatcher';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { WEBHOOK_EVENTS } from '@/types/webhook-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('WIDGET-MAGIC-LINK-VERIFY');
+
+const CORS_METHODS = 'POST, OPTIONS';
+const CORS_ALLOW_HEADERS = 'Content-Type, Authorization, X-TrustRails-Partner-ID';
+
+export async function POST(request: NextRequest) {
+  log.info('POST request received');
+
+  // Set CORS headers for the response - echo the exact origin, never '*'
+  const corsHeaders = buildCorsHeaders(
+    normalizeOrigin(request.headers.get('origin')),
+    CORS_METHODS,
+    CORS_ALLOW_HEADERS
+  );
+
+  try {
+    const authorization = await authorizeWidgetRequest(request, {
+      scope: WIDGET_PERMISSIONS.WIDGET_WRITE,
+      cors: { methods: CORS_METHODS, allowHeaders: CORS_ALLOW_HEADERS }
+    });
+    if (!authorization.success) {
+      return authorization.response;
+    }
+    const { payload: tokenPayload, custodianData, rateLimit: tierRateLimitResult } = authorization.context;
+    const { adminAuth, adminDb } = requireAdminApp();
+
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.token !== 'string' || !body.token) {
+      return NextResponse.json(
+        { error: 'Missing required field: token' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const ipAddress = getClientIP(request);
+    const link = await consumeMagicLink(body.token, tokenPayload.custodianId);
+
+    if (!link.success) {
+      await AuditLogger.logSecurityEvent(
+        'widget_magic_link_rejected',
+        link.reason === 'token_used' || link.reason === 'partner_mismatch'
+          ? AuditSeverity.CRITICAL
+          : AuditSeverity.WARNING,
+        `Magic link rejected: ${link.reason}`,
+        undefined,
+        request,
+        {
+          eventType: SOC2_AUDIT_EVENTS.WIDGET_MAGIC_LINK_FAILURE,
+          custodianId: tokenPayload.custodianId,
+          sessionId: tokenPayload.sessionId,
+          reason: link.reason,
+          ipAddress
+        }
+      );
+
+      return NextResponse.json(
+        {
+          error: link.reason === 'token_expired'
+            ? 'This link has expired. Request a new one.'
+            : 'This link is invalid or has already been used',
+          code: 'MAGIC_LINK_INVALID',
+          reason: link.reason
+        },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const { email } = link;
+    const now = new Date().toISOString();
+
+    // Following the link proves ownership of the address
+    let userId: string;
+    try {
+      const userRecord = await adminAuth.getUserByEmail(email);
+      userId = userRecord.uid;
+      if (!userRecord.emailVerified) {
+        await adminAuth.updateUser(userId, { emailVerified: true });
+      }
+    } catch (error) {
+      // First sign-in - create a passwordless account
+      const userRecord = await adminAuth.createUser({ email, emailVerified: true });
+      userId = userRecord.uid;
+    }
+
+    const userRef = adminDb.collection('users').doc(userId);
+    const isNewUser = !(await userRef.get()).exists;
+
+    if (isNewUser) {
+      await userRef.set({
+        uid: userId,
+        email,
+        name: email.split('@')[0],
+        role: 'rollover_user',
+        custodianId: tokenPayload.custodianId, // Standard field for admin dashboard
+        hostCustodianId: tokenPayload.custodianId, // Which partner created this user
+        destinationCustodianId: tokenPayload.custodianId,
+        createdAt: now,
+        emailVerified: true,
+        emailVerifiedAt: now,
+        status: 'active',
+        authType: 'magic_link'
+      });
+    } else {
+      await userRef.update({
+        emailVerified: true,
+        emailVerifiedAt: now,
+        lastLoginAt: now,
+        lastLoginProvider: 'magic_link'
+      });
+    }
+
+    // Upgrade the widget session to an authenticated, verified user
+    await adminDb
+      .collection('widget_sessions')
+      .doc(tokenPayload.sessionId)
+      .update({
+        userId,
+        authenticatedAt: now,
+        emailVerified: true,
+        authMethod: 'magic_link'
+      });
+
+    // Signing in here may take the user over the partner's session limit
+    await enforceSessionLimit(
+      userId,
+      tokenPayload.sessionId,
+      getSessionPolicy(custodianData).maxSessionsPerUser,
+      request
+    );
+
+    const session = await validateWidgetSession(tokenPayload.sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Widget session expired' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    // Reissue the bearer token with the user ID for the rest of the session
+    const expiresInSeconds = Math.max(
+      1,
+      Math.floor((session.expiresAt.getTime() - Date.now()) / 1000)
+    );
+    const bearerToken = generateBearerToken(
+      session.sessionId,
+      session.custodianId,
+      userId,
+      expiresInSeconds,
+      session.environment,
+      session.permissions,
+      session.apiKeyId
+    );
+
+    const userData = (await userRef.get()).data();
+
+    // Create a custom token for the user (for Firebase Auth on client)
+    const customToken = await adminAuth.createCustomToken(userId, {
+      role: 'rollover_user',
+      sessionId: tokenPayload.sessionId,
+      custodianId: tokenPayload.custodianId
+    });
+
+    await AuditLogger.logAuthentication(
+      'login',
+      userId,
+      email,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.WIDGET_EMAIL_VERIFIED,
+        custodianId: tokenPayload.custodianId,
+        sessionId: tokenPayload.sessionId,
+        requestedSessionId: link.requestedSessionId,
+        linkId: link.linkId,
+        purpose: link.purpose,
+        authType: 'magic_link',
+        userId
+      }
+    );
+
+    if (isNewUser) {
+      await AuditLogger.logAdminAction(
+        'widget_user_created',
+        userId,
+        { type: 'user', id: userId, name: email },
+        request,
+        {
+          eventType: SOC2_AUDIT_EVENTS.WIDGET_USER_CREATED,
+          custodianId: tokenPayload.custodianId,
+          sessionId: tokenPayload.sessionId,
+          authType: 'magic_link',
+          userEmail: email,
+          userId
+        }
+      );
+
+      // Notify the partner; a webhook failure must not fail sign-in
+      await dispatchWebhookEvent(tokenPayload.custodianId, WEBHOOK_EVENTS.WIDGET_USER_CREATED, {
+        user_id: userId,
+        email,
+        session_id: tokenPayload.sessionId,
+        auth_type: 'magic_link',
+        source_custodian_id: null,
+        destination_custodian_id: tokenPayload.custodianId
+      }).catch(error => log.error('Failed to dispatch webhook', error));
+    }
+
+    return NextResponse.json({
+      success: true,
+      user: {
+        id: userId,
+        email: userData?.email,
+        name: userData?.name,
+        role: userData?.role,
+        email_verified: true,
+        host_custodian_id: userData?.hostCustodianId,
+        source_custodian_id: userData?.sourceCustodianId,
+        destination_custodian_id: userData?.destinationCustodianId,
+        transfer_amount: userData?.transferAmount,
+        custodian_selection_context: userData?.custodianSelectionContext
+      },
+      bearer_token: bearerToken,
+      custom_token: customToken,
+      is_new_user: isNewUser,
+      purpose: link.purpose
+    }, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Cache-Control': 'no-store',
+        ...buildRateLimitHeaders(tierRateLimitResult)
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'widget_magic_link_verify_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error verifying magic link',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.WIDGET_MAGIC_LINK_FAILURE,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while verifying link' },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      ...buildCorsHeaders(
+        normalizeOrigin(request.headers.get('origin')),
+        CORS_METHODS,
+        CORS_ALLOW_HEADERS
+      ),
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
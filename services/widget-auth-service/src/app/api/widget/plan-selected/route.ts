@@ -0,0 +1,148 @@
+/**
+ * Widget Plan Selection Endpoint
+ * POST /api/widget/plan-selected
+ *
+ * Called by the widget when the user picks the retirement plan to roll over.
+ * Stores the selection on the widget session and notifies the partner
+ * (widget.plan.selected).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WIDGET_PERMISSIONS } from '@/lib/widget-auth-server';
+import { authorizeWidgetRequest } from '@/lib/widget-request-auth';
+import { requireAdminApp } from '@/lib/firebase-admin';
+import { buildCorsHeaders, normalizeOrigin } from '@/lib/origin-allowlist';
+import { buildRateLimitHeaders } from '@/lib/tier-rate-limits';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { dispatchWebhookEvent } from '@/lib/webhooks/webhook-dispatcher';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { WEBHOOK_EVENTS } from '@/types/webhook-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('WIDGET-PLAN-SELECTED');
+
+const CORS_METHODS = 'POST, OPTIONS';
+const CORS_ALLOW_HEADERS = 'Content-Type, Authorization, X-TrustRails-Partner-ID, X-TrustRails-User-ID';
+
+export async function POST(request: NextRequest) {
+  log.info('POST request received');
+
+  // Set CORS headers for the response - echo the exact origin, never '*'
+  const corsHeaders = buildCorsHeaders(
+    normalizeOrigin(request.headers.get('origin')),
+    CORS_METHODS,
+    CORS_ALLOW_HEADERS
+  );
+
+  try {
+    const authorization = await authorizeWidgetRequest(request, {
+      scope: WIDGET_PERMISSIONS.WIDGET_WRITE,
+      cors: { methods: CORS_METHODS, allowHeaders: CORS_ALLOW_HEADERS }
+    });
+    if (!authorization.success) {
+      return authorization.response;
+    }
+    const { payload: tokenPayload, session, rateLimit: rateLimitResult } = authorization.context;
+    const { adminDb } = requireAdminApp();
+
+    const body = await request.json();
+    const { ein, planName, sponsorName, planId, planNumber } = body || {};
+
+    if (!ein && !planId) {
+      return NextResponse.json(
+        { error: 'Missing required fields: ein or planId' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const userId = tokenPayload.userId || session.userId || null;
+    const selectedAt = new Date().toISOString();
+    const selectedPlan = {
+      ein: ein ? String(ein) : null,
+      planId: planId ? String(planId) : null,
+      planNumber: planNumber ? String(planNumber) : null,
+      planName: planName ? String(planName).slice(0, 200) : null,
+      sponsorName: sponsorName ? String(sponsorName).slice(0, 200) : null,
+      selectedAt
+    };
+
+    await adminDb.collection('widget_sessions').doc(tokenPayload.sessionId).update({
+      selectedPlan
+    });
+
+    await AuditLogger.logDataAccess(
+      'modify',
+      'widget_session',
+      tokenPayload.sessionId,
+      userId,
+      false,
+      request,
+      {
+        custodianId: tokenPayload.custodianId,
+        sessionId: tokenPayload.sessionId,
+        action: 'plan_selected',
+        ein: selectedPlan.ein
+      }
+    );
+
+    await dispatchWebhookEvent(tokenPayload.custodianId, WEBHOOK_EVENTS.WIDGET_PLAN_SELECTED, {
+      user_id: userId,
+      session_id: tokenPayload.sessionId,
+      plan: {
+        ein: selectedPlan.ein,
+        plan_id: selectedPlan.planId,
+        plan_number: selectedPlan.planNumber,
+        plan_name: selectedPlan.planName,
+        sponsor_name: selectedPlan.sponsorName
+      },
+      selected_at: selectedAt
+    }).catch(error => log.error('Failed to dispatch webhook', error));
+
+    return NextResponse.json({
+      success: true,
+      selected_at: selectedAt
+    }, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        ...buildRateLimitHeaders(rateLimitResult)
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'widget_plan_selected_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error recording plan selection',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while recording plan selection' },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      ...buildCorsHeaders(
+        normalizeOrigin(request.headers.get('origin')),
+        CORS_METHODS,
+        CORS_ALLOW_HEADERS
+      ),
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
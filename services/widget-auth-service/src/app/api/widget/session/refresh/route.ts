@@ -0,0 +1,239 @@
+/**
+ * Widget Session Refresh Endpoint
+ * POST /api/widget/session/refresh
+ *
+ * Exchanges a one-time-use refresh token for a new bearer token and
+ * refresh token, extending the widget session without re-authenticating
+ * with the partner API key
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  checkSessionKey,
+  generateBearerToken,
+  invalidateWidgetSession,
+  revokeSessionForKey,
+  rotateRefreshToken,
+  validateWidgetSession
+} from '@/lib/widget-auth-server';
+import { requireAdminApp } from '@/lib/firebase-admin';
+import { apiRateLimiter, API_RATE_LIMIT_PER_MINUTE } from '@/lib/rate-limiter';
+import {
+  buildRateLimitHeaders,
+  rateLimitExceededBody,
+  type TierRateLimitResult
+} from '@/lib/tier-rate-limits';
+import { checkPartnerAccess } from '@/lib/widget-request-auth';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { buildCorsHeaders, normalizeOrigin } from '@/lib/origin-allowlist';
+import {
+  checkSessionBinding,
+  getRequestDevice,
+  getSessionPolicy,
+  logSessionBindingRejection
+} from '@/lib/session-binding';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('WIDGET-SESSION-REFRESH');
+
+export async function POST(request: NextRequest) {
+  log.info('POST request received');
+
+  // Set CORS headers for the response - echo the exact origin, never '*'
+  const corsHeaders = buildCorsHeaders(
+    normalizeOrigin(request.headers.get('origin')),
+    'POST, OPTIONS',
+    'Content-Type'
+  );
+
+  try {
+    const ipAddress = request.headers.get('x-forwarded-for') ||
+                     request.headers.get('x-real-ip') ||
+                     '127.0.0.1';
+
+    // Per-IP limit first: session_id is unverified until the refresh token is consumed
+    const ipRateLimitResult = {
+      ...(await apiRateLimiter.check(`widget_session_refresh_${ipAddress}`)),
+      limit: API_RATE_LIMIT_PER_MINUTE
+    };
+    if (!ipRateLimitResult.success) {
+      return NextResponse.json(
+        rateLimitExceededBody(ipRateLimitResult),
+        { status: 429, headers: { ...corsHeaders, ...buildRateLimitHeaders(ipRateLimitResult) } }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { session_id, refresh_token } = body;
+
+    if (!session_id || !refresh_token) {
+      return NextResponse.json(
+        { error: 'Missing required fields: session_id and refresh_token' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    // Check the session's key, the partner and its rate limit before rotating, so
+    // a refresh rejected for maintenance or a 429 leaves the refresh token usable
+    const currentSession = await validateWidgetSession(session_id);
+    const { adminDb } = requireAdminApp();
+    const custodianData = currentSession
+      ? (await adminDb.collection('custodians').doc(currentSession.custodianId).get()).data()
+      : undefined;
+
+    // An unknown session_id fails rotation below, so it only counts against the IP
+    let rateLimitResult: TierRateLimitResult = ipRateLimitResult;
+    if (currentSession) {
+      // A revoked key or disabled widget ends the session for good, so there
+      // is no refresh token left to protect
+      const keyFailure = checkSessionKey(currentSession, custodianData);
+      if (keyFailure) {
+        return NextResponse.json(
+          await revokeSessionForKey(request, currentSession, keyFailure),
+          { status: 401, headers: corsHeaders }
+        );
+      }
+
+      const access = await checkPartnerAccess(currentSession, custodianData, corsHeaders);
+      if (!access.success) {
+        return access.response;
+      }
+      rateLimitResult = access.rateLimit;
+    }
+
+    const result = await rotateRefreshToken(session_id, refresh_token);
+
+    if (!result.success) {
+      log.warn('Refresh rejected', { reason: result.reason });
+
+      if (result.reason === 'refresh_token_reused') {
+        // Reuse of a rotated token means it leaked - the session has been revoked
+        await AuditLogger.logSecurityEvent(
+          'widget_refresh_token_reused',
+          AuditSeverity.CRITICAL,
+          'Rotated refresh token presented again; widget session revoked',
+          undefined,
+          request,
+          {
+            eventType: SOC2_AUDIT_EVENTS.WIDGET_SESSION_REVOKED,
+            sessionId: session_id,
+            reason: result.reason,
+            ipAddress
+          }
+        );
+      } else {
+        await AuditLogger.logSecurityEvent(
+          'widget_session_refresh_failed',
+          AuditSeverity.WARNING,
+          `Widget session refresh rejected: ${result.reason}`,
+          undefined,
+          request,
+          {
+            eventType: SOC2_AUDIT_EVENTS.WIDGET_SESSION_REFRESH_FAILURE,
+            sessionId: session_id,
+            reason: result.reason,
+            ipAddress
+          }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Invalid or expired refresh token', code: 'SESSION_REFRESH_FAILED' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const { session } = result;
+
+    // Checked once the refresh token is proven, so a guessed session_id cannot
+    // end someone else's session; the rotated token is never returned
+    const bindingFailure = checkSessionBinding(session, getRequestDevice(request), getSessionPolicy(custodianData));
+    if (bindingFailure) {
+      await invalidateWidgetSession(session.sessionId);
+      return NextResponse.json(
+        await logSessionBindingRejection(request, session, bindingFailure),
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    // Bearer token lives exactly as long as the extended session
+    const expiresInSeconds = Math.max(
+      1,
+      Math.floor((session.expiresAt.getTime() - Date.now()) / 1000)
+    );
+    const bearerToken = generateBearerToken(
+      session.sessionId,
+      session.custodianId,
+      session.userId,
+      expiresInSeconds,
+      session.environment,
+      session.permissions, // Keep the scopes the session was created with
+      session.apiKeyId
+    );
+
+    await AuditLogger.logAdminAction(
+      'widget_session_refreshed',
+      session.custodianId,
+      { type: 'widget_session', id: session.sessionId, name: 'Widget Session' },
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.WIDGET_SESSION_REFRESHED,
+        custodianId: session.custodianId,
+        sessionId: session.sessionId,
+        expiresAt: session.expiresAt.toISOString()
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      session_id: session.sessionId,
+      bearer_token: bearerToken,
+      refresh_token: result.refreshToken,
+      expires_at: session.expiresAt.toISOString()
+    }, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Cache-Control': 'no-store',
+        ...buildRateLimitHeaders(rateLimitResult)
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'widget_session_refresh_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error in widget session refresh',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.WIDGET_SESSION_REFRESH_FAILURE,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error during session refresh' },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      ...buildCorsHeaders(
+        normalizeOrigin(request.headers.get('origin')),
+        'POST, OPTIONS',
+        'Content-Type'
+      ),
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
@@ -0,0 +1,117 @@
+/**
+ * Widget Session Revocation Endpoint
+ * POST /api/widget/session/revoke
+ *
+ * Ends the widget session identified by the bearer token. The bearer token
+ * and any outstanding refresh token stop working immediately.
+ *
+ * Signing out is always allowed: suspended partners, maintenance windows and
+ * the partner's rate limit never keep a session alive. Only the per-IP limit applies.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { invalidateWidgetSession } from '@/lib/widget-auth-server';
+import { verifyWidgetBearer } from '@/lib/widget-request-auth';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { buildCorsHeaders, normalizeOrigin } from '@/lib/origin-allowlist';
+import { apiRateLimiter, API_RATE_LIMIT_PER_MINUTE } from '@/lib/rate-limiter';
+import { buildRateLimitHeaders, rateLimitExceededBody } from '@/lib/tier-rate-limits';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('WIDGET-SESSION-REVOKE');
+
+export async function POST(request: NextRequest) {
+  log.info('POST request received');
+
+  // Set CORS headers for the response - echo the exact origin, never '*'
+  const corsHeaders = buildCorsHeaders(
+    normalizeOrigin(request.headers.get('origin')),
+    'POST, OPTIONS',
+    'Content-Type, Authorization'
+  );
+
+  try {
+    const ipAddress = request.headers.get('x-forwarded-for') ||
+                     request.headers.get('x-real-ip') ||
+                     '127.0.0.1';
+
+    const rateLimitResult = {
+      ...(await apiRateLimiter.check(`widget_session_revoke_${ipAddress}`)),
+      limit: API_RATE_LIMIT_PER_MINUTE
+    };
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        rateLimitExceededBody(rateLimitResult),
+        { status: 429, headers: { ...corsHeaders, ...buildRateLimitHeaders(rateLimitResult) } }
+      );
+    }
+
+    const bearer = await verifyWidgetBearer(request, corsHeaders);
+    if (!bearer.success) {
+      return bearer.response;
+    }
+    const tokenPayload = bearer.payload;
+
+    await invalidateWidgetSession(tokenPayload.sessionId);
+
+    await AuditLogger.logAdminAction(
+      'widget_session_revoked',
+      tokenPayload.userId || tokenPayload.custodianId,
+      { type: 'widget_session', id: tokenPayload.sessionId, name: 'Widget Session' },
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.WIDGET_SESSION_REVOKED,
+        custodianId: tokenPayload.custodianId,
+        sessionId: tokenPayload.sessionId,
+        userId: tokenPayload.userId,
+        reason: 'client_requested'
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      session_id: tokenPayload.sessionId,
+      revoked_at: new Date().toISOString()
+    }, {
+      status: 200,
+      headers: { ...corsHeaders, ...buildRateLimitHeaders(rateLimitResult) }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'widget_session_revoke_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error in widget session revocation',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.WIDGET_SESSION_REVOKED,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error during session revocation' },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      ...buildCorsHeaders(
+        normalizeOrigin(request.headers.get('origin')),
+        'POST, OPTIONS',
+        'Content-Type, Authorization'
+      ),
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * Widget User Session Revocation Endpoint
+ * DELETE /api/widget/sessions/{sessionId}
+ *
+ * Signs out one of the signed-in user's sessions, including the current one.
+ * The current session needs a verified sign-in (see getVerifiedUserId).
+ * Sessions of other users answer 404, so session IDs cannot be probed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getVerifiedUserId,
+  invalidateWidgetSession,
+  validateWidgetSession
+} from '@/lib/widget-auth-server';
+import { authorizeWidgetRequest } from '@/lib/widget-request-auth';
+import { buildCorsHeaders, normalizeOrigin } from '@/lib/origin-allowlist';
+import { buildRateLimitHeaders } from '@/lib/tier-rate-limits';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('WIDGET-SESSIONS');
+
+const CORS_METHODS = 'DELETE, OPTIONS';
+const CORS_ALLOW_HEADERS = 'Content-Type, Authorization';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  log.info('DELETE request received');
+
+  // Set CORS headers for the response - echo the exact origin, never '*'
+  const corsHeaders = buildCorsHeaders(
+    normalizeOrigin(request.headers.get('origin')),
+    CORS_METHODS,
+    CORS_ALLOW_HEADERS
+  );
+
+  try {
+    const authorization = await authorizeWidgetRequest(request, {
+      cors: { methods: CORS_METHODS, allowHeaders: CORS_ALLOW_HEADERS }
+    });
+    if (!authorization.success) {
+      return authorization.response;
+    }
+    const { session, rateLimit: rateLimitResult } = authorization.context;
+
+    const userId = getVerifiedUserId(session);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in with a verified account to manage sessions', code: 'USER_REQUIRED' },
+        { status: 403, headers: corsHeaders }
+      );
+    }
+
+    const target = await validateWidgetSession(params.sessionId);
+    if (!target || target.userId !== userId) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    await invalidateWidgetSession(target.sessionId);
+
+    await AuditLogger.logAdminAction(
+      'widget_session_revoked',
+      userId,
+      { type: 'widget_session', id: target.sessionId, name: 'Widget Session' },
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.WIDGET_SESSION_REVOKED,
+        custodianId: target.custodianId,
+        sessionId: target.sessionId,
+        userId,
+        revokedFromSessionId: session.sessionId,
+        reason: 'user_revoked'
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      session_id: target.sessionId,
+      current: target.sessionId === session.sessionId,
+      revoked_at: new Date().toISOString()
+    }, {
+      status: 200,
+      headers: { ...corsHeaders, ...buildRateLimitHeaders(rateLimitResult) }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'widget_sessions_revoke_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error revoking widget session',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.WIDGET_SESSION_REVOKED,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while revoking session' },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      ...buildCorsHeaders(
+        normalizeOrigin(request.headers.get('origin')),
+        CORS_METHODS,
+        CORS_ALLOW_HEADERS
+      ),
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
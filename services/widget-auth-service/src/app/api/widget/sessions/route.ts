@@ -0,0 +1,206 @@
+/**
+ * Widget User Sessions Endpoint
+ * GET    /api/widget/sessions - list the signed-in user's active sessions
+ * DELETE /api/widget/sessions - sign out every other session of the user
+ *
+ * Requires a bearer token whose session has a verified sign-in (see
+ * getVerifiedUserId); a user ID the browser merely claimed is not enough.
+ * Revoke a single session with DELETE /api/widget/sessions/{sessionId}.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getVerifiedUserId,
+  invalidateWidgetSession,
+  listUserSessions,
+  type WidgetSession
+} from '@/lib/widget-auth-server';
+import { authorizeWidgetRequest } from '@/lib/widget-request-auth';
+import { getUserAgentFamily } from '@/lib/session-binding';
+import { buildCorsHeaders, normalizeOrigin } from '@/lib/origin-allowlist';
+import { buildRateLimitHeaders } from '@/lib/tier-rate-limits';
+import { truncateIp } from '@/lib/redaction';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('WIDGET-SESSIONS');
+
+const CORS_METHODS = 'GET, DELETE, OPTIONS';
+const CORS_ALLOW_HEADERS = 'Content-Type, Authorization';
+
+// Never echo full IPs: a leaked token should not reveal where the user signs in
+function toSessionResponse(session: WidgetSession, currentSessionId: string) {
+  return {
+    session_id: session.sessionId,
+    current: session.sessionId === currentSessionId,
+    origin: session.origin,
+    device: getUserAgentFamily(session.userAgent || ''),
+    ip_address: session.ipAddress ? truncateIp(session.ipAddress) : null,
+    created_at: session.createdAt.toISOString(),
+    last_activity_at: session.lastActivityAt?.toISOString() ?? null,
+    expires_at: session.expiresAt.toISOString()
+  };
+}
+
+export async function GET(request: NextRequest) {
+  log.info('GET request received');
+
+  // Set CORS headers for the response - echo the exact origin, never '*'
+  const corsHeaders = buildCorsHeaders(
+    normalizeOrigin(request.headers.get('origin')),
+    CORS_METHODS,
+    CORS_ALLOW_HEADERS
+  );
+
+  try {
+    const authorization = await authorizeWidgetRequest(request, {
+      cors: { methods: CORS_METHODS, allowHeaders: CORS_ALLOW_HEADERS }
+    });
+    if (!authorization.success) {
+      return authorization.response;
+    }
+    const { session, rateLimit: rateLimitResult } = authorization.context;
+
+    const userId = getVerifiedUserId(session);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in with a verified account to manage sessions', code: 'USER_REQUIRED' },
+        { status: 403, headers: corsHeaders }
+      );
+    }
+
+    const sessions = await listUserSessions(userId);
+
+    return NextResponse.json({
+      success: true,
+      sessions: sessions.map(userSession => toSessionResponse(userSession, session.sessionId))
+    }, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Cache-Control': 'no-store',
+        ...buildRateLimitHeaders(rateLimitResult)
+      }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'widget_sessions_list_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error listing widget sessions',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.SYSTEM_ERROR,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while listing sessions' },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  log.info('DELETE request received');
+
+  // Set CORS headers for the response - echo the exact origin, never '*'
+  const corsHeaders = buildCorsHeaders(
+    normalizeOrigin(request.headers.get('origin')),
+    CORS_METHODS,
+    CORS_ALLOW_HEADERS
+  );
+
+  try {
+    const authorization = await authorizeWidgetRequest(request, {
+      cors: { methods: CORS_METHODS, allowHeaders: CORS_ALLOW_HEADERS }
+    });
+    if (!authorization.success) {
+      return authorization.response;
+    }
+    const { session, rateLimit: rateLimitResult } = authorization.context;
+
+    const userId = getVerifiedUserId(session);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in with a verified account to manage sessions', code: 'USER_REQUIRED' },
+        { status: 403, headers: corsHeaders }
+      );
+    }
+
+    const others = (await listUserSessions(userId))
+      .filter(userSession => userSession.sessionId !== session.sessionId);
+
+    await Promise.all(others.map(userSession => invalidateWidgetSession(userSession.sessionId)));
+
+    await Promise.all(others.map(userSession =>
+      AuditLogger.logAdminAction(
+        'widget_session_revoked',
+        userId,
+        { type: 'widget_session', id: userSession.sessionId, name: 'Widget Session' },
+        request,
+        {
+          eventType: SOC2_AUDIT_EVENTS.WIDGET_SESSION_REVOKED,
+          custodianId: userSession.custodianId,
+          sessionId: userSession.sessionId,
+          userId,
+          revokedFromSessionId: session.sessionId,
+          reason: 'user_revoked_others'
+        }
+      )
+    ));
+
+    return NextResponse.json({
+      success: true,
+      revoked_session_ids: others.map(userSession => userSession.sessionId),
+      revoked_at: new Date().toISOString()
+    }, {
+      status: 200,
+      headers: { ...corsHeaders, ...buildRateLimitHeaders(rateLimitResult) }
+    });
+
+  } catch (error) {
+    log.error('Request failed', error);
+
+    // Log system error (don't await in catch block to avoid blocking)
+    AuditLogger.logSecurityEvent(
+      'widget_sessions_revoke_error',
+      AuditSeverity.ERROR,
+      error instanceof Error ? error.message : 'Unknown error revoking widget sessions',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.WIDGET_SESSION_REVOKED,
+        error: error instanceof Error ? error.stack : String(error)
+      }
+    ).catch(err => log.error('Failed to log error', err));
+
+    return NextResponse.json(
+      { error: 'Internal server error while revoking sessions' },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      ...buildCorsHeaders(
+        normalizeOrigin(request.headers.get('origin')),
+        CORS_METHODS,
+        CORS_ALLOW_HEADERS
+      ),
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
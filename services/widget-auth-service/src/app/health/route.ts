@@ -1,37 +1,41 @@
+/**
+ * Health Check Endpoint
+ * GET /health
+ *
+ * Kept for dev-proxy and older monitors; returns the /readyz report
+ * (see lib/health.ts) with permissive CORS for browser-based dashboards.
+ */
+
 import { NextRequest, NextResponse } from 'next/server';
-import { isFirebaseAdminInitialized } from '@/lib/firebase-admin';
+import { getReadiness, presentReadiness, readinessHttpStatus } from '@/lib/health';
+import { createLogger } from '@/lib/logger';
 
-export async function GET(request: NextRequest) {
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
-  };
+const log = createLogger('HEALTH');
+
+export const dynamic = 'force-dynamic';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
 
+export async function GET(request: NextRequest) {
   try {
-    const isFirebaseReady = isFirebaseAdminInitialized();
+    const report = await getReadiness();
 
-    const healthStatus = {
-      status: isFirebaseReady ? 'healthy' : 'unhealthy',
-      timestamp: new Date().toISOString(),
-      service: 'widget-auth-service',
-      version: '1.0.0',
-      checks: {
-        firebase: isFirebaseReady,
-        server: true
-      }
-    };
-
-    return NextResponse.json(healthStatus, {
-      status: 200,
+    return NextResponse.json(presentReadiness(report, request), {
+      status: readinessHttpStatus(report),
       headers: corsHeaders
     });
   } catch (error) {
+    log.error('Health check failed', error);
+
     return NextResponse.json({
-      status: 'error',
-      timestamp: new Date().toISOString(),
+      status: 'unavailable',
       service: 'widget-auth-service',
-      error: error instanceof Error ? error.message : 'Unknown error'
+      error: 'Health check failed',
+      checked_at: new Date().toISOString()
     }, {
       status: 503,
       headers: corsHeaders
@@ -43,10 +47,8 @@ export async function OPTIONS(request: NextRequest) {
   return new NextResponse(null, {
     status: 200,
     headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      ...corsHeaders,
       'Access-Control-Max-Age': '86400',
     },
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,22 @@
+/**
+ * Liveness Probe
+ * GET /livez
+ *
+ * Answers as long as the process is serving requests. Dependencies are not
+ * checked here (see /readyz), so an outage never restarts healthy containers.
+ */
+
+import { NextResponse } from 'next/server';
+import { getLiveness } from '@/lib/health';
+
+// Never prerender: the response must come from the running process
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json(getLiveness(), {
+    status: 200,
+    headers: {
+      'Cache-Control': 'no-cache, no-store, must-revalidate'
+    }
+  });
+}
@@ -30,6 +30,10 @@ export default function HomePage() {
         <li><strong>POST /api/widget/auth</strong> - Widget authentication with API keys</li>
         <li><strong>GET /api/widget/custodians</strong> - Browse available custodians</li>
         <li><strong>POST /api/widget/create-account</strong> - Create/retrieve user accounts</li>
+        <li><strong>POST /api/widget/session/refresh</strong> - Rotate refresh token and extend session</li>
+        <li><strong>POST /api/widget/session/revoke</strong> - End the current widget session</li>
+        <li><strong>POST /api/widget/kyc/complete</strong> - Record identity verification</li>
+        <li><strong>POST /api/widget/plan-selected</strong> - Record the selected plan</li>
       </ul>
 
       <h2>🔧 Service Information</h2>
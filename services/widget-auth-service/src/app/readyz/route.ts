@@ -0,0 +1,46 @@
+/**
+ * Readiness Probe
+ * GET /readyz
+ *
+ * Probes Firestore, Firebase Auth, the JWT secret and optional configuration
+ * (see lib/health.ts). Returns 200 when ready or degraded and 503 when a
+ * critical dependency is down, so load balancers stop routing to the instance.
+ * Probe messages are only returned with `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getReadiness, presentReadiness, readinessHttpStatus } from '@/lib/health';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('READYZ');
+
+// Never prerender: the response must come from the running process
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const report = await getReadiness();
+
+    return NextResponse.json(presentReadiness(report, request), {
+      status: readinessHttpStatus(report),
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate'
+      }
+    });
+
+  } catch (error) {
+    log.error('Readiness check failed', error);
+
+    return NextResponse.json({
+      status: 'unavailable',
+      service: 'widget-auth-service',
+      error: 'Readiness check failed',
+      checked_at: new Date().toISOString()
+    }, {
+      status: 503,
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate'
+      }
+    });
+  }
+}
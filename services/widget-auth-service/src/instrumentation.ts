@@ -0,0 +1,19 @@
+/**
+ * Server startup hook (Next.js instrumentation)
+ * Validates configuration before the first request is served.
+ */
+
+export async function register() {
+  // Edge runtimes have no server secrets to check, and builds run without them
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.NEXT_PHASE === 'phase-production-build') {
+    return;
+  }
+
+  const { assertStartupConfig } = await import('./lib/config-validator');
+  try {
+    assertStartupConfig();
+  } catch {
+    // Already logged; refuse to boot rather than serve forgeable tokens
+    process.exit(1);
+  }
+}
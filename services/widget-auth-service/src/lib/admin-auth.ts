@@ -0,0 +1,101 @@
+/**
+ * Admin Route Authentication
+ *
+ * Admin routes are called by the TrustRails dashboard with the signed-in
+ * user's Firebase ID token (`Authorization: Bearer <id token>`). Access follows
+ * the platform's custom claims:
+ *
+ *   role 'admin'           - any custodian
+ *   role 'custodian_user'  - only the custodian in its `custodianId` claim
+ */
+
+import type { NextRequest } from 'next/server';
+import { requireAdminApp } from './firebase-admin';
+import { AuditLogger, AuditSeverity } from './audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from './logger';
+
+const log = createLogger('ADMIN-AUTH');
+
+export type AdminAuthFailureReason =
+  | 'missing_token'
+  | 'invalid_token'
+  | 'insufficient_role'
+  | 'custodian_mismatch';
+
+export interface AdminAuthContext {
+  uid: string;
+  email?: string;
+  role: 'admin' | 'custodian_user';
+}
+
+export type AdminAuthResult =
+  | { success: true; context: AdminAuthContext }
+  | { success: false; status: number; error: string; code: string; reason: AdminAuthFailureReason };
+
+function fail(status: number, reason: AdminAuthFailureReason, error: string): AdminAuthResult {
+  return { success: false, status, error, code: 'ADMIN_AUTH_FAILED', reason };
+}
+
+/**
+ * Authenticate a dashboard user for an action on one custodian
+ */
+export async function authenticateAdminRequest(
+  request: NextRequest,
+  custodianId: string
+): Promise<AdminAuthResult> {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return fail(401, 'missing_token', 'Missing or invalid Authorization header');
+  }
+
+  const { adminAuth } = requireAdminApp();
+
+  let decoded;
+  try {
+    // checkRevoked: signed-out or disabled users lose access immediately
+    decoded = await adminAuth.verifyIdToken(authHeader.substring(7), true);
+  } catch (error) {
+    log.error('ID token verification failed', error);
+    return fail(401, 'invalid_token', 'Invalid or expired ID token');
+  }
+
+  if (decoded.role === 'admin') {
+    return { success: true, context: { uid: decoded.uid, email: decoded.email, role: 'admin' } };
+  }
+
+  if (decoded.role !== 'custodian_user') {
+    return fail(403, 'insufficient_role', 'Insufficient permissions');
+  }
+
+  if (decoded.custodianId !== custodianId) {
+    return fail(403, 'custodian_mismatch', 'Insufficient permissions');
+  }
+
+  return { success: true, context: { uid: decoded.uid, email: decoded.email, role: 'custodian_user' } };
+}
+
+/**
+ * Audit-log a rejected admin request
+ */
+export async function logAdminAuthFailure(
+  request: NextRequest,
+  custodianId: string,
+  result: Extract<AdminAuthResult, { success: false }>
+): Promise<void> {
+  await AuditLogger.logSecurityEvent(
+    'admin_auth_failed',
+    result.reason === 'custodian_mismatch' || result.reason === 'insufficient_role'
+      ? AuditSeverity.ERROR
+      : AuditSeverity.WARNING,
+    `Admin authentication failed: ${result.reason}`,
+    undefined,
+    request,
+    {
+      eventType: SOC2_AUDIT_EVENTS.ADMIN_AUTH_FAILURE,
+      reason: result.reason,
+      custodianId,
+      path: request.nextUrl.pathname
+    }
+  );
+}
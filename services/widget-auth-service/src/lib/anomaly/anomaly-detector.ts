@@ -0,0 +1,328 @@
+/**
+ * Anomaly Scoring for Widget Authentication and Account Creation
+ *
+ * The hard caps in multi-rate-limiter.ts stop volume; this scores patterns:
+ *
+ *   email_velocity     - distinct emails from one IP fingerprint in an hour
+ *   failed_partner_ids - unknown partner IDs tried from one IP in ten minutes
+ *   user_agent_churn   - distinct user agents from one IP in an hour
+ *   disposable_email   - throwaway mailbox domain
+ *
+ * Scores add up. At CHALLENGE_SCORE interactive actions (account creation,
+ * magic links) need a CAPTCHA response (see challenge.ts); at BLOCK_SCORE the
+ * fingerprint is blocked for BLOCK_DURATION_MS. Counters use the rate limit
+ * store, so RATE_LIMIT_STORE=firestore shares them across instances. Every
+ * scored request is written to the audit log as a SECURITY event.
+ */
+
+import { createHash } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { createRateLimitStore } from '../rate-limit-store';
+import { getClientIP, getIPFingerprint } from '../secure-ip-detection';
+import { AuditLogger, AuditSeverity } from '../audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from '../logger';
+import {
+  CHALLENGE_HEADER,
+  getChallengeConfig,
+  verifyChallengeResponse,
+  type ChallengeProvider
+} from './challenge';
+import { isDisposableEmail } from './disposable-domains';
+
+const log = createLogger('ANOMALY');
+
+export const CHALLENGE_SCORE = 40;
+export const BLOCK_SCORE = 80;
+
+// The block lifts once its window slides out: between one and two durations
+const BLOCK_DURATION_MS = 15 * 60 * 1000;
+const CHALLENGE_PASS_MS = 30 * 60 * 1000; // A solved challenge covers later requests for this long
+const DISPOSABLE_EMAIL_SCORE = 40;
+const UNLIMITED = Number.MAX_SAFE_INTEGER;
+
+export type RiskAction = 'widget_auth' | 'create_account' | 'magic_link';
+export type RiskDecision = 'allow' | 'challenge' | 'block';
+export type AnomalySignalType = 'email_velocity' | 'failed_partner_ids' | 'user_agent_churn' | 'disposable_email';
+
+// Actions a person is present for, so a CAPTCHA can be shown
+const CHALLENGEABLE_ACTIONS: RiskAction[] = ['create_account', 'magic_link'];
+
+interface CountSignalConfig {
+  windowMs: number;
+  threshold: number; // Counts up to this score nothing
+  pointsEach: number; // Per count over the threshold
+  maxScore: number;
+}
+
+const COUNT_SIGNALS: Record<Exclude<AnomalySignalType, 'disposable_email'>, CountSignalConfig> = {
+  email_velocity: { windowMs: 60 * 60 * 1000, threshold: 3, pointsEach: 15, maxScore: 60 },
+  failed_partner_ids: { windowMs: 10 * 60 * 1000, threshold: 5, pointsEach: 10, maxScore: 60 },
+  // Offices behind one NAT legitimately show many browsers; alone this never challenges
+  user_agent_churn: { windowMs: 60 * 60 * 1000, threshold: 10, pointsEach: 5, maxScore: 30 }
+};
+
+export interface AnomalySignal {
+  type: AnomalySignalType;
+  score: number;
+  observed?: number;
+}
+
+export interface RiskAssessment {
+  decision: RiskDecision;
+  score: number;
+  signals: AnomalySignal[];
+  fingerprintId: string; // Digest of the IP fingerprint, safe to log
+  retryAfterSeconds?: number;
+  challenge?: { provider: ChallengeProvider; siteKey: string };
+}
+
+const store = createRateLimitStore(50000);
+
+function digest(value: string): string {
+  return createHash('sha256').update(value).digest('hex').substring(0, 16);
+}
+
+function blockKey(fingerprintId: string): string {
+  return `anomaly:block:${fingerprintId}`;
+}
+
+function challengePassKey(fingerprintId: string): string {
+  return `anomaly:challenge_passed:${fingerprintId}`;
+}
+
+function failedPartnerKey(ip: string): string {
+  return `anomaly:failed_partner:${digest(ip)}`;
+}
+
+/**
+ * Distinct values seen for a scope in the window, including this one
+ */
+async function countDistinct(scope: string, value: string, windowMs: number): Promise<number> {
+  const seenKey = `anomaly:seen:${scope}:${digest(value)}`;
+  const counterKey = `anomaly:distinct:${scope}`;
+
+  if (await store.peek(seenKey, windowMs, UNLIMITED)) {
+    return (await store.peek(counterKey, windowMs, UNLIMITED))?.count ?? 0;
+  }
+
+  await store.increment(seenKey, windowMs, UNLIMITED);
+  return (await store.increment(counterKey, windowMs, UNLIMITED)).count;
+}
+
+function scoreCount(type: keyof typeof COUNT_SIGNALS, observed: number): AnomalySignal | null {
+  const config = COUNT_SIGNALS[type];
+  if (observed <= config.threshold) return null;
+  return {
+    type,
+    score: Math.min(config.maxScore, (observed - config.threshold) * config.pointsEach),
+    observed
+  };
+}
+
+/**
+ * Count an unknown partner ID presented from this request's IP
+ */
+export async function recordFailedPartnerId(request: NextRequest): Promise<void> {
+  const config = COUNT_SIGNALS.failed_partner_ids;
+  try {
+    await store.increment(failedPartnerKey(getClientIP(request)), config.windowMs, UNLIMITED);
+  } catch (error) {
+    log.error('Could not record failed partner ID', error);
+  }
+}
+
+async function collectSignals(request: NextRequest, fingerprintId: string, email?: string): Promise<AnomalySignal[]> {
+  const ip = getClientIP(request);
+  const ipId = digest(ip);
+  const signals: Array<AnomalySignal | null> = [];
+
+  if (email) {
+    const emails = await countDistinct(
+      `emails:${fingerprintId}`,
+      email.trim().toLowerCase(),
+      COUNT_SIGNALS.email_velocity.windowMs
+    );
+    signals.push(scoreCount('email_velocity', emails));
+
+    if (isDisposableEmail(email)) {
+      signals.push({ type: 'disposable_email', score: DISPOSABLE_EMAIL_SCORE });
+    }
+  }
+
+  const userAgents = await countDistinct(
+    `user_agents:${ipId}`,
+    request.headers.get('user-agent') || 'unknown',
+    COUNT_SIGNALS.user_agent_churn.windowMs
+  );
+  signals.push(scoreCount('user_agent_churn', userAgents));
+
+  const failedPartners = await store.peek(
+    failedPartnerKey(ip),
+    COUNT_SIGNALS.failed_partner_ids.windowMs,
+    UNLIMITED
+  );
+  signals.push(scoreCount('failed_partner_ids', failedPartners?.count ?? 0));
+
+  return signals.filter((signal): signal is AnomalySignal => signal !== null);
+}
+
+/**
+ * Score a request and decide whether it may proceed
+ * Fails open: a store outage must not take sign-up down.
+ */
+export async function assessRisk(
+  request: NextRequest,
+  options: { action: RiskAction; email?: string; custodianId?: string; sessionId?: string }
+): Promise<RiskAssessment> {
+  const fingerprintId = digest(getIPFingerprint(request));
+
+  let assessment: RiskAssessment;
+  try {
+    const block = await store.peek(blockKey(fingerprintId), BLOCK_DURATION_MS, 1);
+    if (block) {
+      return {
+        decision: 'block',
+        score: BLOCK_SCORE,
+        signals: [],
+        fingerprintId,
+        retryAfterSeconds: Math.max(1, Math.ceil((block.resetTime - Date.now()) / 1000))
+      };
+    }
+
+    const signals = await collectSignals(request, fingerprintId, options.email);
+    const score = signals.reduce((total, signal) => total + signal.score, 0);
+    assessment = { decision: 'allow', score, signals, fingerprintId };
+
+    if (score >= BLOCK_SCORE) {
+      await store.increment(blockKey(fingerprintId), BLOCK_DURATION_MS, UNLIMITED);
+      assessment.decision = 'block';
+      assessment.retryAfterSeconds = BLOCK_DURATION_MS / 1000;
+    } else if (score >= CHALLENGE_SCORE && CHALLENGEABLE_ACTIONS.includes(options.action)) {
+      assessment = await applyChallenge(request, assessment, options);
+    }
+  } catch (error) {
+    log.error('Risk assessment failed, allowing request', error, { action: options.action });
+    return { decision: 'allow', score: 0, signals: [], fingerprintId };
+  }
+
+  if (assessment.signals.length > 0) {
+    await logAnomaly(request, assessment, options);
+  }
+
+  return assessment;
+}
+
+/**
+ * Require a CAPTCHA response unless one was solved recently
+ * Without a configured provider the request is allowed and only audited.
+ */
+async function applyChallenge(
+  request: NextRequest,
+  assessment: RiskAssessment,
+  options: { action: RiskAction; custodianId?: string; sessionId?: string }
+): Promise<RiskAssessment> {
+  const config = getChallengeConfig();
+  if (!config) {
+    return assessment;
+  }
+
+  const passKey = challengePassKey(assessment.fingerprintId);
+  if (await store.peek(passKey, CHALLENGE_PASS_MS, UNLIMITED)) {
+    return assessment;
+  }
+
+  const token = request.headers.get(CHALLENGE_HEADER);
+  if (token && await verifyChallengeResponse(config, token, getClientIP(request))) {
+    await store.increment(passKey, CHALLENGE_PASS_MS, UNLIMITED);
+    return assessment;
+  }
+
+  if (token) {
+    await AuditLogger.logSecurityEvent(
+      'anomaly_challenge_failed',
+      AuditSeverity.WARNING,
+      'Challenge response rejected',
+      undefined,
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.WIDGET_CHALLENGE_FAILED,
+        custodianId: options.custodianId,
+        sessionId: options.sessionId,
+        action: options.action,
+        fingerprintId: assessment.fingerprintId,
+        provider: config.provider
+      }
+    );
+  }
+
+  return {
+    ...assessment,
+    decision: 'challenge',
+    challenge: { provider: config.provider, siteKey: config.siteKey }
+  };
+}
+
+async function logAnomaly(
+  request: NextRequest,
+  assessment: RiskAssessment,
+  options: { action: RiskAction; custodianId?: string; sessionId?: string }
+): Promise<void> {
+  const blocked = assessment.decision === 'block';
+
+  await AuditLogger.logSecurityEvent(
+    blocked ? 'anomaly_blocked' : 'anomaly_detected',
+    blocked ? AuditSeverity.CRITICAL : AuditSeverity.WARNING,
+    `Suspicious ${options.action} request scored ${assessment.score} (${assessment.decision})`,
+    undefined,
+    request,
+    {
+      eventType: blocked
+        ? SOC2_AUDIT_EVENTS.WIDGET_FINGERPRINT_BLOCKED
+        : SOC2_AUDIT_EVENTS.WIDGET_ANOMALY_DETECTED,
+      custodianId: options.custodianId,
+      sessionId: options.sessionId,
+      action: options.action,
+      score: assessment.score,
+      decision: assessment.decision,
+      signals: assessment.signals,
+      fingerprintId: assessment.fingerprintId
+    }
+  ).catch(error => log.error('Failed to log anomaly', error));
+}
+
+/**
+ * Response for a request that was challenged or blocked
+ */
+export function buildRiskRejection(assessment: RiskAssessment): {
+  status: number;
+  body: Record<string, unknown>;
+  headers: Record<string, string>;
+} {
+  if (assessment.decision === 'challenge' && assessment.challenge) {
+    return {
+      status: 403,
+      body: {
+        error: 'Please complete the verification challenge and try again',
+        code: 'CHALLENGE_REQUIRED',
+        challenge: {
+          provider: assessment.challenge.provider,
+          site_key: assessment.challenge.siteKey,
+          header: CHALLENGE_HEADER
+        }
+      },
+      headers: {}
+    };
+  }
+
+  const retryAfter = assessment.retryAfterSeconds ?? BLOCK_DURATION_MS / 1000;
+  return {
+    status: 403,
+    body: {
+      error: 'Too many suspicious requests. Please try again later.',
+      code: 'TEMPORARILY_BLOCKED',
+      retry_after: retryAfter
+    },
+    headers: { 'Retry-After': String(retryAfter) }
+  };
+}
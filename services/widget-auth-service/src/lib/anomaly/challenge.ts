@@ -0,0 +1,81 @@
+/**
+ * CAPTCHA Challenge Verification
+ *
+ * When a request is risky enough to need a challenge, the widget's host page
+ * renders the configured provider's CAPTCHA and sends the response token back
+ * in the X-TrustRails-Challenge header. The token is checked with the
+ * provider's siteverify API.
+ *
+ *   CHALLENGE_PROVIDER   - turnstile, hcaptcha or recaptcha
+ *   CHALLENGE_SITE_KEY   - public key returned to the widget
+ *   CHALLENGE_SECRET_KEY - server key for siteverify
+ */
+
+import { createLogger } from '../logger';
+
+const log = createLogger('CHALLENGE');
+
+export const CHALLENGE_HEADER = 'X-TrustRails-Challenge';
+
+const VERIFY_TIMEOUT_MS = 5000;
+
+const VERIFY_URLS = {
+  turnstile: 'https://challenges.cloudflare.com/turnstile/v0/siteverify',
+  hcaptcha: 'https://api.hcaptcha.com/siteverify',
+  recaptcha: 'https://www.google.com/recaptcha/api/siteverify'
+} as const;
+
+export type ChallengeProvider = keyof typeof VERIFY_URLS;
+
+export interface ChallengeConfig {
+  provider: ChallengeProvider;
+  siteKey: string;
+  secretKey: string;
+}
+
+/**
+ * Provider configuration, or null when challenges are not configured
+ */
+export function getChallengeConfig(): ChallengeConfig | null {
+  const provider = process.env.CHALLENGE_PROVIDER as ChallengeProvider | undefined;
+  const siteKey = process.env.CHALLENGE_SITE_KEY;
+  const secretKey = process.env.CHALLENGE_SECRET_KEY;
+
+  if (!provider || !(provider in VERIFY_URLS) || !siteKey || !secretKey) {
+    return null;
+  }
+  return { provider, siteKey, secretKey };
+}
+
+/**
+ * Check a challenge response token with the provider
+ */
+export async function verifyChallengeResponse(
+  config: ChallengeConfig,
+  token: string,
+  remoteIp?: string
+): Promise<boolean> {
+  const form = new URLSearchParams({ secret: config.secretKey, response: token });
+  if (remoteIp) {
+    form.set('remoteip', remoteIp);
+  }
+
+  try {
+    const response = await fetch(VERIFY_URLS[config.provider], {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: form.toString(),
+      signal: AbortSignal.timeout(VERIFY_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      log.warn('Challenge verification request failed', { provider: config.provider, status: response.status });
+      return false;
+    }
+
+    const result = await response.json();
+    return result?.success === true;
+  } catch (error) {
+    log.error('Challenge verification unavailable', error, { provider: config.provider });
+    return false;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Disposable Email Domains
+ *
+ * Common throwaway-mailbox providers. Extend with DISPOSABLE_EMAIL_DOMAINS
+ * (comma-separated). Subdomains of a listed domain match too.
+ */
+
+const DISPOSABLE_EMAIL_DOMAINS = new Set([
+  '10minutemail.com',
+  '20minutemail.com',
+  'burnermail.io',
+  'discard.email',
+  'dispostable.com',
+  'emailondeck.com',
+  'fakeinbox.com',
+  'getairmail.com',
+  'getnada.com',
+  'guerrillamail.com',
+  'guerrillamail.net',
+  'guerrillamail.org',
+  'guerrillamailblock.com',
+  'inboxkitten.com',
+  'maildrop.cc',
+  'mailinator.com',
+  'mailinator.net',
+  'mailnesia.com',
+  'mintemail.com',
+  'moakt.com',
+  'mohmal.com',
+  'mytemp.email',
+  'sharklasers.com',
+  'spam4.me',
+  'spamgourmet.com',
+  'temp-mail.io',
+  'temp-mail.org',
+  'tempail.com',
+  'tempmail.dev',
+  'tempmail.net',
+  'tempmailo.com',
+  'tempr.email',
+  'throwawaymail.com',
+  'trashmail.com',
+  'trashmail.de',
+  'yopmail.com',
+  'yopmail.fr',
+  'yopmail.net'
+]);
+
+let extraDomains: Set<string> | null = null;
+
+function getExtraDomains(): Set<string> {
+  if (!extraDomains) {
+    extraDomains = new Set(
+      (process.env.DISPOSABLE_EMAIL_DOMAINS || '')
+        .split(',')
+        .map(domain => domain.trim().toLowerCase())
+        .filter(Boolean)
+    );
+  }
+  return extraDomains;
+}
+
+export function isDisposableEmail(email: string): boolean {
+  const domain = email.split('@').pop()?.trim().toLowerCase();
+  if (!domain) return false;
+
+  const labels = domain.split('.');
+  for (let i = 0; i < labels.length - 1; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (DISPOSABLE_EMAIL_DOMAINS.has(candidate) || getExtraDomains().has(candidate)) {
+      return true;
+    }
+  }
+  return false;
+}
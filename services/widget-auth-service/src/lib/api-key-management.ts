@@ -0,0 +1,324 @@
+/**
+ * API Key Lifecycle Management
+ *
+ * Keys live on the custodian document under integrationConfig.apiKeys. Every
+ * change is a read-modify-write inside a transaction so concurrent admin
+ * actions never overwrite each other. lastUsedAt is kept apart in
+ * api_key_usage, so authentication never writes the custodian document.
+ *
+ * Rotation issues a replacement key and leaves the old key active until
+ * `expiresAt`, so partners can deploy the new key without downtime.
+ *
+ * Secret keys come with the signing secret partners sign backend requests
+ * with. Like the full key, it is returned once and never stored.
+ */
+
+import { randomUUID } from 'crypto';
+import type { DocumentData } from 'firebase-admin/firestore';
+import {
+  deriveSigningSecret,
+  generateAPIKey,
+  getRateLimitForTier,
+  isAPIKeyUsable,
+  type APIKeyData,
+  type APIKeyType
+} from './api-keys-server';
+import { requireAdminApp } from './firebase-admin';
+
+export const MAX_ACTIVE_KEYS_PER_CUSTODIAN = 20;
+export const DEFAULT_ROTATION_OVERLAP_MS = 24 * 60 * 60 * 1000; // 24 hours
+export const MAX_ROTATION_OVERLAP_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+export const API_KEY_USAGE_INTERVAL_MS = 60 * 1000; // lastUsedAt is written at most once a minute per key
+
+const API_KEY_USAGE_COLLECTION = 'api_key_usage';
+
+// When this instance last wrote each key's usage document
+const usageRecordedAt = new Map<string, number>();
+
+// Firestore shape of APIKeyData; this service writes timestamps as ISO strings
+export type StoredAPIKey = Omit<APIKeyData, 'createdAt' | 'lastUsedAt' | 'expiresAt' | 'revokedAt'> & {
+  createdAt: string;
+  lastUsedAt?: string;
+  expiresAt?: string;
+  revokedAt?: string;
+};
+
+export interface CreateAPIKeyOptions {
+  name: string;
+  type: APIKeyType;
+  environment: 'production' | 'sandbox';
+  permissions?: string[];
+  rateLimit?: number;
+}
+
+export type KeyChangeFailure =
+  | 'not_found'
+  | 'already_revoked'
+  | 'already_rotated'
+  | 'limit_reached'
+  | 'signing_unavailable'; // Secret keys need PARTNER_SIGNING_PEPPER
+
+// What a new key's creator sees once; signingSecret is null for public keys
+export interface IssuedAPIKey {
+  fullKey: string;
+  signingSecret: string | null;
+  key: StoredAPIKey;
+}
+
+export type KeyChangeResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: KeyChangeFailure };
+
+function toISOString(value: any): string | null {
+  if (!value) return null;
+  return typeof value.toDate === 'function'
+    ? value.toDate().toISOString()
+    : new Date(value).toISOString();
+}
+
+export function getAPIKeys(custodianData: DocumentData | undefined): StoredAPIKey[] {
+  return custodianData?.integrationConfig?.apiKeys || [];
+}
+
+/**
+ * Key as returned by the API - never includes the hash
+ */
+export function toPublicAPIKey(key: StoredAPIKey, now: number = Date.now()) {
+  let state: 'active' | 'expiring' | 'expired' | 'revoked';
+  if (key.status === 'revoked') {
+    state = 'revoked';
+  } else if (!isAPIKeyUsable(key, now)) {
+    state = 'expired';
+  } else {
+    state = key.expiresAt ? 'expiring' : 'active';
+  }
+
+  return {
+    id: key.id,
+    name: key.name,
+    type: key.type,
+    prefix: key.prefix,
+    environment: key.environment,
+    status: state,
+    rate_limit: key.rateLimit,
+    permissions: key.permissions || [],
+    created_at: toISOString(key.createdAt),
+    created_by: key.createdBy,
+    last_used_at: toISOString(key.lastUsedAt),
+    expires_at: toISOString(key.expiresAt),
+    rotated_from: key.rotatedFrom || null,
+    rotated_to: key.rotatedTo || null,
+    revoked_at: toISOString(key.revokedAt)
+  };
+}
+
+function buildKey(
+  options: CreateAPIKeyOptions,
+  createdBy: string,
+  custodianData: DocumentData | undefined
+): IssuedAPIKey {
+  const generated = generateAPIKey(options.type, options.environment);
+
+  const key: StoredAPIKey = {
+    id: randomUUID(),
+    name: options.name,
+    type: generated.type,
+    prefix: generated.prefix,
+    hashedKey: generated.hashedKey,
+    createdAt: new Date().toISOString(),
+    createdBy,
+    status: 'active',
+    environment: options.environment,
+    rateLimit: options.rateLimit ?? getRateLimitForTier(custodianData?.level),
+    ...(options.permissions && { permissions: Array.from(new Set(options.permissions)) })
+  };
+
+  return {
+    fullKey: generated.fullKey,
+    signingSecret: key.type === 'secret' ? deriveSigningSecret(key.hashedKey) : null,
+    key
+  };
+}
+
+/**
+ * Issue a new key; the full key is returned once and never stored
+ */
+export async function createAPIKey(
+  custodianId: string,
+  options: CreateAPIKeyOptions,
+  createdBy: string
+): Promise<KeyChangeResult<IssuedAPIKey>> {
+  const { adminDb } = requireAdminApp();
+  const custodianRef = adminDb.collection('custodians').doc(custodianId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const custodianDoc = await transaction.get(custodianRef);
+    if (!custodianDoc.exists) {
+      return { success: false, error: 'not_found' };
+    }
+
+    const apiKeys = getAPIKeys(custodianDoc.data());
+    if (apiKeys.filter(key => isAPIKeyUsable(key)).length >= MAX_ACTIVE_KEYS_PER_CUSTODIAN) {
+      return { success: false, error: 'limit_reached' };
+    }
+
+    const { fullKey, signingSecret, key } = buildKey(options, createdBy, custodianDoc.data());
+    if (key.type === 'secret' && !signingSecret) {
+      return { success: false, error: 'signing_unavailable' };
+    }
+
+    transaction.update(custodianRef, {
+      'integrationConfig.apiKeys': [...apiKeys, key]
+    });
+
+    return { success: true, fullKey, signingSecret, key };
+  });
+}
+
+/**
+ * Replace a key, keeping the old one valid for `overlapMs`
+ * An overlap of 0 revokes the old key immediately.
+ */
+export async function rotateAPIKey(
+  custodianId: string,
+  keyId: string,
+  overlapMs: number,
+  rotatedBy: string
+): Promise<KeyChangeResult<IssuedAPIKey & { previousKey: StoredAPIKey }>> {
+  const { adminDb } = requireAdminApp();
+  const custodianRef = adminDb.collection('custodians').doc(custodianId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const custodianDoc = await transaction.get(custodianRef);
+    const apiKeys = getAPIKeys(custodianDoc.data());
+    const current = apiKeys.find(key => key.id === keyId);
+
+    if (!current) {
+      return { success: false, error: 'not_found' };
+    }
+    if (!isAPIKeyUsable(current)) {
+      return { success: false, error: 'already_revoked' };
+    }
+    if (current.rotatedTo) {
+      return { success: false, error: 'already_rotated' };
+    }
+
+    const { fullKey, signingSecret, key } = buildKey(
+      {
+        name: current.name,
+        type: current.type,
+        environment: current.environment,
+        permissions: current.permissions,
+        rateLimit: current.rateLimit
+      },
+      rotatedBy,
+      custodianDoc.data()
+    );
+    if (key.type === 'secret' && !signingSecret) {
+      return { success: false, error: 'signing_unavailable' };
+    }
+    key.rotatedFrom = current.id;
+
+    const now = new Date().toISOString();
+    const previousKey: StoredAPIKey = overlapMs > 0
+      ? { ...current, rotatedTo: key.id, expiresAt: new Date(Date.now() + overlapMs).toISOString() }
+      : { ...current, rotatedTo: key.id, status: 'revoked', revokedAt: now, revokedBy: rotatedBy };
+
+    transaction.update(custodianRef, {
+      'integrationConfig.apiKeys': [
+        ...apiKeys.map(existing => existing.id === keyId ? previousKey : existing),
+        key
+      ]
+    });
+
+    return { success: true, fullKey, signingSecret, key, previousKey };
+  });
+}
+
+/**
+ * Revoke a key, immediately or after a grace period
+ */
+export async function revokeAPIKey(
+  custodianId: string,
+  keyId: string,
+  revokedBy: string,
+  gracePeriodMs: number = 0
+): Promise<KeyChangeResult<{ key: StoredAPIKey }>> {
+  const { adminDb } = requireAdminApp();
+  const custodianRef = adminDb.collection('custodians').doc(custodianId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const custodianDoc = await transaction.get(custodianRef);
+    const apiKeys = getAPIKeys(custodianDoc.data());
+    const current = apiKeys.find(key => key.id === keyId);
+
+    if (!current) {
+      return { success: false, error: 'not_found' };
+    }
+    if (!isAPIKeyUsable(current)) {
+      return { success: false, error: 'already_revoked' };
+    }
+
+    const now = new Date();
+    const key: StoredAPIKey = gracePeriodMs > 0
+      ? { ...current, expiresAt: new Date(now.getTime() + gracePeriodMs).toISOString(), revokedBy }
+      : { ...current, status: 'revoked', revokedAt: now.toISOString(), revokedBy };
+
+    transaction.update(custodianRef, {
+      'integrationConfig.apiKeys': apiKeys.map(existing => existing.id === keyId ? key : existing)
+    });
+
+    return { success: true, key };
+  });
+}
+
+function usageDocId(custodianId: string, keyId: string): string {
+  return `${custodianId}_${keyId}`;
+}
+
+/**
+ * Record a successful authentication with a key
+ * Writes api_key_usage/{custodianId}_{keyId}, skipping keys this instance
+ * recorded less than API_KEY_USAGE_INTERVAL_MS ago. Callers don't await it.
+ */
+export async function recordAPIKeyUsage(
+  custodianId: string,
+  keyId: string,
+  now: number = Date.now()
+): Promise<void> {
+  const id = usageDocId(custodianId, keyId);
+  const recordedAt = usageRecordedAt.get(id);
+  if (recordedAt !== undefined && now - recordedAt < API_KEY_USAGE_INTERVAL_MS) {
+    return;
+  }
+  usageRecordedAt.set(id, now);
+
+  const { adminDb } = requireAdminApp();
+  try {
+    await adminDb.collection(API_KEY_USAGE_COLLECTION).doc(id).set({
+      custodianId,
+      keyId,
+      lastUsedAt: new Date(now).toISOString()
+    }, { merge: true });
+  } catch (error) {
+    usageRecordedAt.delete(id); // Let the next authentication retry
+    throw error;
+  }
+}
+
+/**
+ * The partner's keys with lastUsedAt from their usage documents
+ * Keys last used before usage moved off the custodian keep their stored value.
+ */
+export async function withLastUsedAt(custodianId: string, apiKeys: StoredAPIKey[]): Promise<StoredAPIKey[]> {
+  const { adminDb } = requireAdminApp();
+  const snapshot = await adminDb
+    .collection(API_KEY_USAGE_COLLECTION)
+    .where('custodianId', '==', custodianId)
+    .get();
+
+  const lastUsed = new Map<string, string>();
+  snapshot.docs.forEach(doc => lastUsed.set(doc.data().keyId, doc.data().lastUsedAt));
+
+  return apiKeys.map(key => lastUsed.has(key.id) ? { ...key, lastUsedAt: lastUsed.get(key.id) } : key);
+}
@@ -29,6 +29,11 @@ export interface APIKeyData {
   environment: 'production' | 'sandbox';
   rateLimit: number; // requests per minute
   permissions?: string[]; // Optional permissions array for fine-grained access control
+  expiresAt?: Date; // Set when the key is rotated or revoked with a grace period
+  rotatedFrom?: string; // Key ID this key replaced
+  rotatedTo?: string; // Key ID that replaced this key
+  revokedAt?: Date;
+  revokedBy?: string;
 }
 
 /**
@@ -73,6 +78,24 @@ export function generateAPIKey(
   };
 }
 
+/**
+ * Check whether a stored key may still authenticate
+ * Rotated keys stay active until their overlap window (expiresAt) ends
+ */
+export function isAPIKeyUsable(
+  key: { status?: string; expiresAt?: any },
+  now: number = Date.now()
+): boolean {
+  if (key.status !== 'active') return false;
+  if (!key.expiresAt) return true;
+
+  // Firestore Timestamp (keys created by the main app) or ISO string
+  const expiresAt = typeof key.expiresAt.toDate === 'function'
+    ? key.expiresAt.toDate()
+    : new Date(key.expiresAt);
+  return expiresAt.getTime() > now;
+}
+
 /**
  * Hash an API key for secure storage
  * Uses SHA-256 for consistent hashing
@@ -179,6 +202,18 @@ export function verifyHMACSignature(
   return timingSafeEqual(expected, received);
 }
 
+/**
+ * Derive the HMAC key a partner signs backend requests with (Tier 2 auth)
+ * Keyed by PARTNER_SIGNING_PEPPER, which never lives in Firestore, so a
+ * leaked `hashedKey` cannot sign requests. Null when the pepper is missing.
+ */
+export function deriveSigningSecret(hashedKey: string): string | null {
+  const pepper = process.env.PARTNER_SIGNING_PEPPER;
+  if (!pepper) return null;
+
+  return createHmac('sha256', pepper).update(hashedKey).digest('hex');
+}
+
 /**
  * Get rate limit based on custodian tier
  * Tier 1 (Financial): 1000 req/min
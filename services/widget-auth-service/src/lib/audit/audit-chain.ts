@@ -0,0 +1,532 @@
+/**
+ * Tamper-Evident Audit Chain
+ *
+ * Every audit event is appended to a hash chain. Each custodian's events
+ * (events without a custodian go to `_system`) are split over
+ * AUDIT_CHAIN_SHARDS chains, `{custodianId}:{shard}`; events written before
+ * sharding stay in the unsharded `{custodianId}` chain. Each event records
+ * its position (`sequence`) and the previous event's hash (`previousHash`),
+ * and its own `eventHash` covers every field including both. Editing or
+ * deleting a stored event breaks the chain at that point.
+ *
+ * The chain head (`audit_chain_heads/{chainId}`) is advanced in the same
+ * transaction that stores the event, so concurrent writers cannot fork it.
+ * Every append contends for that one document, so each instance appends to
+ * one shard, picked when it starts, and queues its appends per chain to
+ * store whatever has queued up in one transaction. Instances only contend
+ * when they share a shard.
+ *
+ * An event that still cannot be chained is recorded in `audit_chain_gaps`
+ * (outside the chain, so without contention) and the verifier reports it as
+ * an `unchained_event`; the copy in Cloud Logging is then the only full one.
+ *
+ * Rewriting a whole chain tail would go unnoticed by hashes alone, so the
+ * checkpoint job periodically signs each head, shards included, with
+ * AUDIT_CHECKPOINT_SECRET (`audit_checkpoints`). The verifier checks events
+ * against those signatures.
+ */
+
+import { createHash, createHmac, randomInt, timingSafeEqual } from 'crypto';
+import type { QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { requireAdminApp } from '@/lib/firebase-admin';
+import type { WidgetAuditEvent } from './unified-audit-logger';
+
+export const AUDIT_EVENTS_COLLECTION = 'widget_auth_audit_events';
+const CHAIN_HEADS_COLLECTION = 'audit_chain_heads';
+const CHECKPOINTS_COLLECTION = 'audit_checkpoints';
+const CHAIN_GAPS_COLLECTION = 'audit_chain_gaps';
+
+export const SYSTEM_CHAIN_ID = '_system';
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Stored alongside the event but not covered by its hash
+const STORAGE_FIELDS = ['firestoreTimestamp', 'createdAt', 'source'];
+
+const VERIFY_PAGE_SIZE = 500;
+const DEFAULT_VERIFY_LIMIT = 10000;
+const MAX_REPORTED_GAPS = 500;
+
+// Events per append transaction, well below Firestore's 500 writes
+const MAX_APPEND_BATCH = 100;
+
+export const AUDIT_CHAIN_SHARDS = 8;
+
+// This instance's shard, so its events stay in order in one chain
+const instanceShard = randomInt(AUDIT_CHAIN_SHARDS);
+
+export type UnchainedAuditEvent = Omit<WidgetAuditEvent, 'chainId' | 'sequence' | 'previousHash' | 'eventHash'>;
+
+export interface AuditCheckpoint {
+  chainId: string;
+  sequence: number;
+  eventHash: string;
+  createdAt: string;
+  algorithm: 'HMAC-SHA256';
+  signature: string;
+}
+
+export type AuditChainIssueType =
+  | 'sequence_gap'        // Events missing between two stored events
+  | 'duplicate_sequence'  // Two events claim the same position
+  | 'hash_mismatch'       // Event content no longer matches its hash
+  | 'chain_break'         // previousHash does not match the preceding event
+  | 'missing_tail'        // Head is ahead of the last stored event
+  | 'checkpoint_invalid'  // Checkpoint signature does not verify
+  | 'checkpoint_mismatch' // Event at a checkpoint differs from the signed hash
+  | 'unchained_event';    // Event that could not be appended (see audit_chain_gaps)
+
+export interface AuditChainIssue {
+  type: AuditChainIssueType;
+  sequence?: number; // Unset for unchained events, which never got a position
+  eventId?: string;
+  detail: string;
+}
+
+export interface AuditChainReport {
+  chainId: string;
+  valid: boolean;
+  fromSequence: number;
+  lastSequence: number; // Last event checked
+  headSequence: number;
+  eventsChecked: number;
+  checkpointsChecked: number;
+  unchainedEvents: number;
+  truncated: boolean; // Stopped at the limit before the head
+  issues: AuditChainIssue[];
+}
+
+// Every chain of one custodian
+export interface AuditChainSetReport {
+  chainId: string; // Custodian chain ID, without a shard
+  valid: boolean;
+  eventsChecked: number;
+  checkpointsChecked: number;
+  unchainedEvents: number;
+  truncated: boolean; // Some chain stopped at the limit before its head
+  chains: AuditChainReport[]; // Chains that hold events
+  issues: Array<AuditChainIssue & { chainId: string }>;
+}
+
+interface PendingAppend {
+  event: UnchainedAuditEvent;
+  storageFields: Record<string, any>;
+  resolve: (event: WidgetAuditEvent) => void;
+  reject: (error: unknown) => void;
+}
+
+// Appends waiting for their chain's next transaction, by chain
+const pendingAppends = new Map<string, PendingAppend[]>();
+
+export function getChainId(custodianId?: string): string {
+  return custodianId || SYSTEM_CHAIN_ID;
+}
+
+/**
+ * Every chain that holds a custodian's events: the unsharded chain written
+ * before sharding, then each shard
+ */
+export function getChainIds(custodianId?: string): string[] {
+  const chainId = getChainId(custodianId);
+  return [chainId, ...Array.from({ length: AUDIT_CHAIN_SHARDS }, (_, shard) => `${chainId}:${shard}`)];
+}
+
+/**
+ * JSON with object keys sorted at every level
+ * Firestore does not preserve key order, so hashes are computed over this form
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash of every event field except eventHash and storage bookkeeping
+ */
+export function computeEventHash(event: Record<string, any>): string {
+  const hashed: Record<string, any> = { ...event };
+  delete hashed.eventHash;
+  for (const field of STORAGE_FIELDS) {
+    delete hashed[field];
+  }
+
+  return createHash('sha256').update(canonicalJson(hashed)).digest('hex');
+}
+
+/**
+ * Append an event to this instance's shard of its custodian's chains and store it
+ * Resolves once the transaction holding the event has committed.
+ */
+export function appendAuditEvent(
+  event: UnchainedAuditEvent,
+  storageFields: Record<string, any> = {}
+): Promise<WidgetAuditEvent> {
+  const chainId = `${getChainId(event.custodianId)}:${instanceShard}`;
+
+  return new Promise((resolve, reject) => {
+    const queue = pendingAppends.get(chainId);
+    if (queue) {
+      queue.push({ event, storageFields, resolve, reject });
+      return;
+    }
+    pendingAppends.set(chainId, [{ event, storageFields, resolve, reject }]);
+    void drainChain(chainId);
+  });
+}
+
+/**
+ * Store a chain's queued appends, one transaction per batch, until none are left
+ */
+async function drainChain(chainId: string): Promise<void> {
+  const queue = pendingAppends.get(chainId)!;
+
+  while (queue.length > 0) {
+    const batch = queue.splice(0, MAX_APPEND_BATCH);
+    try {
+      const chained = await appendBatch(chainId, batch);
+      batch.forEach((pending, index) => pending.resolve(chained[index]));
+    } catch (error) {
+      batch.forEach(pending => pending.reject(error));
+    }
+  }
+
+  pendingAppends.delete(chainId);
+}
+
+async function appendBatch(chainId: string, batch: PendingAppend[]): Promise<WidgetAuditEvent[]> {
+  const { adminDb } = requireAdminApp();
+  const headRef = adminDb.collection(CHAIN_HEADS_COLLECTION).doc(chainId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const head = (await transaction.get(headRef)).data();
+    let sequence: number = head?.sequence ?? 0;
+    let previousHash: string = head?.lastHash ?? GENESIS_HASH;
+
+    const chainedEvents = batch.map(({ event, storageFields }) => {
+      const chained: WidgetAuditEvent = {
+        ...event,
+        chainId,
+        sequence: ++sequence,
+        previousHash
+      };
+      chained.eventHash = computeEventHash(chained);
+      previousHash = chained.eventHash;
+
+      transaction.set(
+        adminDb.collection(AUDIT_EVENTS_COLLECTION).doc(event.eventId),
+        { ...chained, ...storageFields }
+      );
+      return chained;
+    });
+
+    const last = chainedEvents[chainedEvents.length - 1];
+    // Merge keeps the checkpoint job's bookkeeping on the head
+    transaction.set(headRef, {
+      chainId,
+      sequence: last.sequence,
+      lastHash: last.eventHash,
+      lastEventId: last.eventId,
+      updatedAt: last.timestamp
+    }, { merge: true });
+
+    return chainedEvents;
+  });
+}
+
+/**
+ * Record an event that could not be appended, so verification reports the gap
+ * Gaps are kept under the custodian's unsharded chain ID.
+ */
+export async function recordUnchainedEvent(
+  event: WidgetAuditEvent,
+  reason: string
+): Promise<void> {
+  const { adminDb } = requireAdminApp();
+  await adminDb.collection(CHAIN_GAPS_COLLECTION).doc(event.eventId).set({
+    chainId: getChainId(event.custodianId),
+    eventId: event.eventId,
+    eventType: event.eventType,
+    timestamp: event.timestamp,
+    eventHash: event.eventHash,
+    reason,
+    recordedAt: new Date().toISOString()
+  });
+}
+
+function getCheckpointSecret(): string | null {
+  return process.env.AUDIT_CHECKPOINT_SECRET || null;
+}
+
+function signCheckpoint(
+  checkpoint: Omit<AuditCheckpoint, 'signature' | 'algorithm'>,
+  secret: string
+): string {
+  const payload = canonicalJson({
+    chainId: checkpoint.chainId,
+    sequence: checkpoint.sequence,
+    eventHash: checkpoint.eventHash,
+    createdAt: checkpoint.createdAt
+  });
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+function isValidCheckpointSignature(checkpoint: AuditCheckpoint, secret: string): boolean {
+  const expected = Buffer.from(signCheckpoint(checkpoint, secret), 'hex');
+  const provided = Buffer.from(String(checkpoint.signature || ''), 'hex');
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+/**
+ * Sign the current head of every chain that advanced since its last checkpoint
+ */
+export async function createAuditCheckpoints(): Promise<
+  | { success: true; created: number; unchanged: number; checkpoints: AuditCheckpoint[] }
+  | { success: false; error: string }
+> {
+  const secret = getCheckpointSecret();
+  if (!secret) {
+    return { success: false, error: 'AUDIT_CHECKPOINT_SECRET is not configured' };
+  }
+
+  const { adminDb } = requireAdminApp();
+  const heads = await adminDb.collection(CHAIN_HEADS_COLLECTION).get();
+  const checkpoints: AuditCheckpoint[] = [];
+  let unchanged = 0;
+
+  for (const headDoc of heads.docs) {
+    const head = headDoc.data();
+    if (!head.sequence || head.sequence === head.checkpointSequence) {
+      unchanged++;
+      continue;
+    }
+
+    const unsigned = {
+      chainId: headDoc.id,
+      sequence: head.sequence,
+      eventHash: head.lastHash,
+      createdAt: new Date().toISOString()
+    };
+    const checkpoint: AuditCheckpoint = {
+      ...unsigned,
+      algorithm: 'HMAC-SHA256',
+      signature: signCheckpoint(unsigned, secret)
+    };
+
+    await adminDb
+      .collection(CHECKPOINTS_COLLECTION)
+      .doc(`${headDoc.id}_${String(head.sequence).padStart(12, '0')}`)
+      .set(checkpoint);
+    await headDoc.ref.set({ checkpointSequence: head.sequence }, { merge: true });
+    checkpoints.push(checkpoint);
+  }
+
+  return { success: true, created: checkpoints.length, unchanged, checkpoints };
+}
+
+/**
+ * Walk a chain in sequence order and report every inconsistency
+ */
+export async function verifyAuditChain(
+  chainId: string,
+  options: { fromSequence?: number; limit?: number } = {}
+): Promise<AuditChainReport> {
+  const { adminDb } = requireAdminApp();
+  const fromSequence = Math.max(1, options.fromSequence ?? 1);
+  const limit = Math.max(1, options.limit ?? DEFAULT_VERIFY_LIMIT);
+  const issues: AuditChainIssue[] = [];
+
+  const head = (await adminDb.collection(CHAIN_HEADS_COLLECTION).doc(chainId).get()).data();
+  const headSequence: number = head?.sequence ?? 0;
+
+  // Checkpoints inside the verified range, by sequence
+  const secret = getCheckpointSecret();
+  const checkpoints = new Map<number, AuditCheckpoint>();
+  const checkpointDocs = await adminDb
+    .collection(CHECKPOINTS_COLLECTION)
+    .where('chainId', '==', chainId)
+    .where('sequence', '>=', fromSequence)
+    .orderBy('sequence')
+    .get();
+  for (const doc of checkpointDocs.docs) {
+    const checkpoint = doc.data() as AuditCheckpoint;
+    if (secret && !isValidCheckpointSignature(checkpoint, secret)) {
+      issues.push({
+        type: 'checkpoint_invalid',
+        sequence: checkpoint.sequence,
+        detail: `Checkpoint ${doc.id} has an invalid signature`
+      });
+      continue;
+    }
+    checkpoints.set(checkpoint.sequence, checkpoint);
+  }
+
+  let expectedSequence = fromSequence;
+  // The predecessor of the first event is only known when starting at the genesis
+  let previousHash: string | null = fromSequence === 1 ? GENESIS_HASH : null;
+  let eventsChecked = 0;
+  let checkpointsChecked = 0;
+  let lastSequence = fromSequence - 1;
+  let cursor: QueryDocumentSnapshot | null = null;
+
+  while (eventsChecked < limit) {
+    let query = adminDb
+      .collection(AUDIT_EVENTS_COLLECTION)
+      .where('chainId', '==', chainId)
+      .where('sequence', '>=', fromSequence)
+      .orderBy('sequence')
+      .limit(Math.min(VERIFY_PAGE_SIZE, limit - eventsChecked));
+    if (cursor) {
+      query = query.startAfter(cursor);
+    }
+
+    const page = await query.get();
+    if (page.empty) break;
+
+    for (const doc of page.docs) {
+      const event = doc.data();
+      const sequence: number = event.sequence;
+
+      if (sequence < expectedSequence) {
+        issues.push({
+          type: 'duplicate_sequence',
+          sequence,
+          eventId: doc.id,
+          detail: `Another event already holds sequence ${sequence}`
+        });
+      } else if (sequence > expectedSequence) {
+        issues.push({
+          type: 'sequence_gap',
+          sequence: expectedSequence,
+          detail: `Events ${expectedSequence}-${sequence - 1} are missing`
+        });
+        previousHash = null;
+      }
+
+      if (computeEventHash(event) !== event.eventHash) {
+        issues.push({
+          type: 'hash_mismatch',
+          sequence,
+          eventId: doc.id,
+          detail: 'Event content does not match its hash'
+        });
+      }
+
+      if (previousHash !== null && event.previousHash !== previousHash) {
+        issues.push({
+          type: 'chain_break',
+          sequence,
+          eventId: doc.id,
+          detail: 'previousHash does not match the preceding event'
+        });
+      }
+
+      const checkpoint = checkpoints.get(sequence);
+      if (checkpoint) {
+        checkpointsChecked++;
+        if (checkpoint.eventHash !== event.eventHash) {
+          issues.push({
+            type: 'checkpoint_mismatch',
+            sequence,
+            eventId: doc.id,
+            detail: `Event differs from the hash signed at ${checkpoint.createdAt}`
+          });
+        }
+      }
+
+      previousHash = event.eventHash;
+      expectedSequence = Math.max(expectedSequence, sequence + 1);
+      lastSequence = Math.max(lastSequence, sequence);
+      cursor = doc;
+      eventsChecked++;
+    }
+  }
+
+  const truncated = eventsChecked >= limit && lastSequence < headSequence;
+
+  // Events that never made it into the chain
+  const gapDocs = await adminDb
+    .collection(CHAIN_GAPS_COLLECTION)
+    .where('chainId', '==', chainId)
+    .limit(MAX_REPORTED_GAPS)
+    .get();
+  gapDocs.docs
+    .map(doc => doc.data())
+    .sort((a, b) => String(a.timestamp).localeCompare(String(b.timestamp)))
+    .forEach(gap => {
+      issues.push({
+        type: 'unchained_event',
+        eventId: gap.eventId,
+        detail: `${gap.eventType} at ${gap.timestamp} was not appended to the chain (${gap.reason})`
+      });
+    });
+
+  if (!truncated && lastSequence < headSequence) {
+    issues.push({
+      type: 'missing_tail',
+      sequence: lastSequence + 1,
+      detail: `Events ${lastSequence + 1}-${headSequence} are missing`
+    });
+  }
+
+  // Signed checkpoints past the last stored event mean the tail was removed
+  const maxCheckpoint = Math.max(0, ...Array.from(checkpoints.keys()));
+  if (!truncated && maxCheckpoint > Math.max(lastSequence, headSequence)) {
+    issues.push({
+      type: 'missing_tail',
+      sequence: lastSequence + 1,
+      detail: `A checkpoint was signed at sequence ${maxCheckpoint}, past the chain head`
+    });
+  }
+
+  return {
+    chainId,
+    valid: issues.length === 0,
+    fromSequence,
+    lastSequence,
+    headSequence,
+    eventsChecked,
+    checkpointsChecked,
+    unchainedEvents: gapDocs.size,
+    truncated,
+    issues
+  };
+}
+
+/**
+ * Verify every chain of a custodian, shards included, one after another
+ * `fromSequence` and `limit` apply to each chain.
+ */
+export async function verifyAuditChains(
+  custodianId: string,
+  options: { fromSequence?: number; limit?: number } = {}
+): Promise<AuditChainSetReport> {
+  const reports: AuditChainReport[] = [];
+  for (const chainId of getChainIds(custodianId)) {
+    reports.push(await verifyAuditChain(chainId, options));
+  }
+
+  const chains = reports.filter(report =>
+    report.headSequence > 0 || report.eventsChecked > 0 || report.issues.length > 0
+  );
+  const sum = (field: 'eventsChecked' | 'checkpointsChecked' | 'unchainedEvents') =>
+    chains.reduce((total, report) => total + report[field], 0);
+
+  return {
+    chainId: getChainId(custodianId),
+    valid: chains.every(report => report.valid),
+    eventsChecked: sum('eventsChecked'),
+    checkpointsChecked: sum('checkpointsChecked'),
+    unchainedEvents: sum('unchainedEvents'),
+    truncated: chains.some(report => report.truncated),
+    chains,
+    issues: chains.flatMap(report => report.issues.map(issue => ({ ...issue, chainId: report.chainId })))
+  };
+}
@@ -0,0 +1,272 @@
+/**
+ * Audit Log Queries and Exports
+ *
+ * Reads a custodian's events back from `widget_auth_audit_events`, newest
+ * first. Firestore narrows by custodian and time range; the remaining filters
+ * (event type, severity, user, IP) are applied while scanning, so a page may
+ * hold fewer than `limit` events and still have a `next_cursor`.
+ */
+
+import { FieldPath, type Query, type QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { requireAdminApp } from '@/lib/firebase-admin';
+import { AuditSeverity } from '@/types/audit-enums';
+import { truncateIp } from '../redaction';
+import { AUDIT_EVENTS_COLLECTION } from './audit-chain';
+import type { WidgetAuditEvent } from './unified-audit-logger';
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+const SCAN_BATCH_SIZE = 500;
+const MAX_SCAN_PER_PAGE = 5000;
+const MAX_FILTER_VALUES = 20;
+
+const SEVERITIES = Object.values(AuditSeverity) as string[];
+
+export interface AuditQueryFilters {
+  custodianId: string;
+  from?: string; // ISO timestamp, inclusive
+  to?: string;   // ISO timestamp, exclusive
+  eventTypes?: string[];
+  severities?: AuditSeverity[];
+  userId?: string;
+  ipAddress?: string;
+}
+
+export interface AuditQueryPage {
+  events: WidgetAuditEvent[];
+  nextCursor: string | null;
+}
+
+export type ParseAuditQueryResult =
+  | { success: true; filters: AuditQueryFilters; limit: number; cursor?: string }
+  | { success: false; error: string };
+
+interface CursorPosition {
+  t: string;  // timestamp
+  id: string; // event id
+}
+
+function encodeCursor(doc: QueryDocumentSnapshot): string {
+  const position: CursorPosition = { t: doc.data().timestamp, id: doc.id };
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): CursorPosition | null {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return typeof position?.t === 'string' && typeof position?.id === 'string' ? position : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseList(value: string | null): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function parseTimestamp(value: string | null): string | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Read filters from query parameters:
+ * from, to, event_type, severity (comma-separated), user_id, ip_address, limit, cursor
+ */
+export function parseAuditQuery(searchParams: URLSearchParams, custodianId: string): ParseAuditQueryResult {
+  const from = parseTimestamp(searchParams.get('from'));
+  const to = parseTimestamp(searchParams.get('to'));
+  if (from === null || to === null) {
+    return { success: false, error: 'from and to must be ISO 8601 timestamps' };
+  }
+  if (from && to && from >= to) {
+    return { success: false, error: 'from must be before to' };
+  }
+
+  const eventTypes = parseList(searchParams.get('event_type'));
+  const severities = parseList(searchParams.get('severity'));
+  if (eventTypes.length > MAX_FILTER_VALUES || severities.length > MAX_FILTER_VALUES) {
+    return { success: false, error: `At most ${MAX_FILTER_VALUES} values per filter` };
+  }
+  const unknownSeverity = severities.find(severity => !SEVERITIES.includes(severity));
+  if (unknownSeverity) {
+    return { success: false, error: `severity must be one of: ${SEVERITIES.join(', ')}` };
+  }
+
+  const rawLimit = searchParams.get('limit');
+  const limit = rawLimit === null ? DEFAULT_AUDIT_PAGE_SIZE : parseInt(rawLimit, 10);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_PAGE_SIZE) {
+    return { success: false, error: `limit must be between 1 and ${MAX_AUDIT_PAGE_SIZE}` };
+  }
+
+  const cursor = searchParams.get('cursor') || undefined;
+  if (cursor && !decodeCursor(cursor)) {
+    return { success: false, error: 'Invalid cursor' };
+  }
+
+  return {
+    success: true,
+    filters: {
+      custodianId,
+      from,
+      to,
+      eventTypes: eventTypes.length > 0 ? eventTypes : undefined,
+      severities: severities.length > 0 ? severities as AuditSeverity[] : undefined,
+      userId: searchParams.get('user_id') || undefined,
+      // Stored addresses are truncated (see redaction.ts); match at the same precision
+      ipAddress: searchParams.get('ip_address') ? truncateIp(searchParams.get('ip_address')!) : undefined
+    },
+    limit,
+    cursor
+  };
+}
+
+function buildBaseQuery(filters: AuditQueryFilters): Query {
+  const { adminDb } = requireAdminApp();
+
+  let query: Query = adminDb.collection(AUDIT_EVENTS_COLLECTION)
+    .where('custodianId', '==', filters.custodianId);
+
+  if (filters.from) {
+    query = query.where('timestamp', '>=', filters.from);
+  }
+  if (filters.to) {
+    query = query.where('timestamp', '<', filters.to);
+  }
+
+  // Event ID breaks ties between events logged in the same millisecond
+  return query
+    .orderBy('timestamp', 'desc')
+    .orderBy(FieldPath.documentId(), 'desc');
+}
+
+function matchesFilters(event: WidgetAuditEvent, filters: AuditQueryFilters): boolean {
+  if (filters.eventTypes && !filters.eventTypes.includes(event.eventType)) return false;
+  if (filters.severities && !filters.severities.includes(event.severity)) return false;
+  if (filters.userId && event.userId !== filters.userId) return false;
+  if (filters.ipAddress && event.ipAddress !== filters.ipAddress) return false;
+  return true;
+}
+
+/**
+ * Matching events in batches, newest first, resuming after `cursor`
+ * Each batch reports the cursor of the last event scanned.
+ */
+async function* scanAuditEvents(
+  filters: AuditQueryFilters,
+  cursor?: string
+): AsyncGenerator<{ event: WidgetAuditEvent | null; cursor: string }> {
+  const baseQuery = buildBaseQuery(filters);
+  let position = cursor ? decodeCursor(cursor) : null;
+
+  while (true) {
+    let query = baseQuery.limit(SCAN_BATCH_SIZE);
+    if (position) {
+      query = query.startAfter(position.t, position.id);
+    }
+
+    const snapshot = await query.get();
+    for (const doc of snapshot.docs) {
+      const event = doc.data() as WidgetAuditEvent;
+      yield { event: matchesFilters(event, filters) ? event : null, cursor: encodeCursor(doc) };
+    }
+
+    if (snapshot.size < SCAN_BATCH_SIZE) return;
+    const last = snapshot.docs[snapshot.docs.length - 1];
+    position = { t: last.data().timestamp, id: last.id };
+  }
+}
+
+/**
+ * One page of matching events
+ */
+export async function queryAuditEvents(
+  filters: AuditQueryFilters,
+  options: { limit?: number; cursor?: string } = {}
+): Promise<AuditQueryPage> {
+  const limit = Math.min(options.limit || DEFAULT_AUDIT_PAGE_SIZE, MAX_AUDIT_PAGE_SIZE);
+  const events: WidgetAuditEvent[] = [];
+  let scanned = 0;
+  let lastCursor: string | null = null;
+
+  for await (const result of scanAuditEvents(filters, options.cursor)) {
+    scanned++;
+    lastCursor = result.cursor;
+    if (result.event) {
+      events.push(result.event);
+    }
+    // Stop at a full page, or hand back a cursor when filters match sparsely
+    if (events.length >= limit || scanned >= MAX_SCAN_PER_PAGE) {
+      return { events, nextCursor: lastCursor };
+    }
+  }
+
+  return { events, nextCursor: null };
+}
+
+/**
+ * Every matching event, newest first (for exports)
+ */
+export async function* iterateAuditEvents(filters: AuditQueryFilters): AsyncGenerator<WidgetAuditEvent> {
+  for await (const result of scanAuditEvents(filters)) {
+    if (result.event) {
+      yield result.event;
+    }
+  }
+}
+
+/**
+ * Event as returned by the API, including its chain fields for verification
+ */
+export function toPublicAuditEvent(event: WidgetAuditEvent) {
+  return {
+    id: event.eventId,
+    event_type: event.eventType,
+    category: event.category,
+    severity: event.severity,
+    timestamp: event.timestamp,
+    status: event.status ?? null,
+    action: event.action ?? null,
+    user_id: event.userId ?? null,
+    user_email: event.userEmail ?? null,
+    session_id: event.sessionId ?? null,
+    ip_address: event.ipAddress ?? null,
+    user_agent: event.userAgent ?? null,
+    method: event.method ?? null,
+    path: event.path ?? null,
+    error_code: event.errorCode ?? null,
+    error_message: event.errorMessage ?? null,
+    metadata: event.metadata ?? null,
+    chain_id: event.chainId ?? null,
+    sequence: event.sequence ?? null,
+    previous_hash: event.previousHash ?? null,
+    event_hash: event.eventHash ?? null
+  };
+}
+
+export type PublicAuditEvent = ReturnType<typeof toPublicAuditEvent>;
+
+export const AUDIT_CSV_COLUMNS: (keyof PublicAuditEvent)[] = [
+  'id', 'timestamp', 'event_type', 'category', 'severity', 'status', 'action',
+  'user_id', 'user_email', 'session_id', 'ip_address', 'user_agent', 'method', 'path',
+  'error_code', 'error_message', 'metadata', 'chain_id', 'sequence', 'previous_hash', 'event_hash'
+];
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Keep spreadsheet apps from evaluating logged input (user agents, paths) as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvHeader(): string {
+  return `${AUDIT_CSV_COLUMNS.join(',')}\r\n`;
+}
+
+export function toCsvRow(event: PublicAuditEvent): string {
+  return `${AUDIT_CSV_COLUMNS.map(column => csvCell(event[column])).join(',')}\r\n`;
+}
@@ -3,10 +3,20 @@
  * Extracted and simplified from main app
  */
 
-import { requireAdminApp } from '@/lib/firebase-admin';
 import crypto from 'crypto';
 import type { NextRequest } from 'next/server';
 import { AuditEventCategory, AuditSeverity } from '@/types/audit-enums';
+import { createLogger } from '../logger';
+import { redact } from '../redaction';
+import {
+  AUDIT_EVENTS_COLLECTION,
+  appendAuditEvent,
+  computeEventHash,
+  recordUnchainedEvent,
+  type UnchainedAuditEvent
+} from './audit-chain';
+
+const log = createLogger('WIDGET-AUTH AUDIT');
 
 // Initialize Google Cloud Logging with dynamic import
 let logging: any = null;
@@ -60,28 +70,13 @@ export interface WidgetAuditEvent {
   // Additional context
   metadata?: Record<string, any>;
 
-  // Audit integrity
+  // Audit integrity (see audit-chain.ts)
+  chainId?: string;
+  sequence?: number;
+  previousHash?: string;
   eventHash?: string;
 }
 
-/**
- * Generate event hash for integrity verification
- */
-function generateEventHash(event: Partial<WidgetAuditEvent>): string {
-  const hashData = {
-    eventType: event.eventType,
-    userId: event.userId,
-    timestamp: event.timestamp,
-    custodianId: event.custodianId,
-    action: event.action,
-  };
-
-  return crypto
-    .createHash('sha256')
-    .update(JSON.stringify(hashData))
-    .digest('hex');
-}
-
 /**
  * Main audit logging function for widget auth service
  */
@@ -89,29 +84,48 @@ export async function logAuditEvent(event: Partial<WidgetAuditEvent>): Promise<{
   const eventId = event.eventId || `wevt_${Date.now()}_${crypto.randomBytes(8).toString('hex')}`;
   const timestamp = event.timestamp || new Date().toISOString();
 
-  console.log(`[WIDGET-AUTH AUDIT] logAuditEvent called with:`, {
+  log.debug('logAuditEvent called', {
     eventType: event.eventType,
     category: event.category,
-    userId: event.userId,
-    userEmail: event.userEmail,
     custodianId: event.custodianId,
     hasMetadata: !!event.metadata
   });
 
-  const completeEvent: WidgetAuditEvent = {
+  // PII is redacted before the event is hashed, so stored events never hold it.
+  // Round-trip through JSON so the stored event hashes the same when read back.
+  const unchainedEvent: UnchainedAuditEvent = JSON.parse(JSON.stringify(redact({
     eventId,
     timestamp,
     severity: AuditSeverity.INFO,
     category: AuditEventCategory.SYSTEM,
     eventType: 'widget.unknown',
     ...event,
-    eventHash: generateEventHash({ ...event, eventId, timestamp }),
-  };
+  })));
 
   let cloudLoggingSuccess = false;
   let firestoreSuccess = false;
+  let completeEvent: WidgetAuditEvent;
+
+  // Firestore holds the hash-chained record of truth
+  try {
+    completeEvent = await writeToFirestore(unchainedEvent);
+    firestoreSuccess = true;
+  } catch (error) {
+    log.error('Firestore audit chain write failed', error);
+    // Still ship the event to Cloud Logging, hashed on its own
+    completeEvent = { ...unchainedEvent, eventHash: computeEventHash(unchainedEvent) };
+
+    // Leave a record in Firestore, so chain verification reports the gap
+    await recordUnchainedEvent(
+      completeEvent,
+      error instanceof Error ? error.message : String(error)
+    ).catch(gapError => log.error('Could not record unchained audit event', gapError, {
+      eventId,
+      eventType: completeEvent.eventType
+    }));
+  }
 
-  // Try Cloud Logging first
+  // Cloud Logging keeps an independent copy in production
   try {
     if (process.env.GOOGLE_APPLICATION_CREDENTIALS || process.env.NODE_ENV === 'production') {
       const { auditLog } = await initializeLogging();
@@ -136,21 +150,9 @@ export async function logAuditEvent(event: Partial<WidgetAuditEvent>): Promise<{
       const entry = auditLog.entry(metadata, completeEvent);
       await auditLog.write(entry);
       cloudLoggingSuccess = true;
-    } else {
-      // Development fallback - write to Firestore when Cloud Logging not available
-      console.log('[Widget Audit Logger] Cloud Logging not configured, using Firestore fallback');
-      await writeToFirestore(completeEvent);
-      firestoreSuccess = true;
     }
   } catch (error) {
-    console.error('[Widget Audit Logger] Cloud Logging failed:', error);
-    // Fallback to Firestore on error
-    try {
-      await writeToFirestore(completeEvent);
-      firestoreSuccess = true;
-    } catch (fallbackError) {
-      console.error('[Widget Audit Logger] Firestore fallback also failed:', fallbackError);
-    }
+    log.error('Cloud Logging failed', error);
   }
 
   // Return success if at least one write succeeded
@@ -166,27 +168,23 @@ export async function logAuditEvent(event: Partial<WidgetAuditEvent>): Promise<{
 }
 
 /**
- * Write to Firestore (fallback/development)
+ * Append to the custodian's audit chain in Firestore
  */
-async function writeToFirestore(event: WidgetAuditEvent) {
-  const { adminDb } = requireAdminApp();
+async function writeToFirestore(event: UnchainedAuditEvent): Promise<WidgetAuditEvent> {
   const admin = require('firebase-admin');
 
-  // Widget auth events go to dedicated collection
-  const collectionName = 'widget_auth_audit_events';
-
-  // Prepare the document
-  const docData: any = {
-    ...event,
+  const chained = await appendAuditEvent(event, {
     firestoreTimestamp: admin.firestore.FieldValue.serverTimestamp(),
     createdAt: event.timestamp,
     source: 'widget_auth_service'
-  };
-
-  // Write to the collection
-  await adminDb.collection(collectionName).doc(event.eventId).set(docData);
+  });
 
-  console.log(`[Widget Audit Logger] Event ${event.eventId} written to ${collectionName} collection`);
+  log.debug(`Event written to ${AUDIT_EVENTS_COLLECTION}`, {
+    eventId: event.eventId,
+    chainId: chained.chainId,
+    sequence: chained.sequence
+  });
+  return chained;
 }
 
 /**
@@ -227,10 +225,9 @@ export const AuditLogger = {
     // Extract custodianId from metadata if provided
     const custodianId = metadata?.custodianId;
 
-    console.log(`[WIDGET AUTH DEBUG] logAuthentication called:`, {
+    log.debug('logAuthentication called', {
       type,
       userId,
-      email,
       custodianId,
       metadataKeys: metadata ? Object.keys(metadata) : [],
     });
@@ -287,6 +284,7 @@ export const AuditLogger = {
       category: AuditEventCategory.SECURITY,
       severity,
       userId,
+      custodianId: metadata?.custodianId, // Selects the custodian's audit chain
       status: 'failure',
       errorMessage: description,
       ...(request ? extractRequestMetadata(request) : {}),
@@ -316,6 +314,7 @@ export const AuditLogger = {
       category: AuditEventCategory.DATA_ACCESS,
       severity: severityMap[action],
       userId: userId || undefined,
+      custodianId: metadata?.custodianId,
       action,
       status: 'success',
       ...(request ? extractRequestMetadata(request) : {}),
@@ -0,0 +1,60 @@
+/**
+ * Startup Configuration Validation
+ *
+ * Runs once when the server starts (src/instrumentation.ts). Errors stop a
+ * production server from booting, so it never serves with forgeable tokens;
+ * outside production they are logged as warnings. /readyz reports the same
+ * checks for running instances.
+ */
+
+import { validateSigningKeys } from './signing-keys';
+import { createLogger } from './logger';
+
+const log = createLogger('CONFIG');
+
+// Features that silently degrade without their secret
+const RECOMMENDED_IN_PRODUCTION = ['AUDIT_CHECKPOINT_SECRET', 'CRON_SECRET', 'PARTNER_SIGNING_PEPPER'];
+
+export interface ConfigValidationResult {
+  errors: string[];
+  warnings: string[];
+}
+
+export function validateStartupConfig(): ConfigValidationResult {
+  const { errors, warnings } = validateSigningKeys();
+
+  if (process.env.NODE_ENV === 'production') {
+    // Redaction cannot hash emails without it, so logging them would throw
+    if (!process.env.PII_HASH_KEY) {
+      errors.push('PII_HASH_KEY is not configured');
+    }
+
+    const missing = RECOMMENDED_IN_PRODUCTION.filter(name => !process.env[name]);
+    if (missing.length > 0) {
+      warnings.push(`Not configured: ${missing.join(', ')}`);
+    }
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * Validate and log the configuration; throws in production on any error
+ */
+export function assertStartupConfig(): void {
+  const { errors, warnings } = validateStartupConfig();
+
+  warnings.forEach(warning => log.warn(warning));
+
+  if (errors.length === 0) {
+    log.info('Configuration valid');
+    return;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    errors.forEach(error => log.error(error));
+    throw new Error(`Refusing to start with invalid configuration: ${errors.join('; ')}`);
+  }
+
+  errors.forEach(error => log.warn(error));
+}
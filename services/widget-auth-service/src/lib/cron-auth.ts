@@ -0,0 +1,23 @@
+/**
+ * Authentication for scheduled jobs (Cloud Scheduler -> cron routes)
+ *
+ * The scheduler sends `Authorization: Bearer <CRON_SECRET>`. Without
+ * CRON_SECRET configured every cron request is rejected.
+ */
+
+import type { NextRequest } from 'next/server';
+import { createHash, timingSafeEqual } from 'crypto';
+
+export function isAuthorizedCronRequest(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get('Authorization');
+
+  if (!cronSecret || !authHeader || !authHeader.startsWith('Bearer ')) {
+    return false;
+  }
+
+  // Compare digests so the comparison is constant-time regardless of length
+  const provided = createHash('sha256').update(authHeader.substring(7)).digest();
+  const expected = createHash('sha256').update(cronSecret).digest();
+  return timingSafeEqual(provided, expected);
+}
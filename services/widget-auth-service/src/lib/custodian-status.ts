@@ -0,0 +1,266 @@
+/**
+ * Custodian Status (Partner Kill-Switch)
+ *
+ * The custodian document carries the partner's availability:
+ *
+ *   status              - 'active' | 'suspended' | 'maintenance'
+ *   statusReason        - why a partner is suspended (PAYMENT_REQUIRED,
+ *                         COMPLIANCE_VIOLATION or ACCOUNT_SUSPENDED)
+ *   statusMessage       - optional note for the dashboard, never sent to widgets
+ *   maintenanceWindows  - scheduled [startsAt, endsAt) windows
+ *
+ * Widget routes reject requests while a partner is suspended (403) or in
+ * maintenance (503, with Retry-After when the window has an end). The `code`
+ * in the response is one of the widget's disabled states, so the widget can
+ * show the right screen without guessing from the HTTP status.
+ *
+ * Any status other than active/maintenance, including a missing one, is
+ * treated as suspended, matching the earlier `status !== 'active'` checks.
+ */
+
+import { randomBytes } from 'crypto';
+import type { DocumentData } from 'firebase-admin/firestore';
+import { requireAdminApp } from './firebase-admin';
+
+export const CUSTODIAN_STATUSES = ['active', 'suspended', 'maintenance'] as const;
+export const SUSPENSION_REASONS = ['PAYMENT_REQUIRED', 'COMPLIANCE_VIOLATION', 'ACCOUNT_SUSPENDED'] as const;
+
+export const MAX_MAINTENANCE_WINDOWS = 20;
+export const MAX_STATUS_MESSAGE_LENGTH = 500;
+
+export type CustodianStatus = typeof CUSTODIAN_STATUSES[number];
+export type SuspensionReason = typeof SUSPENSION_REASONS[number];
+
+// Matches the widget's WIDGET_DISABLED_MESSAGES keys
+export type PartnerUnavailableCode = SuspensionReason | 'MAINTENANCE';
+
+export interface MaintenanceWindow {
+  id: string;
+  startsAt: string; // ISO 8601
+  endsAt: string; // ISO 8601, exclusive
+  message?: string;
+}
+
+export interface ResolvedCustodianStatus {
+  status: CustodianStatus; // Effective status at the time it was resolved
+  configuredStatus: CustodianStatus;
+  code?: PartnerUnavailableCode;
+  maintenanceWindow?: MaintenanceWindow; // The window in effect, if any
+  retryAfterSeconds?: number;
+}
+
+export interface StoredCustodianStatus {
+  status: CustodianStatus;
+  statusReason: SuspensionReason | null;
+  statusMessage: string | null;
+  maintenanceWindows: MaintenanceWindow[];
+  statusUpdatedAt: string | null;
+  statusUpdatedBy: string | null;
+}
+
+export interface CustodianStatusUpdate {
+  status?: CustodianStatus;
+  reason?: SuspensionReason | null;
+  message?: string | null;
+  maintenanceWindows?: MaintenanceWindow[];
+}
+
+export type StatusChangeResult =
+  | { success: true; previous: StoredCustodianStatus; current: StoredCustodianStatus }
+  | { success: false; error: 'not_found' };
+
+export type MaintenanceWindowParseResult =
+  | { success: true; windows: MaintenanceWindow[] }
+  | { success: false; error: string };
+
+export function isCustodianStatus(value: unknown): value is CustodianStatus {
+  return CUSTODIAN_STATUSES.includes(value as CustodianStatus);
+}
+
+export function isSuspensionReason(value: unknown): value is SuspensionReason {
+  return SUSPENSION_REASONS.includes(value as SuspensionReason);
+}
+
+/**
+ * Status fields as stored on a custodian document, with defaults filled in
+ */
+export function getStoredStatus(custodianData: DocumentData | undefined): StoredCustodianStatus {
+  const raw = custodianData?.status;
+  const status: CustodianStatus = raw === 'active' || raw === 'maintenance' ? raw : 'suspended';
+  const windows = Array.isArray(custodianData?.maintenanceWindows) ? custodianData!.maintenanceWindows : [];
+
+  return {
+    status,
+    statusReason: isSuspensionReason(custodianData?.statusReason) ? custodianData!.statusReason : null,
+    statusMessage: custodianData?.statusMessage ?? null,
+    maintenanceWindows: windows,
+    statusUpdatedAt: custodianData?.statusUpdatedAt ?? null,
+    statusUpdatedBy: custodianData?.statusUpdatedBy ?? null
+  };
+}
+
+/**
+ * Effective status of a partner right now
+ * Suspension wins over maintenance; a manual maintenance status has no end.
+ */
+export function resolveCustodianStatus(
+  custodianData: DocumentData | undefined,
+  now: Date = new Date()
+): ResolvedCustodianStatus {
+  const stored = getStoredStatus(custodianData);
+
+  if (stored.status === 'suspended') {
+    return {
+      status: 'suspended',
+      configuredStatus: stored.status,
+      code: stored.statusReason ?? 'ACCOUNT_SUSPENDED'
+    };
+  }
+
+  if (stored.status === 'maintenance') {
+    return { status: 'maintenance', configuredStatus: stored.status, code: 'MAINTENANCE' };
+  }
+
+  const time = now.getTime();
+  const window = stored.maintenanceWindows.find(candidate =>
+    Date.parse(candidate.startsAt) <= time && time < Date.parse(candidate.endsAt)
+  );
+  if (window) {
+    return {
+      status: 'maintenance',
+      configuredStatus: stored.status,
+      code: 'MAINTENANCE',
+      maintenanceWindow: window,
+      retryAfterSeconds: Math.max(1, Math.ceil((Date.parse(window.endsAt) - time) / 1000))
+    };
+  }
+
+  return { status: 'active', configuredStatus: stored.status };
+}
+
+/**
+ * Windows that have not ended yet, soonest first
+ */
+export function getUpcomingMaintenanceWindows(
+  custodianData: DocumentData | undefined,
+  now: Date = new Date()
+): MaintenanceWindow[] {
+  return getStoredStatus(custodianData).maintenanceWindows
+    .filter(window => Date.parse(window.endsAt) > now.getTime())
+    .sort((a, b) => Date.parse(a.startsAt) - Date.parse(b.startsAt));
+}
+
+/**
+ * Response for a widget request made while the partner is unavailable
+ * Internal reasons stay off the wire; the widget shows its own copy per code.
+ */
+export function buildStatusRejection(resolved: ResolvedCustodianStatus): {
+  status: number;
+  body: Record<string, unknown>;
+  headers: Record<string, string>;
+} {
+  if (resolved.status === 'maintenance') {
+    return {
+      status: 503,
+      body: {
+        error: 'Service temporarily unavailable for maintenance. Please try again later.',
+        code: 'MAINTENANCE',
+        partner_status: 'maintenance',
+        ...(resolved.maintenanceWindow && { maintenance_ends_at: resolved.maintenanceWindow.endsAt }),
+        ...(resolved.retryAfterSeconds && { retry_after: resolved.retryAfterSeconds })
+      },
+      headers: resolved.retryAfterSeconds ? { 'Retry-After': String(resolved.retryAfterSeconds) } : {}
+    };
+  }
+
+  return {
+    status: 403,
+    body: {
+      error: 'Service temporarily unavailable. Please try again later.',
+      code: resolved.code ?? 'ACCOUNT_SUSPENDED',
+      partner_status: 'suspended'
+    },
+    headers: {}
+  };
+}
+
+/**
+ * Validate maintenance windows from an admin request
+ * Windows that have already ended are rejected rather than silently stored.
+ */
+export function parseMaintenanceWindows(input: unknown, now: Date = new Date()): MaintenanceWindowParseResult {
+  if (!Array.isArray(input)) {
+    return { success: false, error: 'maintenance_windows must be an array' };
+  }
+  if (input.length > MAX_MAINTENANCE_WINDOWS) {
+    return { success: false, error: `At most ${MAX_MAINTENANCE_WINDOWS} maintenance windows can be scheduled` };
+  }
+
+  const windows: MaintenanceWindow[] = [];
+  for (const entry of input) {
+    const startsAt = Date.parse(entry?.starts_at);
+    const endsAt = Date.parse(entry?.ends_at);
+
+    if (Number.isNaN(startsAt) || Number.isNaN(endsAt)) {
+      return { success: false, error: 'Each maintenance window needs ISO 8601 starts_at and ends_at' };
+    }
+    if (endsAt <= startsAt) {
+      return { success: false, error: 'Maintenance window ends_at must be after starts_at' };
+    }
+    if (endsAt <= now.getTime()) {
+      return { success: false, error: 'Maintenance window has already ended' };
+    }
+    if (entry.message !== undefined &&
+        (typeof entry.message !== 'string' || entry.message.length > MAX_STATUS_MESSAGE_LENGTH)) {
+      return { success: false, error: `Maintenance window message must be a string (max ${MAX_STATUS_MESSAGE_LENGTH} characters)` };
+    }
+
+    windows.push({
+      id: typeof entry.id === 'string' && entry.id ? entry.id : `mw_${randomBytes(8).toString('hex')}`,
+      startsAt: new Date(startsAt).toISOString(),
+      endsAt: new Date(endsAt).toISOString(),
+      ...(entry.message && { message: entry.message })
+    });
+  }
+
+  return { success: true, windows };
+}
+
+/**
+ * Change a partner's status, returning the status before and after
+ * A suspension reason only applies while suspended, so it is cleared otherwise.
+ */
+export async function updateCustodianStatus(
+  custodianId: string,
+  update: CustodianStatusUpdate,
+  updatedBy: string
+): Promise<StatusChangeResult> {
+  const { adminDb } = requireAdminApp();
+  const custodianRef = adminDb.collection('custodians').doc(custodianId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const custodianDoc = await transaction.get(custodianRef);
+    if (!custodianDoc.exists) {
+      return { success: false, error: 'not_found' };
+    }
+
+    const previous = getStoredStatus(custodianDoc.data());
+    const status = update.status ?? previous.status;
+    const current: StoredCustodianStatus = {
+      status,
+      statusReason: status === 'suspended'
+        ? (update.reason !== undefined ? update.reason : previous.statusReason) ?? 'ACCOUNT_SUSPENDED'
+        : null,
+      statusMessage: update.message !== undefined ? update.message : previous.statusMessage,
+      maintenanceWindows: update.maintenanceWindows ?? previous.maintenanceWindows,
+      statusUpdatedAt: new Date().toISOString(),
+      statusUpdatedBy: updatedBy
+    };
+
+    // Other platform statuses (e.g. onboarding) are left alone unless the status is changed
+    const { status: _status, ...fields } = current;
+    transaction.update(custodianRef, update.status ? { ...fields, status } : fields);
+
+    return { success: true, previous, current };
+  });
+}
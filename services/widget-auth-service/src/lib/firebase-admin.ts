@@ -7,6 +7,9 @@ import { initializeApp, getApps, cert, ServiceAccount } from 'firebase-admin/app
 import { getFirestore, Timestamp, FieldValue } from 'firebase-admin/firestore';
 import { getAuth } from 'firebase-admin/auth';
 import { getStorage } from 'firebase-admin/storage';
+import { createLogger } from './logger';
+
+const log = createLogger('WIDGET-AUTH FIREBASE');
 
 // Initialize Firebase Admin SDK
 let adminApp: any;
@@ -14,7 +17,7 @@ let adminApp: any;
 try {
   // Check if we're in a server environment
   if (typeof window === 'undefined') {
-    console.log('🔧 WIDGET-AUTH FIREBASE: Initializing...');
+    log.info('Initializing...');
     let serviceAccount: ServiceAccount;
 
     // Try different approaches to load credentials
@@ -39,54 +42,53 @@ try {
             clientEmail: rawServiceAccount.client_email,
             privateKey: rawServiceAccount.private_key,
           };
-          console.log('✅ WIDGET-AUTH FIREBASE: Loaded service account from:', credPath);
-          console.log('   Project ID:', serviceAccount.projectId);
+          log.info('Loaded service account', { path: credPath, projectId: serviceAccount.projectId });
           credentialsLoaded = true;
           break;
         }
       } catch (error) {
-        console.log('⚠️ WIDGET-AUTH FIREBASE: Could not load from', credPath);
+        log.warn('Could not load service account', { path: credPath });
       }
     }
 
     if (!credentialsLoaded) {
-      console.log('⚠️ WIDGET-AUTH FIREBASE: No credentials file found, trying env vars');
+      log.warn('No credentials file found, trying env vars');
       // Fall back to environment variables
       serviceAccount = {
         projectId: process.env.FIREBASE_PROJECT_ID!,
         clientEmail: process.env.FIREBASE_CLIENT_EMAIL!,
         privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n')!,
       };
-      console.log('   Project ID from env:', serviceAccount.projectId);
+      log.info('Using service account from env', { projectId: serviceAccount.projectId });
     }
 
     // Initialize admin app if it doesn't exist
     const existingApps = getApps();
-    console.log(`🔍 WIDGET-AUTH FIREBASE: Found ${existingApps.length} existing apps:`, existingApps.map(app => app.name));
+    log.debug('Found existing apps', { apps: existingApps.map(app => app.name) });
 
     // Check if we already have an admin app or default app
     adminApp = existingApps.find(app => app.name === 'widget-auth' || app.name === '[DEFAULT]');
 
     if (!adminApp) {
-      console.log('🚀 WIDGET-AUTH FIREBASE: Creating new admin app...');
+      log.info('Creating new admin app...');
       adminApp = initializeApp({
         credential: cert(serviceAccount),
         projectId: serviceAccount.projectId,
         storageBucket: process.env.FIREBASE_STORAGE_BUCKET || `${serviceAccount.projectId}.appspot.com`,
       }, 'widget-auth');
-      console.log('✅ WIDGET-AUTH FIREBASE: Admin app created successfully');
+      log.info('Admin app created successfully');
     } else {
-      console.log('🔄 WIDGET-AUTH FIREBASE: Using existing admin app:', adminApp.name);
+      log.info('Using existing admin app', { app: adminApp.name });
     }
 
     if (adminApp) {
-      console.log('✅ WIDGET-AUTH FIREBASE: Admin app available');
+      log.info('Admin app available');
     } else {
-      console.log('❌ WIDGET-AUTH FIREBASE: Admin app is null');
+      log.error('Admin app is null');
     }
   }
 } catch (error) {
-  console.error('❌ WIDGET-AUTH FIREBASE: Initialization error:', error);
+  log.error('Initialization error', error);
 }
 
 // Export the admin app itself
@@ -112,10 +114,8 @@ export const serverTimestamp = () => FieldValue.serverTimestamp();
 export function requireAdminApp() {
   // Check if services are initialized
   if (!adminApp || !adminDb || !adminAuth) {
-    console.error('[WIDGET-AUTH FIREBASE] Services not initialized');
-
     // Log specific missing components for debugging
-    console.error('[WIDGET-AUTH FIREBASE] Service status:', {
+    log.error('Services not initialized', undefined, {
       app: !!adminApp,
       db: !!adminDb,
       auth: !!adminAuth,
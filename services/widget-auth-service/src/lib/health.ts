@@ -0,0 +1,275 @@
+/**
+ * Liveness and Readiness Probes
+ *
+ *   /livez  - the process is up and serving; never touches a dependency, so a
+ *             slow Firestore cannot get a healthy container restarted
+ *   /readyz - runs every dependency probe with a timeout and reports
+ *             ok (200), degraded (200, a non-critical probe failed) or
+ *             unavailable (503, a critical probe failed)
+ *
+ * Readiness results are cached for HEALTH_CACHE_TTL_MS (default 10s) and
+ * concurrent requests share one run, so load balancer polling does not turn
+ * into Firestore and Auth traffic. plan-search-api serves the same contract,
+ * which is what dev-proxy's checkServiceHealth reads.
+ *
+ * The probes are unauthenticated, so they publish only each probe's status.
+ * Failure messages and notes go to the logs; requests carrying CRON_SECRET
+ * get the full report.
+ */
+
+import type { NextRequest } from 'next/server';
+import packageJson from '../../package.json';
+import { isAuthorizedCronRequest } from './cron-auth';
+import { requireAdminApp } from './firebase-admin';
+import { getMailTransport } from './mail/mail-transport';
+import { validateSigningKeys } from './signing-keys';
+import { isHashKeyConfigured } from './redaction';
+import { createLogger } from './logger';
+
+const log = createLogger('HEALTH');
+
+export const SERVICE_NAME = 'widget-auth-service';
+
+const DEFAULT_CACHE_TTL_MS = 10 * 1000;
+const PROBE_TIMEOUT_MS = 2000;
+
+// Unused IDs: a not-found answer proves the backend is reachable
+const FIRESTORE_PROBE_PATH = ['_health', 'readyz'] as const;
+const AUTH_PROBE_UID = 'readyz-probe';
+
+export type ProbeStatus = 'ok' | 'fail';
+export type ReadinessStatus = 'ok' | 'degraded' | 'unavailable';
+
+export interface ProbeResult {
+  status: ProbeStatus;
+  critical: boolean;
+  latency_ms: number;
+  message?: string;
+}
+
+export interface BuildInfo {
+  version: string;
+  commit: string | null;
+  built_at: string | null;
+}
+
+export interface LivenessReport {
+  status: 'ok';
+  service: string;
+  build: BuildInfo;
+  uptime_seconds: number;
+  timestamp: string;
+}
+
+export interface ReadinessReport {
+  status: ReadinessStatus;
+  service: string;
+  build: BuildInfo;
+  checks: Record<string, ProbeResult>;
+  checked_at: string;
+  cached: boolean;
+}
+
+// What unauthenticated callers see of a readiness report
+export interface PublicReadinessReport extends Omit<ReadinessReport, 'checks'> {
+  checks: Record<string, { status: ProbeStatus }>;
+}
+
+interface Probe {
+  name: string;
+  critical: boolean;
+  run: () => Promise<string | void>; // Throws on failure; may return a note
+}
+
+const isProduction = () => process.env.NODE_ENV === 'production';
+
+const PROBES: Probe[] = [
+  {
+    name: 'firestore',
+    critical: true,
+    run: async () => {
+      const { adminDb } = requireAdminApp();
+      await adminDb.collection(FIRESTORE_PROBE_PATH[0]).doc(FIRESTORE_PROBE_PATH[1]).get();
+    }
+  },
+  {
+    name: 'firebase_auth',
+    critical: true,
+    run: async () => {
+      const { adminAuth } = requireAdminApp();
+      try {
+        await adminAuth.getUser(AUTH_PROBE_UID);
+      } catch (error: any) {
+        if (error?.code !== 'auth/user-not-found') throw error;
+      }
+    }
+  },
+  {
+    name: 'signing_keys',
+    critical: true,
+    run: async () => {
+      const { errors, warnings } = validateSigningKeys();
+      if (errors.length > 0) throw new Error(errors.join('; '));
+      if (warnings.length > 0) return warnings.join('; ');
+    }
+  },
+  {
+    name: 'mail_transport',
+    critical: false,
+    run: async () => {
+      getMailTransport();
+    }
+  },
+  {
+    name: 'pii_hash_key',
+    critical: true,
+    run: async () => {
+      if (!isHashKeyConfigured()) throw new Error('PII_HASH_KEY is not configured');
+      if (!process.env.PII_HASH_KEY) return 'PII_HASH_KEY is not configured; using the development key';
+    }
+  },
+  {
+    name: 'secrets',
+    critical: false,
+    run: async () => {
+      const missing = ['AUDIT_CHECKPOINT_SECRET', 'CRON_SECRET', 'PARTNER_SIGNING_PEPPER']
+        .filter(name => !process.env[name]);
+      if (missing.length === 0) return;
+      if (isProduction()) throw new Error(`Not configured: ${missing.join(', ')}`);
+      return `Not configured: ${missing.join(', ')}`;
+    }
+  }
+];
+
+let cachedReport: ReadinessReport | null = null;
+let cachedAt = 0;
+let inFlight: Promise<ReadinessReport> | null = null;
+
+function getCacheTtlMs(): number {
+  const configured = parseInt(process.env.HEALTH_CACHE_TTL_MS || '', 10);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_CACHE_TTL_MS;
+}
+
+/**
+ * Version from package.json; commit and build time from BUILD_COMMIT and BUILD_TIME
+ */
+export function getBuildInfo(): BuildInfo {
+  return {
+    version: process.env.BUILD_VERSION || packageJson.version,
+    commit: process.env.BUILD_COMMIT || null,
+    built_at: process.env.BUILD_TIME || null
+  };
+}
+
+export function getLiveness(): LivenessReport {
+  return {
+    status: 'ok',
+    service: SERVICE_NAME,
+    build: getBuildInfo(),
+    uptime_seconds: Math.floor(process.uptime()),
+    timestamp: new Date().toISOString()
+  };
+}
+
+async function runProbe(probe: Probe): Promise<ProbeResult> {
+  const startTime = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const note = await Promise.race([
+      probe.run(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${PROBE_TIMEOUT_MS}ms`)), PROBE_TIMEOUT_MS);
+      })
+    ]);
+    if (note) {
+      log.warn('Readiness probe note', { probe: probe.name, note });
+    }
+    return {
+      status: 'ok',
+      critical: probe.critical,
+      latency_ms: Date.now() - startTime,
+      ...(note && { message: note })
+    };
+  } catch (error) {
+    log.warn('Readiness probe failed', { probe: probe.name, error: error instanceof Error ? error.message : String(error) });
+    return {
+      status: 'fail',
+      critical: probe.critical,
+      latency_ms: Date.now() - startTime,
+      message: error instanceof Error ? error.message : 'Probe failed'
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function runProbes(): Promise<ReadinessReport> {
+  const results = await Promise.all(PROBES.map(probe => runProbe(probe)));
+  const checks: Record<string, ProbeResult> = {};
+  PROBES.forEach((probe, index) => {
+    checks[probe.name] = results[index];
+  });
+
+  const failed = results.filter(result => result.status === 'fail');
+  const status: ReadinessStatus = failed.some(result => result.critical)
+    ? 'unavailable'
+    : failed.length > 0 ? 'degraded' : 'ok';
+
+  return {
+    status,
+    service: SERVICE_NAME,
+    build: getBuildInfo(),
+    checks,
+    checked_at: new Date().toISOString(),
+    cached: false
+  };
+}
+
+/**
+ * Readiness report, from cache when fresh
+ */
+export async function getReadiness(): Promise<ReadinessReport> {
+  if (cachedReport && Date.now() - cachedAt < getCacheTtlMs()) {
+    return { ...cachedReport, cached: true };
+  }
+
+  if (!inFlight) {
+    inFlight = runProbes()
+      .then(report => {
+        cachedReport = report;
+        cachedAt = Date.now();
+        return report;
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+  }
+
+  return inFlight;
+}
+
+/**
+ * HTTP status for a readiness report: degraded still takes traffic
+ */
+export function readinessHttpStatus(report: ReadinessReport): number {
+  return report.status === 'unavailable' ? 503 : 200;
+}
+
+/**
+ * The report as served to a request: full for cron callers, statuses only otherwise
+ */
+export function presentReadiness(
+  report: ReadinessReport,
+  request: NextRequest
+): ReadinessReport | PublicReadinessReport {
+  if (isAuthorizedCronRequest(request)) {
+    return report;
+  }
+
+  const checks: Record<string, { status: ProbeStatus }> = {};
+  Object.entries(report.checks).forEach(([name, result]) => {
+    checks[name] = { status: result.status };
+  });
+  return { ...report, checks };
+}
@@ -0,0 +1,80 @@
+/**
+ * Persona Inquiry Lookup
+ *
+ * kyc/complete confirms the status the widget reports by reading the inquiry
+ * from Persona with PERSONA_API_KEY. Without the key nothing is confirmed.
+ */
+
+import { createLogger } from '../logger';
+
+const log = createLogger('PERSONA');
+
+const PERSONA_API_URL = 'https://withpersona.com/api/v1';
+const PERSONA_API_VERSION = '2023-01-05';
+const REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * Our status for an inquiry: finished and passed, finished and not passed,
+ * or still in progress (created, pending, needs_review)
+ */
+export type KycStatus = 'completed' | 'failed' | 'pending';
+
+export type PersonaInquiryResult =
+  | { success: true; inquiryId: string; personaStatus: string; kycStatus: KycStatus }
+  | { success: false; reason: 'not_configured' | 'not_found' | 'request_failed' };
+
+export function isPersonaConfigured(): boolean {
+  return Boolean(process.env.PERSONA_API_KEY);
+}
+
+export function toKycStatus(personaStatus: string): KycStatus {
+  switch (personaStatus) {
+    case 'completed':
+    case 'approved':
+      return 'completed';
+    case 'failed':
+    case 'declined':
+    case 'expired':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+}
+
+export async function fetchPersonaInquiry(inquiryId: string): Promise<PersonaInquiryResult> {
+  const apiKey = process.env.PERSONA_API_KEY;
+  if (!apiKey) {
+    return { success: false, reason: 'not_configured' };
+  }
+
+  try {
+    const response = await fetch(`${PERSONA_API_URL}/inquiries/${encodeURIComponent(inquiryId)}`, {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Persona-Version': PERSONA_API_VERSION,
+        Accept: 'application/json'
+      },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    if (response.status === 404) {
+      return { success: false, reason: 'not_found' };
+    }
+    if (!response.ok) {
+      log.error('Persona inquiry lookup failed', undefined, { inquiryId, status: response.status });
+      return { success: false, reason: 'request_failed' };
+    }
+
+    const { data } = await response.json();
+    const personaStatus = data?.attributes?.status;
+    if (data?.id !== inquiryId || typeof personaStatus !== 'string') {
+      log.error('Persona returned an unexpected inquiry document', undefined, { inquiryId });
+      return { success: false, reason: 'request_failed' };
+    }
+
+    return { success: true, inquiryId, personaStatus, kycStatus: toKycStatus(personaStatus) };
+  } catch (error) {
+    log.error('Persona inquiry lookup failed', error, { inquiryId });
+    return { success: false, reason: 'request_failed' };
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Structured Logger for Widget Auth Service
+ *
+ * Every message and field passes through the PII redaction policy before it
+ * is written (see redaction.ts). Production writes one JSON object per line
+ * for Cloud Logging; development writes `[COMPONENT] message {fields}`.
+ *
+ * LOG_LEVEL sets the minimum level (debug, info, warn, error). Defaults to
+ * info in production and debug otherwise.
+ */
+
+import { redact, redactText } from './redaction';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, error?: unknown, fields?: LogFields): void;
+  child(bindings: LogFields): Logger;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40
+};
+
+// Cloud Logging severity names
+const SEVERITY: Record<LogLevel, string> = {
+  debug: 'DEBUG',
+  info: 'INFO',
+  warn: 'WARNING',
+  error: 'ERROR'
+};
+
+function getMinimumLevel(): LogLevel {
+  const configured = process.env.LOG_LEVEL?.toLowerCase();
+  if (configured && configured in LEVEL_ORDER) {
+    return configured as LogLevel;
+  }
+  return process.env.NODE_ENV === 'production' ? 'info' : 'debug';
+}
+
+function write(level: LogLevel, component: string, message: string, fields: LogFields): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[getMinimumLevel()]) return;
+
+  const safeMessage = redactText(message);
+  const safeFields = redact(fields);
+  const sink = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+
+  if (process.env.NODE_ENV === 'production') {
+    sink(JSON.stringify({
+      severity: SEVERITY[level],
+      message: safeMessage,
+      component,
+      timestamp: new Date().toISOString(),
+      ...safeFields
+    }));
+    return;
+  }
+
+  if (Object.keys(safeFields).length > 0) {
+    sink(`[${component}] ${safeMessage}`, safeFields);
+  } else {
+    sink(`[${component}] ${safeMessage}`);
+  }
+}
+
+function buildLogger(component: string, bindings: LogFields): Logger {
+  return {
+    debug: (message, fields) => write('debug', component, message, { ...bindings, ...fields }),
+    info: (message, fields) => write('info', component, message, { ...bindings, ...fields }),
+    warn: (message, fields) => write('warn', component, message, { ...bindings, ...fields }),
+    error: (message, error, fields) => write('error', component, message, {
+      ...bindings,
+      ...fields,
+      ...(error !== undefined ? { error } : {})
+    }),
+    child: (childBindings) => buildLogger(component, { ...bindings, ...childBindings })
+  };
+}
+
+/**
+ * Logger for one component, e.g. createLogger('WIDGET-AUTH')
+ */
+export function createLogger(component: string): Logger {
+  return buildLogger(component, {});
+}
@@ -0,0 +1,153 @@
+/**
+ * Magic Links for Widget Users
+ *
+ * Passwordless sign-in and email verification. A link carries a signed,
+ * 15-minute token in the URL fragment of the partner page that embeds the
+ * widget (the fragment never reaches the partner's servers or referrers):
+ *
+ *   https://partner.com/rollover#trustrails_link=tr_ml_<jwt>
+ *
+ * The widget posts the token to /api/widget/magic-link/verify. Each token is
+ * recorded in `magic_links` and accepted once.
+ */
+
+import { randomUUID } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { requireAdminApp } from './firebase-admin';
+import { signToken, verifyToken } from './signing-keys';
+import { getMailTransport } from './mail/mail-transport';
+import { renderMagicLinkEmail, type MagicLinkPurpose } from './mail/templates';
+
+const MAGIC_LINK_PREFIX = 'tr_ml_';
+const MAGIC_LINK_AUDIENCE = 'widget-magic-link';
+const MAGIC_LINK_COLLECTION = 'magic_links';
+export const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+export const MAGIC_LINK_FRAGMENT_PARAM = 'trustrails_link';
+
+export type { MagicLinkPurpose };
+
+interface MagicLinkClaims {
+  jti: string;
+  email: string;
+  custodianId: string;
+  purpose: MagicLinkPurpose;
+}
+
+export interface SendMagicLinkOptions {
+  custodianId: string;
+  partnerName?: string;
+  sessionId: string;
+  email: string;
+  purpose: MagicLinkPurpose;
+  returnUrl: string; // Page that embeds the widget; must be on an allowed origin
+  ipAddress?: string;
+}
+
+export type MagicLinkFailureReason =
+  | 'invalid_token'
+  | 'token_expired'
+  | 'token_used'
+  | 'partner_mismatch';
+
+export type ConsumeMagicLinkResult =
+  | { success: true; linkId: string; email: string; purpose: MagicLinkPurpose; requestedSessionId: string }
+  | { success: false; reason: MagicLinkFailureReason };
+
+/**
+ * Issue a link token and email it
+ * Returns the link id and expiry (never the token itself)
+ */
+export async function sendMagicLink(options: SendMagicLinkOptions): Promise<{ linkId: string; expiresAt: Date }> {
+  const { adminDb } = requireAdminApp();
+  const linkId = randomUUID();
+  const email = options.email.toLowerCase();
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + MAGIC_LINK_TTL_MS);
+
+  await adminDb.collection(MAGIC_LINK_COLLECTION).doc(linkId).set({
+    linkId,
+    email,
+    custodianId: options.custodianId,
+    sessionId: options.sessionId,
+    purpose: options.purpose,
+    ipAddress: options.ipAddress || null,
+    createdAt: now.toISOString(),
+    // Stored as a Timestamp so a Firestore TTL policy can purge it
+    expiresAt,
+    usedAt: null
+  });
+
+  const claims: MagicLinkClaims = {
+    jti: linkId,
+    email,
+    custodianId: options.custodianId,
+    purpose: options.purpose
+  };
+  const token = `${MAGIC_LINK_PREFIX}${signToken(claims, {
+    expiresIn: Math.floor(MAGIC_LINK_TTL_MS / 1000),
+    issuer: 'trustrails-widget',
+    audience: MAGIC_LINK_AUDIENCE
+  })}`;
+
+  const url = new URL(options.returnUrl);
+  url.hash = `${MAGIC_LINK_FRAGMENT_PARAM}=${encodeURIComponent(token)}`;
+
+  await getMailTransport().send(renderMagicLinkEmail({
+    to: email,
+    link: url.toString(),
+    purpose: options.purpose,
+    partnerName: options.partnerName,
+    expiresInMinutes: MAGIC_LINK_TTL_MS / 60000
+  }));
+
+  return { linkId, expiresAt };
+}
+
+/**
+ * Verify a link token and mark it used
+ * A token presented to another partner's widget is rejected without being consumed
+ */
+export async function consumeMagicLink(token: string, custodianId: string): Promise<ConsumeMagicLinkResult> {
+  let claims: MagicLinkClaims;
+  try {
+    const actualToken = token.startsWith(MAGIC_LINK_PREFIX) ? token.substring(MAGIC_LINK_PREFIX.length) : token;
+    claims = verifyToken<MagicLinkClaims>(actualToken, {
+      issuer: 'trustrails-widget',
+      audience: MAGIC_LINK_AUDIENCE
+    });
+  } catch (error) {
+    return {
+      success: false,
+      reason: error instanceof jwt.TokenExpiredError ? 'token_expired' : 'invalid_token'
+    };
+  }
+
+  if (claims.custodianId !== custodianId) {
+    return { success: false, reason: 'partner_mismatch' };
+  }
+
+  const { adminDb } = requireAdminApp();
+  const linkRef = adminDb.collection(MAGIC_LINK_COLLECTION).doc(claims.jti);
+
+  return adminDb.runTransaction(async (transaction): Promise<ConsumeMagicLinkResult> => {
+    const linkDoc = await transaction.get(linkRef);
+    const link = linkDoc.data();
+
+    if (!linkDoc.exists || !link || link.email !== claims.email) {
+      return { success: false, reason: 'invalid_token' };
+    }
+    if (link.usedAt) {
+      return { success: false, reason: 'token_used' };
+    }
+
+    transaction.update(linkRef, { usedAt: new Date().toISOString() });
+
+    return {
+      success: true,
+      linkId: claims.jti,
+      email: claims.email,
+      purpose: claims.purpose,
+      requestedSessionId: link.sessionId
+    };
+  });
+}
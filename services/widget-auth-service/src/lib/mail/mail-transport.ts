@@ -0,0 +1,109 @@
+/**
+ * Mail Transports
+ *
+ * Select with MAIL_TRANSPORT:
+ *   smtp    - SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD (default in production);
+ *             SMTP_ALLOW_INSECURE=true allows a relay without STARTTLS outside production
+ *   file    - writes each message to MAIL_OUTPUT_DIR as JSON (local testing)
+ *   console - logs the message, including links (default outside production)
+ *
+ * MAIL_FROM is the sender for every transport.
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { SmtpMailTransport } from './smtp-transport';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'TrustRails <no-reply@trustrails.com>';
+
+// Development mail sink: writes straight to the console, bypassing the
+// structured logger, because redaction would strip the links being tested
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log('[MAIL] ----------------------------------------');
+    console.log(`[MAIL] To: ${message.to}`);
+    console.log(`[MAIL] Subject: ${message.subject}`);
+    console.log(message.text);
+    console.log('[MAIL] ----------------------------------------');
+  }
+}
+
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${randomBytes(4).toString('hex')}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export function getMailFrom(): string {
+  return process.env.MAIL_FROM || DEFAULT_FROM;
+}
+
+/**
+ * Transport selected by MAIL_TRANSPORT
+ */
+export function getMailTransport(): MailTransport {
+  if (transport) return transport;
+
+  const type = process.env.MAIL_TRANSPORT ||
+               (process.env.NODE_ENV === 'production' ? 'smtp' : 'console');
+
+  switch (type) {
+    case 'smtp': {
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is required when MAIL_TRANSPORT is smtp');
+      }
+      const port = parseInt(process.env.SMTP_PORT || '587', 10);
+      transport = new SmtpMailTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        allowInsecure: process.env.SMTP_ALLOW_INSECURE === 'true',
+        from: getMailFrom()
+      });
+      break;
+    }
+    case 'file':
+      transport = new FileMailTransport(
+        process.env.MAIL_OUTPUT_DIR || path.join(os.tmpdir(), 'trustrails-mail')
+      );
+      break;
+    case 'console':
+      transport = new ConsoleMailTransport();
+      break;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${type}`);
+  }
+
+  return transport;
+}
+
+/**
+ * Replace the transport (custom providers and local testing)
+ */
+export function setMailTransport(custom: MailTransport): void {
+  transport = custom;
+}
@@ -0,0 +1,61 @@
+/**
+ * SMTP Mail Transport
+ *
+ * Sends through nodemailer: implicit TLS (port 465) or STARTTLS, one message
+ * per connection. Mail is only sent over TLS. allowInsecure lets a local relay
+ * without STARTTLS take unauthenticated mail in clear; it is refused in
+ * production, and credentials never cross the wire in clear.
+ */
+
+import { createTransport, type Transporter } from 'nodemailer';
+import type { MailMessage, MailTransport } from './mail-transport';
+
+const SOCKET_TIMEOUT_MS = 15000;
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS; otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+  allowInsecure?: boolean; // Send without TLS when STARTTLS is not offered; never in production
+  from: string;
+  clientName?: string; // EHLO name
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(private readonly config: SmtpConfig) {
+    if (config.allowInsecure && process.env.NODE_ENV === 'production') {
+      throw new Error('SMTP without TLS is not allowed in production');
+    }
+
+    this.transporter = createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      // STARTTLS is used whenever offered; requireTLS fails the send when it is
+      // not, unless insecure mail is allowed and there are no credentials to leak
+      requireTLS: !config.secure && (!config.allowInsecure || Boolean(config.user)),
+      auth: config.user ? { user: config.user, pass: config.password || '' } : undefined,
+      name: config.clientName || 'trustrails-widget-auth',
+      connectionTimeout: SOCKET_TIMEOUT_MS,
+      greetingTimeout: SOCKET_TIMEOUT_MS,
+      socketTimeout: SOCKET_TIMEOUT_MS,
+      // Messages are built from templates; never let content pull in files or URLs
+      disableFileAccess: true,
+      disableUrlAccess: true
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.config.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html
+    });
+  }
+}
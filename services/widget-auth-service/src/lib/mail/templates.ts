@@ -0,0 +1,69 @@
+/**
+ * Transactional Email Templates
+ * Each template returns subject, plain text and HTML bodies.
+ */
+
+import type { MailMessage } from './mail-transport';
+
+export type MagicLinkPurpose = 'sign_in' | 'verify_email';
+
+export interface MagicLinkTemplateData {
+  to: string;
+  link: string;
+  purpose: MagicLinkPurpose;
+  partnerName?: string;
+  expiresInMinutes: number;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function layout(heading: string, paragraphs: string[], buttonLabel: string, link: string, footer: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f7fa;font-family:system-ui,-apple-system,sans-serif;color:#1f2937;">
+    <table role="presentation" width="100%" style="max-width:480px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px;">
+      <tr><td>
+        <h1 style="font-size:20px;margin:0 0 16px;">${escapeHtml(heading)}</h1>
+        ${paragraphs.map(paragraph => `<p style="font-size:15px;line-height:1.5;margin:0 0 16px;">${escapeHtml(paragraph)}</p>`).join('\n        ')}
+        <p style="margin:24px 0;">
+          <a href="${escapeHtml(link)}" style="background:#1a73e8;color:#ffffff;text-decoration:none;padding:12px 20px;border-radius:6px;font-weight:600;display:inline-block;">${escapeHtml(buttonLabel)}</a>
+        </p>
+        <p style="font-size:13px;color:#6b7280;margin:0;">${escapeHtml(footer)}</p>
+      </td></tr>
+    </table>
+  </body>
+</html>`;
+}
+
+export function renderMagicLinkEmail(data: MagicLinkTemplateData): MailMessage {
+  const partner = data.partnerName || 'TrustRails';
+  const expiry = `This link expires in ${data.expiresInMinutes} minutes and can only be used once.`;
+  const footer = "If you didn't request this email, you can safely ignore it.";
+
+  if (data.purpose === 'verify_email') {
+    const heading = 'Verify your email address';
+    const intro = `Confirm this email address to continue your retirement rollover with ${partner}.`;
+    return {
+      to: data.to,
+      subject: `Verify your email for ${partner}`,
+      text: `${heading}\n\n${intro}\n\n${data.link}\n\n${expiry}\n\n${footer}\n`,
+      html: layout(heading, [intro, expiry], 'Verify email', data.link, footer)
+    };
+  }
+
+  const heading = `Sign in to ${partner}`;
+  const intro = 'Use the link below to sign in and continue your retirement rollover. No password needed.';
+  return {
+    to: data.to,
+    subject: `Your sign-in link for ${partner}`,
+    text: `${heading}\n\n${intro}\n\n${data.link}\n\n${expiry}\n\n${footer}\n`,
+    html: layout(heading, [intro, expiry], 'Sign in', data.link, footer)
+  };
+}
@@ -1,19 +1,26 @@
 /**
  * Multi-layer rate limiter for widget authentication
  * Simplified version extracted from main app
+ *
+ * Each layer is one SecureRateLimiter; set RATE_LIMIT_STORE=firestore to
+ * share the counters across instances (see rate-limit-store.ts).
  */
 
 import SecureRateLimiter from './secure-rate-limiter';
 
+type RateLimitLayer = 'globalIp' | 'partnerUserCreation' | 'email' | 'session' | 'rapidCreation' | 'magicLinkEmail';
+
 interface RateLimitConfig {
   windowMs: number;
   maxRequests: number;
   identifier: string;
+  layer?: RateLimitLayer; // Omit for a custom window/limit
 }
 
 interface MultiRateLimitResult {
   success: boolean;
   failedCheck?: string;
+  limit: number; // Limit of the failed check, or of the tightest check on success
   remaining: number;
   resetTime: number;
   details: Record<string, any>;
@@ -23,12 +30,11 @@ class MultiLayerRateLimiter {
   private limiters: Map<string, SecureRateLimiter> = new Map();
 
   // Rate limit configurations by layer
-  private readonly configs = {
+  private readonly configs: Record<RateLimitLayer, { windowMs: number; maxRequests: number; maxEntries: number }> = {
     // Global IP rate limit - 100 requests per hour
     globalIp: { windowMs: 3600000, maxRequests: 100, maxEntries: 50000 },
 
-    // Partner-specific rate limit - 500 requests per hour
-    partner: { windowMs: 3600000, maxRequests: 500, maxEntries: 10000 },
+    // Partner request volume is limited per API key and tier (see tier-rate-limits.ts)
 
     // Partner user creation limit - 50 users per day
     partnerUserCreation: { windowMs: 86400000, maxRequests: 50, maxEntries: 5000 },
@@ -40,7 +46,10 @@ class MultiLayerRateLimiter {
     session: { windowMs: 300000, maxRequests: 10, maxEntries: 20000 },
 
     // Rapid creation detection - 20 users per hour per partner
-    rapidCreation: { windowMs: 3600000, maxRequests: 20, maxEntries: 5000 }
+    rapidCreation: { windowMs: 3600000, maxRequests: 20, maxEntries: 5000 },
+
+    // Magic link emails - 5 per hour per address
+    magicLinkEmail: { windowMs: 3600000, maxRequests: 5, maxEntries: 100000 }
   };
 
   constructor() {
@@ -65,24 +74,29 @@ class MultiLayerRateLimiter {
     const details: Record<string, any> = {};
 
     for (const check of checks) {
-      const limiter = this.limiters.get(check.identifier);
+      const limiter = check.layer ? this.limiters.get(check.layer) : undefined;
 
       if (!limiter) {
         // Validate custom configuration to prevent abuse
         const maxRequests = Math.min(check.maxRequests, 1000); // Cap at 1000
         const windowMs = Math.max(check.windowMs, 60000); // Min 1 minute window
 
-        // Create custom limiter with validated config
-        const newLimiter = new SecureRateLimiter(windowMs, maxRequests, 5000);
-        this.limiters.set(check.identifier, newLimiter);
+        // One limiter per custom configuration, shared by all identifiers using it
+        const customKey = `custom_${windowMs}_${maxRequests}`;
+        let customLimiter = this.limiters.get(customKey);
+        if (!customLimiter) {
+          customLimiter = new SecureRateLimiter(windowMs, maxRequests, 5000);
+          this.limiters.set(customKey, customLimiter);
+        }
 
-        const result = await newLimiter.check(check.identifier);
-        details[check.identifier] = result;
+        const result = await customLimiter.check(check.identifier);
+        details[check.identifier] = { ...result, limit: maxRequests };
 
         if (!result.success) {
           return {
             success: false,
             failedCheck: check.identifier,
+            limit: maxRequests,
             remaining: result.remaining,
             resetTime: result.resetTime,
             details
@@ -90,12 +104,13 @@ class MultiLayerRateLimiter {
         }
       } else {
         const result = await limiter.check(check.identifier);
-        details[check.identifier] = result;
+        details[check.identifier] = { ...result, limit: check.maxRequests };
 
         if (!result.success) {
           return {
             success: false,
             failedCheck: check.identifier,
+            limit: check.maxRequests,
             remaining: result.remaining,
             resetTime: result.resetTime,
             details
@@ -104,13 +119,14 @@ class MultiLayerRateLimiter {
       }
     }
 
-    // All checks passed
-    const minRemaining = Math.min(...Object.values(details).map(d => d.remaining));
+    // All checks passed - report the check closest to its limit
+    const tightest = Object.values(details).reduce((a, b) => (b.remaining < a.remaining ? b : a));
     const earliestReset = Math.min(...Object.values(details).map(d => d.resetTime));
 
     return {
       success: true,
-      remaining: minRemaining,
+      limit: tightest.limit,
+      remaining: tightest.remaining,
       resetTime: earliestReset,
       details
     };
@@ -128,30 +144,28 @@ class MultiLayerRateLimiter {
     const checks: RateLimitConfig[] = [
       // Global IP check
       {
+        layer: 'globalIp',
         identifier: `global_ip_${ipAddress}`,
         windowMs: this.configs.globalIp.windowMs,
         maxRequests: this.configs.globalIp.maxRequests
       },
-      // Partner request limit
-      {
-        identifier: `partner_${partnerId}`,
-        windowMs: this.configs.partner.windowMs,
-        maxRequests: this.configs.partner.maxRequests
-      },
       // Partner user creation limit
       {
+        layer: 'partnerUserCreation',
         identifier: `partner_user_creation_${partnerId}`,
         windowMs: this.configs.partnerUserCreation.windowMs,
         maxRequests: this.configs.partnerUserCreation.maxRequests
       },
       // Email enumeration prevention
       {
+        layer: 'email',
         identifier: `email_${email}`,
         windowMs: this.configs.email.windowMs,
         maxRequests: this.configs.email.maxRequests
       },
       // Rapid creation detection
       {
+        layer: 'rapidCreation',
         identifier: `rapid_creation_${partnerId}`,
         windowMs: this.configs.rapidCreation.windowMs,
         maxRequests: this.configs.rapidCreation.maxRequests
@@ -160,6 +174,7 @@ class MultiLayerRateLimiter {
 
     if (sessionId) {
       checks.push({
+        layer: 'session',
         identifier: `session_${sessionId}`,
         windowMs: this.configs.session.windowMs,
         maxRequests: this.configs.session.maxRequests
@@ -169,13 +184,44 @@ class MultiLayerRateLimiter {
     return this.checkMultiple(checks);
   }
 
+  /**
+   * Check magic link request rate limits
+   * Limits the emails any one address receives, not just the sender
+   */
+  async checkMagicLinkRequest(
+    ipAddress: string,
+    email: string,
+    sessionId: string
+  ): Promise<MultiRateLimitResult> {
+    return this.checkMultiple([
+      {
+        layer: 'globalIp',
+        identifier: `global_ip_${ipAddress}`,
+        windowMs: this.configs.globalIp.windowMs,
+        maxRequests: this.configs.globalIp.maxRequests
+      },
+      {
+        layer: 'magicLinkEmail',
+        identifier: `magic_link_email_${email}`,
+        windowMs: this.configs.magicLinkEmail.windowMs,
+        maxRequests: this.configs.magicLinkEmail.maxRequests
+      },
+      {
+        layer: 'session',
+        identifier: `session_${sessionId}`,
+        windowMs: this.configs.session.windowMs,
+        maxRequests: this.configs.session.maxRequests
+      }
+    ]);
+  }
+
   /**
    * Reset specific rate limit
    */
-  reset(type: string, identifier: string): void {
-    const limiter = this.limiters.get(type);
+  async reset(layer: RateLimitLayer, identifier: string): Promise<void> {
+    const limiter = this.limiters.get(layer);
     if (limiter) {
-      limiter.reset(`${type}_${identifier}`);
+      await limiter.reset(identifier);
     }
   }
 }
@@ -0,0 +1,116 @@
+/**
+ * JWKS Cache
+ *
+ * Caches identity provider signing keys per JWKS URI for the lifetime the
+ * provider advertises (Cache-Control max-age). A token signed with a key we
+ * have not seen triggers one early refetch, so provider key rotation is picked
+ * up without waiting for the cache to expire.
+ */
+
+import { createPublicKey, type KeyObject } from 'crypto';
+import { createLogger } from '../logger';
+
+const log = createLogger('OAUTH');
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000; // 1 hour when the provider sends no max-age
+const MAX_TTL_MS = 24 * 60 * 60 * 1000;
+const MIN_REFETCH_INTERVAL_MS = 30 * 1000; // Unknown kids can't force more refetches than this
+const FETCH_TIMEOUT_MS = 5000;
+
+interface JWK {
+  kid?: string;
+  kty: string;
+  use?: string;
+  alg?: string;
+  [key: string]: unknown;
+}
+
+interface CachedKeySet {
+  keys: Map<string, KeyObject>;
+  expiresAt: number;
+  fetchedAt: number;
+}
+
+function parseMaxAge(cacheControl: string | null): number | null {
+  const match = cacheControl?.match(/max-age=(\d+)/);
+  return match ? parseInt(match[1], 10) * 1000 : null;
+}
+
+export class JWKSCache {
+  private keySets: Map<string, CachedKeySet> = new Map();
+  private inflight: Map<string, Promise<CachedKeySet>> = new Map();
+
+  constructor(private readonly fetchImpl: typeof fetch = fetch) {}
+
+  /**
+   * Signing key for `kid`, or null when the provider does not publish it
+   * Throws when the key set cannot be fetched
+   */
+  async getSigningKey(jwksUri: string, kid: string): Promise<KeyObject | null> {
+    let keySet = this.keySets.get(jwksUri);
+
+    if (!keySet || keySet.expiresAt <= Date.now()) {
+      keySet = await this.refresh(jwksUri);
+    } else if (!keySet.keys.has(kid) && keySet.fetchedAt + MIN_REFETCH_INTERVAL_MS <= Date.now()) {
+      // Possibly a freshly rotated key
+      keySet = await this.refresh(jwksUri);
+    }
+
+    return keySet.keys.get(kid) ?? null;
+  }
+
+  clear(): void {
+    this.keySets.clear();
+  }
+
+  private refresh(jwksUri: string): Promise<CachedKeySet> {
+    // Concurrent verifications share one fetch
+    const pending = this.inflight.get(jwksUri);
+    if (pending) return pending;
+
+    const request = this.fetchKeySet(jwksUri).finally(() => this.inflight.delete(jwksUri));
+    this.inflight.set(jwksUri, request);
+    return request;
+  }
+
+  private async fetchKeySet(jwksUri: string): Promise<CachedKeySet> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(jwksUri, {
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch JWKS from ${jwksUri}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`JWKS endpoint ${jwksUri} returned ${response.status}`);
+    }
+
+    const body = await response.json().catch(() => null);
+    if (!body || !Array.isArray(body.keys)) {
+      throw new Error(`JWKS endpoint ${jwksUri} returned no keys`);
+    }
+
+    const keys = new Map<string, KeyObject>();
+    for (const jwk of body.keys as JWK[]) {
+      // Only signing keys with an id can be matched to a token header
+      if (!jwk.kid || (jwk.use && jwk.use !== 'sig')) continue;
+      try {
+        keys.set(jwk.kid, createPublicKey({ key: jwk as any, format: 'jwk' }));
+      } catch (error) {
+        log.warn('Skipping unusable JWK', { kid: jwk.kid, error });
+      }
+    }
+
+    const now = Date.now();
+    const ttl = Math.min(parseMaxAge(response.headers.get('cache-control')) ?? DEFAULT_TTL_MS, MAX_TTL_MS);
+    const keySet = { keys, expiresAt: now + ttl, fetchedAt: now };
+    this.keySets.set(jwksUri, keySet);
+    return keySet;
+  }
+}
+
+// Shared by all verifiers in the process
+export const jwksCache = new JWKSCache();
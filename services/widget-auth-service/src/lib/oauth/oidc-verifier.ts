@@ -0,0 +1,163 @@
+/**
+ * OpenID Connect ID Token Verification
+ *
+ * Verifies an ID token's signature against the provider's JWKS and checks
+ * issuer, audience, expiry, nonce and email_verified. Provider-specific
+ * verifiers (see providers.ts) are OIDCVerifier instances with their own
+ * issuer rules and email verification claims.
+ */
+
+import * as jwt from 'jsonwebtoken';
+import { jwksCache as defaultJwksCache, type JWKSCache } from './jwks-cache';
+import { createLogger } from '../logger';
+
+const log = createLogger('OAUTH');
+
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+export type OAuthVerifyFailureReason =
+  | 'provider_not_configured'
+  | 'malformed_token'
+  | 'unknown_signing_key'
+  | 'jwks_unavailable'
+  | 'invalid_signature'
+  | 'token_expired'
+  | 'invalid_issuer'
+  | 'invalid_audience'
+  | 'nonce_mismatch'
+  | 'email_missing'
+  | 'email_not_verified';
+
+export interface VerifiedIdentity {
+  provider: string;
+  subject: string;
+  issuer: string;
+  email: string;
+  emailVerified: boolean;
+  name?: string;
+  picture?: string;
+}
+
+export type OAuthVerifyResult =
+  | { success: true; identity: VerifiedIdentity }
+  | { success: false; reason: OAuthVerifyFailureReason; error: string };
+
+export interface OAuthVerifyOptions {
+  nonce?: string; // Nonce the widget sent in the authorization request
+}
+
+export interface OAuthTokenVerifier {
+  readonly provider: string;
+  verify(idToken: string, options?: OAuthVerifyOptions): Promise<OAuthVerifyResult>;
+}
+
+export interface OIDCVerifierConfig {
+  provider: string;
+  jwksUri: string | (() => Promise<string>); // A function for URIs found by discovery
+  audience: string[]; // OAuth client IDs issued to TrustRails
+  // Exact issuer(s), or a check for providers with per-tenant issuers
+  issuer: string[] | ((issuer: string, claims: jwt.JwtPayload) => boolean);
+  algorithms?: jwt.Algorithm[];
+  // Whether the provider vouches for the email claim; defaults to email_verified === true
+  isEmailVerified?: (claims: jwt.JwtPayload) => boolean;
+}
+
+function fail(reason: OAuthVerifyFailureReason, error: string): OAuthVerifyResult {
+  return { success: false, reason, error };
+}
+
+export class OIDCVerifier implements OAuthTokenVerifier {
+  readonly provider: string;
+
+  constructor(
+    private readonly config: OIDCVerifierConfig,
+    private readonly keys: JWKSCache = defaultJwksCache
+  ) {
+    this.provider = config.provider;
+  }
+
+  async verify(idToken: string, options: OAuthVerifyOptions = {}): Promise<OAuthVerifyResult> {
+    if (this.config.audience.length === 0) {
+      return fail('provider_not_configured', `No client IDs configured for ${this.provider}`);
+    }
+
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string' || !decoded.header.kid) {
+      return fail('malformed_token', 'ID token is not a signed JWT with a key id');
+    }
+
+    let signingKey;
+    try {
+      const jwksUri = typeof this.config.jwksUri === 'string'
+        ? this.config.jwksUri
+        : await this.config.jwksUri();
+      signingKey = await this.keys.getSigningKey(jwksUri, decoded.header.kid);
+    } catch (error) {
+      log.error('JWKS unavailable', error, { provider: this.provider });
+      return fail('jwks_unavailable', 'Identity provider keys are unavailable');
+    }
+    if (!signingKey) {
+      return fail('unknown_signing_key', 'ID token was signed with an unknown key');
+    }
+
+    let claims: jwt.JwtPayload;
+    try {
+      claims = jwt.verify(idToken, signingKey, {
+        algorithms: this.config.algorithms || ['RS256'],
+        audience: this.config.audience as [string, ...string[]],
+        clockTolerance: CLOCK_TOLERANCE_SECONDS
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        return fail('token_expired', 'ID token has expired');
+      }
+      if (error instanceof jwt.JsonWebTokenError && error.message.startsWith('jwt audience invalid')) {
+        return fail('invalid_audience', 'ID token was issued to a different client');
+      }
+      return fail('invalid_signature', 'ID token signature is invalid');
+    }
+
+    const issuer = claims.iss || '';
+    const issuerValid = Array.isArray(this.config.issuer)
+      ? this.config.issuer.includes(issuer)
+      : this.config.issuer(issuer, claims);
+    if (!issuerValid) {
+      return fail('invalid_issuer', 'ID token issuer is not trusted');
+    }
+
+    // If either side used a nonce they must match, so a token minted for
+    // another login cannot be replayed here
+    if ((options.nonce || claims.nonce) && claims.nonce !== options.nonce) {
+      return fail('nonce_mismatch', 'ID token nonce does not match');
+    }
+
+    if (!claims.sub) {
+      return fail('malformed_token', 'ID token has no subject');
+    }
+
+    const email = typeof claims.email === 'string' ? claims.email.toLowerCase() : '';
+    if (!email) {
+      return fail('email_missing', 'ID token has no email claim; request the email scope');
+    }
+
+    const emailVerified = this.config.isEmailVerified
+      ? this.config.isEmailVerified(claims)
+      : claims.email_verified === true || claims.email_verified === 'true';
+    if (!emailVerified) {
+      return fail('email_not_verified', 'Email address is not verified by the identity provider');
+    }
+
+    return {
+      success: true,
+      identity: {
+        provider: this.provider,
+        subject: claims.sub,
+        issuer,
+        email,
+        emailVerified,
+        name: typeof claims.name === 'string' ? claims.name : undefined,
+        picture: typeof claims.picture === 'string' ? claims.picture : undefined
+      }
+    };
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * OAuth Provider Verifiers
+ *
+ * create-account looks up the verifier for the `provider` the widget sends:
+ *   google    - GOOGLE_OAUTH_CLIENT_IDS
+ *   microsoft - MICROSOFT_OAUTH_CLIENT_IDS (MICROSOFT_OAUTH_TENANT_IDS restricts tenants)
+ *   others    - OIDC_PROVIDERS, a JSON array of
+ *               { "id", "issuer", "client_ids": [...], "jwks_uri"? }
+ *               jwks_uri is found by OpenID discovery when omitted
+ *
+ * Client ID variables are comma-separated. A provider without client IDs
+ * rejects every token.
+ */
+
+import { OIDCVerifier, type OAuthTokenVerifier } from './oidc-verifier';
+import { createLogger } from '../logger';
+
+const log = createLogger('OAUTH');
+
+const GOOGLE_ISSUERS = ['https://accounts.google.com', 'accounts.google.com'];
+const GOOGLE_JWKS_URI = 'https://www.googleapis.com/oauth2/v3/certs';
+
+const MICROSOFT_JWKS_URI = 'https://login.microsoftonline.com/common/discovery/v2.0/keys';
+// Personal Microsoft accounts; Microsoft verifies their email addresses
+const MICROSOFT_CONSUMER_TENANT_ID = '9188040d-6c67-4c5b-b112-36a304b66dad';
+
+const DISCOVERY_TIMEOUT_MS = 5000;
+
+interface OIDCProviderConfig {
+  id: string;
+  issuer: string;
+  client_ids: string[];
+  jwks_uri?: string;
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+export function createGoogleVerifier(
+  clientIds: string[] = parseList(process.env.GOOGLE_OAUTH_CLIENT_IDS)
+): OAuthTokenVerifier {
+  return new OIDCVerifier({
+    provider: 'google',
+    jwksUri: GOOGLE_JWKS_URI,
+    audience: clientIds,
+    issuer: GOOGLE_ISSUERS
+  });
+}
+
+export function createMicrosoftVerifier(
+  clientIds: string[] = parseList(process.env.MICROSOFT_OAUTH_CLIENT_IDS),
+  tenantIds: string[] = parseList(process.env.MICROSOFT_OAUTH_TENANT_IDS)
+): OAuthTokenVerifier {
+  return new OIDCVerifier({
+    provider: 'microsoft',
+    jwksUri: MICROSOFT_JWKS_URI,
+    audience: clientIds,
+    // The common endpoint signs for every tenant; the issuer names the tenant
+    issuer: (issuer, claims) => {
+      const tenantId = claims.tid;
+      if (typeof tenantId !== 'string') return false;
+      if (tenantIds.length > 0 && !tenantIds.includes(tenantId)) return false;
+      return issuer === `https://login.microsoftonline.com/${tenantId}/v2.0`;
+    },
+    // Work accounts only carry a verified email when the tenant owns its domain (xms_edov)
+    isEmailVerified: claims =>
+      claims.tid === MICROSOFT_CONSUMER_TENANT_ID ||
+      claims.xms_edov === true ||
+      claims.xms_edov === 'true' ||
+      claims.email_verified === true
+  });
+}
+
+/**
+ * JWKS URI from the issuer's discovery document, fetched once
+ */
+function discoverJwksUri(issuer: string): () => Promise<string> {
+  let jwksUri: Promise<string> | null = null;
+
+  return () => {
+    if (!jwksUri) {
+      jwksUri = (async () => {
+        const response = await fetch(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`, {
+          signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS)
+        });
+        if (!response.ok) {
+          throw new Error(`OpenID discovery for ${issuer} returned ${response.status}`);
+        }
+        const document = await response.json();
+        // The discovery document must describe the configured issuer
+        if (document.issuer !== issuer || typeof document.jwks_uri !== 'string') {
+          throw new Error(`OpenID discovery for ${issuer} returned an invalid document`);
+        }
+        return document.jwks_uri as string;
+      })();
+      // Retry discovery on the next verification after a failure
+      jwksUri.catch(() => { jwksUri = null; });
+    }
+    return jwksUri;
+  };
+}
+
+export function createOIDCVerifier(config: OIDCProviderConfig): OAuthTokenVerifier {
+  return new OIDCVerifier({
+    provider: config.id,
+    jwksUri: config.jwks_uri || discoverJwksUri(config.issuer),
+    audience: config.client_ids,
+    issuer: [config.issuer]
+  });
+}
+
+function loadOIDCProviders(): OIDCProviderConfig[] {
+  if (!process.env.OIDC_PROVIDERS) return [];
+
+  try {
+    const providers = JSON.parse(process.env.OIDC_PROVIDERS);
+    if (!Array.isArray(providers)) throw new Error('expected an array');
+
+    return providers.filter((provider: any) => {
+      const valid = typeof provider?.id === 'string' &&
+                    typeof provider.issuer === 'string' &&
+                    Array.isArray(provider.client_ids);
+      if (!valid) {
+        log.error('Ignoring invalid OIDC_PROVIDERS entry', undefined, { providerId: provider?.id });
+      }
+      return valid;
+    });
+  } catch (error) {
+    log.error('Could not parse OIDC_PROVIDERS', error);
+    return [];
+  }
+}
+
+let verifiers: Map<string, OAuthTokenVerifier> | null = null;
+
+function getVerifiers(): Map<string, OAuthTokenVerifier> {
+  if (!verifiers) {
+    verifiers = new Map<string, OAuthTokenVerifier>([
+      ['google', createGoogleVerifier()],
+      ['microsoft', createMicrosoftVerifier()]
+    ]);
+    for (const provider of loadOIDCProviders()) {
+      if (verifiers.has(provider.id)) {
+        log.error('OIDC_PROVIDERS cannot replace built-in provider', undefined, { providerId: provider.id });
+        continue;
+      }
+      verifiers.set(provider.id, createOIDCVerifier(provider));
+    }
+  }
+  return verifiers;
+}
+
+/**
+ * Verifier for a provider id, or null for unsupported providers
+ */
+export function getOAuthVerifier(provider: string): OAuthTokenVerifier | null {
+  return getVerifiers().get(provider) ?? null;
+}
+
+/**
+ * Add or replace a verifier (custom providers and local testing)
+ */
+export function registerOAuthVerifier(verifier: OAuthTokenVerifier): void {
+  getVerifiers().set(verifier.provider, verifier);
+}
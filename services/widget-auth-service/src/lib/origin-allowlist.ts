@@ -0,0 +1,165 @@
+/**
+ * Per-partner embedding origin allowlist
+ *
+ * Partners register the domains that may embed the widget on their custodian
+ * document (`integrationConfig.allowedDomains`, falling back to the legacy
+ * `widgetSettings.allowedDomains`). Entries may be:
+ * - a bare host:            partner.com          (https only)
+ * - a wildcard subdomain:   *.partner.com        (https only, not the apex)
+ * - a full origin:          http://staging.partner.com:8080
+ *
+ * Bare hosts and wildcards match any port unless they name one
+ * (partner.com:8443, *.partner.com:8443).
+ *
+ * Sandbox keys may additionally be used from localhost.
+ */
+
+import type { NextRequest } from 'next/server';
+import { AuditLogger, AuditSeverity } from '@/lib/audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+
+export type OriginRejectionReason = 'missing_origin' | 'invalid_origin' | 'origin_not_allowed';
+
+export interface OriginCheckResult {
+  allowed: boolean;
+  origin: string | null; // Normalized origin (scheme://host[:port])
+  reason?: OriginRejectionReason;
+}
+
+const LOCALHOST_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Normalize an Origin header value to scheme://host[:port]
+ * Returns null for anything that is not an http(s) origin (including "null")
+ */
+export function normalizeOrigin(origin: string | null | undefined): string | null {
+  if (!origin || origin === 'null') return null;
+
+  try {
+    const url = new URL(origin);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    return `${url.protocol}//${url.host}`.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the registered embedding domains from a custodian document
+ */
+export function getAllowedDomains(custodianData: any): string[] {
+  const domains = custodianData?.integrationConfig?.allowedDomains ??
+                  custodianData?.widgetSettings?.allowedDomains ??
+                  [];
+  return Array.isArray(domains) ? domains.filter((d: unknown) => typeof d === 'string') : [];
+}
+
+function isLocalhostOrigin(origin: string): boolean {
+  return LOCALHOST_HOSTS.includes(new URL(origin).hostname);
+}
+
+function matchesEntry(origin: string, entry: string): boolean {
+  const trimmed = entry.trim().toLowerCase().replace(/\/+$/, '');
+  if (!trimmed) return false;
+
+  // Full origin entry - exact match
+  if (trimmed.includes('://')) {
+    return normalizeOrigin(trimmed) === origin;
+  }
+
+  const url = new URL(origin);
+  if (url.protocol !== 'https:') return false;
+
+  const [, host, port] = trimmed.match(/^(.*?)(?::(\d+))?$/)!;
+  // URL drops the default port, so "partner.com:443" means no explicit port
+  if (port !== undefined && url.port !== (port === '443' ? '' : port)) return false;
+
+  // Wildcard subdomain entry
+  if (host.startsWith('*.')) {
+    const suffix = host.substring(1); // ".partner.com"
+    return url.hostname.endsWith(suffix) && url.hostname.length > suffix.length;
+  }
+
+  // Bare host entry
+  return url.hostname === host;
+}
+
+/**
+ * Check a request origin against a partner's allowlist
+ */
+export function checkOrigin(
+  rawOrigin: string | null,
+  allowedDomains: string[],
+  environment: 'production' | 'sandbox' | null
+): OriginCheckResult {
+  if (!rawOrigin) {
+    return { allowed: false, origin: null, reason: 'missing_origin' };
+  }
+
+  const origin = normalizeOrigin(rawOrigin);
+  if (!origin) {
+    return { allowed: false, origin: null, reason: 'invalid_origin' };
+  }
+
+  if (environment === 'sandbox' && isLocalhostOrigin(origin)) {
+    return { allowed: true, origin };
+  }
+
+  if (allowedDomains.some(entry => matchesEntry(origin, entry))) {
+    return { allowed: true, origin };
+  }
+
+  return { allowed: false, origin, reason: 'origin_not_allowed' };
+}
+
+/**
+ * Build CORS headers that echo back the exact request origin
+ * Passing null omits Access-Control-Allow-Origin so the browser blocks the response
+ */
+export function buildCorsHeaders(
+  origin: string | null,
+  methods: string,
+  allowHeaders: string
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Methods': methods,
+    'Access-Control-Allow-Headers': allowHeaders,
+    'Vary': 'Origin',
+  };
+
+  if (origin) {
+    headers['Access-Control-Allow-Origin'] = origin;
+  }
+
+  return headers;
+}
+
+/**
+ * Audit-log a rejected origin and build the 403 response body
+ */
+export async function logOriginRejection(
+  request: NextRequest,
+  custodianId: string,
+  result: OriginCheckResult,
+  environment: 'production' | 'sandbox' | null
+): Promise<{ error: string; code: string }> {
+  await AuditLogger.logSecurityEvent(
+    'widget_origin_rejected',
+    AuditSeverity.WARNING,
+    `Request from unregistered origin: ${request.headers.get('origin') || 'none'}`,
+    undefined,
+    request,
+    {
+      eventType: SOC2_AUDIT_EVENTS.WIDGET_ORIGIN_REJECTED,
+      custodianId,
+      origin: request.headers.get('origin'),
+      reason: result.reason,
+      environment
+    }
+  );
+
+  return {
+    error: 'This widget is not authorized to run on this website',
+    code: 'ORIGIN_NOT_ALLOWED'
+  };
+}
@@ -0,0 +1,246 @@
+/**
+ * Partner Backend API Authentication (Tier 2 auth)
+ *
+ * Server-to-server requests from partner backends are signed with a secret
+ * (tr_live_sk_ / tr_test_sk_) key instead of sending the key itself:
+ *
+ *   X-TrustRails-Partner-ID: <custodian id>
+ *   X-TrustRails-Key-ID:     <API key id>
+ *   X-TrustRails-Timestamp:  <unix seconds>
+ *   X-TrustRails-Signature:  hex HMAC-SHA256 of METHOD|PATH|TIMESTAMP|BODY_HASH
+ *
+ * The HMAC key is the signing secret returned with the key when it is created
+ * or rotated: hex HMAC-SHA256 of the key's `hashedKey`, keyed by
+ * PARTNER_SIGNING_PEPPER (deriveSigningSecret). The pepper is never stored in
+ * Firestore, so neither the secret key nor anything we store can sign a
+ * request on its own. PATH includes the query string.
+ *
+ * Replay protection: timestamps outside REPLAY_WINDOW_MS are rejected and each
+ * signature is accepted once (nonce cache in Firestore, shared by instances).
+ */
+
+import type { NextRequest } from 'next/server';
+import { createHash } from 'crypto';
+import type { DocumentData } from 'firebase-admin/firestore';
+import {
+  deriveSigningSecret,
+  verifyHMACSignature,
+  getKeyEnvironment,
+  isAPIKeyUsable
+} from './api-keys-server';
+import { requireAdminApp } from './firebase-admin';
+import { buildStatusRejection, resolveCustodianStatus } from './custodian-status';
+import { AuditLogger, AuditSeverity } from './audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+
+const REPLAY_WINDOW_MS = 5 * 60 * 1000; // 5 minutes either side of server time
+const NONCE_COLLECTION = 'partner_api_nonces';
+
+export type PartnerAuthFailureReason =
+  | 'missing_headers'
+  | 'invalid_timestamp'
+  | 'timestamp_out_of_window'
+  | 'invalid_partner'
+  | 'partner_inactive'
+  | 'invalid_key'
+  | 'invalid_signature'
+  | 'signing_unavailable'
+  | 'replayed_request'
+  | 'invalid_body';
+
+export interface PartnerAuthContext {
+  custodianId: string;
+  custodianData: DocumentData;
+  apiKeyId: string;
+  apiKeyPermissions?: string[];
+  environment: 'production' | 'sandbox';
+  body: any; // Parsed JSON body (null when empty)
+}
+
+export type PartnerAuthResult =
+  | { success: true; context: PartnerAuthContext }
+  | {
+      success: false;
+      status: number;
+      error: string;
+      code: string;
+      reason: PartnerAuthFailureReason;
+      body: Record<string, unknown>; // Response body to send
+      headers: Record<string, string>;
+    };
+
+/**
+ * Record a signature as used
+ * create() fails if the document already exists, which makes this atomic across instances
+ */
+async function claimNonce(keyId: string, signature: string, timestampMs: number): Promise<boolean> {
+  const { adminDb } = requireAdminApp();
+  const nonceId = createHash('sha256').update(`${keyId}|${signature}`).digest('hex');
+
+  try {
+    await adminDb.collection(NONCE_COLLECTION).doc(nonceId).create({
+      keyId,
+      createdAt: new Date().toISOString(),
+      // Past this point the timestamp check alone rejects the request.
+      // Stored as a Timestamp so a Firestore TTL policy can purge it.
+      expiresAt: new Date(timestampMs + REPLAY_WINDOW_MS)
+    });
+    return true;
+  } catch (error: any) {
+    // gRPC ALREADY_EXISTS
+    if (error?.code === 6) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+function fail(
+  status: number,
+  reason: PartnerAuthFailureReason,
+  error: string
+): PartnerAuthResult {
+  return {
+    success: false,
+    status,
+    error,
+    code: 'PARTNER_AUTH_FAILED',
+    reason,
+    body: { error, code: 'PARTNER_AUTH_FAILED' },
+    headers: {}
+  };
+}
+
+/**
+ * Authenticate a signed partner backend request
+ * Consumes the request body; use `context.body` afterwards
+ */
+export async function authenticatePartnerRequest(request: NextRequest): Promise<PartnerAuthResult> {
+  const partnerId = request.headers.get('X-TrustRails-Partner-ID');
+  const keyId = request.headers.get('X-TrustRails-Key-ID');
+  const timestamp = request.headers.get('X-TrustRails-Timestamp');
+  const signature = request.headers.get('X-TrustRails-Signature');
+
+  if (!partnerId || !keyId || !timestamp || !signature) {
+    return fail(
+      400,
+      'missing_headers',
+      'Missing required headers: X-TrustRails-Partner-ID, X-TrustRails-Key-ID, X-TrustRails-Timestamp, X-TrustRails-Signature'
+    );
+  }
+
+  if (!/^\d{10}$/.test(timestamp)) {
+    return fail(401, 'invalid_timestamp', 'X-TrustRails-Timestamp must be unix time in seconds');
+  }
+
+  const timestampMs = parseInt(timestamp, 10) * 1000;
+  if (Math.abs(Date.now() - timestampMs) > REPLAY_WINDOW_MS) {
+    return fail(401, 'timestamp_out_of_window', 'Request timestamp outside the allowed window');
+  }
+
+  const rawBody = await request.text();
+
+  const { adminDb } = requireAdminApp();
+  const custodianDoc = await adminDb.collection('custodians').doc(partnerId).get();
+  const custodianData = custodianDoc.data();
+
+  if (!custodianDoc.exists || !custodianData) {
+    return fail(401, 'invalid_partner', 'Invalid partner credentials');
+  }
+
+  // Suspended partners and maintenance windows switch the API off, as for widgets
+  const partnerStatus = resolveCustodianStatus(custodianData);
+  if (partnerStatus.status !== 'active') {
+    const rejection = buildStatusRejection(partnerStatus);
+    return {
+      success: false,
+      status: rejection.status,
+      error: rejection.body.error as string,
+      code: rejection.body.code as string,
+      reason: 'partner_inactive',
+      body: rejection.body,
+      headers: rejection.headers
+    };
+  }
+
+  const apiKeys = custodianData.integrationConfig?.apiKeys || [];
+  const matchingKey = apiKeys.find(
+    (key: any) => key.id === keyId &&
+                  isAPIKeyUsable(key) &&
+                  key.type === 'secret'
+  );
+
+  if (!matchingKey) {
+    return fail(401, 'invalid_key', 'Invalid partner credentials');
+  }
+
+  const signingSecret = deriveSigningSecret(matchingKey.hashedKey);
+  if (!signingSecret) {
+    return fail(503, 'signing_unavailable', 'Partner API is temporarily unavailable');
+  }
+
+  const path = `${request.nextUrl.pathname}${request.nextUrl.search}`;
+  const signatureValid = verifyHMACSignature(
+    signingSecret,
+    signature.toLowerCase(),
+    request.method,
+    path,
+    timestamp,
+    rawBody || undefined
+  );
+
+  if (!signatureValid) {
+    return fail(401, 'invalid_signature', 'Invalid request signature');
+  }
+
+  if (!(await claimNonce(matchingKey.id, signature.toLowerCase(), timestampMs))) {
+    return fail(401, 'replayed_request', 'Request has already been processed');
+  }
+
+  let body: any = null;
+  if (rawBody) {
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return fail(400, 'invalid_body', 'Request body must be valid JSON');
+    }
+  }
+
+  return {
+    success: true,
+    context: {
+      custodianId: custodianDoc.id,
+      custodianData,
+      apiKeyId: matchingKey.id,
+      apiKeyPermissions: matchingKey.permissions,
+      environment: matchingKey.environment ||
+                   getKeyEnvironment(matchingKey.prefix || '') ||
+                   'production',
+      body
+    }
+  };
+}
+
+/**
+ * Audit-log a rejected partner API request
+ */
+export async function logPartnerAuthFailure(
+  request: NextRequest,
+  result: Extract<PartnerAuthResult, { success: false }>
+): Promise<void> {
+  await AuditLogger.logSecurityEvent(
+    'partner_api_auth_failed',
+    result.reason === 'replayed_request' || result.reason === 'invalid_signature'
+      ? AuditSeverity.ERROR
+      : AuditSeverity.WARNING,
+    `Partner API authentication failed: ${result.reason}`,
+    undefined,
+    request,
+    {
+      eventType: SOC2_AUDIT_EVENTS.PARTNER_API_AUTH_FAILURE,
+      reason: result.reason,
+      partnerId: request.headers.get('X-TrustRails-Partner-ID'),
+      keyId: request.headers.get('X-TrustRails-Key-ID')
+    }
+  );
+}
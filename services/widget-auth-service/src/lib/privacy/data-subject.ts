@@ -0,0 +1,258 @@
+/**
+ * Data Subject Requests (GDPR / CCPA)
+ *
+ * Partners act on behalf of the widget users they host (`hostCustodianId`):
+ *
+ *   access  - everything we hold about the user, as one JSON bundle, including
+ *             the webhook payloads about them that erasure would strip
+ *   erasure - the Firebase Auth account, sessions and magic links are deleted,
+ *             webhook payloads are stripped, and the profile is replaced by a
+ *             pseudonymous stub so records that reference the user ID still resolve
+ *
+ * Audit events are retained as legally required records. They are redacted
+ * when written (see redaction.ts) and are not rewritten here, which would
+ * break the audit hash chain. Each request is recorded in `data_subject_requests`.
+ */
+
+import { randomBytes } from 'crypto';
+import type { DocumentData } from 'firebase-admin/firestore';
+import { requireAdminApp } from '../firebase-admin';
+import { hashEmail } from '../redaction';
+import { iterateAuditEvents, toPublicAuditEvent, type PublicAuditEvent } from '../audit/audit-query';
+import { eraseUserFromDeliveries, listUserDeliveries } from '../webhooks/webhook-dispatcher';
+
+export const DATA_SUBJECT_REQUESTS_COLLECTION = 'data_subject_requests';
+export const DATA_EXPORT_FORMAT_VERSION = 1;
+
+// Session fields that are credentials, not personal data
+const SESSION_SECRET_FIELDS = ['apiKeyHash', 'refreshTokenHash', 'previousRefreshTokenHash'];
+
+export type DataSubjectFailureReason = 'not_found' | 'partner_mismatch' | 'already_erased';
+
+export type DataSubjectLookupResult =
+  | { success: true; user: DocumentData }
+  | { success: false; reason: DataSubjectFailureReason };
+
+export interface DataExportBundle {
+  format_version: number;
+  generated_at: string;
+  user_id: string;
+  custodian_id: string;
+  profile: Record<string, unknown>;
+  account: Record<string, unknown> | null;
+  sessions: Record<string, unknown>[];
+  magic_links: Record<string, unknown>[];
+  audit_events: PublicAuditEvent[];
+  webhook_deliveries: Awaited<ReturnType<typeof listUserDeliveries>>;
+}
+
+export interface ErasureResult {
+  requestId: string;
+  authAccountDeleted: boolean;
+  sessionsDeleted: number;
+  magicLinksDeleted: number;
+  webhookDeliveriesErased: number;
+}
+
+/**
+ * Firestore Timestamps as ISO strings, so documents serialize cleanly
+ */
+function serializeDocument(data: DocumentData): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    result[key] = value && typeof value.toDate === 'function'
+      ? value.toDate().toISOString()
+      : value;
+  }
+  return result;
+}
+
+/**
+ * The user, if the partner hosts them and they have not been erased
+ * Another partner's user is reported as not found so IDs cannot be probed.
+ */
+export async function findPartnerUser(custodianId: string, userId: string): Promise<DataSubjectLookupResult> {
+  const { adminDb } = requireAdminApp();
+  const userDoc = await adminDb.collection('users').doc(userId).get();
+  const user = userDoc.data();
+
+  if (!user) {
+    return { success: false, reason: 'not_found' };
+  }
+  if ((user.hostCustodianId || user.custodianId) !== custodianId) {
+    return { success: false, reason: 'partner_mismatch' };
+  }
+  if (user.status === 'erased') {
+    return { success: false, reason: 'already_erased' };
+  }
+  return { success: true, user };
+}
+
+async function getSessionDocs(custodianId: string, userId: string) {
+  const { adminDb } = requireAdminApp();
+  const snapshot = await adminDb.collection('widget_sessions')
+    .where('userId', '==', userId)
+    .where('custodianId', '==', custodianId)
+    .get();
+  return snapshot.docs;
+}
+
+async function getMagicLinkDocs(custodianId: string, email: string | undefined) {
+  if (!email) return [];
+  const { adminDb } = requireAdminApp();
+  const snapshot = await adminDb.collection('magic_links')
+    .where('email', '==', email)
+    .where('custodianId', '==', custodianId)
+    .get();
+  return snapshot.docs;
+}
+
+async function recordRequest(
+  type: 'access' | 'erasure',
+  custodianId: string,
+  userId: string,
+  email: string | undefined,
+  requestedBy: string,
+  details: Record<string, unknown> = {}
+): Promise<string> {
+  const { adminDb } = requireAdminApp();
+  const requestId = `dsr_${randomBytes(12).toString('hex')}`;
+
+  await adminDb.collection(DATA_SUBJECT_REQUESTS_COLLECTION).doc(requestId).set({
+    requestId,
+    type,
+    custodianId,
+    userId,
+    emailHash: email ? hashEmail(email) : null,
+    requestedBy,
+    completedAt: new Date().toISOString(),
+    ...details
+  });
+
+  return requestId;
+}
+
+/**
+ * Everything held about a user, for a data subject access request
+ */
+export async function buildDataExport(
+  custodianId: string,
+  userId: string,
+  user: DocumentData,
+  requestedBy: string
+): Promise<{ requestId: string; bundle: DataExportBundle }> {
+  const { adminAuth } = requireAdminApp();
+
+  let account: Record<string, unknown> | null = null;
+  try {
+    const record = await adminAuth.getUser(userId);
+    account = {
+      email: record.email ?? null,
+      email_verified: record.emailVerified,
+      display_name: record.displayName ?? null,
+      phone_number: record.phoneNumber ?? null,
+      providers: record.providerData.map(provider => ({
+        provider_id: provider.providerId,
+        email: provider.email ?? null
+      })),
+      disabled: record.disabled,
+      created_at: record.metadata.creationTime,
+      last_sign_in_at: record.metadata.lastSignInTime ?? null
+    };
+  } catch (error: any) {
+    if (error?.code !== 'auth/user-not-found') throw error;
+  }
+
+  const sessions = (await getSessionDocs(custodianId, userId)).map(doc => {
+    const session = serializeDocument(doc.data());
+    for (const field of SESSION_SECRET_FIELDS) {
+      delete session[field];
+    }
+    return session;
+  });
+
+  const magicLinks = (await getMagicLinkDocs(custodianId, user.email)).map(doc => serializeDocument(doc.data()));
+
+  const auditEvents: PublicAuditEvent[] = [];
+  for await (const event of iterateAuditEvents({ custodianId, userId })) {
+    auditEvents.push(toPublicAuditEvent(event));
+  }
+
+  const webhookDeliveries = await listUserDeliveries(custodianId, userId);
+
+  const requestId = await recordRequest('access', custodianId, userId, user.email, requestedBy);
+
+  return {
+    requestId,
+    bundle: {
+      format_version: DATA_EXPORT_FORMAT_VERSION,
+      generated_at: new Date().toISOString(),
+      user_id: userId,
+      custodian_id: custodianId,
+      profile: serializeDocument(user),
+      account,
+      sessions,
+      magic_links: magicLinks,
+      audit_events: auditEvents,
+      webhook_deliveries: webhookDeliveries
+    }
+  };
+}
+
+/**
+ * Erase a user's personal data, keeping a pseudonymous profile stub
+ * Each step can be repeated, so a failed erasure can simply be retried.
+ */
+export async function eraseUserData(
+  custodianId: string,
+  userId: string,
+  user: DocumentData,
+  requestedBy: string
+): Promise<ErasureResult> {
+  const { adminAuth, adminDb } = requireAdminApp();
+
+  // Deleting the sessions also revokes any bearer or refresh token still in use
+  const sessionDocs = await getSessionDocs(custodianId, userId);
+  const magicLinkDocs = await getMagicLinkDocs(custodianId, user.email);
+  const docsToDelete = [...sessionDocs, ...magicLinkDocs];
+  for (let i = 0; i < docsToDelete.length; i += 500) {
+    const batch = adminDb.batch();
+    docsToDelete.slice(i, i + 500).forEach(doc => batch.delete(doc.ref));
+    await batch.commit();
+  }
+
+  const webhookDeliveriesErased = await eraseUserFromDeliveries(custodianId, userId);
+
+  let authAccountDeleted = false;
+  try {
+    await adminAuth.deleteUser(userId);
+    authAccountDeleted = true;
+  } catch (error: any) {
+    if (error?.code !== 'auth/user-not-found') throw error;
+  }
+
+  const now = new Date().toISOString();
+
+  // Last, so a retry after a partial failure still finds the user
+  await adminDb.collection('users').doc(userId).set({
+    uid: userId,
+    role: user.role || 'rollover_user',
+    custodianId,
+    hostCustodianId: custodianId,
+    createdAt: user.createdAt || null,
+    status: 'erased',
+    erasedAt: now,
+    emailHash: user.email ? hashEmail(user.email) : null
+  });
+
+  const result: Omit<ErasureResult, 'requestId'> = {
+    authAccountDeleted,
+    sessionsDeleted: sessionDocs.length,
+    magicLinksDeleted: magicLinkDocs.length,
+    webhookDeliveriesErased
+  };
+
+  const requestId = await recordRequest('erasure', custodianId, userId, user.email, requestedBy, result);
+
+  return { requestId, ...result };
+}
@@ -0,0 +1,392 @@
+/**
+ * Rate Limit Counter Stores
+ *
+ * SecureRateLimiter keeps its counters in a RateLimitStore so every instance
+ * can share them. Both stores use a sliding window counter: the previous
+ * fixed window's count is weighted by how much of it still overlaps the
+ * sliding window, which avoids the burst a fixed window allows at its edges.
+ *
+ * Select the store with RATE_LIMIT_STORE:
+ *   memory    (default) - per process; limits multiply with instance count
+ *   firestore           - shared by all instances via the rate_limits collection,
+ *                         or rate_limit_shards for limiters created with
+ *                         { sharded: true } (keys hit by a whole partner's traffic)
+ */
+
+import { createHash, randomInt } from 'crypto';
+import { FieldValue } from 'firebase-admin/firestore';
+import { requireAdminApp } from './firebase-admin';
+import { createLogger } from './logger';
+
+const log = createLogger('RATE-LIMIT');
+
+export interface RateLimitStoreResult {
+  success: boolean;
+  count: number; // Weighted requests in the sliding window, including this one when allowed
+  remaining: number;
+  resetTime: number;
+}
+
+export interface RateLimitStore {
+  /**
+   * Count a request if it fits under the limit (rejected requests are not counted)
+   */
+  increment(key: string, windowMs: number, limit: number): Promise<RateLimitStoreResult>;
+
+  /**
+   * Current window state without counting a request; null when nothing is recorded
+   */
+  peek(key: string, windowMs: number, limit: number): Promise<RateLimitStoreResult | null>;
+
+  reset(key: string): Promise<void>;
+}
+
+interface WindowState {
+  windowStart: number; // Start of the current fixed window
+  count: number; // Requests in the current fixed window
+  previousCount: number; // Requests in the fixed window before it
+}
+
+const FIRESTORE_COLLECTION = 'rate_limits';
+const SHARDED_COLLECTION = 'rate_limit_shards';
+export const RATE_LIMIT_SHARDS = 8;
+
+/**
+ * Roll the stored state forward to the window containing `now`
+ */
+function currentWindow(state: WindowState | undefined, now: number, windowMs: number): WindowState {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+
+  if (!state || state.windowStart < windowStart - windowMs) {
+    return { windowStart, count: 0, previousCount: 0 };
+  }
+  if (state.windowStart < windowStart) {
+    return { windowStart, count: 0, previousCount: state.count };
+  }
+  return state;
+}
+
+function weightedCount(state: WindowState, now: number, windowMs: number): number {
+  const previousWeight = 1 - (now - state.windowStart) / windowMs;
+  return state.previousCount * previousWeight + state.count;
+}
+
+/**
+ * When the next request will fit under the limit
+ */
+function nextAllowedTime(state: WindowState, now: number, windowMs: number, limit: number): number {
+  const windowEnd = state.windowStart + windowMs;
+
+  // The previous window's share decays linearly; find when enough of it has gone
+  if (state.count < limit && state.previousCount > 0) {
+    const elapsedNeeded = windowMs * (1 - (limit - 1 - state.count) / state.previousCount);
+    return Math.min(windowEnd, Math.max(now, state.windowStart + Math.ceil(elapsedNeeded)));
+  }
+  return windowEnd;
+}
+
+/**
+ * Apply one request to the state
+ * Returns the state to store (null when the request was rejected) and the result
+ */
+function applyRequest(
+  stored: WindowState | undefined,
+  now: number,
+  windowMs: number,
+  limit: number
+): { next: WindowState | null; result: RateLimitStoreResult } {
+  const state = currentWindow(stored, now, windowMs);
+  const count = weightedCount(state, now, windowMs);
+
+  if (count + 1 > limit) {
+    return {
+      next: null,
+      result: {
+        success: false,
+        count: Math.ceil(count),
+        remaining: 0,
+        resetTime: nextAllowedTime(state, now, windowMs, limit)
+      }
+    };
+  }
+
+  const next = { ...state, count: state.count + 1 };
+  return {
+    next,
+    result: {
+      success: true,
+      count: Math.ceil(count + 1),
+      remaining: Math.max(0, Math.floor(limit - count - 1)),
+      resetTime: state.windowStart + windowMs
+    }
+  };
+}
+
+function describeState(state: WindowState, now: number, windowMs: number, limit: number): RateLimitStoreResult {
+  const count = weightedCount(state, now, windowMs);
+  return {
+    success: count + 1 <= limit,
+    count: Math.ceil(count),
+    remaining: Math.max(0, Math.floor(limit - count)),
+    resetTime: count + 1 <= limit
+      ? state.windowStart + windowMs
+      : nextAllowedTime(state, now, windowMs, limit)
+  };
+}
+
+/**
+ * Per-process store with a bounded number of keys
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows: Map<string, WindowState & { windowMs: number }> = new Map();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries: number = 10000) {
+    this.maxEntries = maxEntries;
+
+    // Clean up expired entries every 5 minutes; never keeps the process alive
+    setInterval(() => this.cleanup(), 300000).unref();
+  }
+
+  async increment(key: string, windowMs: number, limit: number): Promise<RateLimitStoreResult> {
+    // Enforce memory limits
+    if (!this.windows.has(key) && this.windows.size >= this.maxEntries) {
+      this.evictOldEntries();
+    }
+
+    const { next, result } = applyRequest(this.windows.get(key), Date.now(), windowMs, limit);
+    if (next) {
+      this.windows.set(key, { ...next, windowMs });
+    }
+    return result;
+  }
+
+  async peek(key: string, windowMs: number, limit: number): Promise<RateLimitStoreResult | null> {
+    const stored = this.windows.get(key);
+    if (!stored) return null;
+
+    const now = Date.now();
+    const state = currentWindow(stored, now, windowMs);
+    if (state.count === 0 && state.previousCount === 0) return null;
+
+    return describeState(state, now, windowMs, limit);
+  }
+
+  async reset(key: string): Promise<void> {
+    this.windows.delete(key);
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    const entries = Array.from(this.windows.entries());
+    for (const [key, entry] of entries) {
+      // Nothing left in the sliding window once two windows have passed
+      if (entry.windowStart + 2 * entry.windowMs <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+
+  private evictOldEntries(): void {
+    // Remove oldest 25% of entries when limit is reached
+    const sortedEntries = Array.from(this.windows.entries())
+      .sort((a, b) => a[1].windowStart - b[1].windowStart);
+
+    const toRemove = Math.floor(this.windows.size * 0.25);
+    for (let i = 0; i < toRemove; i++) {
+      this.windows.delete(sortedEntries[i][0]);
+    }
+  }
+}
+
+/**
+ * Store shared by all instances
+ * Each key is one document updated in a transaction, so concurrent requests
+ * from different instances cannot both take the last slot. A document
+ * sustains roughly one write per second before contention, so this suits the
+ * per-user and per-partner layers rather than very hot keys.
+ */
+export class FirestoreRateLimitStore implements RateLimitStore {
+  private readonly collection: string;
+
+  constructor(collection: string = FIRESTORE_COLLECTION) {
+    this.collection = collection;
+  }
+
+  // Keys contain IPs and email addresses; store a digest instead
+  private docRef(key: string) {
+    const { adminDb } = requireAdminApp();
+    const docId = createHash('sha256').update(key).digest('hex');
+    return adminDb.collection(this.collection).doc(docId);
+  }
+
+  async increment(key: string, windowMs: number, limit: number): Promise<RateLimitStoreResult> {
+    const { adminDb } = requireAdminApp();
+    const ref = this.docRef(key);
+
+    return adminDb.runTransaction(async transaction => {
+      const doc = await transaction.get(ref);
+      // Server time is not available inside a transaction; instances are NTP synced
+      const now = Date.now();
+      const { next, result } = applyRequest(doc.data() as WindowState | undefined, now, windowMs, limit);
+
+      if (next) {
+        transaction.set(ref, {
+          windowStart: next.windowStart,
+          count: next.count,
+          previousCount: next.previousCount,
+          // Stored as a Timestamp so a Firestore TTL policy can purge it
+          expiresAt: new Date(next.windowStart + 2 * windowMs)
+        });
+      }
+
+      return result;
+    });
+  }
+
+  async peek(key: string, windowMs: number, limit: number): Promise<RateLimitStoreResult | null> {
+    const doc = await this.docRef(key).get();
+    if (!doc.exists) return null;
+
+    const now = Date.now();
+    const state = currentWindow(doc.data() as WindowState, now, windowMs);
+    if (state.count === 0 && state.previousCount === 0) return null;
+
+    return describeState(state, now, windowMs, limit);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.docRef(key).delete();
+  }
+}
+
+/**
+ * Store shared by all instances for keys too hot for one document
+ * Each fixed window is split over RATE_LIMIT_SHARDS documents. A request adds
+ * one to a random shard with FieldValue.increment, which needs no transaction
+ * and so never aborts under contention, then reads every shard of the current
+ * and previous window. A request that took the count over the limit is taken
+ * back out. Requests racing for the last slot may all be rejected, but the
+ * limit is never exceeded.
+ */
+export class ShardedFirestoreRateLimitStore implements RateLimitStore {
+  private readonly collection: string;
+  private readonly shards: number;
+
+  constructor(collection: string = SHARDED_COLLECTION, shards: number = RATE_LIMIT_SHARDS) {
+    this.collection = collection;
+    this.shards = shards;
+  }
+
+  // Keys contain IPs and email addresses; store a digest instead
+  private digest(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  private shardRef(digest: string, windowStart: number, shard: number) {
+    const { adminDb } = requireAdminApp();
+    return adminDb.collection(this.collection).doc(`${digest}_${windowStart}_${shard}`);
+  }
+
+  private async readState(digest: string, now: number, windowMs: number): Promise<WindowState> {
+    const { adminDb } = requireAdminApp();
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const shardIds = Array.from({ length: this.shards }, (_, shard) => shard);
+    const refs = [
+      ...shardIds.map(shard => this.shardRef(digest, windowStart, shard)),
+      ...shardIds.map(shard => this.shardRef(digest, windowStart - windowMs, shard))
+    ];
+
+    const docs = await adminDb.getAll(...refs);
+    const sum = (from: number) => docs
+      .slice(from, from + this.shards)
+      .reduce((total, doc) => total + (doc.get('count') || 0), 0);
+
+    return { windowStart, count: sum(0), previousCount: sum(this.shards) };
+  }
+
+  private async add(digest: string, windowStart: number, windowMs: number, amount: number): Promise<void> {
+    await this.shardRef(digest, windowStart, randomInt(this.shards)).set({
+      key: digest,
+      count: FieldValue.increment(amount),
+      // Stored as a Timestamp so a Firestore TTL policy can purge it
+      expiresAt: new Date(windowStart + 2 * windowMs)
+    }, { merge: true });
+  }
+
+  async increment(key: string, windowMs: number, limit: number): Promise<RateLimitStoreResult> {
+    const digest = this.digest(key);
+    // Server time is not available to the client SDK; instances are NTP synced
+    const now = Date.now();
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+
+    await this.add(digest, windowStart, windowMs, 1);
+    const state = await this.readState(digest, now, windowMs);
+    const count = weightedCount(state, now, windowMs);
+
+    if (count > limit) {
+      await this.add(digest, windowStart, windowMs, -1);
+      const without = { ...state, count: Math.max(0, state.count - 1) };
+      return {
+        success: false,
+        count: Math.ceil(weightedCount(without, now, windowMs)),
+        remaining: 0,
+        resetTime: nextAllowedTime(without, now, windowMs, limit)
+      };
+    }
+
+    return {
+      success: true,
+      count: Math.ceil(count),
+      remaining: Math.max(0, Math.floor(limit - count)),
+      resetTime: windowStart + windowMs
+    };
+  }
+
+  async peek(key: string, windowMs: number, limit: number): Promise<RateLimitStoreResult | null> {
+    const now = Date.now();
+    const state = await this.readState(this.digest(key), now, windowMs);
+    if (state.count === 0 && state.previousCount === 0) return null;
+
+    return describeState(state, now, windowMs, limit);
+  }
+
+  async reset(key: string): Promise<void> {
+    const { adminDb } = requireAdminApp();
+    const snapshot = await adminDb.collection(this.collection).where('key', '==', this.digest(key)).get();
+    await Promise.all(snapshot.docs.map(doc => doc.ref.delete()));
+  }
+}
+
+let sharedStore: RateLimitStore | null = null;
+let sharedShardedStore: RateLimitStore | null = null;
+
+/**
+ * Store selected by RATE_LIMIT_STORE
+ * Memory stores are created per limiter (bounded by maxEntries); the
+ * Firestore stores are shared. `sharded` selects the sharded Firestore store.
+ */
+export function createRateLimitStore(
+  maxEntries?: number,
+  { sharded = false }: { sharded?: boolean } = {}
+): RateLimitStore {
+  const type = process.env.RATE_LIMIT_STORE || 'memory';
+
+  if (type === 'firestore') {
+    if (sharded) {
+      if (!sharedShardedStore) {
+        sharedShardedStore = new ShardedFirestoreRateLimitStore();
+      }
+      return sharedShardedStore;
+    }
+    if (!sharedStore) {
+      sharedStore = new FirestoreRateLimitStore();
+    }
+    return sharedStore;
+  }
+
+  if (type !== 'memory') {
+    log.warn('Unknown RATE_LIMIT_STORE, using memory', { store: type });
+  }
+  return new MemoryRateLimitStore(maxEntries);
+}
@@ -22,7 +22,15 @@ class RateLimiter {
     setInterval(() => this.cleanup(), 60000);
   }
 
-  async check(identifier: string): Promise<{ success: boolean; remaining: number; resetTime: number }> {
+  /**
+   * Count a request against the identifier's window
+   * maxRequests overrides the limiter default for callers whose limit varies
+   * per identifier (e.g. partner tier limits)
+   */
+  async check(
+    identifier: string,
+    maxRequests: number = this.maxRequests
+  ): Promise<{ success: boolean; remaining: number; resetTime: number }> {
     const now = Date.now();
     const entry = this.limits.get(identifier);
 
@@ -36,12 +44,12 @@ class RateLimiter {
 
       return {
         success: true,
-        remaining: this.maxRequests - 1,
+        remaining: maxRequests - 1,
         resetTime
       };
     }
 
-    if (entry.count >= this.maxRequests) {
+    if (entry.count >= maxRequests) {
       // Rate limit exceeded
       return {
         success: false,
@@ -54,7 +62,7 @@ class RateLimiter {
     entry.count++;
     return {
       success: true,
-      remaining: this.maxRequests - entry.count,
+      remaining: maxRequests - entry.count,
       resetTime: entry.resetTime
     };
   }
@@ -75,7 +83,8 @@ class RateLimiter {
 }
 
 // Export singleton instance for API endpoints
-export const apiRateLimiter = new RateLimiter(60000, 100); // 100 requests per minute
+export const API_RATE_LIMIT_PER_MINUTE = 100;
+export const apiRateLimiter = new RateLimiter(60000, API_RATE_LIMIT_PER_MINUTE);
 
 // Export class for custom configurations
 export default RateLimiter;
\ No newline at end of file
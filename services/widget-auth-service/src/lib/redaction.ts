@@ -0,0 +1,171 @@
+/**
+ * PII Redaction Policy
+ *
+ * Applied to every audit event and every structured log line:
+ *   - emails       -> keyed hash (`email:<hash>`), stable so events still correlate
+ *   - IP addresses -> network only (IPv4 /24, IPv6 /48)
+ *   - SSNs, phone numbers -> dropped
+ *   - API keys     -> key prefix plus four characters
+ *   - passwords, secrets, key hashes, bearer/refresh/magic-link tokens, JWTs -> dropped
+ *
+ * Fields are recognised by name (`email`, `ipAddress`, `password`, ...) and
+ * free text is scanned for the same patterns, so values embedded in messages
+ * and error strings are covered too.
+ *
+ * PII_HASH_KEY keys the email hash. Production refuses to hash without it
+ * (and /readyz fails); elsewhere a development key is used.
+ */
+
+import { createHmac } from 'crypto';
+
+export const REDACTED = '[REDACTED]';
+
+const MAX_DEPTH = 8;
+const DEV_HASH_KEY = 'development-pii-hash-key';
+
+// Field names whose values are always dropped
+const SECRET_FIELD_PATTERN = /(password|passwd|secret|authorization|cookie|signature|private_?key|credential|nonce|hashed_?key|key_?hash)|(^|_)token$|[a-z]Token$|^(api_?key|x-trustrails-api-key)$/i;
+const EMAIL_FIELD_PATTERN = /e-?mail/i;
+const IP_FIELD_PATTERN = /^(ip|ip_?address|client_?ip|remote_?addr(ess)?|x-forwarded-for|x-real-ip)$|IpAddress$|_ip$/i;
+const API_KEY_FIELD_PATTERN = /key_?prefix$|^prefix$/i;
+const SSN_FIELD_PATTERN = /^ssn$|social_?security|tax_?id/i;
+const PHONE_FIELD_PATTERN = /phone|mobile/i;
+
+// Patterns found inside free text
+const EMAIL_TEXT = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const API_KEY_TEXT = /\btr_(live|test)_(pk|sk)_([A-Za-z0-9_-]{4})[A-Za-z0-9_-]*/g;
+const SESSION_TOKEN_TEXT = /\btr_(bearer|refresh|ml)_[A-Za-z0-9._~+/=-]+/g;
+const JWT_TEXT = /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g;
+const BEARER_TEXT = /\b(Bearer)\s+[A-Za-z0-9._~+/=-]+/gi;
+const IPV4_TEXT = /\b(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.\d{1,3}\b/g;
+// Full form, or compressed with '::'; times and MAC addresses have neither
+const IPV6_TEXT = /(?<![\w:.])(?:(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}|(?:[0-9a-f]{1,4}(?::[0-9a-f]{1,4}){0,6})?::(?:[0-9a-f]{1,4}(?::[0-9a-f]{1,4}){0,6})?)(?!\w|:[0-9a-f]|\.\d)/gi;
+const SSN_TEXT = /\b\d{3}-\d{2}-\d{4}\b/g;
+// North American numbers with separators, optionally with +1
+const PHONE_TEXT = /(?:\+1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g;
+
+/**
+ * Whether PII_HASH_KEY is set, or a development key may stand in for it
+ */
+export function isHashKeyConfigured(): boolean {
+  return Boolean(process.env.PII_HASH_KEY) || process.env.NODE_ENV !== 'production';
+}
+
+function getHashKey(): string {
+  if (process.env.PII_HASH_KEY) return process.env.PII_HASH_KEY;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('PII_HASH_KEY is not configured');
+  }
+  return DEV_HASH_KEY;
+}
+
+/**
+ * Keyed hash of an email address (case-insensitive)
+ */
+export function hashEmail(email: string): string {
+  const digest = createHmac('sha256', getHashKey())
+    .update(email.trim().toLowerCase())
+    .digest('hex');
+  return `email:${digest.substring(0, 16)}`;
+}
+
+function truncateSingleIp(ip: string): string {
+  const value = ip.trim();
+  // IPv4-mapped IPv6 (::ffff:203.0.113.7)
+  const v4 = value.replace(/^::ffff:/i, '');
+
+  const v4Match = v4.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.\d{1,3}$/);
+  if (v4Match) {
+    return `${v4Match[1]}.${v4Match[2]}.${v4Match[3]}.0/24`;
+  }
+
+  if (value.includes(':')) {
+    const [head] = value.split('::');
+    const groups = head.split(':').filter(Boolean).slice(0, 3);
+    while (groups.length < 3) groups.push('0');
+    return `${groups.join(':')}::/48`;
+  }
+
+  // Not an address (e.g. 'unknown' or a fingerprint)
+  return value;
+}
+
+/**
+ * Network part of an IP address, or of each entry in a forwarded-for list
+ */
+export function truncateIp(ip: string): string {
+  return ip.split(',').map(truncateSingleIp).join(', ');
+}
+
+/**
+ * Key prefix and four characters of an API key
+ */
+export function maskApiKey(key: string): string {
+  const match = key.match(/^(tr_(?:live|test)_(?:pk|sk)_)(.{0,4})/);
+  return match ? `${match[1]}${match[2]}****` : REDACTED;
+}
+
+/**
+ * Scrub PII and credentials from free text
+ */
+export function redactText(text: string): string {
+  return text
+    .replace(SESSION_TOKEN_TEXT, REDACTED)
+    .replace(JWT_TEXT, REDACTED)
+    .replace(BEARER_TEXT, `$1 ${REDACTED}`)
+    .replace(API_KEY_TEXT, (_match, env, type, visible) => `tr_${env}_${type}_${visible}****`)
+    .replace(EMAIL_TEXT, email => hashEmail(email))
+    .replace(SSN_TEXT, REDACTED)
+    .replace(PHONE_TEXT, REDACTED)
+    .replace(IPV6_TEXT, ip => /[0-9a-f]/i.test(ip) ? truncateSingleIp(ip) : ip)
+    .replace(IPV4_TEXT, (_match, a, b, c) => `${a}.${b}.${c}.0/24`);
+}
+
+function redactField(key: string, value: unknown, depth: number): unknown {
+  if (value === null || value === undefined) return value;
+
+  if (SECRET_FIELD_PATTERN.test(key) || SSN_FIELD_PATTERN.test(key) || PHONE_FIELD_PATTERN.test(key)) {
+    return REDACTED;
+  }
+  if (typeof value === 'string') {
+    if (EMAIL_FIELD_PATTERN.test(key)) return value.includes('@') ? hashEmail(value) : redactText(value);
+    if (IP_FIELD_PATTERN.test(key)) return truncateIp(value);
+    if (API_KEY_FIELD_PATTERN.test(key) && value.startsWith('tr_')) return maskApiKey(value);
+  }
+  return redactValue(value, depth);
+}
+
+function redactValue(value: unknown, depth: number): unknown {
+  if (typeof value === 'string') return redactText(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+
+  if (value instanceof Date) return value;
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactText(value.message),
+      ...(value.stack ? { stack: redactText(value.stack) } : {}),
+      ...((value as any).code !== undefined ? { code: (value as any).code } : {})
+    };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    result[key] = redactField(key, item, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Apply the redaction policy to any value
+ * Plain objects and arrays are copied; the input is never modified.
+ */
+export function redact<T>(value: T): T {
+  return redactValue(value, 0) as T;
+}
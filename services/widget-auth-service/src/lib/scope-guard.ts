@@ -0,0 +1,50 @@
+/**
+ * Bearer Token Scope Enforcement
+ *
+ * Bearer tokens carry the scopes of the API key that created the session
+ * (see resolveTokenPermissions). Routes check the scope they need with
+ * hasScope() and answer 403 with logScopeViolation() otherwise.
+ */
+
+import type { NextRequest } from 'next/server';
+import type { BearerTokenPayload, WidgetPermission } from './widget-auth-server';
+import { AuditLogger, AuditSeverity } from './audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+
+export function hasScope(
+  tokenPayload: Pick<BearerTokenPayload, 'permissions'>,
+  scope: WidgetPermission
+): boolean {
+  return Array.isArray(tokenPayload.permissions) && tokenPayload.permissions.includes(scope);
+}
+
+/**
+ * Audit-log a scope violation and build the 403 response body
+ */
+export async function logScopeViolation(
+  request: NextRequest,
+  tokenPayload: BearerTokenPayload,
+  scope: WidgetPermission
+): Promise<{ error: string; code: string; required_scope: WidgetPermission }> {
+  await AuditLogger.logSecurityEvent(
+    'widget_scope_violation',
+    AuditSeverity.WARNING,
+    `Bearer token missing required scope: ${scope}`,
+    tokenPayload.userId,
+    request,
+    {
+      eventType: SOC2_AUDIT_EVENTS.WIDGET_SCOPE_VIOLATION,
+      custodianId: tokenPayload.custodianId,
+      sessionId: tokenPayload.sessionId,
+      requiredScope: scope,
+      grantedScopes: tokenPayload.permissions || [],
+      path: request.nextUrl.pathname
+    }
+  );
+
+  return {
+    error: 'This API key is not permitted to perform this action',
+    code: 'INSUFFICIENT_SCOPE',
+    required_scope: scope
+  };
+}
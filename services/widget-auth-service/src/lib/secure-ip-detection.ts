@@ -4,6 +4,9 @@
  */
 
 import { NextRequest } from 'next/server';
+import { createLogger } from './logger';
+
+const log = createLogger('IP-DETECTION');
 
 /**
  * Configuration for trusted proxy headers
@@ -35,7 +38,7 @@ export function getSecureClientIP(
   const connectionIP = request.ip || '127.0.0.1';
   if (config.trustedProxies && !config.trustedProxies.includes(connectionIP)) {
     // Not from trusted proxy, don't trust forwarded headers
-    console.warn(`Untrusted proxy attempt from ${connectionIP}`);
+    log.warn('Untrusted proxy attempt', { ip: connectionIP });
     return connectionIP;
   }
 
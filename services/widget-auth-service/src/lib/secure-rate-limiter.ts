@@ -1,12 +1,23 @@
 /**
  * Secure Rate Limiter with Memory Management
  * Simplified version for widget auth service
+ *
+ * Counters live in a RateLimitStore (see rate-limit-store.ts): bounded
+ * process memory by default, or Firestore so all instances share them.
+ * When a shared store gives up on contention the request is counted in
+ * process memory instead; any other store failure lets the request through.
  */
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-  firstRequest: number;
+import { createRateLimitStore, MemoryRateLimitStore, type RateLimitStore } from './rate-limit-store';
+import { createLogger } from './logger';
+
+const log = createLogger('RATE-LIMIT');
+
+// Firestore gives up on a contended transaction with ABORTED (gRPC code 10)
+const ABORTED = 10;
+
+function isContentionAbort(error: unknown): boolean {
+  return (error as { code?: unknown })?.code === ABORTED;
 }
 
 interface RateLimitResult {
@@ -16,108 +27,80 @@ interface RateLimitResult {
 }
 
 class SecureRateLimiter {
-  private limits: Map<string, RateLimitEntry> = new Map();
+  private readonly store: RateLimitStore;
   private readonly windowMs: number;
   private readonly maxRequests: number;
   private readonly maxEntries: number;
-
-  constructor(windowMs: number, maxRequests: number, maxEntries: number = 10000) {
+  private fallbackStore: MemoryRateLimitStore | null = null;
+
+  constructor(
+    windowMs: number,
+    maxRequests: number,
+    maxEntries: number = 10000,
+    store: RateLimitStore = createRateLimitStore(maxEntries)
+  ) {
     this.windowMs = windowMs;
     this.maxRequests = maxRequests;
     this.maxEntries = maxEntries;
-
-    // Clean up expired entries every 5 minutes
-    setInterval(() => this.cleanup(), 300000);
+    this.store = store;
   }
 
-  async check(identifier: string): Promise<RateLimitResult> {
-    // Enforce memory limits
-    if (this.limits.size >= this.maxEntries) {
-      this.evictOldEntries();
-    }
-
-    const now = Date.now();
-    const entry = this.limits.get(identifier);
-
-    if (!entry || entry.resetTime <= now) {
-      // Create new window
-      const resetTime = now + this.windowMs;
-      this.limits.set(identifier, {
-        count: 1,
-        resetTime,
-        firstRequest: now
-      });
+  // Limiters may share a store; keep windows of different lengths apart
+  private storeKey(identifier: string): string {
+    return `${this.windowMs}:${identifier}`;
+  }
 
+  /**
+   * Count a request against the identifier's window
+   * maxRequests overrides the limiter default for callers whose limit varies
+   * per identifier (e.g. partner tier limits)
+   */
+  async check(identifier: string, maxRequests: number = this.maxRequests): Promise<RateLimitResult> {
+    const key = this.storeKey(identifier);
+    try {
+      const result = await this.store.increment(key, this.windowMs, maxRequests);
       return {
-        success: true,
-        remaining: this.maxRequests - 1,
-        resetTime
+        success: result.success,
+        remaining: result.remaining,
+        resetTime: result.resetTime
       };
-    }
+    } catch (error) {
+      // Contention means the key is busy, not that the store is down: keep limiting
+      if (isContentionAbort(error)) {
+        log.warn('Store contention, limiting in memory');
+        this.fallbackStore ??= new MemoryRateLimitStore(this.maxEntries);
+        const result = await this.fallbackStore.increment(key, this.windowMs, maxRequests);
+        return {
+          success: result.success,
+          remaining: result.remaining,
+          resetTime: result.resetTime
+        };
+      }
 
-    if (entry.count >= this.maxRequests) {
-      // Rate limit exceeded
+      // A store outage must not take the widget down; fail open and keep a trail
+      log.error('Store error, allowing request', error);
       return {
-        success: false,
-        remaining: 0,
-        resetTime: entry.resetTime
+        success: true,
+        remaining: maxRequests,
+        resetTime: Date.now() + this.windowMs
       };
     }
-
-    // Increment counter
-    entry.count++;
-    return {
-      success: true,
-      remaining: this.maxRequests - entry.count,
-      resetTime: entry.resetTime
-    };
   }
 
-  async peek(identifier: string): Promise<RateLimitResult | null> {
-    const entry = this.limits.get(identifier);
-    if (!entry) return null;
-
-    const now = Date.now();
-    if (entry.resetTime <= now) return null;
+  async peek(identifier: string, maxRequests: number = this.maxRequests): Promise<RateLimitResult | null> {
+    const result = await this.store.peek(this.storeKey(identifier), this.windowMs, maxRequests);
+    if (!result) return null;
 
     return {
-      success: entry.count < this.maxRequests,
-      remaining: Math.max(0, this.maxRequests - entry.count),
-      resetTime: entry.resetTime
+      success: result.success,
+      remaining: result.remaining,
+      resetTime: result.resetTime
     };
   }
 
-  reset(identifier: string): void {
-    this.limits.delete(identifier);
-  }
-
-  getStats(): { totalEntries: number; memoryUsage: number } {
-    return {
-      totalEntries: this.limits.size,
-      memoryUsage: this.limits.size / this.maxEntries
-    };
-  }
-
-  private cleanup(): void {
-    const now = Date.now();
-    const entries = Array.from(this.limits.entries());
-    for (const [key, entry] of entries) {
-      if (entry.resetTime <= now) {
-        this.limits.delete(key);
-      }
-    }
-  }
-
-  private evictOldEntries(): void {
-    // Remove oldest 25% of entries when limit is reached
-    const sortedEntries = Array.from(this.limits.entries())
-      .sort((a, b) => a[1].firstRequest - b[1].firstRequest);
-
-    const toRemove = Math.floor(this.limits.size * 0.25);
-    for (let i = 0; i < toRemove; i++) {
-      this.limits.delete(sortedEntries[i][0]);
-    }
+  async reset(identifier: string): Promise<void> {
+    await this.store.reset(this.storeKey(identifier));
   }
 }
 
-export default SecureRateLimiter;
\ No newline at end of file
+export default SecureRateLimiter;
@@ -0,0 +1,225 @@
+/**
+ * Session Device Binding and Concurrent Session Limits
+ *
+ * Partners configure both on the custodian document
+ * (`integrationConfig.sessionPolicy`):
+ *
+ *   bindOrigin          requests must come from the origin the session was created on
+ *   bindUserAgent       browser and OS family must match (version updates are fine)
+ *   bindIpAddress       a new client IP (same /64 for IPv6) requires signing in again
+ *   maxSessionsPerUser  active sessions per signed-in user (default 5); the oldest are evicted
+ *
+ * Binding is off unless enabled. A failed check revokes the session, so a
+ * copied bearer or refresh token stops working, and the widget authenticates
+ * again. Partner API sessions are created server-side and bind to the first
+ * browser that uses them.
+ */
+
+import type { NextRequest } from 'next/server';
+import type { WidgetSession } from './widget-auth-server';
+import { requireAdminApp } from './firebase-admin';
+import { getClientIP } from './secure-ip-detection';
+import { normalizeOrigin } from './origin-allowlist';
+import { AuditLogger, AuditSeverity } from './audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+
+export const DEFAULT_MAX_SESSIONS_PER_USER = 5;
+export const MAX_SESSIONS_PER_USER_LIMIT = 50;
+
+export interface SessionPolicy {
+  bindOrigin: boolean;
+  bindUserAgent: boolean;
+  bindIpAddress: boolean;
+  maxSessionsPerUser: number;
+}
+
+export type SessionBindingFailure = 'origin_mismatch' | 'user_agent_mismatch' | 'ip_changed';
+
+export interface RequestDevice {
+  origin: string | null;
+  userAgent: string;
+  ipAddress: string;
+}
+
+// Checked in order: most browsers also claim to be Chrome and Safari
+const BROWSER_FAMILIES: Array<[string, RegExp]> = [
+  ['edge', /\bEdg(e|A|iOS)?\//],
+  ['opera', /\b(OPR|Opera)\//],
+  ['samsung', /\bSamsungBrowser\//],
+  ['firefox', /\b(Firefox|FxiOS)\//],
+  ['chrome', /\b(Chrome|CriOS|Chromium)\//],
+  ['safari', /\bSafari\//]
+];
+
+const OS_FAMILIES: Array<[string, RegExp]> = [
+  ['ios', /\b(iPhone|iPad|iPod)\b/],
+  ['android', /\bAndroid\b/],
+  ['chromeos', /\bCrOS\b/],
+  ['windows', /\bWindows\b/],
+  ['macos', /\bMac OS X\b|\bMacintosh\b/],
+  ['linux', /\bLinux\b/]
+];
+
+/**
+ * Read the session policy from a custodian document
+ */
+export function getSessionPolicy(custodianData: any): SessionPolicy {
+  const policy = custodianData?.integrationConfig?.sessionPolicy || {};
+  const maxSessions = Number(policy.maxSessionsPerUser);
+
+  return {
+    bindOrigin: policy.bindOrigin === true,
+    bindUserAgent: policy.bindUserAgent === true,
+    bindIpAddress: policy.bindIpAddress === true,
+    maxSessionsPerUser: Number.isInteger(maxSessions) && maxSessions >= 1
+      ? Math.min(maxSessions, MAX_SESSIONS_PER_USER_LIMIT)
+      : DEFAULT_MAX_SESSIONS_PER_USER
+  };
+}
+
+export function getRequestDevice(request: NextRequest): RequestDevice {
+  return {
+    origin: normalizeOrigin(request.headers.get('origin')),
+    userAgent: request.headers.get('user-agent') || 'unknown',
+    ipAddress: getClientIP(request)
+  };
+}
+
+/**
+ * Browser and OS family of a User-Agent, e.g. "chrome/windows"
+ */
+export function getUserAgentFamily(userAgent: string): string {
+  const browser = BROWSER_FAMILIES.find(([, pattern]) => pattern.test(userAgent))?.[0] || 'other';
+  const os = OS_FAMILIES.find(([, pattern]) => pattern.test(userAgent))?.[0] || 'other';
+  return `${browser}/${os}`;
+}
+
+/**
+ * The part of an IP address that identifies the client's network
+ * IPv6 clients rotate addresses within their /64, so only the prefix counts.
+ */
+export function getNetworkPrefix(ipAddress: string): string {
+  const ip = ipAddress.trim().toLowerCase().replace(/^::ffff:(?=\d+\.)/, '');
+  if (!ip.includes(':')) return ip;
+
+  const [head, tail = ''] = ip.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = ip.includes('::')
+    ? [...headGroups, ...Array(Math.max(0, 8 - headGroups.length - tailGroups.length)).fill('0'), ...tailGroups]
+    : headGroups;
+
+  return `${groups.slice(0, 4).map(group => group.replace(/^0+(?=.)/, '')).join(':')}::/64`;
+}
+
+/**
+ * Compare a request against the device a session is bound to
+ * Returns the first failed check, or null when the request may use the session.
+ */
+export function checkSessionBinding(
+  session: Pick<WidgetSession, 'origin' | 'userAgent' | 'ipAddress' | 'deviceBoundAt'>,
+  device: RequestDevice,
+  policy: SessionPolicy
+): SessionBindingFailure | null {
+  if (policy.bindOrigin && normalizeOrigin(session.origin) !== device.origin) {
+    return 'origin_mismatch';
+  }
+
+  // Not bound yet (partner API session): the first browser to use it sets the device
+  if (!session.deviceBoundAt) {
+    return null;
+  }
+
+  if (policy.bindUserAgent && getUserAgentFamily(session.userAgent) !== getUserAgentFamily(device.userAgent)) {
+    return 'user_agent_mismatch';
+  }
+
+  if (policy.bindIpAddress && getNetworkPrefix(session.ipAddress) !== getNetworkPrefix(device.ipAddress)) {
+    return 'ip_changed';
+  }
+
+  return null;
+}
+
+/**
+ * Audit-log a binding failure and build the 401 response body
+ * The caller revokes the session.
+ */
+export async function logSessionBindingRejection(
+  request: NextRequest,
+  session: Pick<WidgetSession, 'sessionId' | 'custodianId' | 'userId'>,
+  failure: SessionBindingFailure
+): Promise<{ error: string; code: string; reason: SessionBindingFailure }> {
+  await AuditLogger.logSecurityEvent(
+    'widget_session_binding_failed',
+    // A new IP is usually a network change; another origin or browser is a copied token
+    failure === 'ip_changed' ? AuditSeverity.INFO : AuditSeverity.WARNING,
+    `Widget session used from a different device: ${failure}`,
+    session.userId,
+    request,
+    {
+      eventType: SOC2_AUDIT_EVENTS.WIDGET_SESSION_BINDING_FAILED,
+      custodianId: session.custodianId,
+      sessionId: session.sessionId,
+      reason: failure,
+      path: request.nextUrl.pathname
+    }
+  );
+
+  return {
+    error: 'Session is no longer valid on this device. Please sign in again.',
+    code: 'REAUTH_REQUIRED',
+    reason: failure
+  };
+}
+
+/**
+ * Keep at most maxSessions active sessions for a user, evicting the oldest
+ * The session being signed in to is always kept. Returns the evicted session IDs.
+ */
+export async function enforceSessionLimit(
+  userId: string,
+  currentSessionId: string,
+  maxSessions: number,
+  request?: NextRequest
+): Promise<string[]> {
+  const { adminDb } = requireAdminApp();
+
+  const snapshot = await adminDb
+    .collection('widget_sessions')
+    .where('userId', '==', userId)
+    .get();
+
+  const now = new Date().toISOString();
+  const others = snapshot.docs
+    .filter(doc => doc.id !== currentSessionId && doc.data().expiresAt > now)
+    .sort((a, b) => String(b.data().createdAt).localeCompare(String(a.data().createdAt)));
+
+  const evicted = others.slice(Math.max(0, maxSessions - 1));
+  if (evicted.length === 0) {
+    return [];
+  }
+
+  const batch = adminDb.batch();
+  evicted.forEach(doc => batch.delete(doc.ref));
+  await batch.commit();
+
+  await Promise.all(evicted.map(doc =>
+    AuditLogger.logAdminAction(
+      'widget_session_revoked',
+      userId,
+      { type: 'widget_session', id: doc.id, name: 'Widget Session' },
+      request,
+      {
+        eventType: SOC2_AUDIT_EVENTS.WIDGET_SESSION_REVOKED,
+        custodianId: doc.data().custodianId,
+        sessionId: doc.id,
+        userId,
+        reason: 'session_limit',
+        maxSessions
+      }
+    )
+  ));
+
+  return evicted.map(doc => doc.id);
+}
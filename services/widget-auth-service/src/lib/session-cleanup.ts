@@ -0,0 +1,162 @@
+/**
+ * Expired Widget Session Cleanup
+ *
+ * Sessions are only deleted lazily when an expired one is presented again, so
+ * abandoned sessions would stay in `widget_sessions` forever. The cleanup job
+ * (POST /api/cron/session-cleanup) deletes them in batches and keeps a
+ * PII-free summary of each in `widget_session_archive` for analytics: no user
+ * ID, IP address or raw user agent, only what describes how sessions are used.
+ *
+ * Each batch archives and deletes together (two writes per session, under the
+ * 500-write batch limit), so a run that stops early never loses a summary.
+ */
+
+import type { QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { requireAdminApp } from './firebase-admin';
+import { getUserAgentFamily } from './session-binding';
+import { createLogger } from './logger';
+
+const log = createLogger('SESSION-CLEANUP');
+
+const SESSIONS_COLLECTION = 'widget_sessions';
+export const SESSION_ARCHIVE_COLLECTION = 'widget_session_archive';
+
+const CLEANUP_BATCH_SIZE = 200;
+export const DEFAULT_MAX_SESSIONS_PER_RUN = 5000;
+const DEFAULT_TIME_BUDGET_MS = 45 * 1000; // Inside Cloud Scheduler's default attempt deadline
+const DEFAULT_ARCHIVE_RETENTION_DAYS = 400;
+
+export interface SessionCleanupOptions {
+  maxSessions?: number;
+  timeBudgetMs?: number;
+}
+
+export interface CustodianExpiryCounts {
+  expired: number;
+  authenticated: number; // Sessions a user had signed in to
+}
+
+export interface SessionCleanupResult {
+  deleted: number;
+  batches: number;
+  complete: boolean; // False when the run stopped at maxSessions or the time budget
+  oldestExpiredAt: string | null;
+  byCustodian: Record<string, CustodianExpiryCounts>;
+  durationMs: number;
+}
+
+function getArchiveRetentionDays(): number {
+  const configured = parseInt(process.env.SESSION_ARCHIVE_RETENTION_DAYS || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_ARCHIVE_RETENTION_DAYS;
+}
+
+function secondsBetween(from: unknown, to: unknown): number | null {
+  const start = new Date(String(from)).getTime();
+  const end = new Date(String(to)).getTime();
+  return Number.isFinite(start) && Number.isFinite(end) && end >= start
+    ? Math.round((end - start) / 1000)
+    : null;
+}
+
+/**
+ * Analytics summary of an expired session
+ */
+function toArchiveRecord(doc: QueryDocumentSnapshot, archivedAt: Date, purgeAt: Date) {
+  const session = doc.data();
+  const lastActivityAt = session.lastActivityAt || session.createdAt;
+
+  return {
+    sessionId: doc.id,
+    custodianId: session.custodianId || null,
+    environment: session.environment || null,
+    apiKeyId: session.apiKeyId || null,
+    origin: session.origin || null,
+    device: getUserAgentFamily(session.userAgent || ''),
+    authenticated: Boolean(session.userId),
+    authMethod: session.authMethod || null,
+    emailVerified: session.emailVerified === true,
+    refreshCount: session.refreshCount || 0,
+    createdAt: session.createdAt || null,
+    lastActivityAt: lastActivityAt || null,
+    expiresAt: session.expiresAt || null,
+    activeSeconds: secondsBetween(session.createdAt, lastActivityAt),
+    archivedAt: archivedAt.toISOString(),
+    purgeAt // Configure a Firestore TTL policy on this field
+  };
+}
+
+/**
+ * Archive and delete expired sessions, oldest first
+ */
+export async function cleanupExpiredSessions(options: SessionCleanupOptions = {}): Promise<SessionCleanupResult> {
+  const { adminDb } = requireAdminApp();
+  const startedAt = Date.now();
+  const maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS_PER_RUN;
+  const timeBudgetMs = options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS;
+  const now = new Date();
+  const purgeAt = new Date(now.getTime() + getArchiveRetentionDays() * 24 * 60 * 60 * 1000);
+
+  const result: SessionCleanupResult = {
+    deleted: 0,
+    batches: 0,
+    complete: false,
+    oldestExpiredAt: null,
+    byCustodian: {},
+    durationMs: 0
+  };
+
+  while (true) {
+    if (result.deleted >= maxSessions || Date.now() - startedAt >= timeBudgetMs) {
+      break;
+    }
+
+    // Deleted documents drop out of the query, so every batch starts from the oldest again
+    const snapshot = await adminDb.collection(SESSIONS_COLLECTION)
+      .where('expiresAt', '<', now.toISOString())
+      .orderBy('expiresAt')
+      .limit(Math.min(CLEANUP_BATCH_SIZE, maxSessions - result.deleted))
+      .get();
+
+    if (snapshot.empty) {
+      result.complete = true;
+      break;
+    }
+
+    const batch = adminDb.batch();
+    for (const doc of snapshot.docs) {
+      const session = doc.data();
+      batch.set(
+        adminDb.collection(SESSION_ARCHIVE_COLLECTION).doc(doc.id),
+        toArchiveRecord(doc, now, purgeAt)
+      );
+      batch.delete(doc.ref);
+
+      const custodianId = session.custodianId || 'unknown';
+      const counts = result.byCustodian[custodianId] ??= { expired: 0, authenticated: 0 };
+      counts.expired++;
+      if (session.userId) counts.authenticated++;
+    }
+    await batch.commit();
+
+    result.oldestExpiredAt ??= snapshot.docs[0].data().expiresAt || null;
+    result.deleted += snapshot.size;
+    result.batches++;
+
+    if (snapshot.size < CLEANUP_BATCH_SIZE && result.deleted < maxSessions) {
+      result.complete = true;
+      break;
+    }
+  }
+
+  result.durationMs = Date.now() - startedAt;
+
+  if (!result.complete) {
+    log.warn('Stopped before all expired sessions were removed', {
+      deleted: result.deleted,
+      maxSessions,
+      durationMs: result.durationMs
+    });
+  }
+
+  return result;
+}
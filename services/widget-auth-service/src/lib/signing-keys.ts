@@ -0,0 +1,332 @@
+/**
+ * Token Signing Keys
+ *
+ * Bearer tokens and magic links are signed with the active key of a
+ * `kid`-tagged key set, so signing keys can be rotated without logging
+ * everyone out:
+ *
+ *   WIDGET_JWT_KEYS       JSON array of keys:
+ *                         { "kid", "alg": "HS256", "secret" }
+ *                         { "kid", "alg": "RS256" | "ES256", "private_key", "public_key"? }
+ *                         Optional "verify_until" (ISO 8601) ends a retired
+ *                         key's verification overlap window.
+ *   WIDGET_JWT_ACTIVE_KID The key that signs new tokens (default: the first key)
+ *   WIDGET_JWT_SECRET     Legacy single HS256 secret, kid "legacy". Signs only
+ *                         when WIDGET_JWT_KEYS is unset; otherwise it verifies
+ *                         tokens issued before key sets (they carry no kid).
+ *
+ * Asymmetric keys are published at /.well-known/jwks.json so downstream
+ * services can verify widget tokens themselves. A retired asymmetric key only
+ * needs its public_key. Outside production an unconfigured service falls back
+ * to a development secret; in production that, a short or well-known secret,
+ * or an unusable key fails validation (see config-validator.ts).
+ */
+
+import { createPrivateKey, createPublicKey, type KeyObject } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import type { SignOptions, VerifyOptions } from 'jsonwebtoken';
+
+export const LEGACY_KID = 'legacy';
+export const MIN_HMAC_SECRET_LENGTH = 32;
+const MIN_RSA_MODULUS_BITS = 2048;
+
+const DEV_SECRET = 'development-secret-change-in-production';
+
+// Secrets copied from examples and tutorials; rejected in production whatever their length
+const WEAK_SECRETS = new Set([
+  DEV_SECRET,
+  'your-super-secret-jwt-key-change-in-production', // .env.example
+  'your-secret-key',
+  'your-jwt-secret',
+  'changeme',
+  'change-me',
+  'secret',
+  'jwt-secret',
+  'widget-jwt-secret'
+]);
+
+export type SigningAlgorithm = 'HS256' | 'RS256' | 'ES256';
+const SUPPORTED_ALGORITHMS: SigningAlgorithm[] = ['HS256', 'RS256', 'ES256'];
+
+export interface SigningKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  signingKey: string | KeyObject | null; // Null for verify-only (retired) keys
+  verificationKey: string | KeyObject;
+  verifyUntil: Date | null;
+}
+
+export interface KeySet {
+  active: SigningKey;
+  keys: Map<string, SigningKey>;
+  development: boolean; // Using the built-in development secret
+}
+
+export interface KeySetValidation {
+  errors: string[];
+  warnings: string[];
+}
+
+interface ParsedKeySet extends KeySetValidation {
+  keySet: KeySet | null;
+}
+
+interface KeyConfig {
+  kid?: unknown;
+  alg?: unknown;
+  secret?: unknown;
+  private_key?: unknown;
+  public_key?: unknown;
+  verify_until?: unknown;
+}
+
+let cachedKeySet: KeySet | null = null;
+
+const isProduction = () => process.env.NODE_ENV === 'production';
+
+function checkHmacSecret(label: string, secret: string, problems: string[]): void {
+  if (WEAK_SECRETS.has(secret.trim().toLowerCase())) {
+    problems.push(`${label} is a default or well-known secret`);
+  } else if (secret.length < MIN_HMAC_SECRET_LENGTH) {
+    problems.push(`${label} must be at least ${MIN_HMAC_SECRET_LENGTH} characters`);
+  } else if (new Set(secret).size < 8) {
+    problems.push(`${label} has too little variety to be a random secret`);
+  }
+}
+
+// PEMs in environment variables usually arrive with escaped newlines
+function readPem(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.replace(/\\n/g, '\n') : null;
+}
+
+function checkAsymmetricKey(label: string, alg: SigningAlgorithm, key: KeyObject, errors: string[]): void {
+  const details = key.asymmetricKeyDetails;
+  if (alg === 'RS256') {
+    if (key.asymmetricKeyType !== 'rsa') {
+      errors.push(`${label} is not an RSA key`);
+    } else if ((details?.modulusLength ?? 0) < MIN_RSA_MODULUS_BITS) {
+      errors.push(`${label} must be at least ${MIN_RSA_MODULUS_BITS} bits`);
+    }
+  } else if (key.asymmetricKeyType !== 'ec' || details?.namedCurve !== 'prime256v1') {
+    errors.push(`${label} must be a P-256 EC key for ES256`);
+  }
+}
+
+function parseKey(entry: KeyConfig, index: number, errors: string[], weak: string[]): SigningKey | null {
+  const kid = typeof entry.kid === 'string' ? entry.kid.trim() : '';
+  const label = `WIDGET_JWT_KEYS[${index}]${kid ? ` (${kid})` : ''}`;
+
+  if (!kid) {
+    errors.push(`${label} has no kid`);
+    return null;
+  }
+  if (kid === LEGACY_KID) {
+    errors.push(`${label} uses the reserved kid "${LEGACY_KID}"`);
+    return null;
+  }
+  if (!SUPPORTED_ALGORITHMS.includes(entry.alg as SigningAlgorithm)) {
+    errors.push(`${label} alg must be one of ${SUPPORTED_ALGORITHMS.join(', ')}`);
+    return null;
+  }
+  const alg = entry.alg as SigningAlgorithm;
+
+  let verifyUntil: Date | null = null;
+  if (entry.verify_until !== undefined) {
+    verifyUntil = new Date(String(entry.verify_until));
+    if (Number.isNaN(verifyUntil.getTime())) {
+      errors.push(`${label} verify_until is not a valid date`);
+      return null;
+    }
+  }
+
+  if (alg === 'HS256') {
+    if (typeof entry.secret !== 'string' || !entry.secret) {
+      errors.push(`${label} needs a secret for HS256`);
+      return null;
+    }
+    checkHmacSecret(label, entry.secret, weak);
+    return { kid, alg, signingKey: entry.secret, verificationKey: entry.secret, verifyUntil };
+  }
+
+  const privatePem = readPem(entry.private_key);
+  const publicPem = readPem(entry.public_key);
+  if (!privatePem && !publicPem) {
+    errors.push(`${label} needs a private_key (or a public_key when retired)`);
+    return null;
+  }
+
+  try {
+    const privateKey = privatePem ? createPrivateKey(privatePem) : null;
+    const publicKey = publicPem ? createPublicKey(publicPem) : createPublicKey(privateKey!);
+    checkAsymmetricKey(label, alg, publicKey, errors);
+    return { kid, alg, signingKey: privateKey, verificationKey: publicKey, verifyUntil };
+  } catch {
+    errors.push(`${label} key is not a valid PEM`);
+    return null;
+  }
+}
+
+/**
+ * Parse the key configuration without throwing
+ * Weak secrets are errors in production and warnings elsewhere.
+ */
+function parseKeySet(): ParsedKeySet {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const weak: string[] = [];
+  const keys = new Map<string, SigningKey>();
+
+  const rawKeys = process.env.WIDGET_JWT_KEYS;
+  if (rawKeys) {
+    let entries: unknown;
+    try {
+      entries = JSON.parse(rawKeys);
+    } catch {
+      entries = null;
+    }
+    if (!Array.isArray(entries) || entries.length === 0) {
+      errors.push('WIDGET_JWT_KEYS must be a non-empty JSON array');
+    } else {
+      entries.forEach((entry, index) => {
+        const key = parseKey(entry ?? {}, index, errors, weak);
+        if (!key) return;
+        if (keys.has(key.kid)) {
+          errors.push(`WIDGET_JWT_KEYS has duplicate kid "${key.kid}"`);
+          return;
+        }
+        keys.set(key.kid, key);
+      });
+    }
+  }
+
+  const legacySecret = process.env.WIDGET_JWT_SECRET;
+  if (legacySecret) {
+    checkHmacSecret('WIDGET_JWT_SECRET', legacySecret, weak);
+    keys.set(LEGACY_KID, {
+      kid: LEGACY_KID,
+      alg: 'HS256',
+      signingKey: rawKeys ? null : legacySecret,
+      verificationKey: legacySecret,
+      verifyUntil: null
+    });
+  }
+
+  (isProduction() ? errors : warnings).push(...weak);
+
+  let development = false;
+  if (!rawKeys && !legacySecret) {
+    if (isProduction()) {
+      errors.push('No signing key configured: set WIDGET_JWT_KEYS or WIDGET_JWT_SECRET');
+    } else {
+      warnings.push('No signing key configured; using the development secret');
+      development = true;
+      keys.set(LEGACY_KID, {
+        kid: LEGACY_KID,
+        alg: 'HS256',
+        signingKey: DEV_SECRET,
+        verificationKey: DEV_SECRET,
+        verifyUntil: null
+      });
+    }
+  }
+
+  const activeKid = rawKeys
+    ? process.env.WIDGET_JWT_ACTIVE_KID || [...keys.keys()].find(kid => kid !== LEGACY_KID)
+    : LEGACY_KID;
+  const active = activeKid ? keys.get(activeKid) : undefined;
+
+  if (rawKeys && keys.size > 0 && !active) {
+    errors.push(`WIDGET_JWT_ACTIVE_KID "${activeKid}" is not in WIDGET_JWT_KEYS`);
+  } else if (active && !active.signingKey) {
+    errors.push(`Active key "${active.kid}" has no private_key to sign with`);
+  } else if (active?.verifyUntil) {
+    errors.push(`Active key "${active.kid}" must not have verify_until`);
+  }
+
+  if (errors.length > 0 || !active) {
+    return { keySet: null, errors, warnings };
+  }
+
+  return { keySet: { active, keys, development }, errors, warnings };
+}
+
+/**
+ * Check the signing key configuration (for startup validation and /readyz)
+ */
+export function validateSigningKeys(): KeySetValidation {
+  const { errors, warnings } = parseKeySet();
+  return { errors, warnings };
+}
+
+/**
+ * The configured key set, parsed once
+ * Throws when the configuration is invalid rather than signing with a bad key.
+ */
+export function getKeySet(): KeySet {
+  if (cachedKeySet) return cachedKeySet;
+
+  const { keySet, errors } = parseKeySet();
+  if (!keySet) {
+    throw new Error(`Invalid token signing configuration: ${errors.join('; ')}`);
+  }
+
+  cachedKeySet = keySet;
+  return keySet;
+}
+
+/**
+ * Sign claims with the active key; the kid goes in the JWT header
+ */
+export function signToken(payload: object, options: Omit<SignOptions, 'algorithm' | 'keyid'>): string {
+  const { active } = getKeySet();
+  return jwt.sign(payload, active.signingKey!, {
+    ...options,
+    algorithm: active.alg,
+    keyid: active.kid
+  });
+}
+
+/**
+ * Verify a token against the key named by its kid
+ * Throws jsonwebtoken errors (TokenExpiredError, JsonWebTokenError) like
+ * jwt.verify. Tokens without a kid predate key sets and only verify against
+ * the legacy secret.
+ */
+export function verifyToken<T>(token: string, options: Omit<VerifyOptions, 'algorithms' | 'complete'>): T {
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new jwt.JsonWebTokenError('jwt malformed');
+  }
+
+  const kid = decoded.header.kid || LEGACY_KID;
+  const key = getKeySet().keys.get(kid);
+  if (!key) {
+    throw new jwt.JsonWebTokenError('unknown signing key');
+  }
+  if (key.verifyUntil && key.verifyUntil.getTime() <= Date.now()) {
+    throw new jwt.JsonWebTokenError('signing key retired');
+  }
+
+  return jwt.verify(token, key.verificationKey, {
+    ...options,
+    algorithms: [key.alg]
+  }) as T;
+}
+
+/**
+ * Public keys for downstream verification (RFC 7517)
+ * HS256 secrets are never published; retired keys drop out once past verify_until.
+ */
+export function getPublicJwks(): { keys: Array<Record<string, unknown>> } {
+  const now = Date.now();
+  const keys = [...getKeySet().keys.values()]
+    .filter(key => key.alg !== 'HS256' && (!key.verifyUntil || key.verifyUntil.getTime() > now))
+    .map(key => ({
+      ...(key.verificationKey as KeyObject).export({ format: 'jwk' }),
+      kid: key.kid,
+      alg: key.alg,
+      use: 'sig'
+    }));
+
+  return { keys };
+}
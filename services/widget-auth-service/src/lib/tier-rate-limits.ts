@@ -0,0 +1,163 @@
+/**
+ * Tier-Aware Rate Limiting
+ *
+ * Partner traffic is limited per API key. The limit is the key's own
+ * `rateLimit` (set at issue time, admins may raise it) and falls back to the
+ * custodian's tier (getRateLimitForTier) for keys issued without one. Widget
+ * routes count against the public key that created the session; partner
+ * backend routes count against the signing secret key. Tokens issued before
+ * sessions recorded their key share one bucket per partner at the tier limit.
+ * A key id that is no longer on the partner (deleted key) is refused.
+ *
+ * Counters use the configured rate limit store (see lib/rate-limit-store.ts),
+ * sharded in Firestore: every widget request of a key counts against one bucket.
+ */
+
+import type { DocumentData } from 'firebase-admin/firestore';
+import SecureRateLimiter from './secure-rate-limiter';
+import { createRateLimitStore } from './rate-limit-store';
+import { getRateLimitForTier, isAPIKeyUsable } from './api-keys-server';
+import { createLogger } from './logger';
+
+const log = createLogger('TIER-RATE-LIMITS');
+
+export const TIER_RATE_LIMIT_WINDOW_MS = 60 * 1000; // Limits are requests per minute
+
+const tierRateLimiter = new SecureRateLimiter(
+  TIER_RATE_LIMIT_WINDOW_MS,
+  getRateLimitForTier(undefined),
+  10000,
+  createRateLimitStore(10000, { sharded: true })
+);
+
+export interface TierRateLimitResult {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number;
+}
+
+export interface APIKeyUsage {
+  id: string;
+  name: string;
+  prefix: string;
+  type: 'public' | 'secret';
+  environment?: 'production' | 'sandbox';
+  rate_limit: number;
+  used: number;
+  remaining: number;
+  reset_at: string | null;
+}
+
+function findAPIKey(custodianData: DocumentData | undefined, apiKeyId?: string): any | undefined {
+  if (!apiKeyId) return undefined;
+  const apiKeys: any[] = custodianData?.integrationConfig?.apiKeys || [];
+  return apiKeys.find(key => key.id === apiKeyId);
+}
+
+function bucketFor(custodianId: string, apiKeyId?: string): string {
+  return apiKeyId ? `tier_key_${custodianId}_${apiKeyId}` : `tier_partner_${custodianId}`;
+}
+
+/**
+ * Requests per minute allowed for a key, or for the partner when no key is known
+ */
+export function resolveRateLimit(custodianData: DocumentData | undefined, apiKey?: { rateLimit?: unknown }): number {
+  const keyLimit = apiKey?.rateLimit;
+  if (typeof keyLimit === 'number' && Number.isInteger(keyLimit) && keyLimit > 0) {
+    return keyLimit;
+  }
+  return getRateLimitForTier(custodianData?.level);
+}
+
+/**
+ * Count a request against the partner's limit
+ */
+export async function checkTierRateLimit(
+  custodianId: string,
+  custodianData: DocumentData | undefined,
+  apiKeyId?: string
+): Promise<TierRateLimitResult> {
+  const apiKey = findAPIKey(custodianData, apiKeyId);
+  const limit = resolveRateLimit(custodianData, apiKey);
+
+  // Callers end sessions of deleted keys first; refuse rather than share the partner bucket
+  if (apiKeyId && !apiKey) {
+    log.warn('Rate limit check for an unknown API key', { custodianId, apiKeyId });
+    return { success: false, limit, remaining: 0, resetTime: Date.now() + TIER_RATE_LIMIT_WINDOW_MS };
+  }
+
+  const result = await tierRateLimiter.check(bucketFor(custodianId, apiKey?.id), limit);
+
+  return {
+    success: result.success,
+    limit,
+    remaining: Math.max(0, result.remaining),
+    resetTime: result.resetTime
+  };
+}
+
+/**
+ * X-RateLimit-* headers for any rate-limited response (Retry-After on 429s)
+ */
+export function buildRateLimitHeaders(
+  result: Pick<TierRateLimitResult, 'success' | 'limit' | 'remaining' | 'resetTime'>
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': result.limit.toString(),
+    'X-RateLimit-Remaining': result.remaining.toString(),
+    'X-RateLimit-Reset': new Date(result.resetTime).toISOString()
+  };
+
+  if (!result.success) {
+    headers['Retry-After'] = getRetryAfterSeconds(result.resetTime).toString();
+  }
+
+  return headers;
+}
+
+export function getRetryAfterSeconds(resetTime: number): number {
+  return Math.max(1, Math.ceil((resetTime - Date.now()) / 1000));
+}
+
+/**
+ * 429 response body
+ */
+export function rateLimitExceededBody(result: Pick<TierRateLimitResult, 'limit' | 'resetTime'>) {
+  return {
+    error: 'Rate limit exceeded',
+    code: 'RATE_LIMIT_EXCEEDED',
+    limit: result.limit,
+    retryAfter: getRetryAfterSeconds(result.resetTime)
+  };
+}
+
+/**
+ * Current-window consumption for each usable key of a partner
+ */
+export async function getRateLimitUsage(
+  custodianId: string,
+  custodianData: DocumentData | undefined
+): Promise<APIKeyUsage[]> {
+  const apiKeys: any[] = custodianData?.integrationConfig?.apiKeys || [];
+
+  return Promise.all(apiKeys
+    .filter(key => isAPIKeyUsable(key))
+    .map(async key => {
+      const limit = resolveRateLimit(custodianData, key);
+      const window = await tierRateLimiter.peek(bucketFor(custodianId, key.id), limit);
+      const used = window ? limit - window.remaining : 0;
+
+      return {
+        id: key.id,
+        name: key.name,
+        prefix: key.prefix,
+        type: key.type,
+        environment: key.environment,
+        rate_limit: limit,
+        used,
+        remaining: Math.max(0, limit - used),
+        reset_at: window ? new Date(window.resetTime).toISOString() : null
+      };
+    }));
+}
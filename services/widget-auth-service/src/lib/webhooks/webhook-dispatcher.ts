@@ -0,0 +1,686 @@
+/**
+ * Outbound Partner Webhook Dispatcher
+ *
+ * Partners register endpoints per custodian (integrationConfig.webhooks). Each
+ * event is written to `webhook_deliveries` first, then POSTed to every
+ * subscribed endpoint with:
+ *
+ *   X-TrustRails-Event:      <event type>
+ *   X-TrustRails-Delivery:   <delivery id>
+ *   X-TrustRails-Timestamp:  <unix seconds>
+ *   X-TrustRails-Signature:  v1=<hex HMAC-SHA256 of "TIMESTAMP.BODY" keyed by the endpoint secret>
+ *
+ * Non-2xx responses, timeouts and network errors are retried with exponential
+ * backoff by processDueDeliveries() (driven by the cron route). After
+ * MAX_DELIVERY_ATTEMPTS the delivery is copied to `webhook_dead_letters`.
+ * The delivery document keeps every attempt, so it doubles as the delivery log.
+ *
+ * Requests go through postWebhook(), which refuses to connect to internal
+ * addresses whatever the hostname resolves to at delivery time.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { isIP } from 'net';
+import {
+  FieldPath,
+  FieldValue,
+  type DocumentData,
+  type DocumentReference,
+  type QueryDocumentSnapshot
+} from 'firebase-admin/firestore';
+import { requireAdminApp } from '../firebase-admin';
+import { generateWebhookSecret } from '../api-keys-server';
+import { AuditLogger, AuditSeverity } from '../audit/unified-audit-logger';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import {
+  ALL_WEBHOOK_EVENTS,
+  type WebhookDeliveryAttempt,
+  type WebhookDeliveryStatus,
+  type WebhookEndpoint,
+  type WebhookEventPayload,
+  type WebhookEventType
+} from '@/types/webhook-events';
+import { createLogger } from '../logger';
+import { isPublicAddress, postWebhook } from './webhook-transport';
+
+const log = createLogger('WEBHOOKS');
+
+const DELIVERIES_COLLECTION = 'webhook_deliveries';
+const DEAD_LETTER_COLLECTION = 'webhook_dead_letters';
+
+export const MAX_WEBHOOKS_PER_CUSTODIAN = 10;
+const MAX_DELIVERY_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000; // 30s, 1m, 2m, 4m ... capped below
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000; // 1 hour
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const DELIVERY_LEASE_MS = 60 * 1000; // Claimed deliveries are retried after this if the worker dies
+const MAX_LOGGED_RESPONSE_CHARS = 500;
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+const ERASURE_SCAN_BATCH_SIZE = 200; // Up to two writes per delivery, under the 500-write batch limit
+
+export interface WebhookDelivery {
+  deliveryId: string;
+  custodianId: string;
+  webhookId: string;
+  url: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  payload: string; // Exact bytes that are signed and sent
+  status: WebhookDeliveryStatus;
+  attemptCount: number;
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt: Date | null;
+  createdAt: string;
+  lastAttemptAt?: string;
+  lastResponseStatus?: number;
+  lastResponseBody?: string;
+  lastError?: string;
+  deliveredAt?: string;
+  redeliveryOf?: string;
+}
+
+export interface ProcessDeliveriesResult {
+  processed: number;
+  succeeded: number;
+  retrying: number;
+  deadLettered: number;
+}
+
+/**
+ * Validate a partner webhook URL
+ * Production only accepts public https endpoints; elsewhere plain http to
+ * localhost is allowed so deliveries can be tested against a local receiver.
+ * Hostnames are resolved and checked again on every delivery.
+ */
+export function validateWebhookUrl(rawUrl: unknown): { valid: boolean; error?: string } {
+  if (typeof rawUrl !== 'string' || rawUrl.length > 2048) {
+    return { valid: false, error: 'url must be a string of at most 2048 characters' };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return { valid: false, error: 'url is not a valid URL' };
+  }
+
+  if (url.username || url.password) {
+    return { valid: false, error: 'url must not contain credentials' };
+  }
+
+  if (allowsLocalTarget(url)) {
+    return url.protocol === 'http:' || url.protocol === 'https:'
+      ? { valid: true }
+      : { valid: false, error: 'url must use http or https' };
+  }
+
+  if (url.protocol !== 'https:') {
+    return { valid: false, error: 'url must use https' };
+  }
+
+  // URL parsing normalizes IPv4 written in decimal, hex or octal
+  const hostname = url.hostname.toLowerCase();
+  const isAddress = isIP(hostname.replace(/^\[(.*)\]$/, '$1')) !== 0;
+  const isInternalName = hostname === 'localhost' ||
+                         hostname.endsWith('.localhost') ||
+                         hostname === 'metadata.google.internal';
+
+  if (isInternalName || (isAddress && !isPublicAddress(hostname))) {
+    return { valid: false, error: 'url must point to a public host' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Local receivers are allowed outside production, over http or https
+ */
+function allowsLocalTarget(url: URL): boolean {
+  const hostname = url.hostname.toLowerCase();
+  return process.env.NODE_ENV !== 'production' &&
+         (hostname === 'localhost' ||
+          hostname === '127.0.0.1' ||
+          hostname === '[::1]' ||
+          hostname.endsWith('.localhost'));
+}
+
+/**
+ * Validate an event subscription list ('*' subscribes to everything)
+ */
+export function validateWebhookEvents(events: unknown): events is Array<WebhookEventType | '*'> {
+  return Array.isArray(events) &&
+         events.length > 0 &&
+         events.every(event => event === '*' || ALL_WEBHOOK_EVENTS.includes(event));
+}
+
+/**
+ * Build a new endpoint record, including its signing secret
+ */
+export function createWebhookEndpoint(
+  url: string,
+  events: Array<WebhookEventType | '*'>,
+  createdBy?: string
+): WebhookEndpoint {
+  return {
+    id: `wh_${randomBytes(12).toString('hex')}`,
+    url,
+    events: Array.from(new Set(events)),
+    secret: generateWebhookSecret(),
+    active: true,
+    createdAt: new Date().toISOString(),
+    ...(createdBy && { createdBy })
+  };
+}
+
+/**
+ * Endpoint as returned by the API - the secret is only shown on creation
+ */
+export function toPublicWebhookEndpoint(endpoint: WebhookEndpoint) {
+  return {
+    id: endpoint.id,
+    url: endpoint.url,
+    events: endpoint.events,
+    active: endpoint.active,
+    created_at: endpoint.createdAt
+  };
+}
+
+export function getWebhookEndpoints(custodianData: DocumentData | undefined): WebhookEndpoint[] {
+  return custodianData?.integrationConfig?.webhooks || [];
+}
+
+/**
+ * Sign a webhook body
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Verify a webhook signature header as a receiver would
+ * Published for partners and local receivers; not used by the dispatcher itself.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  signatureHeader: string,
+  timestamp: string,
+  body: string,
+  toleranceSeconds: number = SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  const timestampSeconds = parseInt(timestamp, 10);
+  if (!Number.isFinite(timestampSeconds) ||
+      Math.abs(Date.now() / 1000 - timestampSeconds) > toleranceSeconds) {
+    return false;
+  }
+
+  const provided = signatureHeader.replace(/^v1=/, '');
+  const expected = signWebhookPayload(secret, timestamp, body);
+  if (provided.length !== expected.length) {
+    return false;
+  }
+
+  return timingSafeEqual(Buffer.from(provided), Buffer.from(expected));
+}
+
+/**
+ * Delay before the next attempt, with up to 10% jitter so retries spread out
+ */
+export function getRetryDelayMs(attemptCount: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, attemptCount - 1), MAX_RETRY_DELAY_MS);
+  return Math.round(delay + Math.random() * delay * 0.1);
+}
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  return typeof value.toDate === 'function' ? value.toDate() : new Date(value);
+}
+
+/**
+ * Queue an event for every active endpoint subscribed to it and start delivery
+ * Resolves once the deliveries are persisted; the HTTP attempts continue in the
+ * background and anything that fails is picked up by processDueDeliveries().
+ */
+export async function dispatchWebhookEvent(
+  custodianId: string,
+  eventType: WebhookEventType,
+  data: Record<string, any>
+): Promise<string[]> {
+  const { adminDb } = requireAdminApp();
+
+  const custodianDoc = await adminDb.collection('custodians').doc(custodianId).get();
+  const endpoints = getWebhookEndpoints(custodianDoc.data()).filter(
+    endpoint => endpoint.active &&
+                (endpoint.events.includes('*') || endpoint.events.includes(eventType))
+  );
+
+  if (endpoints.length === 0) {
+    return [];
+  }
+
+  const event: WebhookEventPayload = {
+    id: `evt_${randomBytes(12).toString('hex')}`,
+    type: eventType,
+    created_at: new Date().toISOString(),
+    custodian_id: custodianId,
+    data
+  };
+  const payload = JSON.stringify(event);
+
+  const batch = adminDb.batch();
+  const deliveryIds: string[] = [];
+
+  for (const endpoint of endpoints) {
+    const ref = adminDb.collection(DELIVERIES_COLLECTION).doc();
+    const delivery: WebhookDelivery = {
+      deliveryId: ref.id,
+      custodianId,
+      webhookId: endpoint.id,
+      url: endpoint.url,
+      eventId: event.id,
+      eventType,
+      payload,
+      status: 'pending',
+      attemptCount: 0,
+      attempts: [],
+      nextAttemptAt: new Date(),
+      createdAt: event.created_at
+    };
+    batch.set(ref, delivery);
+    deliveryIds.push(ref.id);
+  }
+
+  await batch.commit();
+
+  for (const deliveryId of deliveryIds) {
+    attemptDelivery(deliveryId).catch(error =>
+      log.error('Delivery attempt failed', error, { deliveryId })
+    );
+  }
+
+  return deliveryIds;
+}
+
+/**
+ * Take a due delivery for this worker by pushing nextAttemptAt out by the lease
+ */
+async function claimDelivery(ref: DocumentReference): Promise<WebhookDelivery | null> {
+  const { adminDb } = requireAdminApp();
+
+  return adminDb.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const delivery = snapshot.data() as WebhookDelivery | undefined;
+
+    if (!delivery || delivery.status !== 'pending') {
+      return null;
+    }
+
+    const nextAttemptAt = toDate(delivery.nextAttemptAt);
+    if (nextAttemptAt && nextAttemptAt.getTime() > Date.now()) {
+      return null;
+    }
+
+    transaction.update(ref, { nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS) });
+    return delivery;
+  });
+}
+
+async function deadLetter(
+  ref: DocumentReference,
+  delivery: WebhookDelivery,
+  reason: string
+): Promise<void> {
+  const { adminDb } = requireAdminApp();
+  const deadLetteredAt = new Date().toISOString();
+
+  const batch = adminDb.batch();
+  batch.update(ref, { status: 'dead_lettered', nextAttemptAt: null, lastError: reason });
+  batch.set(adminDb.collection(DEAD_LETTER_COLLECTION).doc(delivery.deliveryId), {
+    ...delivery,
+    status: 'dead_lettered',
+    nextAttemptAt: null,
+    lastError: reason,
+    deadLetteredAt
+  });
+  await batch.commit();
+
+  await AuditLogger.logSecurityEvent(
+    'webhook_delivery_dead_lettered',
+    AuditSeverity.WARNING,
+    `Webhook delivery ${delivery.deliveryId} moved to dead letters: ${reason}`,
+    undefined,
+    undefined,
+    {
+      eventType: SOC2_AUDIT_EVENTS.INTEGRATION_WEBHOOK_FAILED,
+      custodianId: delivery.custodianId,
+      webhookId: delivery.webhookId,
+      deliveryId: delivery.deliveryId,
+      webhookEventType: delivery.eventType,
+      attemptCount: delivery.attemptCount
+    }
+  );
+}
+
+/**
+ * Make one delivery attempt and schedule the retry or dead-letter on failure
+ * Returns the resulting status, or null if the delivery was not due / already taken.
+ */
+export async function attemptDelivery(deliveryId: string): Promise<WebhookDeliveryStatus | null> {
+  const { adminDb } = requireAdminApp();
+  const ref = adminDb.collection(DELIVERIES_COLLECTION).doc(deliveryId);
+
+  const delivery = await claimDelivery(ref);
+  if (!delivery) {
+    return null;
+  }
+
+  // Look the endpoint up again so deletions and deactivations take effect on retries
+  const custodianDoc = await adminDb.collection('custodians').doc(delivery.custodianId).get();
+  const endpoint = getWebhookEndpoints(custodianDoc.data()).find(
+    candidate => candidate.id === delivery.webhookId
+  );
+
+  if (!endpoint || !endpoint.active) {
+    await deadLetter(ref, delivery, 'Webhook endpoint was removed or disabled');
+    return 'dead_lettered';
+  }
+
+  // Endpoints registered before a validation rule existed are held to it too
+  const urlCheck = validateWebhookUrl(endpoint.url);
+  if (!urlCheck.valid) {
+    await deadLetter(ref, delivery, `Webhook URL is not allowed: ${urlCheck.error}`);
+    return 'dead_lettered';
+  }
+
+  const attemptNumber = delivery.attemptCount + 1;
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const startedAt = Date.now();
+  const attempt: WebhookDeliveryAttempt = {
+    attempt: attemptNumber,
+    attemptedAt: new Date(startedAt).toISOString(),
+    durationMs: 0
+  };
+  let responseBody: string | undefined;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+
+  try {
+    const response = await postWebhook(endpoint.url, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'TrustRails-Webhooks/1.0',
+        'X-TrustRails-Event': delivery.eventType,
+        'X-TrustRails-Delivery': delivery.deliveryId,
+        'X-TrustRails-Timestamp': timestamp,
+        'X-TrustRails-Signature': `v1=${signWebhookPayload(endpoint.secret, timestamp, delivery.payload)}`
+      },
+      body: delivery.payload,
+      signal: controller.signal,
+      maxResponseChars: MAX_LOGGED_RESPONSE_CHARS,
+      allowPrivateAddresses: allowsLocalTarget(new URL(endpoint.url))
+    });
+
+    // A redirect could point anywhere, so it is not followed and counts as a failure
+    attempt.responseStatus = response.status;
+    responseBody = response.body;
+    if (response.status < 200 || response.status >= 300) {
+      attempt.error = `HTTP ${response.status}`;
+    }
+  } catch (error) {
+    attempt.error = controller.signal.aborted
+      ? `Timed out after ${DELIVERY_TIMEOUT_MS}ms`
+      : error instanceof Error ? error.message : String(error);
+  } finally {
+    clearTimeout(timeout);
+    attempt.durationMs = Date.now() - startedAt;
+  }
+
+  const update: Record<string, any> = {
+    url: endpoint.url,
+    attemptCount: attemptNumber,
+    attempts: FieldValue.arrayUnion(attempt),
+    lastAttemptAt: attempt.attemptedAt,
+    lastResponseStatus: attempt.responseStatus ?? null,
+    lastResponseBody: responseBody ?? null,
+    lastError: attempt.error ?? null
+  };
+
+  if (!attempt.error) {
+    await ref.update({
+      ...update,
+      status: 'succeeded',
+      nextAttemptAt: null,
+      deliveredAt: new Date().toISOString()
+    });
+    return 'succeeded';
+  }
+
+  if (attemptNumber >= MAX_DELIVERY_ATTEMPTS) {
+    await ref.update(update);
+    await deadLetter(
+      ref,
+      { ...delivery, attemptCount: attemptNumber, attempts: [...delivery.attempts, attempt] },
+      `Gave up after ${attemptNumber} attempts: ${attempt.error}`
+    );
+    return 'dead_lettered';
+  }
+
+  await ref.update({
+    ...update,
+    nextAttemptAt: new Date(Date.now() + getRetryDelayMs(attemptNumber))
+  });
+  return 'pending';
+}
+
+/**
+ * Retry every delivery whose backoff has elapsed (called from the cron route)
+ */
+export async function processDueDeliveries(limit: number = 50): Promise<ProcessDeliveriesResult> {
+  const { adminDb } = requireAdminApp();
+
+  const dueSnapshot = await adminDb.collection(DELIVERIES_COLLECTION)
+    .where('status', '==', 'pending')
+    .where('nextAttemptAt', '<=', new Date())
+    .orderBy('nextAttemptAt')
+    .limit(limit)
+    .get();
+
+  const result: ProcessDeliveriesResult = { processed: 0, succeeded: 0, retrying: 0, deadLettered: 0 };
+
+  // Sequential on purpose: keeps outbound concurrency per instance bounded
+  for (const doc of dueSnapshot.docs) {
+    const status = await attemptDelivery(doc.id).catch(error => {
+      log.error('Delivery processing error', error, { deliveryId: doc.id });
+      return null;
+    });
+
+    if (!status) continue;
+    result.processed++;
+    if (status === 'succeeded') result.succeeded++;
+    if (status === 'pending') result.retrying++;
+    if (status === 'dead_lettered') result.deadLettered++;
+  }
+
+  return result;
+}
+
+/**
+ * Send an earlier delivery again as a new delivery with a fresh retry budget
+ * The event id and payload are unchanged so receivers can deduplicate.
+ */
+export async function redeliverWebhook(
+  custodianId: string,
+  deliveryId: string
+): Promise<{ success: true; deliveryId: string } | { success: false; error: 'not_found' | 'endpoint_inactive' }> {
+  const { adminDb } = requireAdminApp();
+
+  const originalDoc = await adminDb.collection(DELIVERIES_COLLECTION).doc(deliveryId).get();
+  const original = originalDoc.data() as WebhookDelivery | undefined;
+
+  if (!original || original.custodianId !== custodianId) {
+    return { success: false, error: 'not_found' };
+  }
+
+  const custodianDoc = await adminDb.collection('custodians').doc(custodianId).get();
+  const endpoint = getWebhookEndpoints(custodianDoc.data()).find(
+    candidate => candidate.id === original.webhookId
+  );
+  if (!endpoint || !endpoint.active) {
+    return { success: false, error: 'endpoint_inactive' };
+  }
+
+  const ref = adminDb.collection(DELIVERIES_COLLECTION).doc();
+  const redelivery: WebhookDelivery = {
+    deliveryId: ref.id,
+    custodianId,
+    webhookId: endpoint.id,
+    url: endpoint.url,
+    eventId: original.eventId,
+    eventType: original.eventType,
+    payload: original.payload,
+    status: 'pending',
+    attemptCount: 0,
+    attempts: [],
+    nextAttemptAt: new Date(),
+    createdAt: new Date().toISOString(),
+    redeliveryOf: original.deliveryId
+  };
+  await ref.set(redelivery);
+
+  attemptDelivery(ref.id).catch(error =>
+    log.error('Redelivery attempt failed', error, { deliveryId: ref.id })
+  );
+
+  return { success: true, deliveryId: ref.id };
+}
+
+/**
+ * Delivery log for a custodian, newest first
+ */
+export async function listDeliveries(
+  custodianId: string,
+  options: { webhookId?: string; status?: WebhookDeliveryStatus; limit?: number } = {}
+): Promise<WebhookDelivery[]> {
+  const { adminDb } = requireAdminApp();
+
+  let query = adminDb.collection(DELIVERIES_COLLECTION)
+    .where('custodianId', '==', custodianId);
+
+  if (options.webhookId) {
+    query = query.where('webhookId', '==', options.webhookId);
+  }
+  if (options.status) {
+    query = query.where('status', '==', options.status);
+  }
+
+  const snapshot = await query
+    .orderBy('createdAt', 'desc')
+    .limit(Math.min(options.limit || 25, 100))
+    .get();
+
+  return snapshot.docs.map(doc => doc.data() as WebhookDelivery);
+}
+
+/**
+ * A partner's deliveries whose payload is about the user, a page at a time
+ */
+async function* scanUserDeliveries(
+  custodianId: string,
+  userId: string
+): AsyncGenerator<Array<{ doc: QueryDocumentSnapshot; delivery: WebhookDelivery; event: WebhookEventPayload }>> {
+  const { adminDb } = requireAdminApp();
+  const baseQuery = adminDb.collection(DELIVERIES_COLLECTION)
+    .where('custodianId', '==', custodianId)
+    .orderBy(FieldPath.documentId())
+    .limit(ERASURE_SCAN_BATCH_SIZE);
+
+  let last: QueryDocumentSnapshot | undefined;
+
+  while (true) {
+    const snapshot = await (last ? baseQuery.startAfter(last) : baseQuery).get();
+    const matches = [];
+
+    for (const doc of snapshot.docs) {
+      const delivery = doc.data() as WebhookDelivery;
+      let event: WebhookEventPayload;
+      try {
+        event = JSON.parse(delivery.payload);
+      } catch {
+        continue;
+      }
+      if (event.data?.user_id === userId) {
+        matches.push({ doc, delivery, event });
+      }
+    }
+
+    yield matches;
+
+    if (snapshot.size < ERASURE_SCAN_BATCH_SIZE) return;
+    last = snapshot.docs[snapshot.docs.length - 1];
+  }
+}
+
+/**
+ * Deliveries whose payload is about the user, with that payload (data subject access)
+ */
+export async function listUserDeliveries(
+  custodianId: string,
+  userId: string
+): Promise<Array<ReturnType<typeof toPublicDelivery> & { payload: WebhookEventPayload }>> {
+  const deliveries = [];
+  for await (const matches of scanUserDeliveries(custodianId, userId)) {
+    for (const { delivery, event } of matches) {
+      deliveries.push({ ...toPublicDelivery(delivery), payload: event });
+    }
+  }
+  return deliveries;
+}
+
+/**
+ * Strip a user's data from stored delivery payloads (data subject erasure)
+ * The event envelope is kept so delivery history still reads correctly; its
+ * data is reduced to the user ID. Returns the number of deliveries changed.
+ */
+export async function eraseUserFromDeliveries(custodianId: string, userId: string): Promise<number> {
+  const { adminDb } = requireAdminApp();
+  let erased = 0;
+
+  for await (const matches of scanUserDeliveries(custodianId, userId)) {
+    if (matches.length === 0) continue;
+
+    const batch = adminDb.batch();
+    for (const { doc, delivery, event } of matches) {
+      const payload = JSON.stringify({ ...event, data: { user_id: userId, erased: true } });
+      batch.update(doc.ref, { payload });
+      if (delivery.status === 'dead_lettered') {
+        batch.set(adminDb.collection(DEAD_LETTER_COLLECTION).doc(doc.id), { payload }, { merge: true });
+      }
+    }
+    await batch.commit();
+    erased += matches.length;
+  }
+
+  return erased;
+}
+
+/**
+ * Delivery as returned by the API (payload omitted, attempts included)
+ */
+export function toPublicDelivery(delivery: WebhookDelivery) {
+  return {
+    id: delivery.deliveryId,
+    webhook_id: delivery.webhookId,
+    event_id: delivery.eventId,
+    event_type: delivery.eventType,
+    url: delivery.url,
+    status: delivery.status,
+    attempt_count: delivery.attemptCount,
+    attempts: delivery.attempts,
+    next_attempt_at: toDate(delivery.nextAttemptAt)?.toISOString() ?? null,
+    last_response_status: delivery.lastResponseStatus ?? null,
+    last_error: delivery.lastError ?? null,
+    created_at: delivery.createdAt,
+    delivered_at: delivery.deliveredAt ?? null,
+    redelivery_of: delivery.redeliveryOf ?? null
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Outbound HTTP for Partner Webhooks
+ *
+ * Webhook URLs are partner-controlled, so a hostname could point at anything
+ * the service can reach: the metadata server (169.254.169.254), loopback, or
+ * the VPC. validateWebhookUrl() refuses address literals up front, but a
+ * hostname can resolve, or be re-pointed later (DNS rebinding), to an internal
+ * address. postWebhook() therefore checks every address in the connection's
+ * own DNS lookup, so the address that is checked is the one connected to.
+ */
+
+import http from 'http';
+import https from 'https';
+import { lookup as dnsLookup } from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+
+// Loopback, private, link-local, shared, documentation, multicast and reserved
+// ranges. IPv4-mapped IPv6 addresses are matched against the IPv4 rules.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+([
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const).forEach(([network, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+([
+  ['::', 96], // Unspecified, loopback and IPv4-compatible
+  ['64:ff9b::', 96], // NAT64 can reach internal IPv4 addresses
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const).forEach(([network, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+export interface WebhookResponse {
+  status: number;
+  body: string;
+}
+
+export interface PostWebhookOptions {
+  headers: Record<string, string>;
+  body: string;
+  signal: AbortSignal;
+  maxResponseChars: number;
+  allowPrivateAddresses?: boolean; // Local receivers outside production
+}
+
+/**
+ * True for addresses on the public internet; false for anything internal and
+ * for strings that are not IP addresses
+ */
+export function isPublicAddress(address: string): boolean {
+  const unbracketed = address.replace(/^\[(.*)\]$/, '$1');
+  const family = isIP(unbracketed);
+  if (family === 0) return false;
+
+  return !NON_PUBLIC_ADDRESSES.check(unbracketed, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * dns.lookup that fails the connection when any resolved address is not public
+ * Node calls it with `all: true` when it tries several addresses in turn.
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, options, (error: NodeJS.ErrnoException | null, address: any, family?: number) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+
+    const addresses: string[] = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    const blocked = addresses.find(candidate => !isPublicAddress(candidate));
+    if (blocked) {
+      callback(
+        Object.assign(new Error(`${hostname} resolves to a non-public address (${blocked})`), { code: 'EADDRNOTPUBLIC' }),
+        address,
+        family
+      );
+      return;
+    }
+
+    callback(null, address, family);
+  });
+};
+
+/**
+ * POST a webhook body and read up to maxResponseChars of the response
+ * Redirects are not followed; a 3xx is returned like any other status.
+ */
+export function postWebhook(url: string, options: PostWebhookOptions): Promise<WebhookResponse> {
+  const target = new URL(url);
+  const client = target.protocol === 'https:' ? https : http;
+
+  // Address literals are connected to without a lookup
+  const literal = target.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (!options.allowPrivateAddresses && isIP(literal) !== 0 && !isPublicAddress(literal)) {
+    return Promise.reject(new Error(`${literal} is not a public address`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(target, {
+      method: 'POST',
+      headers: { ...options.headers, 'Content-Length': Buffer.byteLength(options.body) },
+      signal: options.signal,
+      ...(!options.allowPrivateAddresses && { lookup: lookupPublicAddress })
+    }, response => {
+      let body = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        body += chunk;
+        if (body.length >= options.maxResponseChars) {
+          response.destroy();
+          resolve({ status: response.statusCode ?? 0, body: body.slice(0, options.maxResponseChars) });
+        }
+      });
+      response.on('end', () => resolve({ status: response.statusCode ?? 0, body }));
+      response.on('error', reject);
+    });
+
+    request.on('error', reject);
+    request.end(options.body);
+  });
+}
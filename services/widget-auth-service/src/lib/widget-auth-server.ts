@@ -4,24 +4,63 @@
  */
 
 import { randomBytes, createHash } from 'crypto';
-import * as jwt from 'jsonwebtoken';
+import type { NextRequest } from 'next/server';
 import type { SignOptions } from 'jsonwebtoken';
+import type { DocumentData } from 'firebase-admin/firestore';
 import { requireAdminApp } from './firebase-admin';
+import { isAPIKeyUsable } from './api-keys-server';
+import { AuditLogger, AuditSeverity } from './audit/unified-audit-logger';
+import { signToken, verifyToken } from './signing-keys';
+import {
+  checkSessionBinding,
+  getRequestDevice,
+  getSessionPolicy,
+  logSessionBindingRejection,
+  type SessionBindingFailure
+} from './session-binding';
+import { SOC2_AUDIT_EVENTS } from '@/types/audit-events';
+import { createLogger } from './logger';
+
+const log = createLogger('WIDGET-AUTH');
 
-const JWT_SECRET = process.env.WIDGET_JWT_SECRET || 'development-secret-change-in-production';
 const BEARER_TOKEN_PREFIX = 'tr_bearer_';
+const REFRESH_TOKEN_PREFIX = 'tr_refresh_';
 const SESSION_TOKEN_LENGTH = 32;
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const SESSION_MAX_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000; // Refresh cannot extend a session past 7 days
+
+// How the session's user signed in
+export type WidgetAuthMethod =
+  | 'id_token'     // Firebase ID token presented to /auth
+  | 'oauth'        // Provider ID token verified by create-account
+  | 'magic_link'   // Emailed link consumed by magic-link/verify
+  | 'partner_api'  // Partner backend vouched for one of its users
+  | 'password';    // create-account email flow; the password is not checked for existing accounts
+
+// Sign-ins that prove the user controls the account
+const VERIFIED_AUTH_METHODS: WidgetAuthMethod[] = ['id_token', 'oauth', 'magic_link', 'partner_api'];
+
+export interface WidgetSessionUser {
+  userId: string;
+  authMethod: WidgetAuthMethod;
+}
 
 export interface WidgetSession {
   sessionId: string;
   custodianId: string;
   userId?: string; // Optional - only for returning users
+  authMethod?: WidgetAuthMethod; // Set with userId; missing on sessions that predate it
   apiKeyHash: string; // Hash of the API key used to create the session
   createdAt: Date;
   expiresAt: Date;
   ipAddress: string;
   userAgent: string;
   origin: string; // The domain where the widget is embedded
+  environment?: 'production' | 'sandbox'; // Environment of the API key that created the session
+  permissions?: string[]; // Scopes granted by the API key; reissued on refresh
+  apiKeyId?: string; // Key whose rate limit the session's requests count against
+  deviceBoundAt?: Date; // When ipAddress/userAgent were taken from the browser (see session-binding.ts)
+  lastActivityAt?: Date;
 }
 
 export interface BearerTokenPayload {
@@ -30,10 +69,64 @@ export interface BearerTokenPayload {
   userId?: string;
   type: 'widget_user';
   permissions: string[];
+  environment?: 'production' | 'sandbox';
+  apiKeyId?: string;
   iat?: number;
   exp?: number;
 }
 
+// Scopes a bearer token can carry
+export const WIDGET_PERMISSIONS = {
+  WIDGET_READ: 'widget:read', // Browse custodians and widget configuration
+  WIDGET_WRITE: 'widget:write', // Create accounts, record KYC and plan selection
+  ROLLOVER_CREATE: 'rollover:create',
+  ROLLOVER_READ: 'rollover:read',
+} as const;
+
+export type WidgetPermission = typeof WIDGET_PERMISSIONS[keyof typeof WIDGET_PERMISSIONS];
+
+export const ALL_WIDGET_PERMISSIONS: WidgetPermission[] = Object.values(WIDGET_PERMISSIONS);
+
+/**
+ * Scopes for a token issued with an API key
+ * Keys without a permissions array predate scoping and keep full widget access;
+ * unknown entries are ignored.
+ */
+export function resolveTokenPermissions(keyPermissions?: string[]): WidgetPermission[] {
+  if (!Array.isArray(keyPermissions)) {
+    return [...ALL_WIDGET_PERMISSIONS];
+  }
+  return ALL_WIDGET_PERMISSIONS.filter(permission => keyPermissions.includes(permission));
+}
+
+/**
+ * The session's user if their sign-in was verified by this service, else null
+ * Only a verified user may list, revoke or evict sessions of that user.
+ */
+export function getVerifiedUserId(session: Pick<WidgetSession, 'userId' | 'authMethod'>): string | null {
+  return session.userId && session.authMethod && VERIFIED_AUTH_METHODS.includes(session.authMethod)
+    ? session.userId
+    : null;
+}
+
+export type RefreshFailureReason =
+  | 'session_not_found'
+  | 'session_expired'
+  | 'max_lifetime_exceeded'
+  | 'invalid_refresh_token'
+  | 'refresh_token_reused';
+
+// Why a session's API key no longer vouches for it
+export type SessionKeyFailure = 'api_key_unusable' | 'widget_disabled';
+
+export type BearerVerificationResult =
+  | { success: true; payload: BearerTokenPayload; session: WidgetSession }
+  | { success: false; rejection: { error: string; code?: string; reason?: SessionBindingFailure | SessionKeyFailure } };
+
+export type RefreshResult =
+  | { success: true; session: WidgetSession; refreshToken: string }
+  | { success: false; reason: RefreshFailureReason };
+
 /**
  * Generate a bearer token for a widget user session
  * This token is returned after successful widget authentication
@@ -42,13 +135,16 @@ export function generateBearerToken(
   sessionId: string,
   custodianId: string,
   userId?: string,
-  expiresIn: string | number = '24h'
+  expiresIn: NonNullable<SignOptions['expiresIn']> = '24h',
+  environment?: 'production' | 'sandbox',
+  permissions: string[] = ALL_WIDGET_PERMISSIONS,
+  apiKeyId?: string
 ): string {
   const payload: BearerTokenPayload = {
     sessionId,
     custodianId,
     type: 'widget_user',
-    permissions: ['widget:read', 'widget:write', 'rollover:create', 'rollover:read']
+    permissions: [...permissions]
   };
 
   // Only add userId if it's defined
@@ -56,54 +152,179 @@ export function generateBearerToken(
     payload.userId = userId;
   }
 
-  // Generate JWT token with expiration
-  const options: any = {
+  // Carry the key environment so later requests can apply sandbox origin rules
+  if (environment) {
+    payload.environment = environment;
+  }
+
+  // Requests made with the token count against this key's rate limit
+  if (apiKeyId) {
+    payload.apiKeyId = apiKeyId;
+  }
+
+  // Generate JWT token with expiration, signed with the active key
+  const token = signToken(payload, {
     expiresIn,
     issuer: 'trustrails-widget',
     audience: 'widget-api'
-  };
-  const token = jwt.sign(payload, JWT_SECRET, options);
+  });
 
   return `${BEARER_TOKEN_PREFIX}${token}`;
 }
 
 /**
- * Verify and decode a bearer token
- * Also validates that the session exists and is not expired
+ * Verify a bearer token's signature and load its session
  */
-export async function verifyBearerToken(token: string): Promise<BearerTokenPayload | null> {
+async function resolveBearerSession(
+  token: string
+): Promise<{ payload: BearerTokenPayload; session: WidgetSession } | null> {
   try {
     // Remove prefix if present
     const actualToken = token.startsWith(BEARER_TOKEN_PREFIX)
       ? token.substring(BEARER_TOKEN_PREFIX.length)
       : token;
 
-    // Verify JWT signature and decode
-    const decoded = jwt.verify(actualToken, JWT_SECRET, {
+    // Verify JWT signature against the key named by its kid, and decode
+    const decoded = verifyToken<BearerTokenPayload>(actualToken, {
       issuer: 'trustrails-widget',
       audience: 'widget-api'
-    }) as BearerTokenPayload;
+    });
 
     // Validate session still exists and is not expired
     const session = await validateWidgetSession(decoded.sessionId);
     if (!session) {
-      console.error('[WIDGET-AUTH] Session not found or expired:', decoded.sessionId);
+      log.warn('Session not found or expired', { sessionId: decoded.sessionId });
       return null;
     }
 
-    // Update last activity timestamp
-    const { adminDb } = requireAdminApp();
-    await adminDb.collection('widget_sessions').doc(decoded.sessionId).update({
-      lastActivityAt: new Date().toISOString()
-    });
-
-    return decoded;
+    return { payload: decoded, session };
   } catch (error) {
-    console.error('[WIDGET-AUTH] Token verification failed:', error);
+    log.error('Token verification failed', error);
     return null;
   }
 }
 
+/**
+ * Verify and decode a bearer token
+ * Also validates that the session exists and is not expired
+ */
+export async function verifyBearerToken(token: string): Promise<BearerTokenPayload | null> {
+  const resolved = await resolveBearerSession(token);
+  if (!resolved) {
+    return null;
+  }
+
+  // Update last activity timestamp
+  const { adminDb } = requireAdminApp();
+  await adminDb.collection('widget_sessions').doc(resolved.payload.sessionId).update({
+    lastActivityAt: new Date().toISOString()
+  });
+
+  return resolved.payload;
+}
+
+/**
+ * Check that the API key that created a session is still usable
+ * Revoking, expiring or deleting the key, or switching the partner's widget
+ * off, ends the session. Sessions that predate apiKeyId are matched by key hash.
+ */
+export function checkSessionKey(
+  session: Pick<WidgetSession, 'apiKeyId' | 'apiKeyHash'>,
+  custodianData: DocumentData | undefined
+): SessionKeyFailure | null {
+  if (!custodianData?.widgetEnabled) {
+    return 'widget_disabled';
+  }
+
+  const apiKeys: any[] = custodianData.integrationConfig?.apiKeys || [];
+  const apiKey = session.apiKeyId
+    ? apiKeys.find(key => key.id === session.apiKeyId)
+    : apiKeys.find(key => key.hashedKey === session.apiKeyHash);
+
+  return apiKey && isAPIKeyUsable(apiKey) ? null : 'api_key_unusable';
+}
+
+/**
+ * Revoke a session whose API key failed checkSessionKey and audit it
+ * Returns the 401 response body.
+ */
+export async function revokeSessionForKey(
+  request: NextRequest,
+  session: Pick<WidgetSession, 'sessionId' | 'custodianId' | 'userId' | 'apiKeyId'>,
+  failure: SessionKeyFailure
+): Promise<{ error: string; code: string; reason: SessionKeyFailure }> {
+  await invalidateWidgetSession(session.sessionId);
+
+  await AuditLogger.logSecurityEvent(
+    'widget_session_key_revoked',
+    AuditSeverity.INFO,
+    `Widget session ended: ${failure}`,
+    session.userId,
+    request,
+    {
+      eventType: SOC2_AUDIT_EVENTS.WIDGET_SESSION_REVOKED,
+      custodianId: session.custodianId,
+      sessionId: session.sessionId,
+      apiKeyId: session.apiKeyId,
+      reason: failure
+    }
+  );
+
+  return {
+    error: 'Session is no longer valid. Please sign in again.',
+    code: 'REAUTH_REQUIRED',
+    reason: failure
+  };
+}
+
+/**
+ * Verify a bearer token for a widget request
+ * Like verifyBearerToken, and also ends sessions whose API key was revoked
+ * (checkSessionKey) and enforces the partner's device binding
+ * (see session-binding.ts). A session used from another device is revoked.
+ */
+export async function verifyBearerTokenForRequest(
+  token: string,
+  request: NextRequest
+): Promise<BearerVerificationResult> {
+  const resolved = await resolveBearerSession(token);
+  if (!resolved) {
+    return { success: false, rejection: { error: 'Invalid or expired bearer token' } };
+  }
+
+  const { payload, session } = resolved;
+  const { adminDb } = requireAdminApp();
+
+  const custodianDoc = await adminDb.collection('custodians').doc(session.custodianId).get();
+
+  const keyFailure = checkSessionKey(session, custodianDoc.data());
+  if (keyFailure) {
+    return { success: false, rejection: await revokeSessionForKey(request, session, keyFailure) };
+  }
+
+  const device = getRequestDevice(request);
+  const failure = checkSessionBinding(session, device, getSessionPolicy(custodianDoc.data()));
+
+  if (failure) {
+    await invalidateWidgetSession(session.sessionId);
+    return { success: false, rejection: await logSessionBindingRejection(request, session, failure) };
+  }
+
+  const now = new Date().toISOString();
+  const update: Record<string, string> = { lastActivityAt: now };
+
+  // First browser use of a server-created session binds it to this device
+  if (!session.deviceBoundAt) {
+    update.ipAddress = device.ipAddress;
+    update.userAgent = device.userAgent;
+    update.deviceBoundAt = now;
+  }
+
+  await adminDb.collection('widget_sessions').doc(session.sessionId).update(update);
+
+  return { success: true, payload, session };
+}
+
 /**
  * Generate a unique session ID
  */
@@ -120,24 +341,33 @@ export async function createWidgetSession(
   ipAddress: string,
   userAgent: string,
   origin: string,
-  userId?: string
+  user?: WidgetSessionUser,
+  environment?: 'production' | 'sandbox',
+  permissions?: string[],
+  apiKeyId?: string,
+  bindDevice: boolean = true // False when ipAddress/userAgent are not the browser's
 ): Promise<WidgetSession> {
   const { adminDb } = requireAdminApp();
 
   const sessionId = generateSessionId();
   const now = new Date();
-  const expiresAt = new Date(now.getTime() + 24 * 60 * 60 * 1000); // 24 hours
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_MS);
 
   const session: WidgetSession = {
     sessionId,
     custodianId,
-    userId,
+    userId: user?.userId,
+    authMethod: user?.authMethod,
     apiKeyHash,
     createdAt: now,
     expiresAt,
     ipAddress,
     userAgent,
-    origin
+    origin,
+    environment,
+    permissions,
+    apiKeyId,
+    deviceBoundAt: bindDevice ? now : undefined
   };
 
   // Store session in Firestore - build document without undefined values
@@ -153,8 +383,26 @@ export async function createWidgetSession(
   };
 
   // Only add userId if it's defined
-  if (userId) {
-    sessionDoc.userId = userId;
+  if (user) {
+    sessionDoc.userId = user.userId;
+    sessionDoc.authMethod = user.authMethod;
+    sessionDoc.authenticatedAt = now.toISOString();
+  }
+
+  if (environment) {
+    sessionDoc.environment = environment;
+  }
+
+  if (permissions) {
+    sessionDoc.permissions = permissions;
+  }
+
+  if (apiKeyId) {
+    sessionDoc.apiKeyId = apiKeyId;
+  }
+
+  if (bindDevice) {
+    sessionDoc.deviceBoundAt = now.toISOString();
   }
 
   await adminDb.collection('widget_sessions').doc(sessionId).set(sessionDoc);
@@ -162,6 +410,117 @@ export async function createWidgetSession(
   return session;
 }
 
+/**
+ * Hash a refresh token for storage on the session document
+ */
+function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generate a new opaque refresh token
+ */
+function generateRefreshToken(): string {
+  return `${REFRESH_TOKEN_PREFIX}${randomBytes(SESSION_TOKEN_LENGTH).toString('base64url')}`;
+}
+
+/**
+ * Issue a refresh token for a session
+ * Only the hash is stored; any previously issued token for the session stops working
+ */
+export async function issueRefreshToken(sessionId: string): Promise<string> {
+  const { adminDb } = requireAdminApp();
+
+  const refreshToken = generateRefreshToken();
+  await adminDb.collection('widget_sessions').doc(sessionId).update({
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    refreshTokenIssuedAt: new Date().toISOString()
+  });
+
+  return refreshToken;
+}
+
+/**
+ * Exchange a refresh token for a new one and extend the session
+ *
+ * Refresh tokens are one-time-use: the presented token is replaced inside a
+ * transaction, so concurrent refreshes with the same token cannot both succeed.
+ * Presenting the token that was just rotated out is treated as token theft and
+ * the whole session is invalidated.
+ */
+export async function rotateRefreshToken(
+  sessionId: string,
+  refreshToken: string
+): Promise<RefreshResult> {
+  const { adminDb } = requireAdminApp();
+  const sessionRef = adminDb.collection('widget_sessions').doc(sessionId);
+  const presentedHash = hashRefreshToken(refreshToken);
+
+  return adminDb.runTransaction(async (transaction): Promise<RefreshResult> => {
+    const sessionDoc = await transaction.get(sessionRef);
+    const sessionData = sessionDoc.data();
+
+    if (!sessionDoc.exists || !sessionData) {
+      return { success: false, reason: 'session_not_found' };
+    }
+
+    const now = new Date();
+    if (new Date(sessionData.expiresAt) < now) {
+      transaction.delete(sessionRef);
+      return { success: false, reason: 'session_expired' };
+    }
+
+    if (sessionData.previousRefreshTokenHash === presentedHash) {
+      // A rotated-out token came back: someone else holds a copy of it
+      transaction.delete(sessionRef);
+      return { success: false, reason: 'refresh_token_reused' };
+    }
+
+    if (!sessionData.refreshTokenHash || sessionData.refreshTokenHash !== presentedHash) {
+      return { success: false, reason: 'invalid_refresh_token' };
+    }
+
+    const createdAt = new Date(sessionData.createdAt);
+    const maxExpiresAt = createdAt.getTime() + SESSION_MAX_LIFETIME_MS;
+    if (maxExpiresAt <= now.getTime()) {
+      return { success: false, reason: 'max_lifetime_exceeded' };
+    }
+
+    const expiresAt = new Date(Math.min(now.getTime() + SESSION_TTL_MS, maxExpiresAt));
+    const newRefreshToken = generateRefreshToken();
+
+    transaction.update(sessionRef, {
+      expiresAt: expiresAt.toISOString(),
+      refreshTokenHash: hashRefreshToken(newRefreshToken),
+      previousRefreshTokenHash: presentedHash,
+      refreshTokenIssuedAt: now.toISOString(),
+      refreshCount: (sessionData.refreshCount || 0) + 1,
+      lastActivityAt: now.toISOString()
+    });
+
+    return {
+      success: true,
+      refreshToken: newRefreshToken,
+      session: {
+        sessionId: sessionData.sessionId,
+        custodianId: sessionData.custodianId,
+        userId: sessionData.userId,
+        authMethod: sessionData.authMethod,
+        apiKeyHash: sessionData.apiKeyHash,
+        createdAt,
+        expiresAt,
+        ipAddress: sessionData.ipAddress,
+        userAgent: sessionData.userAgent,
+        origin: sessionData.origin,
+        environment: sessionData.environment,
+        permissions: sessionData.permissions,
+        apiKeyId: sessionData.apiKeyId,
+        deviceBoundAt: sessionData.deviceBoundAt ? new Date(sessionData.deviceBoundAt) : undefined
+      }
+    };
+  });
+}
+
 /**
  * Validate a widget session
  */
@@ -191,15 +550,72 @@ export async function validateWidgetSession(sessionId: string): Promise<WidgetSe
     sessionId: sessionData.sessionId,
     custodianId: sessionData.custodianId,
     userId: sessionData.userId,
+    authMethod: sessionData.authMethod,
     apiKeyHash: sessionData.apiKeyHash,
     createdAt: new Date(sessionData.createdAt),
     expiresAt: new Date(sessionData.expiresAt),
     ipAddress: sessionData.ipAddress,
     userAgent: sessionData.userAgent,
-    origin: sessionData.origin
+    origin: sessionData.origin,
+    environment: sessionData.environment,
+    permissions: sessionData.permissions,
+    apiKeyId: sessionData.apiKeyId,
+    deviceBoundAt: sessionData.deviceBoundAt ? new Date(sessionData.deviceBoundAt) : undefined,
+    lastActivityAt: sessionData.lastActivityAt ? new Date(sessionData.lastActivityAt) : undefined
   };
 }
 
+/**
+ * Active sessions of a signed-in user, newest first
+ */
+export async function listUserSessions(userId: string): Promise<WidgetSession[]> {
+  const { adminDb } = requireAdminApp();
+
+  const snapshot = await adminDb
+    .collection('widget_sessions')
+    .where('userId', '==', userId)
+    .get();
+
+  const now = new Date();
+  return snapshot.docs
+    .map(doc => doc.data())
+    .filter(sessionData => new Date(sessionData.expiresAt) > now)
+    .map(sessionData => ({
+      sessionId: sessionData.sessionId,
+      custodianId: sessionData.custodianId,
+      userId: sessionData.userId,
+      authMethod: sessionData.authMethod,
+      apiKeyHash: sessionData.apiKeyHash,
+      createdAt: new Date(sessionData.createdAt),
+      expiresAt: new Date(sessionData.expiresAt),
+      ipAddress: sessionData.ipAddress,
+      userAgent: sessionData.userAgent,
+      origin: sessionData.origin,
+      environment: sessionData.environment,
+      permissions: sessionData.permissions,
+      apiKeyId: sessionData.apiKeyId,
+      deviceBoundAt: sessionData.deviceBoundAt ? new Date(sessionData.deviceBoundAt) : undefined,
+      lastActivityAt: sessionData.lastActivityAt ? new Date(sessionData.lastActivityAt) : undefined
+    }))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * User ID of a Firebase ID token, or null when the token is invalid, revoked
+ * or belongs to an account whose email is not verified
+ */
+export async function verifyUserIdToken(idToken: string): Promise<string | null> {
+  const { adminAuth } = requireAdminApp();
+
+  try {
+    const decoded = await adminAuth.verifyIdToken(idToken, true);
+    return decoded.email_verified === true ? decoded.uid : null;
+  } catch (error) {
+    log.warn('User ID token rejected', { code: (error as any)?.code });
+    return null;
+  }
+}
+
 /**
  * Create or get a rollover user from OAuth provider
  */
@@ -264,25 +680,3 @@ export async function invalidateWidgetSession(sessionId: string): Promise<void>
   const { adminDb } = requireAdminApp();
   await adminDb.collection('widget_sessions').doc(sessionId).delete();
 }
-
-/**
- * Clean up expired sessions (run as a scheduled job)
- */
-export async function cleanupExpiredSessions(): Promise<number> {
-  const { adminDb } = requireAdminApp();
-
-  const now = new Date().toISOString();
-  const expiredSessions = await adminDb
-    .collection('widget_sessions')
-    .where('expiresAt', '<', now)
-    .get();
-
-  const batch = adminDb.batch();
-  expiredSessions.forEach(doc => {
-    batch.delete(doc.ref);
-  });
-
-  await batch.commit();
-
-  return expiredSessions.size;
-}
\ No newline at end of file
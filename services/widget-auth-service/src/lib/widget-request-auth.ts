@@ -0,0 +1,190 @@
+/**
+ * Widget Request Authorization
+ *
+ * Every widget route with a bearer token runs the same checks, in order:
+ * bearer token (verifyBearerTokenForRequest), scope, origin allowlist,
+ * partner status and the partner's rate limit for the key that created the
+ * session. authorizeWidgetRequest() runs them all and returns either the
+ * request context or the response to send.
+ *
+ * Session refresh has no bearer token and uses checkPartnerAccess() once it
+ * has loaded the session; signing out uses verifyWidgetBearer() only.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import type { DocumentData } from 'firebase-admin/firestore';
+import {
+  verifyBearerTokenForRequest,
+  type BearerTokenPayload,
+  type WidgetPermission,
+  type WidgetSession
+} from './widget-auth-server';
+import { requireAdminApp } from './firebase-admin';
+import { hasScope, logScopeViolation } from './scope-guard';
+import {
+  buildCorsHeaders,
+  checkOrigin,
+  getAllowedDomains,
+  logOriginRejection,
+  normalizeOrigin
+} from './origin-allowlist';
+import { buildStatusRejection, resolveCustodianStatus } from './custodian-status';
+import {
+  buildRateLimitHeaders,
+  checkTierRateLimit,
+  rateLimitExceededBody,
+  type TierRateLimitResult
+} from './tier-rate-limits';
+
+export interface WidgetCorsOptions {
+  methods: string;
+  allowHeaders: string;
+}
+
+export interface WidgetRequestOptions {
+  scope?: WidgetPermission; // Session management needs only a valid session
+  cors: WidgetCorsOptions;
+}
+
+export interface WidgetRequestContext {
+  payload: BearerTokenPayload;
+  session: WidgetSession;
+  custodianData: DocumentData | undefined;
+  origin: string; // Normalized, allowlisted request origin
+  corsHeaders: Record<string, string>;
+  rateLimit: TierRateLimitResult;
+}
+
+export type WidgetRequestAuthorization =
+  | { success: true; context: WidgetRequestContext }
+  | { success: false; response: NextResponse };
+
+export type BearerAuthorization =
+  | { success: true; payload: BearerTokenPayload; session: WidgetSession }
+  | { success: false; response: NextResponse };
+
+export type PartnerAccessResult =
+  | { success: true; rateLimit: TierRateLimitResult }
+  | { success: false; response: NextResponse };
+
+/**
+ * Verify the Authorization header's bearer token (401 otherwise)
+ */
+export async function verifyWidgetBearer(
+  request: NextRequest,
+  corsHeaders: Record<string, string>
+): Promise<BearerAuthorization> {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return {
+      success: false,
+      response: NextResponse.json(
+        { error: 'Missing or invalid Authorization header' },
+        { status: 401, headers: corsHeaders }
+      )
+    };
+  }
+
+  const verification = await verifyBearerTokenForRequest(authHeader.substring(7), request);
+  if (!verification.success) {
+    return {
+      success: false,
+      response: NextResponse.json(verification.rejection, { status: 401, headers: corsHeaders })
+    };
+  }
+
+  return { success: true, payload: verification.payload, session: verification.session };
+}
+
+/**
+ * Check that the partner is available and count the request against the
+ * rate limit of the session's API key
+ * Suspended partners and maintenance windows switch the widget off.
+ */
+export async function checkPartnerAccess(
+  session: Pick<WidgetSession, 'custodianId' | 'apiKeyId'>,
+  custodianData: DocumentData | undefined,
+  corsHeaders: Record<string, string>
+): Promise<PartnerAccessResult> {
+  const partnerStatus = resolveCustodianStatus(custodianData);
+  if (partnerStatus.status !== 'active') {
+    const rejection = buildStatusRejection(partnerStatus);
+    return {
+      success: false,
+      response: NextResponse.json(rejection.body, {
+        status: rejection.status,
+        headers: { ...corsHeaders, ...rejection.headers }
+      })
+    };
+  }
+
+  const rateLimit = await checkTierRateLimit(session.custodianId, custodianData, session.apiKeyId);
+  if (!rateLimit.success) {
+    return {
+      success: false,
+      response: NextResponse.json(
+        rateLimitExceededBody(rateLimit),
+        { status: 429, headers: { ...corsHeaders, ...buildRateLimitHeaders(rateLimit) } }
+      )
+    };
+  }
+
+  return { success: true, rateLimit };
+}
+
+/**
+ * Run every widget check for a bearer-authenticated request
+ */
+export async function authorizeWidgetRequest(
+  request: NextRequest,
+  { scope, cors }: WidgetRequestOptions
+): Promise<WidgetRequestAuthorization> {
+  // Echo the exact origin, never '*'
+  const corsHeaders = buildCorsHeaders(normalizeOrigin(request.headers.get('origin')), cors.methods, cors.allowHeaders);
+
+  const bearer = await verifyWidgetBearer(request, corsHeaders);
+  if (!bearer.success) {
+    return bearer;
+  }
+  const { payload, session } = bearer;
+
+  // The API key that created the session must grant this scope
+  if (scope && !hasScope(payload, scope)) {
+    const violation = await logScopeViolation(request, payload, scope);
+    return { success: false, response: NextResponse.json(violation, { status: 403, headers: corsHeaders }) };
+  }
+
+  // Enforce the partner's registered embedding domains
+  const { adminDb } = requireAdminApp();
+  const custodianDoc = await adminDb.collection('custodians').doc(session.custodianId).get();
+  const custodianData = custodianDoc.data();
+  const environment = payload.environment ?? null;
+  const originCheck = checkOrigin(request.headers.get('origin'), getAllowedDomains(custodianData), environment);
+  if (!originCheck.allowed) {
+    const rejection = await logOriginRejection(request, session.custodianId, originCheck, environment);
+    return {
+      success: false,
+      response: NextResponse.json(rejection, {
+        status: 403,
+        headers: buildCorsHeaders(null, cors.methods, cors.allowHeaders)
+      })
+    };
+  }
+
+  const access = await checkPartnerAccess(session, custodianData, corsHeaders);
+  if (!access.success) {
+    return access;
+  }
+
+  return {
+    success: true,
+    context: {
+      payload,
+      session,
+      custodianData,
+      origin: originCheck.origin!,
+      corsHeaders,
+      rateLimit: access.rateLimit
+    }
+  };
+}
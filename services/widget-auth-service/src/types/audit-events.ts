@@ -10,15 +10,59 @@ export const SOC2_AUDIT_EVENTS = {
   WIDGET_AUTH_FAILURE: 'widget.auth.failure',
   WIDGET_SESSION_CREATED: 'widget.session.created',
   WIDGET_SESSION_EXPIRED: 'widget.session.expired',
+  WIDGET_SESSION_REFRESHED: 'widget.session.refreshed',
+  WIDGET_SESSION_REFRESH_FAILURE: 'widget.session.refresh.failure',
+  WIDGET_SESSION_REVOKED: 'widget.session.revoked',
+  WIDGET_SESSION_BINDING_FAILED: 'widget.session.binding_failed',
   WIDGET_USER_CREATED: 'widget.user.created',
   WIDGET_USER_LOGIN: 'widget.user.login',
   WIDGET_API_CALL: 'widget.api.call',
+  WIDGET_ORIGIN_REJECTED: 'widget.origin.rejected',
+  WIDGET_SCOPE_VIOLATION: 'widget.scope.violation',
+  WIDGET_OAUTH_VERIFICATION_FAILURE: 'widget.oauth.verification.failure',
+  WIDGET_MAGIC_LINK_SENT: 'widget.magic_link.sent',
+  WIDGET_MAGIC_LINK_FAILURE: 'widget.magic_link.failure',
+  WIDGET_EMAIL_VERIFIED: 'widget.email.verified',
+  WIDGET_ANOMALY_DETECTED: 'widget.anomaly.detected',
+  WIDGET_CHALLENGE_FAILED: 'widget.anomaly.challenge_failed',
+  WIDGET_FINGERPRINT_BLOCKED: 'widget.anomaly.blocked',
+  WIDGET_KYC_REJECTED: 'widget.kyc.rejected',
+
+  // Partner backend API events
+  PARTNER_API_AUTH_FAILURE: 'partner.api.auth.failure',
+  PARTNER_USER_PROVISIONED: 'partner.user.provisioned',
+  PARTNER_SESSION_CREATED: 'partner.session.created',
+
+  // Partner status (kill-switch and maintenance windows)
+  PARTNER_STATUS_CHANGED: 'partner.status.changed',
+  PARTNER_MAINTENANCE_SCHEDULED: 'partner.maintenance.scheduled',
+
+  // Data subject requests (GDPR / CCPA)
+  DATA_SUBJECT_EXPORTED: 'privacy.data_subject.exported',
+  DATA_SUBJECT_ERASED: 'privacy.data_subject.erased',
+
+  // API key management events
+  INTEGRATION_API_KEY_CREATED: 'integration.api_key.created',
+  INTEGRATION_API_KEY_ROTATED: 'integration.api_key.rotated',
+  INTEGRATION_API_KEY_REVOKED: 'integration.api_key.revoked',
+  ADMIN_AUTH_FAILURE: 'admin.auth.failure',
+
+  // Outbound webhook events
+  INTEGRATION_WEBHOOK_CREATED: 'integration.webhook.created',
+  INTEGRATION_WEBHOOK_DELETED: 'integration.webhook.deleted',
+  INTEGRATION_WEBHOOK_FAILED: 'integration.webhook.failed',
+  INTEGRATION_WEBHOOK_REDELIVERED: 'integration.webhook.redelivered',
 
   // Authentication events
   AUTH_LOGIN_SUCCESS: 'auth.login.success',
   AUTH_LOGIN_FAILURE: 'auth.login.failure',
   AUTH_LOGOUT: 'auth.logout',
 
+  // Audit log integrity events
+  AUDIT_CHECKPOINT_CREATED: 'audit.checkpoint.created',
+  AUDIT_CHAIN_VERIFIED: 'audit.chain.verified',
+  AUDIT_CHAIN_INTEGRITY_FAILURE: 'audit.chain.integrity_failure',
+
   // System events
   SYSTEM_ERROR: 'system.error',
 } as const;
@@ -0,0 +1,44 @@
+/**
+ * Outbound partner webhook event definitions
+ */
+
+export const WEBHOOK_EVENTS = {
+  WIDGET_USER_CREATED: 'widget.user.created',
+  WIDGET_SESSION_CREATED: 'widget.session.created',
+  WIDGET_KYC_COMPLETED: 'widget.kyc.completed',
+  WIDGET_PLAN_SELECTED: 'widget.plan.selected',
+} as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[keyof typeof WEBHOOK_EVENTS];
+
+export const ALL_WEBHOOK_EVENTS: WebhookEventType[] = Object.values(WEBHOOK_EVENTS);
+
+// Envelope POSTed to partner endpoints
+export interface WebhookEventPayload {
+  id: string;
+  type: WebhookEventType;
+  created_at: string;
+  custodian_id: string;
+  data: Record<string, any>;
+}
+
+// Stored on the custodian document under integrationConfig.webhooks
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  events: Array<WebhookEventType | '*'>;
+  secret: string;
+  active: boolean;
+  createdAt: string;
+  createdBy?: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'succeeded' | 'dead_lettered';
+
+export interface WebhookDeliveryAttempt {
+  attempt: number;
+  attemptedAt: string;
+  durationMs: number;
+  responseStatus?: number;
+  error?: string;
+}
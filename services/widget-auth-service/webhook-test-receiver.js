@@ -0,0 +1,67 @@
+/**
+ * Local webhook receiver for testing partner webhook deliveries
+ *
+ *   WEBHOOK_SECRET=whsec_... node webhook-test-receiver.js
+ *
+ * Register http://localhost:4010/webhooks via POST /api/partner/v1/webhooks
+ * (plain http to localhost is accepted outside production). Every delivery is
+ * printed with its signature check result.
+ *
+ *   PORT=4010          port to listen on
+ *   FAIL_FIRST=3       answer 500 to the first N deliveries to exercise retries
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = parseInt(process.env.PORT || '4010', 10);
+const SECRET = process.env.WEBHOOK_SECRET;
+let failuresLeft = parseInt(process.env.FAIL_FIRST || '0', 10);
+
+function verify(timestamp, signatureHeader, body) {
+  if (!SECRET || !timestamp || !signatureHeader) return false;
+  if (Math.abs(Date.now() / 1000 - parseInt(timestamp, 10)) > 300) return false;
+
+  const expected = crypto.createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex');
+  const provided = signatureHeader.replace(/^v1=/, '');
+  return provided.length === expected.length &&
+         crypto.timingSafeEqual(Buffer.from(provided), Buffer.from(expected));
+}
+
+http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const signatureValid = verify(
+      req.headers['x-trustrails-timestamp'],
+      req.headers['x-trustrails-signature'],
+      body
+    );
+
+    console.log(`\n${new Date().toISOString()} ${req.method} ${req.url}`);
+    console.log('  event:    ', req.headers['x-trustrails-event']);
+    console.log('  delivery: ', req.headers['x-trustrails-delivery']);
+    console.log('  signature:', SECRET ? (signatureValid ? 'valid' : 'INVALID') : 'not checked (WEBHOOK_SECRET unset)');
+    try {
+      console.log('  payload:  ', JSON.stringify(JSON.parse(body), null, 2).replace(/\n/g, '\n  '));
+    } catch {
+      console.log('  payload:  ', body);
+    }
+
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`  -> 500 (simulated failure, ${failuresLeft} left)`);
+      res.writeHead(500).end('simulated failure');
+      return;
+    }
+
+    if (SECRET && !signatureValid) {
+      res.writeHead(401).end('invalid signature');
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"received":true}');
+  });
+}).listen(PORT, () => {
+  console.log(`Webhook test receiver listening on http://localhost:${PORT}/webhooks`);
+});